@@ -1,53 +1,240 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { useLiveTutor } from './hooks/useLiveTutor';
+import { LIVE_MODEL_NAME, useLiveTutor } from './hooks/useLiveTutor';
+import { useSessionHistory } from './hooks/useSessionHistory';
+import { useReviewDeck } from './hooks/useReviewDeck';
+import { useConversationSummary } from './hooks/useConversationSummary';
+import { useScenario } from './hooks/useScenario';
+import { useTutorSettings } from './hooks/useTutorSettings';
+import { useRecordingPlayback } from './hooks/useRecordingPlayback';
+import { useSpeech } from './hooks/useSpeech';
+import { useShadowingAttempts } from './hooks/useShadowingAttempts';
+import { useShadowingListener } from './hooks/useShadowingListener';
+import { useVocabulary } from './hooks/useVocabulary';
+import { useTopicSuggestions } from './hooks/useTopicSuggestions';
+import { useUsage } from './hooks/useUsage';
 import { AudioVisualizer } from './components/AudioVisualizer';
 import { ChatMessage } from './components/ChatMessage';
-import { Sender, NewsTopic, ProficiencyLevel } from './types';
-import { generateAnalysis, findConversationTopic, generateSpeech } from './services/geminiService';
+import { SessionSidebar } from './components/SessionSidebar';
+import { ReviewScreen } from './components/ReviewScreen';
+import { AnalysisReport } from './components/AnalysisReport';
+import { TextComposer } from './components/TextComposer';
+import { ScenarioPicker } from './components/ScenarioPicker';
+import { ScenarioPanel } from './components/ScenarioPanel';
+import { SettingsPanel } from './components/SettingsPanel';
+import { ExportMenu } from './components/ExportMenu';
+import { ShadowingDrill } from './components/ShadowingDrill';
+import { VocabularyPanel } from './components/VocabularyPanel';
+import { ProgressDashboard } from './components/ProgressDashboard';
+import { TopicPicker } from './components/TopicPicker';
+import { UsagePanel } from './components/UsagePanel';
+import { Sender, NewsTopic, ProficiencyLevel, TopicInterest, AnalysisResult, ConversationSummary, SessionRecord } from './types';
+import { generateAnalysis } from './services/geminiService';
+import { getBudgets, recordUsage, startRequest } from './services/usageService';
+import { buildContext } from './utils/contextBuilder';
+import { coerceSummary } from './utils/summary';
+import { coerceScenarioProgress } from './utils/scenarios';
+import { coerceAnalysis } from './utils/analysis';
+import { coerceTopic } from './utils/topics';
+import { ConnectionState, isSessionActive } from './utils/connection';
+import { downloadBlob } from './utils/download';
+import { ExportFormat, exportSession, parseSessionJson, slugifyTitle } from './utils/exporters';
+import { TutorToolHandlers } from './utils/tutorTools';
+import { budgetNotice } from './utils/usage';
+
+const CONNECTION_STATUS: Record<ConnectionState, { label: string; dot: string }> = {
+  idle: { label: 'Ready to Connect', dot: 'bg-slate-600' },
+  connecting: { label: 'Connecting...', dot: 'bg-yellow-400 animate-pulse' },
+  live: { label: 'Live Tutor Active', dot: 'bg-green-500 animate-pulse' },
+  reconnecting: { label: 'Connection lost, reconnecting...', dot: 'bg-orange-400 animate-ping' },
+  failed: { label: 'Connection failed', dot: 'bg-red-500' },
+  stopped: { label: 'Ready to Connect', dot: 'bg-slate-600' },
+};
+
+// Heard-but-unused words the tutor is asked to work into a new session
+const TARGET_WORDS_PER_SESSION = 6;
 
 // Icons
 const MicIcon = () => <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 11a7 7 0 01-7 7m0 0a7 7 0 01-7-7m7 7v4m0 0H8m4 0h4m-4-8a3 3 0 01-3-3V5a3 3 0 116 0v6a3 3 0 01-3 3z" /></svg>;
 const StopIcon = () => <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 12a9 9 0 11-18 0 9 9 0 0118 0z" /><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 10a1 1 0 011-1h4a1 1 0 011 1v4a1 1 0 01-1 1H9a1 1 0 01-1-1v-4z" /></svg>;
 const BrainIcon = () => <svg className="w-5 h-5 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9.663 17h4.673M12 3v1m6.364 1.636l-.707.707M21 12h-1M4 12H3m3.343-5.657l-.707-.707m2.828 9.9a5 5 0 117.072 0l-.548.547A3.374 3.374 0 0014 18.469V19a2 2 0 11-4 0v-.531c0-.895-.356-1.754-.988-2.386l-.548-.547z" /></svg>;
 const SearchIcon = () => <svg className="w-5 h-5 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" /></svg>;
+const HistoryIcon = () => <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" /></svg>;
+const CardsIcon = () => <svg className="w-5 h-5 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 11H5m14 0a2 2 0 012 2v6a2 2 0 01-2 2H5a2 2 0 01-2-2v-6a2 2 0 012-2m14 0V9a2 2 0 00-2-2M5 11V9a2 2 0 012-2m0 0V5a2 2 0 012-2h6a2 2 0 012 2v2M7 7h10" /></svg>;
+const MasksIcon = () => <svg className="w-5 h-5 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 8h2a2 2 0 012 2v6a2 2 0 01-2 2h-2v4l-4-4H9a1.994 1.994 0 01-1.414-.586m0 0L11 14h4a2 2 0 002-2V6a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2v4l.586-.586z" /></svg>;
+const EchoIcon = () => <svg className="w-5 h-5 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 12h2l2-5 3 10 3-8 2 3h4" /></svg>;
+const BookIcon = () => <svg className="w-5 h-5 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 6.253v13m0-13C10.832 5.477 9.246 5 7.5 5S4.168 5.477 3 6.253v13C4.168 18.477 5.754 18 7.5 18s3.332.477 4.5 1.253m0-13C13.168 5.477 14.754 5 16.5 5c1.747 0 3.332.477 4.5 1.253v13C19.832 18.477 18.247 18 16.5 18c-1.746 0-3.332.477-4.5 1.253" /></svg>;
+const ChartIcon = () => <svg className="w-5 h-5 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 19v-6a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2a2 2 0 002-2zm0 0V9a2 2 0 012-2h2a2 2 0 012 2v10m-6 0a2 2 0 002 2h2a2 2 0 002-2m0 0V5a2 2 0 012-2h2a2 2 0 012 2v14a2 2 0 01-2 2h-2a2 2 0 01-2-2z" /></svg>;
+const CoinIcon = () => <svg className="w-5 h-5 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8c-1.657 0-3 .895-3 2s1.343 2 3 2 3 .895 3 2-1.343 2-3 2m0-8c1.11 0 2.08.402 2.599 1M12 8V7m0 1v8m0 0v1m0-1c-1.11 0-2.08-.402-2.599-1M21 12a9 9 0 11-18 0 9 9 0 0118 0z" /></svg>;
+const SettingsIcon = () => <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10.325 4.317c.426-1.756 2.924-1.756 3.35 0a1.724 1.724 0 002.573 1.066c1.543-.94 3.31.826 2.37 2.37a1.724 1.724 0 001.065 2.572c1.756.426 1.756 2.924 0 3.35a1.724 1.724 0 00-1.066 2.573c.94 1.543-.826 3.31-2.37 2.37a1.724 1.724 0 00-2.572 1.065c-.426 1.756-2.924 1.756-3.35 0a1.724 1.724 0 00-2.573-1.066c-1.543.94-3.31-.826-2.37-2.37a1.724 1.724 0 00-1.065-2.572c-1.756-.426-1.756-2.924 0-3.35a1.724 1.724 0 001.066-2.573c-.94-1.543.826-3.31 2.37-2.37.996.608 2.296.07 2.572-1.065z" /><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" /></svg>;
 const SpeakerIcon = () => <svg className="w-4 h-4 ml-2" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15.536 8.464a5 5 0 010 7.072m2.828-9.9a9 9 0 010 12.728M5.586 15H4a1 1 0 01-1-1v-4a1 1 0 011-1h1.586l4.707-4.707C10.923 3.663 12 4.109 12 5v14c0 .891-1.077 1.337-1.707.707L5.586 15z" /></svg>;
 
 export default function App() {
+  // The summary hook needs the tutor's messages, the tutor reads the summary lazily through this ref
+  const summaryRef = useRef<ConversationSummary | null>(null);
+  // Tool handlers need state declared further down; the tutor reads the latest ones per call
+  const toolHandlersRef = useRef<TutorToolHandlers>({});
+  const { settings, updateSettings } = useTutorSettings();
+  const settingsRef = useRef(settings);
+  settingsRef.current = settings;
   const { 
-    isConnected, 
+    connectionState, 
     start, 
     stop,
     changeLevel, 
+    sendText,
+    recordingId,
+    getRecording,
     messages, 
-    volume, 
+    liveTurns,
+    analysers,
     isSilent,
-    addSystemMessage 
-  } = useLiveTutor();
+    isUserSpeaking,
+    isTutorSpeaking,
+    addSystemMessage,
+    restoreMessages
+  } = useLiveTutor({
+    getSummary: () => summaryRef.current,
+    getSettings: () => settingsRef.current,
+    getToolHandlers: () => toolHandlersRef.current,
+    onUsage: (model, usage) => recordUsage('live', model, usage),
+    withinBudget: () => getBudgets().status !== 'exceeded'
+  });
+
+  const { summary, restoreSummary } = useConversationSummary(messages);
+  summaryRef.current = summary;
+
+  const { scenario, progress: scenarioProgress, selectScenario, completeGoal, restoreProgress } = useScenario(messages);
+
+  const {
+    sessions,
+    activeSessionId,
+    beginSession,
+    importSession,
+    updateSession,
+    renameSession,
+    removeSession,
+    openSession,
+    closeSession
+  } = useSessionHistory();
+
+  const { cards, dueCards, gradeCard, removeCard } = useReviewDeck(messages, activeSessionId);
+  const {
+    settings: usageSettings,
+    updateSettings: updateUsageSettings,
+    today: todayUsage,
+    session: sessionUsage,
+    requests,
+    budgets
+  } = useUsage(activeSessionId);
+  const { progress: shadowingProgress, recordAttempt: recordShadowingAttempt } = useShadowingAttempts();
+  const shadowingListener = useShadowingListener({
+    onUsage: (model, usage) => recordUsage('live', model, usage)
+  });
+  const sessionActive = isSessionActive(connectionState);
+  const connectionStatus = CONNECTION_STATUS[connectionState];
 
   const scrollRef = useRef<HTMLDivElement>(null);
-  const [analysis, setAnalysis] = useState<string | null>(null);
+  const [analysis, setAnalysis] = useState<AnalysisResult | null>(null);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [topic, setTopic] = useState<NewsTopic | null>(null);
-  const [loadingTopic, setLoadingTopic] = useState(false);
+  const [showTopics, setShowTopics] = useState(false);
+  const [interest, setInterest] = useState<TopicInterest>('culture');
   const [level, setLevel] = useState<ProficiencyLevel>('B1');
+  const [showHistory, setShowHistory] = useState(false);
+  const [showReview, setShowReview] = useState(false);
+  const [showScenarios, setShowScenarios] = useState(false);
+  const [showSettings, setShowSettings] = useState(false);
+  const [showShadowing, setShowShadowing] = useState(false);
+  const [showVocabulary, setShowVocabulary] = useState(false);
+  const [showProgress, setShowProgress] = useState(false);
+  const [showUsage, setShowUsage] = useState(false);
+  const [pushVocabulary, setPushVocabulary] = useState(true);
+  const [textOnly, setTextOnly] = useState(false);
+  const [record, setRecord] = useState(false);
+  const { playingId, playSegment, downloadRecording } = useRecordingPlayback(getRecording);
+  const { speech, speak, stop: stopSpeech } = useSpeech(settings.voice, settings.replayRate);
+  const { entries: vocabulary, coverage, wordsToPush } = useVocabulary(messages, level);
+  const { candidates: topicCandidates, isLoading: loadingTopic, isOffline: topicsOffline, suggest: suggestTopics, clear: clearTopics } = useTopicSuggestions();
+  const wasActiveRef = useRef(false);
 
   // Auto-scroll chat
   useEffect(() => {
     if (scrollRef.current) {
       scrollRef.current.scrollTop = scrollRef.current.scrollHeight;
     }
-  }, [messages, analysis]);
+  }, [messages, liveTurns, analysis]);
+
+  // Persist the running conversation into the active session
+  useEffect(() => {
+    if (activeSessionId && messages.length > 0) {
+      updateSession(activeSessionId, { messages });
+    }
+  }, [messages, activeSessionId, updateSession]);
+
+  // Keep the rolling summary with the session so a resumed conversation remembers it
+  useEffect(() => {
+    if (activeSessionId && summary) {
+      updateSession(activeSessionId, { summary });
+    }
+  }, [summary, activeSessionId, updateSession]);
+
+  // Record scenario goals and completion with the session
+  useEffect(() => {
+    if (activeSessionId && scenarioProgress) {
+      updateSession(activeSessionId, { scenario: scenarioProgress });
+    }
+  }, [scenarioProgress, activeSessionId, updateSession]);
+
+  // Record the end time whenever the session ends (reconnects keep it running)
+  useEffect(() => {
+    if (wasActiveRef.current && !sessionActive && activeSessionId) {
+      updateSession(activeSessionId, { endedAt: Date.now() });
+    }
+    wasActiveRef.current = sessionActive;
+  }, [sessionActive, activeSessionId, updateSession]);
+
+  // Tell the learner once whenever a budget gets close or runs out
+  const budgetStatusRef = useRef(budgets.status);
+  useEffect(() => {
+    if (budgets.status === budgetStatusRef.current) return;
+    budgetStatusRef.current = budgets.status;
+    const notice = budgetNotice(budgets);
+    if (notice) addSystemMessage(notice);
+  }, [budgets, addSystemMessage]);
+
+  // Once a budget is used up nothing new is started; tells the learner why and returns true
+  const refuseOverBudget = () => {
+    if (budgets.status !== 'exceeded') return false;
+    addSystemMessage(budgetNotice(budgets)!);
+    return true;
+  };
+
+  // Live sessions don't go through the Gemini service, so they are counted against the rate limit here
+  const refuseLiveRequest = () => {
+    if (refuseOverBudget()) return true;
+    try {
+      startRequest(LIVE_MODEL_NAME);
+      return false;
+    } catch (e) {
+      addSystemMessage((e as Error).message);
+      return true;
+    }
+  };
 
   // Deep Analysis Handler
   const handleAnalyze = async () => {
     if (messages.length === 0) return;
+    if (refuseOverBudget()) return;
     setIsAnalyzing(true);
     setAnalysis(null);
     
     const transcript = messages.map(m => `${m.sender}: ${m.text}`).join('\n');
     try {
-      const result = await generateAnalysis(transcript);
+      const result = await generateAnalysis(transcript, usageSettings.analysisThinkingBudget);
       setAnalysis(result);
+      if (activeSessionId) {
+        updateSession(activeSessionId, { analysis: result });
+      }
     } catch (e) {
       console.error(e);
       addSystemMessage("Analysis failed. Please try again.");
@@ -57,61 +244,187 @@ export default function App() {
   };
 
   // Topic Generation Handler
-  const handleSuggestTopic = async () => {
-    setLoadingTopic(true);
-    setTopic(null);
+  const handleSuggestTopic = () => {
+    setShowTopics(true);
+    suggestTopics(level, interest);
+  };
+
+  const handleInterestChange = (next: TopicInterest) => {
+    setInterest(next);
+    suggestTopics(level, next);
+  };
+
+  const handleChooseTopic = (chosen: NewsTopic) => {
+    setTopic(chosen);
+    setShowTopics(false);
+    clearTopics();
+    if (activeSessionId) {
+      updateSession(activeSessionId, { topic: chosen });
+    }
+    addSystemMessage(`Suggested Topic: ${chosen.title}`);
+  };
+
+  const closeTopics = () => {
+    setShowTopics(false);
+    clearTopics();
+  };
+
+  const topicSpeech = topic ? `${topic.title}. ${topic.summary}` : '';
+
+  const handleStart = async () => {
+    // A replayed message would talk over the tutor
+    stopSpeech();
+    if (refuseLiveRequest()) return;
+    if (!activeSessionId) {
+      await beginSession(level, topic);
+    }
+    const targetWords = pushVocabulary ? wordsToPush.slice(0, TARGET_WORDS_PER_SESSION).map(entry => entry.forms[0]) : [];
+    // Continue an existing conversation (e.g. a reopened session) where it left off
+    const context = buildContext(messages, summary);
+    if (context) {
+      start(level, context, { reason: 'resume', textOnly, scenario, record, targetWords });
+    } else {
+      start(level, '', { textOnly, scenario, record, targetWords });
+    }
+  };
+
+  const handleOpenSession = async (id: string) => {
+    if (id === activeSessionId) {
+      setShowHistory(false);
+      return;
+    }
+    if (sessionActive) await stop();
+    const session = await openSession(id);
+    if (!session) {
+      addSystemMessage("Could not open that session.");
+      return;
+    }
+    showSession(session);
+  };
+
+  const showSession = (session: SessionRecord) => {
+    restoreMessages(session.messages);
+    restoreSummary(coerceSummary(session.summary));
+    restoreProgress(coerceScenarioProgress(session.scenario));
+    setLevel(session.level);
+    setTopic(coerceTopic(session.topic));
+    setAnalysis(coerceAnalysis(session.analysis));
+    setShowHistory(false);
+  };
+
+  const handleExport = (format: ExportFormat) => {
+    const stored = sessions.find(s => s.id === activeSessionId);
+    // The visible state is the freshest; the stored record only adds title and timing
+    const session: SessionRecord = {
+      ...(stored ?? {
+        id: 'unsaved',
+        title: `Gespräch ${level}`,
+        level,
+        startedAt: messages[0]?.timestamp ?? Date.now(),
+      }),
+      messages,
+      ...(analysis ? { analysis } : {}),
+      ...(summary ? { summary } : {}),
+      ...(scenarioProgress ? { scenario: scenarioProgress } : {}),
+      ...(topic ? { topic } : {}),
+    };
+
+    const file = exportSession(session, format);
+    downloadBlob(new Blob([file.content], { type: `${file.mimeType};charset=utf-8` }), file.filename);
+  };
+
+  const handleImport = async (file: File) => {
     try {
-      const newTopic = await findConversationTopic();
-      if (newTopic) {
-        setTopic(newTopic);
-        addSystemMessage(`Suggested Topic: ${newTopic.title}`);
-      }
+      const imported = parseSessionJson(await file.text());
+      if (sessionActive) await stop();
+      showSession(await importSession(imported));
+      addSystemMessage(`Imported "${imported.title}".`);
     } catch (e) {
-      addSystemMessage("Could not find a topic.");
-    } finally {
-      setLoadingTopic(false);
+      console.warn("Could not import session", e);
+      addSystemMessage(`Could not import the file. ${e instanceof Error ? e.message : ''}`.trim());
     }
   };
 
-  // TTS for Topic
-  const readTopic = async () => {
-    if (!topic) return;
-    const buffer = await generateSpeech(`${topic.title}. ${topic.summary}`);
-    if (buffer) {
-      const ctx = new AudioContext();
-      const source = ctx.createBufferSource();
-      source.buffer = await ctx.decodeAudioData(buffer);
-      source.connect(ctx.destination);
-      source.start();
-    }
+  const handleNewSession = async () => {
+    if (sessionActive) await stop();
+    closeSession();
+    restoreMessages([]);
+    restoreSummary(null);
+    restoreProgress(null);
+    setTopic(null);
+    setAnalysis(null);
+    setShowHistory(false);
   };
 
-  const handleStart = () => {
-    start(level);
+  const handleSelectScenario = (id: string | null) => {
+    selectScenario(id);
+    setShowScenarios(false);
   };
 
-  const handleLevelChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
-    const newLevel = e.target.value as ProficiencyLevel;
+  const switchLevel = (newLevel: ProficiencyLevel) => {
     console.log("Level selection changed to:", newLevel);
     setLevel(newLevel);
-    if (isConnected) {
+    if (sessionActive) {
       changeLevel(newLevel);
     }
   };
 
+  const handleLevelChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    switchLevel(e.target.value as ProficiencyLevel);
+  };
+
+  // What the tutor's function calls do here; corrections and words reach the deck and lexicon from their cards
+  toolHandlersRef.current = {
+    record_correction: () => 'Saved to the review deck.',
+    add_vocabulary: ({ word }) => `Added "${word}" to the vocabulary list.`,
+    set_topic: ({ title, summary: topicSummary, questions }) => {
+      const next: NewsTopic = { title, summary: topicSummary, level, ...(questions.length ? { questions } : {}) };
+      setTopic(next);
+      if (activeSessionId) {
+        updateSession(activeSessionId, { topic: next });
+      }
+      return `The topic card now shows "${title}".`;
+    },
+    complete_scenario_goal: ({ goalId }) => {
+      if (!scenario) throw new Error("No role-play is running.");
+      const goal = scenario.goals.find(g => g.id === goalId);
+      if (!goal) throw new Error(`There is no goal "${goalId}". The goals are: ${scenario.goals.map(g => g.id).join(', ')}.`);
+      completeGoal(goal.id);
+      return `Ticked off "${goal.label}".`;
+    },
+    suggest_level_change: ({ level: suggested }) => {
+      if (suggested === level) throw new Error(`The user is already at ${level}.`);
+      return `Shown to the user, who decides whether to switch to ${suggested}.`;
+    },
+  };
+
   return (
     <div className="flex flex-col h-screen max-w-4xl mx-auto bg-slate-950 shadow-2xl overflow-hidden relative">
       {/* Header */}
       <header className="p-4 bg-slate-900 border-b border-slate-800 flex flex-col sm:flex-row sm:justify-between items-center z-10 gap-4">
         <div className="flex items-center space-x-3">
+          <button
+            onClick={() => setShowHistory(true)}
+            className="p-2 text-slate-400 hover:text-white hover:bg-slate-800 rounded-md transition-colors"
+            title="Session history"
+          >
+            <HistoryIcon />
+          </button>
+          <button
+            onClick={() => setShowSettings(true)}
+            className="p-2 text-slate-400 hover:text-white hover:bg-slate-800 rounded-md transition-colors"
+            title="Tutor settings"
+          >
+            <SettingsIcon />
+          </button>
           <div className="w-10 h-10 rounded-full bg-gradient-to-br from-blue-500 to-indigo-600 flex items-center justify-center text-white font-bold text-xl shadow-lg">
             DF
           </div>
           <div>
             <h1 className="text-lg font-bold text-white leading-tight">DeutschFlow</h1>
             <p className="text-xs text-slate-400 flex items-center">
-              <span className={`w-2 h-2 rounded-full mr-2 ${isConnected ? 'bg-green-500 animate-pulse' : 'bg-slate-600'}`}></span>
-              {isConnected ? 'Live Tutor Active' : 'Ready to Connect'}
+              <span className={`w-2 h-2 rounded-full mr-2 ${connectionStatus.dot}`}></span>
+              {connectionStatus.label}
             </p>
           </div>
         </div>
@@ -139,6 +452,74 @@ export default function App() {
             <span className="hidden sm:inline">{loadingTopic ? 'Searching...' : 'Topic'}</span>
           </button>
           
+          <button
+            onClick={() => setShowScenarios(true)}
+            disabled={sessionActive}
+            className="px-3 py-2 bg-slate-800 hover:bg-slate-700 text-slate-300 text-xs rounded-md transition-colors flex items-center border border-slate-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            title={sessionActive ? 'End the session to pick a role-play' : 'Pick a role-play scenario'}
+          >
+            <MasksIcon />
+            <span className="hidden sm:inline">Role-play</span>
+          </button>
+
+          <button
+            onClick={() => setShowReview(true)}
+            className="px-3 py-2 bg-slate-800 hover:bg-slate-700 text-slate-300 text-xs rounded-md transition-colors flex items-center border border-slate-700"
+            title="Review your mistakes"
+          >
+            <CardsIcon />
+            <span className="hidden sm:inline">Review</span>
+            {dueCards.length > 0 && (
+              <span className="ml-1.5 px-1.5 rounded-full bg-yellow-500 text-slate-900 text-[10px] font-bold">{dueCards.length}</span>
+            )}
+          </button>
+
+          <button
+            onClick={() => setShowShadowing(true)}
+            disabled={sessionActive}
+            className="px-3 py-2 bg-slate-800 hover:bg-slate-700 text-slate-300 text-xs rounded-md transition-colors flex items-center border border-slate-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            title={sessionActive ? 'End the session to practise shadowing' : 'Listen to a sentence and repeat it'}
+          >
+            <EchoIcon />
+            <span className="hidden sm:inline">Shadowing</span>
+          </button>
+
+          <button
+            onClick={() => setShowVocabulary(true)}
+            className="px-3 py-2 bg-slate-800 hover:bg-slate-700 text-slate-300 text-xs rounded-md transition-colors flex items-center border border-slate-700"
+            title="Words you use and words to try"
+          >
+            <BookIcon />
+            <span className="hidden sm:inline">Words</span>
+          </button>
+
+          <button
+            onClick={() => setShowProgress(true)}
+            className="px-3 py-2 bg-slate-800 hover:bg-slate-700 text-slate-300 text-xs rounded-md transition-colors flex items-center border border-slate-700"
+            title="Your progress over time"
+          >
+            <ChartIcon />
+            <span className="hidden sm:inline">Progress</span>
+          </button>
+
+          <button
+            onClick={() => setShowUsage(true)}
+            className="relative px-3 py-2 bg-slate-800 hover:bg-slate-700 text-slate-300 text-xs rounded-md transition-colors flex items-center border border-slate-700"
+            title="Token usage and cost"
+          >
+            <CoinIcon />
+            <span className="hidden sm:inline">Usage</span>
+            {budgets.status !== 'ok' && (
+              <span className={`absolute -top-1 -right-1 w-2.5 h-2.5 rounded-full ${budgets.status === 'exceeded' ? 'bg-red-500' : 'bg-amber-400'}`} />
+            )}
+          </button>
+
+          <ExportMenu
+            canExport={messages.some(m => m.sender !== Sender.SYSTEM)}
+            onExport={handleExport}
+            onImport={handleImport}
+          />
+
           <button 
             onClick={handleAnalyze}
             disabled={isAnalyzing || messages.length === 0}
@@ -151,36 +532,172 @@ export default function App() {
         </div>
       </header>
 
+      {showHistory && (
+        <SessionSidebar
+          sessions={sessions}
+          activeSessionId={activeSessionId}
+          onOpen={handleOpenSession}
+          onRename={renameSession}
+          onDelete={removeSession}
+          onNew={handleNewSession}
+          onClose={() => setShowHistory(false)}
+        />
+      )}
+
+      {showSettings && (
+        <SettingsPanel
+          settings={settings}
+          sessionActive={sessionActive}
+          onChange={updateSettings}
+          onClose={() => setShowSettings(false)}
+        />
+      )}
+
+      {showScenarios && (
+        <ScenarioPicker
+          level={level}
+          tutorName={settings.tutorName}
+          selectedId={scenario?.id ?? null}
+          onSelect={handleSelectScenario}
+          onClose={() => setShowScenarios(false)}
+        />
+      )}
+
+      {showShadowing && (
+        <ShadowingDrill
+          level={level}
+          voice={settings.voice}
+          progress={shadowingProgress}
+          onAttempt={recordShadowingAttempt}
+          onListen={() => (refuseLiveRequest() ? Promise.resolve(null) : shadowingListener.listen())}
+          onStopListening={shadowingListener.stop}
+          isListening={shadowingListener.isListening}
+          listenError={shadowingListener.error}
+          onClose={() => setShowShadowing(false)}
+        />
+      )}
+
+      {showVocabulary && (
+        <VocabularyPanel
+          entries={vocabulary}
+          coverage={coverage}
+          wordsToPush={wordsToPush}
+          pushWords={pushVocabulary}
+          onPushWordsChange={setPushVocabulary}
+          onClose={() => setShowVocabulary(false)}
+        />
+      )}
+
+      {showUsage && (
+        <UsagePanel
+          today={todayUsage}
+          session={sessionUsage}
+          requests={requests}
+          budgets={budgets}
+          settings={usageSettings}
+          onChange={updateUsageSettings}
+          onClose={() => setShowUsage(false)}
+        />
+      )}
+
+      {showProgress && (
+        <ProgressDashboard
+          sessions={sessions}
+          onClose={() => setShowProgress(false)}
+        />
+      )}
+
+      {showReview && (
+        <ReviewScreen
+          dueCards={dueCards}
+          totalCards={cards.length}
+          onGrade={gradeCard}
+          onDelete={removeCard}
+          onClose={() => setShowReview(false)}
+        />
+      )}
+
       {/* Main Chat Area */}
       <main className="flex-1 overflow-y-auto p-4 bg-gradient-to-b from-slate-950 to-slate-900 scrollbar-hide" ref={scrollRef}>
         <div className="max-w-2xl mx-auto">
           {/* Welcome / Empty State */}
-          {messages.length === 0 && !topic && (
+          {messages.length === 0 && !topic && !scenario && !showTopics && (
             <div className="text-center mt-20 opacity-50">
               <p className="text-slate-500 text-lg mb-4">Start a conversation to improve your German.</p>
               <p className="text-slate-600 text-sm">Select your level: <span className="text-blue-400 font-bold">{level}</span></p>
             </div>
           )}
 
+          {showTopics && (
+            <TopicPicker
+              level={level}
+              interest={interest}
+              candidates={topicCandidates}
+              isLoading={loadingTopic}
+              isOffline={topicsOffline}
+              onInterestChange={handleInterestChange}
+              onChoose={handleChooseTopic}
+              onClose={closeTopics}
+            />
+          )}
+
           {/* Suggested Topic Card */}
           {topic && (
             <div className="mb-6 p-4 bg-slate-800/50 border border-indigo-500/30 rounded-xl shadow-lg">
               <div className="flex justify-between items-start">
                 <h3 className="text-indigo-400 font-bold mb-2 text-lg">{topic.title}</h3>
-                <button onClick={readTopic} className="text-slate-400 hover:text-white"><SpeakerIcon /></button>
+                <button
+                  onClick={() => speak(topicSpeech)}
+                  className={`hover:text-white ${speech?.text === topicSpeech ? 'text-white animate-pulse' : 'text-slate-400'}`}
+                  title={speech?.text === topicSpeech ? 'Stop' : 'Read aloud'}
+                >
+                  <SpeakerIcon />
+                </button>
               </div>
               <p className="text-slate-300 text-sm mb-3">{topic.summary}</p>
-              <a href={topic.url} target="_blank" rel="noreferrer" className="text-xs text-blue-400 hover:underline">Read more on Google</a>
+              {topic.questions && topic.questions.length > 0 && (
+                <ul className="text-sm text-slate-300 mb-3 list-disc list-inside space-y-0.5">
+                  {topic.questions.map(question => <li key={question}>{question}</li>)}
+                </ul>
+              )}
+              {topic.vocabulary && topic.vocabulary.length > 0 && (
+                <div className="flex flex-wrap gap-1.5 mb-3">
+                  {topic.vocabulary.map(word => (
+                    <span key={word} className="px-2 py-0.5 text-[11px] rounded-md bg-slate-900 border border-slate-700 text-slate-300">{word}</span>
+                  ))}
+                </div>
+              )}
+              {topic.url && (
+                <a href={topic.url} target="_blank" rel="noreferrer" className="text-xs text-blue-400 hover:underline">Read more</a>
+              )}
             </div>
           )}
 
-          {/* Chat Messages */}
-          {messages.map((msg) => (
-            <ChatMessage key={msg.id} message={msg} />
+          {/* Role-play goals */}
+          {scenario && scenarioProgress && (
+            <ScenarioPanel
+              scenario={scenario}
+              progress={scenarioProgress}
+              onLeave={sessionActive ? undefined : () => selectScenario(null)}
+            />
+          )}
+
+          {/* Chat Messages, then live captions (one list, so a caption turns into its message in place) */}
+          {[...messages, ...liveTurns].map((msg) => (
+            <ChatMessage
+              key={msg.id}
+              message={msg}
+              onPlayAudio={msg.audio && msg.audio.recordingId === recordingId ? () => playSegment(msg.id, msg.audio!) : undefined}
+              isPlayingAudio={playingId === msg.id}
+              onSpeak={speak}
+              speech={speech}
+              onSwitchLevel={switchLevel}
+              currentLevel={level}
+            />
           ))}
 
           {/* Silence Warning */}
-          {isSilent && isConnected && (
+          {isSilent && connectionState === 'live' && (
             <div className="flex justify-center my-4 animate-bounce">
                <div className="bg-yellow-900/50 text-yellow-200 text-xs px-4 py-2 rounded-full border border-yellow-700 flex items-center">
                  <span className="mr-2">🎤</span> The tutor is waiting for you... (Say something or click Suggest Topic)
@@ -190,21 +707,10 @@ export default function App() {
 
           {/* Analysis Result */}
           {analysis && (
-            <div className="mt-8 p-6 bg-slate-900 border border-indigo-500/50 rounded-2xl shadow-2xl mb-8">
-              <h2 className="text-xl font-bold text-white mb-4 flex items-center">
-                <BrainIcon /> Conversation Analysis
-              </h2>
-              <div className="prose prose-invert prose-sm max-w-none">
-                <div dangerouslySetInnerHTML={{ 
-                   __html: analysis.replace(/\*\*(.*?)\*\*/g, '<strong class="text-indigo-300">$1</strong>')
-                                   .replace(/\n/g, '<br/>') 
-                }} />
-              </div>
-              <button onClick={() => setAnalysis(null)} className="mt-4 text-xs text-slate-500 hover:text-white underline">Close Report</button>
-            </div>
+            <AnalysisReport analysis={analysis} onClose={() => setAnalysis(null)} />
           )}
           
-          <div className="h-24"></div> {/* Spacer for controls */}
+          <div className="h-40"></div> {/* Spacer for controls */}
         </div>
       </main>
 
@@ -214,19 +720,27 @@ export default function App() {
           
           {/* Visualizer */}
           <div className="w-full">
-            <AudioVisualizer volume={volume} isActive={isConnected} />
+            <AudioVisualizer
+              analysers={analysers}
+              isActive={sessionActive}
+              isUserSpeaking={isUserSpeaking}
+              isTutorSpeaking={isTutorSpeaking}
+            />
           </div>
 
+          {/* Typed turns go into the same live session */}
+          <TextComposer onSend={sendText} disabled={connectionState !== 'live'} />
+
           {/* Main Button */}
-          <div className="flex justify-center items-center">
-            {!isConnected ? (
+          <div className="flex justify-center items-center gap-4">
+            {!sessionActive ? (
               <button
                 onClick={handleStart}
                 className="group relative flex items-center justify-center px-8 py-4 bg-green-600 hover:bg-green-500 text-white rounded-full font-bold text-lg transition-all shadow-[0_0_20px_rgba(74,222,128,0.3)] hover:shadow-[0_0_30px_rgba(74,222,128,0.5)]"
               >
                 <span className="absolute w-full h-full rounded-full bg-green-400 opacity-20 animate-ping group-hover:opacity-40"></span>
                 <MicIcon />
-                <span className="ml-2">Start Conversation ({level})</span>
+                <span className="ml-2">{messages.some(m => m.sender !== Sender.SYSTEM) ? 'Resume' : 'Start'} Conversation ({level})</span>
               </button>
             ) : (
               <button
@@ -237,6 +751,37 @@ export default function App() {
                 <span className="ml-2">End Session</span>
               </button>
             )}
+            {!sessionActive && (
+              <label className="flex items-center text-xs text-slate-400 cursor-pointer select-none" title="No microphone needed, the tutor still answers out loud">
+                <input
+                  type="checkbox"
+                  checked={textOnly}
+                  onChange={e => setTextOnly(e.target.checked)}
+                  className="mr-2 accent-blue-500"
+                />
+                Text only
+              </label>
+            )}
+            {!sessionActive && (
+              <label className="flex items-center text-xs text-slate-400 cursor-pointer select-none" title="Record your voice and the tutor to listen back">
+                <input
+                  type="checkbox"
+                  checked={record}
+                  onChange={e => setRecord(e.target.checked)}
+                  className="mr-2 accent-red-500"
+                />
+                Record
+              </label>
+            )}
+            {recordingId && (
+              <button
+                onClick={() => downloadRecording(`${slugifyTitle(sessions.find(s => s.id === activeSessionId)?.title ?? 'session')}.wav`)}
+                className="text-xs text-slate-400 hover:text-white underline-offset-2 hover:underline"
+                title="Download the recording as a WAV file"
+              >
+                ⬇ Recording
+              </button>
+            )}
           </div>
         </div>
       </footer>
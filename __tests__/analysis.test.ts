@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest';
+import { parseAnalysis, validateAnalysis, coerceAnalysis, groupErrorsByCategory } from '../utils/analysis';
+
+const report = {
+  estimatedLevel: 'B1',
+  summary: 'Sehr gut!',
+  errors: [
+    { category: 'Kasus', original: 'mit der Mann', corrected: 'mit dem Mann', explanation: 'mit + Dativ' },
+    { category: 'Artikel', original: 'der Mädchen', corrected: 'das Mädchen', explanation: 'neutral' },
+    { category: 'Kasus', original: 'für dem Kind', corrected: 'für das Kind', explanation: 'für + Akkusativ' },
+  ],
+  strengths: ['Flüssige Aussprache'],
+  nextSteps: ['Dativ-Präpositionen üben'],
+};
+
+describe('Analysis Report', () => {
+  describe('parseAnalysis', () => {
+    it('should parse a valid JSON report', () => {
+      const result = parseAnalysis(JSON.stringify(report));
+
+      expect(result.rawText).toBeUndefined();
+      expect(result.estimatedLevel).toBe('B1');
+      expect(result.errors).toHaveLength(3);
+      expect(result.strengths).toEqual(['Flüssige Aussprache']);
+    });
+
+    it('should accept a fenced JSON block', () => {
+      const result = parseAnalysis('```json\n' + JSON.stringify(report) + '\n```');
+      expect(result.errors).toHaveLength(3);
+    });
+
+    it('should fall back to the raw text for invalid JSON', () => {
+      const result = parseAnalysis('## Analyse\nDu hast **gut** gesprochen.');
+
+      expect(result.rawText).toBe('## Analyse\nDu hast **gut** gesprochen.');
+      expect(result.errors).toEqual([]);
+      expect(result.estimatedLevel).toBeNull();
+    });
+
+    it('should fall back for JSON that is not a report', () => {
+      expect(parseAnalysis('[1, 2, 3]').rawText).toBe('[1, 2, 3]');
+      expect(parseAnalysis('{"foo": 1}').rawText).toBe('{"foo": 1}');
+      expect(parseAnalysis('').rawText).toBeTruthy();
+    });
+  });
+
+  describe('validateAnalysis', () => {
+    it('should coerce unknown values and drop incomplete errors', () => {
+      const result = validateAnalysis({
+        estimatedLevel: 'b2+',
+        errors: [
+          { category: 'praepositionen', original: 'a', corrected: 'b' },
+          { category: 'PRÄPOSITIONEN', original: 'in die Schule gehen', corrected: 'zur Schule gehen' },
+          { category: 'Kasus', original: 'only original' },
+          'not an object',
+        ],
+        strengths: ['ok', 42, ''],
+      });
+
+      expect(result).not.toBeNull();
+      expect(result!.estimatedLevel).toBe('B2');
+      expect(result!.errors.map(e => e.category)).toEqual(['Sonstiges', 'Präpositionen']);
+      expect(result!.errors[0].explanation).toBe('');
+      expect(result!.strengths).toEqual(['ok']);
+      expect(result!.nextSteps).toEqual([]);
+    });
+
+    it('should reject an invalid CEFR level', () => {
+      expect(validateAnalysis({ ...report, estimatedLevel: 'Z9' })!.estimatedLevel).toBeNull();
+    });
+  });
+
+  describe('coerceAnalysis', () => {
+    it('should convert legacy markdown records', () => {
+      expect(coerceAnalysis({ markdown: '**Gut**' })!.rawText).toBe('**Gut**');
+    });
+
+    it('should keep stored structured reports', () => {
+      expect(coerceAnalysis(report)!.errors).toHaveLength(3);
+      expect(coerceAnalysis(undefined)).toBeNull();
+    });
+  });
+
+  describe('groupErrorsByCategory', () => {
+    it('should group errors in category order', () => {
+      const groups = groupErrorsByCategory(parseAnalysis(JSON.stringify(report)).errors);
+
+      expect(groups.map(([category, errors]) => [category, errors.length])).toEqual([
+        ['Kasus', 2],
+        ['Artikel', 1],
+      ]);
+    });
+  });
+});
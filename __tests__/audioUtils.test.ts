@@ -1,24 +1,89 @@
 import { describe, it, expect } from 'vitest';
-import { downsampleBuffer, base64ToUint8Array, uint8ArrayToBase64 } from '../utils/audioUtils';
+import { resampleBuffer, Resampler, base64ToUint8Array, uint8ArrayToBase64, encodeWav, floatTo16BitPcm, pcmToInt16, decodeAudioData } from '../utils/audioUtils';
 
 describe('Audio Utilities', () => {
-  describe('downsampleBuffer', () => {
+  describe('resampleBuffer', () => {
+    const sine = (frequency: number, sampleRate: number, length: number) =>
+      Float32Array.from({ length }, (_, i) => Math.sin((2 * Math.PI * frequency * i) / sampleRate));
+
+    // RMS over the middle half, away from edge effects
+    const centerRms = (buffer: Float32Array) => {
+      const from = Math.floor(buffer.length / 4);
+      const to = Math.floor((buffer.length * 3) / 4);
+      let sum = 0;
+      for (let i = from; i < to; i++) sum += buffer[i] * buffer[i];
+      return Math.sqrt(sum / (to - from));
+    };
+
     it('should return original buffer if rates match', () => {
       const input = new Float32Array([1, 2, 3]);
-      const output = downsampleBuffer(input, 16000, 16000);
+      const output = resampleBuffer(input, 16000, 16000);
       expect(output).toEqual(input);
     });
 
     it('should downsample by factor of 2', () => {
-      // Input: 4 samples, Rate 32000
-      // Target: Rate 16000
-      // Expected: 2 samples (average of pairs)
-      const input = new Float32Array([1.0, 1.0, 0.5, 0.5]);
-      const output = downsampleBuffer(input, 32000, 16000);
+      // A constant signal must keep its level after filtering
+      const input = new Float32Array(64).fill(0.5);
+      const output = resampleBuffer(input, 32000, 16000);
       
-      expect(output.length).toBe(2);
-      expect(output[0]).toBeCloseTo(1.0);
-      expect(output[1]).toBeCloseTo(0.5);
+      expect(output.length).toBe(32);
+      output.forEach(sample => expect(sample).toBeCloseTo(0.5, 5));
+    });
+
+    it('should produce ceil(length * ratio) samples for common rates', () => {
+      const cases: [number, number, number][] = [
+        [48000, 16000, 4800],
+        [44100, 16000, 4410],
+        [44100, 16000, 1001],
+        [22050, 16000, 777],
+        [8000, 16000, 800],
+        [11025, 16000, 333],
+      ];
+      for (const [from, to, length] of cases) {
+        const output = resampleBuffer(new Float32Array(length), from, to);
+        expect(output.length).toBe(Math.ceil((length * to) / from));
+      }
+    });
+
+    it('should pass in-band speech frequencies unchanged', () => {
+      const output = resampleBuffer(sine(1000, 48000, 4800), 48000, 16000);
+      expect(centerRms(output)).toBeCloseTo(Math.SQRT1_2, 2);
+    });
+
+    it('should reject frequencies above the target Nyquist instead of aliasing', () => {
+      // 12 kHz would alias to 4 kHz with a naive decimator
+      const output = resampleBuffer(sine(12000, 48000, 4800), 48000, 16000);
+      expect(centerRms(output)).toBeLessThan(0.001);
+
+      const nearNyquist = resampleBuffer(sine(9500, 44100, 4410), 44100, 16000);
+      expect(centerRms(nearNyquist)).toBeLessThan(0.01);
+    });
+
+    it('should upsample without changing the tone', () => {
+      const input = sine(1000, 8000, 800);
+      const output = resampleBuffer(input, 8000, 16000);
+
+      expect(output.length).toBe(1600);
+      expect(centerRms(output)).toBeCloseTo(Math.SQRT1_2, 2);
+      // Every other output sample lines up with an input sample
+      expect(output[800]).toBeCloseTo(input[400], 2);
+    });
+  });
+
+  describe('Resampler', () => {
+    it('should give the same result when fed in chunks', () => {
+      const input = Float32Array.from({ length: 3000 }, (_, i) => Math.sin(i / 7) * 0.8);
+      const whole = resampleBuffer(input, 44100, 16000);
+
+      const resampler = new Resampler(44100, 16000);
+      const parts: number[] = [];
+      for (let i = 0; i < input.length; i += 1764) {
+        parts.push(...resampler.process(input.subarray(i, i + 1764)));
+      }
+      parts.push(...resampler.flush());
+
+      expect(parts.length).toBe(whole.length);
+      parts.forEach((sample, i) => expect(sample).toBeCloseTo(whole[i], 6));
     });
   });
 
@@ -34,4 +99,72 @@ describe('Audio Utilities', () => {
       expect(output[2]).toBe(255);
     });
   });
-});
\ No newline at end of file
+
+  describe('PCM Decoding', () => {
+    const fakeContext = () => ({
+      createBuffer: (channels: number, length: number, sampleRate: number) => {
+        const data = Array.from({ length: channels }, () => new Float32Array(length));
+        return { length, sampleRate, getChannelData: (channel: number) => data[channel] };
+      },
+    }) as unknown as AudioContext;
+
+    it('should only read the bytes of the view, not the whole buffer', () => {
+      const buffer = new Uint8Array([0xaa, 0xaa, 0x01, 0x00, 0xff, 0x7f, 0xbb, 0xbb]).buffer;
+      expect(Array.from(pcmToInt16(new Uint8Array(buffer, 2, 4)))).toEqual([1, 32767]);
+    });
+
+    it('should drop a trailing odd byte and copy unaligned views', () => {
+      expect(Array.from(pcmToInt16(Uint8Array.from([0x02, 0x00, 0x05])))).toEqual([2]);
+      const unaligned = new Uint8Array(Uint8Array.from([0x00, 0x00, 0x80, 0x07]).buffer, 1, 3);
+      expect(Array.from(pcmToInt16(unaligned))).toEqual([-32768]);
+    });
+
+    it('should decode raw PCM into a buffer at the source rate', async () => {
+      const pcm = new Uint8Array(encodeWav(Int16Array.from([16384, -32768]), 24000).buffer, 44);
+      const audio = await decodeAudioData(pcm, fakeContext(), 24000);
+
+      expect(audio.length).toBe(2);
+      expect(audio.sampleRate).toBe(24000);
+      expect(Array.from(audio.getChannelData(0))).toEqual([0.5, -1]);
+    });
+  });
+
+  describe('WAV Encoding', () => {
+    const ascii = (bytes: Uint8Array, from: number, length: number) =>
+      String.fromCharCode(...bytes.slice(from, from + length));
+
+    it('should write a 44-byte PCM header', () => {
+      const wav = encodeWav(new Int16Array(10), 24000);
+      const view = new DataView(wav.buffer);
+
+      expect(wav.length).toBe(44 + 20);
+      expect(ascii(wav, 0, 4)).toBe('RIFF');
+      expect(view.getUint32(4, true)).toBe(36 + 20);
+      expect(ascii(wav, 8, 8)).toBe('WAVEfmt ');
+      expect(view.getUint16(20, true)).toBe(1);
+      expect(view.getUint16(22, true)).toBe(1);
+      expect(view.getUint32(24, true)).toBe(24000);
+      expect(view.getUint32(28, true)).toBe(48000);
+      expect(view.getUint16(32, true)).toBe(2);
+      expect(view.getUint16(34, true)).toBe(16);
+      expect(ascii(wav, 36, 4)).toBe('data');
+      expect(view.getUint32(40, true)).toBe(20);
+    });
+
+    it('should store samples little-endian', () => {
+      const wav = encodeWav(Int16Array.from([1, -2, 32767, -32768]), 16000);
+      expect(Array.from(wav.slice(44))).toEqual([0x01, 0x00, 0xfe, 0xff, 0xff, 0x7f, 0x00, 0x80]);
+    });
+
+    it('should describe stereo audio', () => {
+      const view = new DataView(encodeWav(new Int16Array(8), 48000, 2).buffer);
+      expect(view.getUint16(22, true)).toBe(2);
+      expect(view.getUint32(28, true)).toBe(192000);
+      expect(view.getUint16(32, true)).toBe(4);
+    });
+
+    it('should clamp float samples when converting to 16-bit', () => {
+      expect(Array.from(floatTo16BitPcm(Float32Array.from([0, 1, -1, 2, -2])))).toEqual([0, 32767, -32768, 32767, -32768]);
+    });
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import { ConnectionEvent, ConnectionState, isSessionActive, nextConnectionState, reconnectDelay } from '../utils/connection';
+
+const run = (events: ConnectionEvent[], from: ConnectionState = 'idle') =>
+  events.reduce(nextConnectionState, from);
+
+describe('Connection State Machine', () => {
+  it('should go live after connecting', () => {
+    expect(run(['start'])).toBe('connecting');
+    expect(run(['start', 'connected'])).toBe('live');
+  });
+
+  it('should reconnect after a drop and go live again', () => {
+    expect(run(['start', 'connected', 'lost'])).toBe('reconnecting');
+    expect(run(['start', 'connected', 'lost', 'connected'])).toBe('live');
+  });
+
+  it('should fail when retries are exhausted and allow starting over', () => {
+    expect(run(['start', 'give-up'])).toBe('failed');
+    expect(run(['start', 'connected', 'lost', 'give-up'])).toBe('failed');
+    expect(run(['start', 'give-up', 'start'])).toBe('connecting');
+  });
+
+  it('should stop from any active state', () => {
+    expect(run(['start', 'stop'])).toBe('stopped');
+    expect(run(['start', 'connected', 'stop'])).toBe('stopped');
+    expect(run(['start', 'connected', 'lost', 'stop'])).toBe('stopped');
+  });
+
+  it('should ignore events that do not apply', () => {
+    expect(run(['connected'])).toBe('idle');
+    expect(run(['lost'], 'connecting')).toBe('connecting');
+    expect(run(['start'], 'live')).toBe('live');
+    expect(run(['connected'], 'stopped')).toBe('stopped');
+  });
+
+  it('should treat connecting, live and reconnecting as active', () => {
+    const active = (['idle', 'connecting', 'live', 'reconnecting', 'failed', 'stopped'] as ConnectionState[])
+      .filter(isSessionActive);
+    expect(active).toEqual(['connecting', 'live', 'reconnecting']);
+  });
+});
+
+describe('Reconnect Backoff', () => {
+  const options = { baseDelayMs: 1000, maxDelayMs: 8000 };
+
+  it('should double the delay per attempt up to the cap', () => {
+    const ceilings = [0, 1, 2, 3, 4, 5].map(attempt => reconnectDelay(attempt, options, () => 1));
+    expect(ceilings).toEqual([1000, 2000, 4000, 8000, 8000, 8000]);
+  });
+
+  it('should keep at least half the delay and jitter the rest', () => {
+    expect(reconnectDelay(2, options, () => 0)).toBe(2000);
+    expect(reconnectDelay(2, options, () => 0.5)).toBe(3000);
+
+    for (let i = 0; i < 50; i++) {
+      const delay = reconnectDelay(1, options);
+      expect(delay).toBeGreaterThanOrEqual(1000);
+      expect(delay).toBeLessThanOrEqual(2000);
+    }
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import { buildContext, estimateTokens } from '../utils/contextBuilder';
+import { ChatMessage, ConversationSummary, Sender } from '../types';
+
+const turns = (count: number): ChatMessage[] =>
+  Array.from({ length: count }, (_, i) => ({
+    id: String(i),
+    sender: i % 2 === 0 ? Sender.USER : Sender.MODEL,
+    text: `Satz Nummer ${i}.`,
+    timestamp: i,
+  }));
+
+const summary: ConversationSummary = {
+  summary: 'The learner moved to Köln and works as a nurse.',
+  entities: ['Köln', 'Tom – colleague'],
+  topics: ['Arbeit'],
+  recurringMistakes: [],
+  coveredTurns: 30,
+  updatedAt: 0,
+};
+
+describe('Context Builder', () => {
+  it('should estimate tokens from the text length', () => {
+    expect(estimateTokens('')).toBe(0);
+    expect(estimateTokens('abcd')).toBe(1);
+    expect(estimateTokens('abcde')).toBe(2);
+  });
+
+  it('should return a plain transcript of the recent turns without a summary', () => {
+    expect(buildContext(turns(3), null, { maxTokens: 1000, maxRecentTurns: 2 }))
+      .toBe('Tutor: Satz Nummer 1.\nUser: Satz Nummer 2.');
+  });
+
+  it('should skip system notices', () => {
+    const messages = [...turns(2), { id: 's', sender: Sender.SYSTEM, text: 'Switching...', timestamp: 9 }];
+    expect(buildContext(messages, null)).toBe('User: Satz Nummer 0.\nTutor: Satz Nummer 1.');
+  });
+
+  it('should put the summary before the recent turns', () => {
+    const context = buildContext(turns(40), summary, { maxTokens: 1000, maxRecentTurns: 2 });
+    expect(context).toBe([
+      'CONVERSATION SUMMARY:',
+      'The learner moved to Köln and works as a nurse.',
+      'People, places and things: Köln; Tom – colleague',
+      'Topics so far: Arbeit',
+      '',
+      'RECENT TURNS:',
+      'User: Satz Nummer 38.',
+      'Tutor: Satz Nummer 39.',
+    ].join('\n'));
+  });
+
+  it('should drop the oldest turns to stay within the token budget', () => {
+    const budget = { maxTokens: 120, maxRecentTurns: 50 };
+    const context = buildContext(turns(50), summary, budget);
+
+    expect(estimateTokens(context)).toBeLessThanOrEqual(budget.maxTokens);
+    expect(context).toContain('CONVERSATION SUMMARY:');
+    expect(context).toContain('Tutor: Satz Nummer 49.');
+    expect(context).not.toContain('Satz Nummer 30.');
+  });
+
+  it('should truncate an oversized summary to its share of the budget', () => {
+    const long = { ...summary, summary: 'Sehr lang. '.repeat(500) };
+    const context = buildContext(turns(4), long, { maxTokens: 200, maxRecentTurns: 4 });
+
+    expect(estimateTokens(context)).toBeLessThanOrEqual(200);
+    expect(context).toContain('…');
+    expect(context).toContain('Tutor: Satz Nummer 3.');
+  });
+});
@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest';
+import { parseCorrections, stripCorrections, diffWords } from '../utils/corrections';
+
+describe('Correction Parsing', () => {
+  describe('parseCorrections', () => {
+    it('should parse a single well-formed correction', () => {
+      const text = 'Gut gemacht!\n❌ Ich habe nach Berlin gegangen.\n✔️ Ich bin nach Berlin gegangen.\n💡 "gehen" bildet das Perfekt mit "sein".';
+      const [correction, ...rest] = parseCorrections(text);
+
+      expect(rest).toHaveLength(0);
+      expect(correction.wrong).toBe('Ich habe nach Berlin gegangen.');
+      expect(correction.corrected).toBe('Ich bin nach Berlin gegangen.');
+      expect(correction.explanation).toBe('"gehen" bildet das Perfekt mit "sein".');
+    });
+
+    it('should compute character spans of the changed words', () => {
+      const [correction] = parseCorrections('❌ Ich habe gegangen\n✔️ Ich bin gegangen');
+
+      expect(correction.wrongSpans).toEqual([{ start: 4, end: 8 }]);
+      expect(correction.correctedSpans).toEqual([{ start: 4, end: 7 }]);
+      expect(correction.wrong.slice(4, 8)).toBe('habe');
+      expect(correction.corrected.slice(4, 7)).toBe('bin');
+    });
+
+    it('should parse several corrections in one turn', () => {
+      const text = [
+        '❌ Der Mädchen ist nett.',
+        '✔️ Das Mädchen ist nett.',
+        '💡 Mädchen ist neutral.',
+        'Und noch etwas:',
+        '❌ Ich wohne in der Berlin.',
+        '✔ Ich wohne in Berlin.',
+      ].join('\n');
+      const corrections = parseCorrections(text);
+
+      expect(corrections).toHaveLength(2);
+      expect(corrections[0].corrected).toBe('Das Mädchen ist nett.');
+      expect(corrections[1].wrong).toBe('Ich wohne in der Berlin.');
+      expect(corrections[1].explanation).toBeUndefined();
+      expect(corrections[1].correctedSpans).toEqual([]);
+    });
+
+    it('should handle markers on a single line', () => {
+      const [correction] = parseCorrections('❌ Ich gehe zu Hause ✔️ Ich gehe nach Hause 💡 Richtung: nach Hause');
+
+      expect(correction.wrong).toBe('Ich gehe zu Hause');
+      expect(correction.corrected).toBe('Ich gehe nach Hause');
+      expect(correction.explanation).toBe('Richtung: nach Hause');
+    });
+
+    it('should accept text labels and a marker on its own line', () => {
+      const [correction] = parseCorrections('Wrong: **„Ich bin 20 Jahre.“**\nCorrect:\n**Ich bin 20 Jahre alt.**');
+
+      expect(correction.wrong).toBe('Ich bin 20 Jahre.');
+      expect(correction.corrected).toBe('Ich bin 20 Jahre alt.');
+    });
+
+    it('should ignore incomplete or orphaned markers', () => {
+      expect(parseCorrections('❌ Ich habe gegangen')).toEqual([]);
+      expect(parseCorrections('✔️ Ich bin gegangen\n💡 sein')).toEqual([]);
+      expect(parseCorrections('❌\n✔️ Ich bin gegangen')).toEqual([]);
+      expect(parseCorrections('Keine Fehler, super!')).toEqual([]);
+    });
+
+    it('should keep a later correction when an earlier one is cut off', () => {
+      const corrections = parseCorrections('❌ Ich habe gegangen\n❌ Er gehen\n✔️ Er geht');
+
+      expect(corrections).toHaveLength(1);
+      expect(corrections[0].wrong).toBe('Er gehen');
+    });
+  });
+
+  describe('stripCorrections', () => {
+    it('should remove parsed correction blocks and keep prose', () => {
+      const text = 'Fast richtig!\n❌ Ich habe gegangen\n✔️ Ich bin gegangen\n💡 Perfekt mit sein\n\nWohin bist du gegangen?';
+
+      expect(stripCorrections(text)).toBe('Fast richtig!\n\nWohin bist du gegangen?');
+    });
+
+    it('should leave incomplete correction markers visible', () => {
+      expect(stripCorrections('Hmm ❌ Ich habe gegangen')).toBe('Hmm ❌ Ich habe gegangen');
+    });
+  });
+
+  describe('diffWords', () => {
+    it('should produce removed and added segments for a replaced word', () => {
+      expect(diffWords('Ich habe gegangen', 'Ich bin gegangen')).toEqual([
+        { type: 'equal', text: 'Ich' },
+        { type: 'removed', text: ' habe' },
+        { type: 'added', text: ' bin' },
+        { type: 'equal', text: ' gegangen' },
+      ]);
+    });
+
+    it('should treat punctuation as separate tokens', () => {
+      expect(diffWords('Ich bin 20 Jahre.', 'Ich bin 20 Jahre alt.')).toEqual([
+        { type: 'equal', text: 'Ich bin 20 Jahre' },
+        { type: 'added', text: ' alt' },
+        { type: 'equal', text: '.' },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,240 @@
+import { describe, it, expect } from 'vitest';
+import {
+  collectAnkiNotes,
+  exportSession,
+  formatCueTime,
+  parseSessionJson,
+  SESSION_EXPORT_VERSION,
+  slugifyTitle,
+  toAnki,
+  toMarkdown,
+  toSessionJson,
+  toSrt,
+  toWebVtt,
+} from '../utils/exporters';
+import { parseCorrections } from '../utils/corrections';
+import { Sender, SessionRecord, TutorToolCall } from '../types';
+import { toolCallMessage } from '../utils/tutorTools';
+
+const START = Date.UTC(2026, 2, 14, 9, 30);
+
+const tutorReply = `Schön! Kleine Korrektur:
+❌ Ich habe gestern nach Berlin gefahren.
+✔️ Ich bin gestern nach Berlin gefahren.
+💡 "fahren" bildet das Perfekt mit "sein".
+Was hast du dort gemacht?`;
+
+const session: SessionRecord = {
+  id: 'session-1',
+  title: 'Ausflug nach Berlin',
+  level: 'A2',
+  startedAt: START,
+  endedAt: START + 60000,
+  messages: [
+    { id: '1', sender: Sender.MODEL, text: 'Hallo! Worüber möchtest du sprechen?', timestamp: START + 2000 },
+    { id: '2', sender: Sender.USER, text: 'Ich habe gestern nach Berlin gefahren.', timestamp: START + 9500 },
+    { id: '3', sender: Sender.SYSTEM, text: 'Switching to level A2...', timestamp: START + 10000 },
+    { id: '4', sender: Sender.MODEL, text: tutorReply, timestamp: START + 15250, corrections: parseCorrections(tutorReply) },
+    { id: '5', sender: Sender.USER, text: 'Ich war im Museum, "Pergamon" & so.', timestamp: START + 21000, typed: true },
+  ],
+  analysis: {
+    estimatedLevel: 'A2',
+    summary: 'Gute Grundlagen.',
+    errors: [
+      { category: 'Konjugation', original: 'Ich habe gestern nach Berlin gefahren.', corrected: 'Ich bin gestern nach Berlin gefahren.', explanation: 'Perfekt mit "sein".' },
+      { category: 'Artikel', original: 'Ich sehe der Hund.', corrected: 'Ich sehe den Hund.', explanation: 'Akkusativ, maskulin.' },
+    ],
+    strengths: ['Flüssige Fragen'],
+    nextSteps: ['Perfekt mit sein üben'],
+  },
+};
+
+describe('Markdown Export', () => {
+  it('should match the golden file', () => {
+    expect(toMarkdown(session)).toBe(`# Ausflug nach Berlin
+
+- **Level:** A2
+- **Started:** 2026-03-14 09:30 UTC
+
+## Conversation
+
+**[00:02] Tutor:** Hallo! Worüber möchtest du sprechen?
+
+**[00:09] You:** Ich habe gestern nach Berlin gefahren.
+
+**[00:15] Tutor:** Schön! Kleine Korrektur:
+
+Was hast du dort gemacht?
+
+> ❌ Ich habe gestern nach Berlin gefahren.\\
+> ✔️ Ich bin gestern nach Berlin gefahren.\\
+> 💡 "fahren" bildet das Perfekt mit "sein".
+
+**[00:21] You:** Ich war im Museum, "Pergamon" & so. _(typed)_
+
+## Analysis
+
+**Estimated level:** A2
+
+Gute Grundlagen.
+
+### Mistakes
+
+- **Konjugation:** Ich habe gestern nach Berlin gefahren. → Ich bin gestern nach Berlin gefahren. — Perfekt mit "sein".
+- **Artikel:** Ich sehe der Hund. → Ich sehe den Hund. — Akkusativ, maskulin.
+
+### Strengths
+
+- Flüssige Fragen
+
+### Next steps
+
+- Perfekt mit sein üben
+`);
+  });
+
+  it('should link the topic only when it has a source', () => {
+    const withTopic = (url?: string) => toMarkdown({ ...session, topic: { title: 'Buchmesse', summary: '', ...(url ? { url } : {}) } });
+    expect(withTopic('https://example.org')).toContain('- **Topic:** [Buchmesse](https://example.org)');
+    expect(withTopic()).toContain('- **Topic:** Buchmesse\n');
+  });
+});
+
+describe('JSON Export', () => {
+  it('should round-trip a session', () => {
+    const json = toSessionJson(session, START + 99);
+    expect(JSON.parse(json)).toMatchObject({ format: 'deutschflow-session', version: SESSION_EXPORT_VERSION, exportedAt: START + 99 });
+    expect(parseSessionJson(json)).toEqual(session);
+  });
+
+  it('should reject files that are not exports or come from a newer version', () => {
+    expect(() => parseSessionJson('not json')).toThrow('not valid JSON');
+    expect(() => parseSessionJson('{"hello": 1}')).toThrow('not a DeutschFlow session export');
+
+    const future = JSON.stringify({ ...JSON.parse(toSessionJson(session)), version: SESSION_EXPORT_VERSION + 1 });
+    expect(() => parseSessionJson(future)).toThrow('Unsupported export version');
+  });
+
+  it('should drop malformed messages and fields on import', () => {
+    const payload = JSON.parse(toSessionJson(session));
+    payload.session.messages.push({ id: 9, text: 'broken' }, { id: '10', sender: 'alien', text: 'x', timestamp: 1 });
+    payload.session.level = 'Z9';
+    payload.session.analysis = 'nonsense';
+
+    const imported = parseSessionJson(JSON.stringify(payload));
+    expect(imported.messages).toHaveLength(session.messages.length);
+    expect(imported.level).toBe('B1');
+    expect(imported.analysis).toBeUndefined();
+  });
+
+  it('should drop malformed corrections on import', () => {
+    const payload = JSON.parse(toSessionJson(session));
+    const tutor = payload.session.messages[3];
+    tutor.corrections = [{}, { wrong: 1, corrected: 'x' }, { wrong: 'Ich habe gegangen.', corrected: 'Ich bin gegangen.', wrongSpans: 'bogus' }];
+
+    const imported = parseSessionJson(JSON.stringify(payload));
+    expect(imported.messages[3].corrections).toEqual([
+      { wrong: 'Ich habe gegangen.', corrected: 'Ich bin gegangen.', wrongSpans: [{ start: 4, end: 8 }], correctedSpans: [{ start: 4, end: 7 }] },
+    ]);
+    expect(() => toAnki(imported, 'tab')).not.toThrow();
+
+    tutor.corrections = [{}];
+    expect(parseSessionJson(JSON.stringify(payload)).messages[3].corrections).toBeUndefined();
+  });
+});
+
+describe('Subtitle Export', () => {
+  it('should format cue times', () => {
+    expect(formatCueTime(0)).toBe('00:00:00.000');
+    expect(formatCueTime(3723004)).toBe('01:02:03.004');
+    expect(formatCueTime(1500, ',')).toBe('00:00:01,500');
+  });
+
+  it('should match the WebVTT golden file', () => {
+    expect(toWebVtt(session)).toBe(`WEBVTT
+
+1
+00:00:02.000 --> 00:00:09.500
+<v Tutor>Hallo! Worüber möchtest du sprechen?
+
+2
+00:00:09.500 --> 00:00:15.250
+<v You>Ich habe gestern nach Berlin gefahren.
+
+3
+00:00:15.250 --> 00:00:21.000
+<v Tutor>Schön! Kleine Korrektur:
+Was hast du dort gemacht?
+
+4
+00:00:21.000 --> 00:00:25.000
+<v You>Ich war im Museum, "Pergamon" &amp; so.
+`);
+  });
+
+  it('should match the SRT golden file', () => {
+    expect(toSrt(session)).toBe(`1
+00:00:02,000 --> 00:00:09,500
+Tutor: Hallo! Worüber möchtest du sprechen?
+
+2
+00:00:09,500 --> 00:00:15,250
+You: Ich habe gestern nach Berlin gefahren.
+
+3
+00:00:15,250 --> 00:00:21,000
+Tutor: Schön! Kleine Korrektur:
+Was hast du dort gemacht?
+
+4
+00:00:21,000 --> 00:00:25,000
+You: Ich war im Museum, "Pergamon" & so.
+`);
+  });
+});
+
+describe('Anki Export', () => {
+  it('should make one note per distinct correction', () => {
+    expect(collectAnkiNotes(session)).toEqual([
+      {
+        front: 'Ich habe gestern nach Berlin gefahren.',
+        back: 'Ich bin gestern nach Berlin gefahren.<br>💡 &quot;fahren&quot; bildet das Perfekt mit &quot;sein&quot;.',
+      },
+      { front: 'Ich sehe der Hund.', back: 'Ich sehe den Hund.<br>💡 Akkusativ, maskulin.' },
+    ]);
+  });
+
+  it('should include corrections the tutor recorded through a function call', () => {
+    const call: TutorToolCall = { id: 'c1', name: 'record_correction', args: { wrong: 'Ich sehe der Hund.', corrected: 'Ich sehe den Hund.' }, status: 'done', result: 'ok' };
+    const recorded = toolCallMessage(call, 'tool-1', START);
+    expect(collectAnkiNotes({ ...session, messages: [recorded], analysis: undefined })).toEqual([
+      { front: 'Ich sehe der Hund.', back: 'Ich sehe den Hund.' },
+    ]);
+  });
+
+  it('should match the CSV golden file', () => {
+    expect(toAnki(session, 'comma')).toBe(`#separator:Comma
+#html:true
+#columns:Front;Back
+Ich habe gestern nach Berlin gefahren.,Ich bin gestern nach Berlin gefahren.<br>💡 &quot;fahren&quot; bildet das Perfekt mit &quot;sein&quot;.
+Ich sehe der Hund.,"Ich sehe den Hund.<br>💡 Akkusativ, maskulin."
+`);
+  });
+
+  it('should match the TSV golden file', () => {
+    expect(toAnki(session, 'tab')).toBe(`#separator:Tab
+#html:true
+#columns:Front;Back
+Ich habe gestern nach Berlin gefahren.\tIch bin gestern nach Berlin gefahren.<br>💡 &quot;fahren&quot; bildet das Perfekt mit &quot;sein&quot;.
+Ich sehe der Hund.\tIch sehe den Hund.<br>💡 Akkusativ, maskulin.
+`);
+  });
+});
+
+describe('Export Files', () => {
+  it('should name files after the session title', () => {
+    expect(slugifyTitle('Gespräch B1 – 14.03.2026, 09:30')).toBe('gespraech-b1-14-03-2026-09-30');
+    expect(exportSession(session, 'anki-tsv')).toMatchObject({ filename: 'ausflug-nach-berlin-anki.txt' });
+    expect(exportSession(session, 'vtt')).toMatchObject({ filename: 'ausflug-nach-berlin.vtt', mimeType: 'text/vtt' });
+  });
+});
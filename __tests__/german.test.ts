@@ -0,0 +1,13 @@
+import { describe, it, expect } from 'vitest';
+import { foldGerman } from '../utils/german';
+
+describe('foldGerman', () => {
+  it('should lower-case and spell out umlauts and ß', () => {
+    expect(foldGerman('Größe ÄRGER Übung Straße')).toBe('groesse aerger uebung strasse');
+    expect(foldGerman('Strasse')).toBe(foldGerman('Straße'));
+  });
+
+  it('should fold decomposed umlauts like composed ones', () => {
+    expect(foldGerman('Mu\u0308ller')).toBe('mueller');
+  });
+});
@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest';
+import { LruCache } from '../utils/lru';
+
+describe('LRU Cache', () => {
+  it('should evict the least recently used entry', () => {
+    const cache = new LruCache<string, number>(2);
+    cache.set('a', 1);
+    cache.set('b', 2);
+    cache.get('a');
+
+    expect(cache.set('c', 3)).toEqual(['b']);
+    expect(cache.has('a')).toBe(true);
+    expect(cache.has('b')).toBe(false);
+    expect(cache.size).toBe(2);
+  });
+
+  it('should replace an existing key without evicting others', () => {
+    const cache = new LruCache<string, number>(2);
+    cache.set('a', 1);
+    cache.set('b', 2);
+
+    expect(cache.set('a', 10)).toEqual([]);
+    expect(cache.get('a')).toBe(10);
+    expect(cache.set('c', 3)).toEqual(['b']);
+  });
+
+  it('should keep the total size under the limit', () => {
+    const cache = new LruCache<string, Uint8Array>(10, 100, value => value.byteLength);
+    cache.set('a', new Uint8Array(40));
+    cache.set('b', new Uint8Array(40));
+
+    expect(cache.set('c', new Uint8Array(40))).toEqual(['a']);
+    expect(cache.set('huge', new Uint8Array(101))).toEqual([]);
+    expect(cache.has('huge')).toBe(false);
+
+    cache.delete('b');
+    expect(cache.set('d', new Uint8Array(60))).toEqual([]);
+  });
+});
@@ -0,0 +1,122 @@
+import { describe, it, expect } from 'vitest';
+import { renderMarkdown, sanitizeUrl, escapeHtml, markdownToPlainText } from '../utils/markdown';
+
+describe('Markdown Renderer', () => {
+  describe('formatting', () => {
+    it('should render headings and paragraphs with line breaks', () => {
+      expect(renderMarkdown('## Analyse\nErste Zeile\nZweite Zeile\n\nNeuer Absatz'))
+        .toBe('<h2>Analyse</h2><p>Erste Zeile<br>Zweite Zeile</p><p>Neuer Absatz</p>');
+    });
+
+    it('should render emphasis, strikethrough and code spans', () => {
+      expect(renderMarkdown('**fett** und *kursiv* und _auch_ ~~weg~~ `der **Code**`'))
+        .toBe('<p><strong>fett</strong> und <em>kursiv</em> und <em>auch</em> <del>weg</del> <code>der **Code**</code></p>');
+    });
+
+    it('should not treat underscores inside words as emphasis', () => {
+      expect(renderMarkdown('snake_case_name')).toBe('<p>snake_case_name</p>');
+    });
+
+    it('should render unordered, ordered and nested lists', () => {
+      expect(renderMarkdown('- Kasus\n  - Dativ\n- Artikel\n\n3. drei\n4. vier'))
+        .toBe('<ul><li>Kasus<ul><li>Dativ</li></ul></li><li>Artikel</li></ul><ol start="3"><li>drei</li><li>vier</li></ol>');
+    });
+
+    it('should render tables with alignment', () => {
+      const source = '| Falsch | Richtig |\n|:--|--:|\n| der Mädchen | das **Mädchen** |';
+      expect(renderMarkdown(source)).toBe(
+        '<table><thead><tr><th style="text-align:left">Falsch</th><th style="text-align:right">Richtig</th></tr></thead>' +
+        '<tbody><tr><td style="text-align:left">der Mädchen</td><td style="text-align:right">das <strong>Mädchen</strong></td></tr></tbody></table>'
+      );
+    });
+
+    it('should render fenced code without interpreting it', () => {
+      expect(renderMarkdown('```\n**nicht fett** <b>\n```')).toBe('<pre><code>**nicht fett** &lt;b&gt;</code></pre>');
+    });
+
+    it('should render blockquotes and safe links', () => {
+      expect(renderMarkdown('> [Duden](https://www.duden.de/?q=a&b=c)')).toBe(
+        '<blockquote><p><a href="https://www.duden.de/?q=a&amp;b=c" target="_blank" rel="noopener noreferrer">Duden</a></p></blockquote>'
+      );
+    });
+
+    it('should render code spans inside link labels', () => {
+      expect(renderMarkdown('[`der Tisch`](http://a) und **[fett `x`](http://b)**')).toBe(
+        '<p><a href="http://a" target="_blank" rel="noopener noreferrer"><code>der Tisch</code></a> und ' +
+          '<strong><a href="http://b" target="_blank" rel="noopener noreferrer">fett <code>x</code></a></strong></p>'
+      );
+    });
+  });
+
+  describe('hostile input', () => {
+    it('should escape script tags', () => {
+      const html = renderMarkdown('Hallo <script>alert("xss")</script>');
+      expect(html).not.toContain('<script');
+      expect(html).toContain('&lt;script&gt;alert(&quot;xss&quot;)&lt;/script&gt;');
+    });
+
+    it('should escape raw HTML with event handler attributes', () => {
+      const html = renderMarkdown('<img src=x onerror="alert(1)"> <div onclick=alert(1)>hi</div>');
+      expect(html).not.toMatch(/<img|<div/);
+      expect(html).toContain('&lt;img src=x onerror=&quot;alert(1)&quot;&gt;');
+    });
+
+    it('should drop javascript: and other dangerous link targets', () => {
+      const sources = [
+        '[klick](javascript:alert(1))',
+        '[klick](JaVaScRiPt:alert(1))',
+        '[klick](java\tscript:alert(1))',
+        '[klick](data:text/html;base64,PHNjcmlwdD4=)',
+        '[klick](vbscript:msgbox)',
+        '[klick](//evil.example/x)',
+      ];
+      for (const source of sources) {
+        const html = renderMarkdown(source);
+        expect(html).not.toContain('<a');
+        expect(html).toContain('klick');
+      }
+    });
+
+    it('should not allow breaking out of the href attribute', () => {
+      const html = renderMarkdown('[x](https://a.de/"onmouseover="alert(1))');
+      expect(html).not.toMatch(/"\s*onmouseover=/);
+      expect(html).toContain('href="https://a.de/&quot;onmouseover=&quot;alert(1"');
+    });
+
+    it('should escape HTML inside link labels, headings and table cells', () => {
+      const html = renderMarkdown('# <b onmouseover=x>T</b>\n\n| <i>a</i> |\n|---|\n| [<svg onload=x>](https://ok.de) |');
+      expect(html).not.toMatch(/<(b|i|svg)[\s>]/);
+    });
+
+    it('should never load images from model output', () => {
+      expect(renderMarkdown('![tracking](https://evil.example/pixel.png)')).toBe('<p>tracking</p>');
+    });
+
+    it('should strip placeholder characters smuggled into the input', () => {
+      expect(renderMarkdown('\uE0000\uE001 `<b>`')).toBe('<p>0 <code>&lt;b&gt;</code></p>');
+    });
+  });
+
+  describe('helpers', () => {
+    it('should escape all HTML special characters', () => {
+      expect(escapeHtml(`<a href="x" title='y'>&</a>`)).toBe('&lt;a href=&quot;x&quot; title=&#39;y&#39;&gt;&amp;&lt;/a&gt;');
+    });
+
+    it('should allow http(s), mailto and relative URLs only', () => {
+      expect(sanitizeUrl('https://example.com')).toBe('https://example.com');
+      expect(sanitizeUrl('mailto:lehrer@example.com')).toBe('mailto:lehrer@example.com');
+      expect(sanitizeUrl('#abschnitt')).toBe('#abschnitt');
+      expect(sanitizeUrl('/relativ/pfad')).toBe('/relativ/pfad');
+      expect(sanitizeUrl(' javascript:alert(1)')).toBeNull();
+      expect(sanitizeUrl('\u0001javascript:alert(1)')).toBeNull();
+    });
+
+    it('should reduce Markdown to the text that is read aloud', () => {
+      expect(markdownToPlainText('## Gut gemacht!\n\n- **Der** Hund\n- Siehe [Duden](https://duden.de) und `sein`\n\n---\n> _Weiter_ so'))
+        .toBe('Gut gemacht!\nDer Hund\nSiehe Duden und sein\nWeiter so');
+      expect(markdownToPlainText('| Singular | Plural |\n|---|---|\n| der Tisch | die Tische |'))
+        .toBe('Singular, Plural\nder Tisch, die Tische');
+      expect(markdownToPlainText('snake_case bleibt')).toBe('snake_case bleibt');
+    });
+  });
+});
@@ -0,0 +1,159 @@
+import { describe, it, expect } from 'vitest';
+import { computeSessionMetrics, computeStreaks, summarizeProgress, toDayKey } from '../utils/progress';
+import { parseCorrections } from '../utils/corrections';
+import { AnalysisResult, ChatMessage, Sender, SessionRecord } from '../types';
+
+const at = (day: number, hour: number = 10, seconds: number = 0) => new Date(2026, 2, day, hour, 0, seconds).getTime();
+
+const message = (sender: Sender, text: string, timestamp: number, patch: Partial<ChatMessage> = {}): ChatMessage => ({
+  id: `${sender}-${timestamp}`,
+  sender,
+  text,
+  timestamp,
+  ...patch,
+});
+
+const analysis = (patch: Partial<AnalysisResult>): AnalysisResult => ({
+  estimatedLevel: null,
+  summary: '',
+  errors: [],
+  strengths: [],
+  nextSteps: [],
+  ...patch,
+});
+
+const tutorReply = `Fast!
+❌ Ich habe nach Berlin gefahren.
+✔️ Ich bin nach Berlin gefahren.
+💡 Perfekt mit "sein".`;
+
+const session = (id: string, startedAt: number, messages: ChatMessage[], patch: Partial<SessionRecord> = {}): SessionRecord => ({
+  id,
+  title: id,
+  level: 'A2',
+  startedAt,
+  messages,
+  ...patch,
+});
+
+describe('Session Metrics', () => {
+  const start = at(14);
+  const record = session('s1', start, [
+    message(Sender.MODEL, 'Hallo! Was hast du gemacht?', start),
+    // 6 words over 3 s of speech before the tutor answers
+    message(Sender.USER, 'Ich habe nach Berlin gefahren, wirklich.', start + 2000),
+    message(Sender.MODEL, tutorReply, start + 5000, { corrections: parseCorrections(tutorReply) }),
+    message(Sender.SYSTEM, 'Switching to level B1...', start + 6000),
+    // Recorded turn: 4 words in 2 s
+    message(Sender.USER, 'Wir waren im Museum.', start + 9000, { audio: { recordingId: 'r', start: 9, end: 11 } }),
+    message(Sender.MODEL, 'Toll!', start + 12000),
+    // Typed turns count as words but not as speaking time
+    message(Sender.USER, 'Und dann Kaffee getrunken.', start + 20000, { typed: true }),
+  ], { endedAt: start + 30000 });
+
+  it('should measure turns, words and speaking time', () => {
+    const metrics = computeSessionMetrics(record);
+    expect(metrics).toMatchObject({
+      sessionId: 's1',
+      day: '2026-03-14',
+      turns: 3,
+      learnerWords: 14,
+      spokenWords: 10,
+      speakingSeconds: 5,
+      wordsPerMinute: 120,
+    });
+  });
+
+  it('should fall back to inline corrections without an analysis', () => {
+    const metrics = computeSessionMetrics(record);
+    expect(metrics.corrections).toBe(1);
+    expect(metrics.correctionsByCategory).toEqual({ Sonstiges: 1 });
+    expect(metrics.correctionsPer100Words).toBe(7.1);
+  });
+
+  it('should count corrections the tutor recorded through a function call', () => {
+    const call = { id: 'c1', name: 'record_correction' as const, args: { wrong: 'Ich gehe in die Schule gestern.', corrected: 'Ich bin gestern in die Schule gegangen.' }, status: 'done' as const, result: 'ok' };
+    const metrics = computeSessionMetrics(session('s2', start, [
+      message(Sender.USER, 'Ich gehe in die Schule gestern.', start),
+      message(Sender.SYSTEM, 'Correction recorded', start + 1000, { toolCall: call, corrections: parseCorrections(tutorReply) }),
+    ]));
+    expect(metrics.correctionsByCategory).toEqual({ Sonstiges: 1 });
+  });
+
+  it('should prefer the categorized errors of an analysis', () => {
+    const metrics = computeSessionMetrics({
+      ...record,
+      analysis: analysis({
+        estimatedLevel: 'A2',
+        errors: [
+          { category: 'Konjugation', original: 'a', corrected: 'b', explanation: '' },
+          { category: 'Konjugation', original: 'c', corrected: 'd', explanation: '' },
+          { category: 'Artikel', original: 'e', corrected: 'f', explanation: '' },
+        ],
+      }),
+    });
+    expect(metrics.correctionsByCategory).toEqual({ Konjugation: 2, Artikel: 1 });
+    expect(metrics.estimatedLevel).toBe('A2');
+  });
+
+  it('should cap long silences and skip turns without an end', () => {
+    const metrics = computeSessionMetrics(session('s2', start, [
+      message(Sender.USER, 'Hallo', start),
+      message(Sender.MODEL, 'Hallo!', start + 5 * 60000),
+      message(Sender.USER, 'Tschüss', start + 6 * 60000),
+    ]));
+    expect(metrics.speakingSeconds).toBe(60);
+    expect(metrics.spokenWords).toBe(1);
+    expect(metrics.wordsPerMinute).toBe(1);
+  });
+});
+
+describe('Streaks', () => {
+  it('should find the longest and current run of days', () => {
+    const days = ['2026-03-01', '2026-03-02', '2026-03-03', '2026-03-05', '2026-03-06', '2026-03-06'];
+    expect(computeStreaks(days, '2026-03-06')).toEqual({ current: 2, longest: 3, activeDays: 5 });
+    expect(computeStreaks(days, '2026-03-07')).toMatchObject({ current: 2 });
+    expect(computeStreaks(days, '2026-03-08')).toMatchObject({ current: 0, longest: 3 });
+  });
+
+  it('should count across month boundaries', () => {
+    expect(computeStreaks(['2026-02-28', '2026-03-01'], '2026-03-01')).toMatchObject({ current: 2, longest: 2 });
+  });
+
+  it('should handle no sessions', () => {
+    expect(computeStreaks([], '2026-03-01')).toEqual({ current: 0, longest: 0, activeDays: 0 });
+  });
+
+  it('should key days in local time', () => {
+    expect(toDayKey(new Date(2026, 0, 5, 23, 59).getTime())).toBe('2026-01-05');
+  });
+});
+
+describe('Progress Summary', () => {
+  const chat = (start: number, words: string, patch: Partial<SessionRecord> = {}) =>
+    session(`s-${start}`, start, [
+      message(Sender.USER, words, start),
+      message(Sender.MODEL, 'Gut.', start + 4000),
+    ], patch);
+
+  it('should aggregate sessions oldest first and skip empty ones', () => {
+    const summary = summarizeProgress([
+      chat(at(15), 'eins zwei drei vier', { analysis: analysis({ estimatedLevel: 'B1', errors: [{ category: 'Kasus', original: 'a', corrected: 'b', explanation: '' }] }) }),
+      chat(at(14), 'eins zwei', { analysis: analysis({ estimatedLevel: 'A2' }) }),
+      session('empty', at(16), []),
+    ], at(16, 9));
+
+    expect(summary.sessions.map(s => s.day)).toEqual(['2026-03-14', '2026-03-15']);
+    expect(summary.totals).toEqual({ sessions: 2, turns: 2, learnerWords: 6, speakingSeconds: 8 });
+    expect(summary.averages).toEqual({ turnsPerSession: 1, wordsPerMinute: 45, correctionsPer100Words: 16.7 });
+    expect(summary.categories).toEqual([{ category: 'Kasus', count: 1, per100Words: 16.7 }]);
+    expect(summary.levelHistory).toEqual([{ startedAt: at(14), level: 'A2' }, { startedAt: at(15), level: 'B1' }]);
+    expect(summary.streaks).toEqual({ current: 2, longest: 2, activeDays: 2 });
+  });
+
+  it('should report nulls when there is nothing to average', () => {
+    const summary = summarizeProgress([], at(1));
+    expect(summary.averages).toEqual({ turnsPerSession: null, wordsPerMinute: null, correctionsPer100Words: null });
+    expect(summary.categories).toEqual([]);
+  });
+});
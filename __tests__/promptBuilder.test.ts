@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest';
+import { buildSystemInstruction } from '../utils/promptBuilder';
+import { DEFAULT_TUTOR_SETTINGS } from '../utils/tutorSettings';
+import { getScenario } from '../utils/scenarios';
+import { TutorSettings } from '../types';
+
+const settings = (patch: Partial<TutorSettings> = {}): TutorSettings => ({ ...DEFAULT_TUTOR_SETTINGS, ...patch });
+
+describe('System Instruction Builder', () => {
+  it('should keep the default persona and opening line', () => {
+    const instruction = buildSystemInstruction(DEFAULT_TUTOR_SETTINGS, { level: 'B1' });
+
+    expect(instruction).toContain('your name is **DAD**');
+    expect(instruction).toContain('always refer to yourself as "DAD"');
+    expect(instruction).toContain('**Target Level**: B1.');
+    expect(instruction).toContain('“Hallo! Ich bin DAD. Ich bin bereit, unser Gespräch zu beginnen.');
+  });
+
+  it('should use the chosen name and personality everywhere', () => {
+    const instruction = buildSystemInstruction(settings({ tutorName: 'Lena', personality: 'patient' }), {
+      level: 'A2',
+      context: 'User: Hallo',
+      reason: 'resume',
+    });
+
+    expect(instruction).toContain('your name is **Lena**');
+    expect(instruction).toContain('calm and patient teacher');
+    expect(instruction).toContain('welcome the user back as Lena');
+    expect(instruction).not.toContain('DAD');
+  });
+
+  it('should keep the correction format for every policy', () => {
+    (['all', 'blocking', 'end-of-turn'] as const).forEach(correctionPolicy => {
+      const instruction = buildSystemInstruction(settings({ correctionPolicy }), { level: 'B1' });
+      expect(instruction).toMatch(/❌ Wrong sentence\n\s+✔️ Correct sentence\n\s+💡 Short explanation/);
+    });
+  });
+
+  it('should reserve record_correction for mistakes not corrected in the chat', () => {
+    const instruction = buildSystemInstruction(DEFAULT_TUTOR_SETTINGS, { level: 'B1' });
+    expect(instruction).toContain('call record_correction only for mistakes you do not correct in the format above');
+    expect(instruction).not.toContain('record_correction for every correction');
+  });
+
+  it('should describe when to correct for each policy', () => {
+    const build = (correctionPolicy: TutorSettings['correctionPolicy']) =>
+      buildSystemInstruction(settings({ correctionPolicy }), { level: 'B1' });
+
+    expect(build('all')).toContain('correct it right away');
+    expect(build('blocking')).toContain('Let small slips go');
+    expect(build('end-of-turn')).toContain('at the end of your turn list their mistakes');
+  });
+
+  it('should give explanations in the chosen language', () => {
+    expect(buildSystemInstruction(DEFAULT_TUTOR_SETTINGS, { level: 'B1' })).toContain('💡 Short explanation in simple German');
+    expect(buildSystemInstruction(DEFAULT_TUTOR_SETTINGS, { level: 'B1' })).not.toContain('**Explanations**');
+
+    const arabic = buildSystemInstruction(settings({ explanationLanguage: 'ar' }), { level: 'B1' });
+    expect(arabic).toContain('💡 Short explanation in Arabic');
+    expect(arabic).toContain('explain it in Arabic, then go back to German');
+    expect(arabic).toContain('must take place in GERMAN');
+  });
+
+  it('should add the context for the reason of a restart instead of the opening line', () => {
+    const reconnect = buildSystemInstruction(DEFAULT_TUTOR_SETTINGS, { level: 'B1', context: 'User: Hallo', reason: 'reconnect' });
+    expect(reconnect).toContain('connection to the user dropped');
+    expect(reconnect).toContain('PREVIOUS CONTEXT:\nUser: Hallo');
+    expect(reconnect).not.toContain('First message');
+
+    const levelChange = buildSystemInstruction(DEFAULT_TUTOR_SETTINGS, { level: 'C1', context: 'User: Hallo' });
+    expect(levelChange).toContain('changed their target proficiency level to C1');
+  });
+
+  it('should brief a scenario and open the scene in role', () => {
+    const instruction = buildSystemInstruction(settings({ tutorName: 'Lena' }), {
+      level: 'A1',
+      scenario: getScenario('baeckerei'),
+    });
+
+    expect(instruction).toContain('ROLE-PLAY SCENARIO: Bäckerei');
+    expect(instruction).toContain('Open the scene in your role');
+    expect(instruction).toContain('Do not introduce yourself as Lena yet');
+    expect(instruction).not.toContain('Ich bin Lena');
+  });
+
+  it('should ask the tutor to work in target words only when there are some', () => {
+    const instruction = buildSystemInstruction(DEFAULT_TUTOR_SETTINGS, { level: 'A2', targetWords: ['Urlaub', 'Termin'] });
+    expect(instruction).toContain('give the user chances to use them: Urlaub, Termin.');
+
+    expect(buildSystemInstruction(DEFAULT_TUTOR_SETTINGS, { level: 'A2' })).not.toContain('**Vocabulary**');
+  });
+});
@@ -0,0 +1,132 @@
+import { describe, it, expect } from 'vitest';
+import {
+  coerceScenarioProgress,
+  completeScenarioGoal,
+  createScenarioProgress,
+  getScenario,
+  getScenarioInstruction,
+  isGoalAchieved,
+  isLevelInRange,
+  normalizeForMatching,
+  SCENARIOS,
+  updateScenarioProgress,
+} from '../utils/scenarios';
+import { CEFR_LEVELS } from '../utils/analysis';
+import { ChatMessage, Sender } from '../types';
+
+const say = (text: string, timestamp: number, sender: Sender = Sender.USER): ChatMessage =>
+  ({ id: `${timestamp}`, sender, text, timestamp });
+
+const goal = (scenarioId: string, goalId: string) =>
+  getScenario(scenarioId)!.goals.find(g => g.id === goalId)!;
+
+describe('Scenario Catalogue', () => {
+  it('should bundle the five situations with unique ids', () => {
+    expect(SCENARIOS.map(s => s.title)).toEqual(['Bäckerei', 'Arzttermin', 'Wohnungsbesichtigung', 'Bewerbungsgespräch', 'Bürgeramt']);
+    expect(new Set(SCENARIOS.map(s => s.id)).size).toBe(SCENARIOS.length);
+  });
+
+  it('should give every scenario a valid CEFR range, goals and a closing condition', () => {
+    SCENARIOS.forEach(scenario => {
+      expect(CEFR_LEVELS.indexOf(scenario.minLevel)).toBeLessThanOrEqual(CEFR_LEVELS.indexOf(scenario.maxLevel));
+      expect(scenario.goals.length).toBeGreaterThan(0);
+      expect(new Set(scenario.goals.map(g => g.id)).size).toBe(scenario.goals.length);
+      expect(scenario.tutorRole).not.toBe('');
+      expect(scenario.closing).not.toBe('');
+    });
+  });
+
+  it('should check a level against the range', () => {
+    const baeckerei = getScenario('baeckerei')!;
+    expect(isLevelInRange(baeckerei, 'A1')).toBe(true);
+    expect(isLevelInRange(baeckerei, 'B1')).toBe(false);
+    expect(getScenario('unknown')).toBeNull();
+  });
+});
+
+describe('Goal Matching', () => {
+  it('should spell out umlauts and ß', () => {
+    expect(normalizeForMatching('Grüß Gott, ich möchte zur Straße')).toBe('gruess gott, ich moechte zur strasse');
+  });
+
+  it('should match utterances with or without umlauts', () => {
+    expect(isGoalAchieved(goal('baeckerei', 'order'), 'Ich möchte zwei Brötchen.')).toBe(true);
+    expect(isGoalAchieved(goal('baeckerei', 'order'), 'Ich moechte zwei Broetchen.')).toBe(true);
+    expect(isGoalAchieved(goal('baeckerei', 'farewell'), 'Tschüss, schönen Tag noch!')).toBe(true);
+    expect(isGoalAchieved(goal('buergeramt', 'address'), 'Ich wohne jetzt in der Hauptstraße 5.')).toBe(true);
+  });
+
+  it('should not match unrelated utterances', () => {
+    expect(isGoalAchieved(goal('baeckerei', 'price'), 'Ich möchte ein Brot.')).toBe(false);
+    expect(isGoalAchieved(goal('arzttermin', 'appointment'), 'Ich habe Kopfweh.')).toBe(false);
+  });
+});
+
+describe('Scenario Progress', () => {
+  const baeckerei = getScenario('baeckerei')!;
+
+  it('should tick off goals from learner turns since the scenario started', () => {
+    const progress = createScenarioProgress(baeckerei, 100);
+    const next = updateScenarioProgress(baeckerei, progress, [
+      say('Was kostet das?', 50),
+      say('Guten Morgen!', 150),
+      say('Was kostet das Brot?', 160, Sender.MODEL),
+      say('Ich hätte gern ein Brot.', 170),
+    ], 200);
+
+    expect(next.achievedGoalIds).toEqual(['greet', 'order']);
+    expect(next.completedAt).toBeUndefined();
+  });
+
+  it('should return the same progress when nothing new was reached', () => {
+    const progress = { ...createScenarioProgress(baeckerei, 0), achievedGoalIds: ['greet'] };
+    expect(updateScenarioProgress(baeckerei, progress, [say('Hallo!', 10)])).toBe(progress);
+  });
+
+  it('should record completion once every goal is reached', () => {
+    const progress = createScenarioProgress(baeckerei, 0);
+    const messages = [
+      say('Hallo!', 1),
+      say('Ich nehme ein Croissant.', 2),
+      say('Wie viel kostet das?', 3),
+      say('Ich zahle mit Karte.', 4),
+      say('Auf Wiedersehen!', 5),
+    ];
+
+    const done = updateScenarioProgress(baeckerei, progress, messages, 500);
+    expect(done.achievedGoalIds).toEqual(baeckerei.goals.map(g => g.id));
+    expect(done.completedAt).toBe(500);
+    expect(updateScenarioProgress(baeckerei, done, messages, 900)).toBe(done);
+  });
+
+  it('should tick off goals the tutor reports and ignore unknown ones', () => {
+    const progress = { ...createScenarioProgress(baeckerei, 0), achievedGoalIds: ['greet'] };
+    expect(completeScenarioGoal(baeckerei, progress, 'pay')?.achievedGoalIds).toEqual(['greet', 'pay']);
+    expect(completeScenarioGoal(baeckerei, progress, 'greet')).toBe(progress);
+    expect(completeScenarioGoal(baeckerei, progress, 'dance')).toBeNull();
+
+    const allButLast = { ...progress, achievedGoalIds: baeckerei.goals.slice(0, -1).map(g => g.id) };
+    expect(completeScenarioGoal(baeckerei, allButLast, 'farewell', 700)?.completedAt).toBe(700);
+  });
+
+  it('should restore stored progress and drop unknown entries', () => {
+    expect(coerceScenarioProgress({ scenarioId: 'baeckerei', startedAt: 5, achievedGoalIds: ['pay', 'gone', 'greet'], completedAt: 9 }))
+      .toEqual({ scenarioId: 'baeckerei', startedAt: 5, achievedGoalIds: ['greet', 'pay'], completedAt: 9 });
+    expect(coerceScenarioProgress({ scenarioId: 'mars-base' })).toBeNull();
+    expect(coerceScenarioProgress('baeckerei')).toBeNull();
+  });
+});
+
+describe('Scenario Instruction', () => {
+  it('should brief the tutor on the situation, roles, goals and closing condition', () => {
+    const scenario = getScenario('arzttermin')!;
+    const instruction = getScenarioInstruction(scenario, 'Lena');
+
+    expect(instruction).toContain('ROLE-PLAY SCENARIO: Arzttermin');
+    expect(instruction).toContain(scenario.tutorRole);
+    expect(instruction).toContain(scenario.learnerRole);
+    scenario.goals.forEach(g => expect(instruction).toContain(`${g.label} (id: ${g.id})`));
+    expect(instruction).toContain(`End the scene when ${scenario.closing}`);
+    expect(instruction).toContain('step out of the role as Lena');
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import { RECORDING_SAMPLE_RATE, SessionRecorder } from '../utils/sessionRecorder';
+
+const setup = () => {
+  let time = 5000;
+  const recorder = new SessionRecorder(() => time);
+  return { recorder, advance: (ms: number) => { time += ms; } };
+};
+
+const constant = (value: number, length: number) => new Float32Array(length).fill(value);
+const pcm = (value: number, length: number) => new Int16Array(length).fill(value);
+
+describe('SessionRecorder', () => {
+  it('should measure time from its creation', () => {
+    const { recorder, advance } = setup();
+    expect(recorder.now()).toBe(0);
+    advance(1500);
+    expect(recorder.now()).toBe(1.5);
+  });
+
+  it('should place tutor audio where it starts playing', () => {
+    const { recorder } = setup();
+    recorder.addTutor(pcm(1000, RECORDING_SAMPLE_RATE / 2), 1);
+
+    expect(recorder.duration).toBe(1.5);
+    const mix = recorder.mix();
+    expect(mix[RECORDING_SAMPLE_RATE - 1]).toBe(0);
+    expect(mix[RECORDING_SAMPLE_RATE]).toBe(1000);
+  });
+
+  it('should lay mic chunks end to end, ending when they were captured', () => {
+    const { recorder } = setup();
+    // 16 kHz in, 24 kHz out: the resampler holds back its filter tail until more audio arrives
+    for (let i = 1; i <= 10; i++) recorder.addMic(constant(0.5, 1600), 1 + i * 0.1);
+
+    const mix = recorder.mix();
+    const first = mix.findIndex(sample => sample !== 0);
+    expect(first / RECORDING_SAMPLE_RATE).toBeGreaterThan(0.9);
+    expect(first / RECORDING_SAMPLE_RATE).toBeLessThan(1.1);
+    expect(mix[Math.round(1.5 * RECORDING_SAMPLE_RATE)]).toBeCloseTo(0.5 * 32767, -2);
+  });
+
+  it('should move the mic back onto the clock after a gap', () => {
+    const { recorder } = setup();
+    for (let i = 1; i <= 5; i++) recorder.addMic(constant(0.5, 1600), i * 0.1);
+    const before = recorder.duration;
+
+    recorder.addMic(constant(0.5, 1600), 10);
+    expect(before).toBeLessThan(1);
+    expect(recorder.duration).toBeCloseTo(10, 1);
+  });
+
+  it('should cut tutor audio that was never played', () => {
+    const { recorder } = setup();
+    recorder.addTutor(pcm(1000, RECORDING_SAMPLE_RATE), 0);
+    recorder.addTutor(pcm(1000, RECORDING_SAMPLE_RATE), 1);
+
+    recorder.cutTutor(0.5);
+    expect(recorder.duration).toBe(0.5);
+  });
+
+  it('should mix both tracks and clamp the sum', () => {
+    const { recorder } = setup();
+    recorder.addTutor(pcm(30000, 100), 0);
+    recorder.addTutor(pcm(-1000, 100), 0);
+    recorder.addTutor(pcm(30000, 100), 0);
+
+    expect(recorder.mix(0, 0.001)[0]).toBe(32767);
+  });
+
+  it('should encode a segment as WAV', () => {
+    const { recorder } = setup();
+    recorder.addTutor(pcm(1000, RECORDING_SAMPLE_RATE * 2), 0);
+
+    const wav = recorder.toWav(0.5, 1);
+    expect(wav.length).toBe(44 + RECORDING_SAMPLE_RATE);
+    expect(new DataView(wav.buffer).getUint32(24, true)).toBe(RECORDING_SAMPLE_RATE);
+    expect(recorder.toWav().length).toBe(44 + RECORDING_SAMPLE_RATE * 4);
+  });
+});
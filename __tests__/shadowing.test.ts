@@ -0,0 +1,116 @@
+import { describe, it, expect } from 'vitest';
+import {
+  alignWords,
+  foldWord,
+  pickShadowingSentence,
+  scoreAlignment,
+  SHADOWING_SENTENCES,
+  splitWords,
+  summarizeAttempts,
+} from '../utils/shadowing';
+import { ShadowingAttempt } from '../types';
+
+const types = (target: string, spoken: string) => alignWords(target, spoken).map(op => op.type);
+
+describe('Shadowing Words', () => {
+  it('should split sentences into words without punctuation', () => {
+    expect(splitWords('Können Sie das bitte noch einmal sagen?')).toEqual(['Können', 'Sie', 'das', 'bitte', 'noch', 'einmal', 'sagen']);
+    expect(splitWords('Weil es regnet, bleiben wir zu Hause.')).toHaveLength(7);
+    expect(splitWords('  ')).toEqual([]);
+  });
+
+  it('should fold umlauts and ß into their spelled-out forms', () => {
+    expect(foldWord('Straße')).toBe(foldWord('strasse'));
+    expect(foldWord('Größe')).toBe('groesse');
+    expect(foldWord('Ü')).toBe('ue');
+  });
+});
+
+describe('Word Alignment', () => {
+  it('should match a perfect repetition regardless of case and punctuation', () => {
+    expect(types('Der Bus fährt um halb neun ab.', 'der bus fährt um halb neun ab')).toEqual(Array(7).fill('match'));
+  });
+
+  it('should treat spelled-out umlauts and ss as matches', () => {
+    expect(types('Meine Schwester wohnt in einer großen Stadt.', 'Meine Schwester wohnt in einer grossen Stadt')).not.toContain('substitution');
+    expect(types('fährt', 'faehrt')).toEqual(['match']);
+  });
+
+  it('should mark a dropped umlaut as a near miss', () => {
+    expect(alignWords('Das ist schön.', 'Das ist schon')).toEqual([
+      { type: 'match', target: 'Das', spoken: 'Das' },
+      { type: 'match', target: 'ist', spoken: 'ist' },
+      { type: 'near', target: 'schön', spoken: 'schon' },
+    ]);
+  });
+
+  it('should find omissions, substitutions and insertions', () => {
+    expect(alignWords('Ich möchte einen Termin für nächste Woche.', 'Ich möchte Termin für die nächsten Woche')).toEqual([
+      { type: 'match', target: 'Ich', spoken: 'Ich' },
+      { type: 'match', target: 'möchte', spoken: 'möchte' },
+      { type: 'omission', target: 'einen' },
+      { type: 'match', target: 'Termin', spoken: 'Termin' },
+      { type: 'match', target: 'für', spoken: 'für' },
+      { type: 'insertion', spoken: 'die' },
+      { type: 'substitution', target: 'nächste', spoken: 'nächsten' },
+      { type: 'match', target: 'Woche', spoken: 'Woche' },
+    ]);
+  });
+
+  it('should omit every word when nothing was said', () => {
+    expect(types('Guten Morgen', '')).toEqual(['omission', 'omission']);
+    expect(types('', 'hallo')).toEqual(['insertion']);
+  });
+});
+
+describe('Shadowing Score', () => {
+  it('should score a perfect repetition at 100', () => {
+    expect(scoreAlignment(alignWords('Wir trinken gern Kaffee.', 'wir trinken gern kaffee')).accuracy).toBe(100);
+  });
+
+  it('should count each error against the target length', () => {
+    const score = scoreAlignment(alignWords('Ich möchte einen Termin für nächste Woche.', 'Ich möchte Termin für die nächsten Woche'));
+    expect(score).toEqual({ accuracy: 57, matches: 5, near: 0, substitutions: 1, omissions: 1, insertions: 1 });
+  });
+
+  it('should give half credit for a dropped umlaut', () => {
+    expect(scoreAlignment(alignWords('Das ist schön.', 'Das ist schon')).accuracy).toBe(83);
+  });
+
+  it('should never go below zero', () => {
+    expect(scoreAlignment(alignWords('Hallo', 'eins zwei drei vier')).accuracy).toBe(0);
+    expect(scoreAlignment([]).accuracy).toBe(0);
+  });
+});
+
+describe('Shadowing Sentences', () => {
+  it('should avoid repeating the previous sentence', () => {
+    const [first, second] = SHADOWING_SENTENCES.A1;
+    expect(pickShadowingSentence('A1', first, () => 0)).toBe(second);
+    expect(pickShadowingSentence('A1', null, () => 0)).toBe(first);
+  });
+});
+
+describe('Shadowing Progress', () => {
+  const attempt = (sentence: string, accuracy: number, createdAt: number): ShadowingAttempt => ({
+    id: `a-${createdAt}`,
+    sentence,
+    level: 'A1',
+    transcript: '',
+    accuracy,
+    createdAt,
+  });
+
+  it('should summarize attempts per sentence, most recent first', () => {
+    const summary = summarizeAttempts([
+      attempt('Satz eins', 80, 3),
+      attempt('Satz eins', 50, 1),
+      attempt('Satz zwei', 90, 2),
+      attempt('Satz eins', 70, 4),
+    ]);
+    expect(summary).toEqual([
+      { sentence: 'Satz eins', attempts: 3, first: 50, best: 80, latest: 70, lastPractisedAt: 4 },
+      { sentence: 'Satz zwei', attempts: 1, first: 90, best: 90, latest: 90, lastPractisedAt: 2 },
+    ]);
+  });
+});
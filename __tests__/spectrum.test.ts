@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest';
+import { frequencyBands, waveformPoints } from '../utils/spectrum';
+
+// 256 bins at 48 kHz: 93.75 Hz per bin
+const SAMPLE_RATE = 48000;
+const binsWith = (levels: Record<number, number>) => {
+  const bins = new Uint8Array(256);
+  Object.entries(levels).forEach(([bin, level]) => { bins[Number(bin)] = level; });
+  return bins;
+};
+
+describe('Spectrum', () => {
+  describe('frequencyBands', () => {
+    it('should report silence as empty bands', () => {
+      expect(frequencyBands(new Uint8Array(256), SAMPLE_RATE, 8)).toEqual(new Array(8).fill(0));
+    });
+
+    it('should put low voices in the first bands and ignore what is above the range', () => {
+      // ~140 Hz fundamental, ~3 kHz sibilance and a 15 kHz whine
+      const bands = frequencyBands(binsWith({ 1: 255, 32: 102, 160: 255 }), SAMPLE_RATE, 8);
+      expect(bands).toEqual([1, 1, 0, 0, 0, 0, 0.4, 0]);
+    });
+
+    it('should give every band at least one bin when bands are narrower than bins', () => {
+      const bands = frequencyBands(binsWith({ 0: 51, 1: 51, 2: 51 }), SAMPLE_RATE, 32, 20, 300);
+      expect(bands).toHaveLength(32);
+      expect(bands.every(level => level === 0.2)).toBe(true);
+    });
+  });
+
+  describe('waveformPoints', () => {
+    it('should centre the samples around silence', () => {
+      const samples = Uint8Array.from([128, 255, 128, 0]);
+      expect(waveformPoints(samples, 4)).toEqual([0, 127 / 128, 0, -1]);
+      expect(waveformPoints(samples, 2)).toEqual([0, 0]);
+    });
+
+    it('should draw a flat line without data', () => {
+      expect(waveformPoints(new Uint8Array(0), 3)).toEqual([0, 0, 0]);
+    });
+  });
+});
@@ -0,0 +1,134 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createSchedule,
+  scheduleReview,
+  getDueCards,
+  collectNewCards,
+  cardIdFor,
+  isAnswerCorrect,
+  INITIAL_EASE,
+  MIN_EASE,
+  RELEARN_DELAY_MS,
+  withdrawnCardIds,
+} from '../utils/srs';
+import { ChatMessage, ReviewCard, Sender } from '../types';
+
+const DAY = 24 * 60 * 60 * 1000;
+const NOW = Date.UTC(2025, 0, 1);
+
+const correctionMessage = (wrong: string, corrected: string): ChatMessage => ({
+  id: wrong,
+  sender: Sender.MODEL,
+  text: `❌ ${wrong}\n✔️ ${corrected}`,
+  timestamp: NOW,
+  corrections: [{ wrong, corrected, wrongSpans: [], correctedSpans: [] }],
+});
+
+describe('Spaced Repetition Scheduler', () => {
+  describe('scheduleReview', () => {
+    it('should follow the SM-2 interval progression for good answers', () => {
+      let schedule = createSchedule(NOW);
+
+      schedule = scheduleReview(schedule, 'good', NOW);
+      expect(schedule.intervalDays).toBe(1);
+      expect(schedule.due).toBe(NOW + DAY);
+
+      schedule = scheduleReview(schedule, 'good', schedule.due);
+      expect(schedule.intervalDays).toBe(6);
+
+      schedule = scheduleReview(schedule, 'good', schedule.due);
+      expect(schedule.intervalDays).toBe(Math.round(6 * schedule.ease));
+      expect(schedule.repetitions).toBe(3);
+      expect(schedule.ease).toBeCloseTo(INITIAL_EASE);
+    });
+
+    it('should raise ease on easy and lower it on hard', () => {
+      const start = createSchedule(NOW);
+
+      expect(scheduleReview(start, 'easy', NOW).ease).toBeCloseTo(2.6);
+      expect(scheduleReview(start, 'hard', NOW).ease).toBeCloseTo(2.36);
+    });
+
+    it('should reset repetitions and count a lapse when a learned card is forgotten', () => {
+      let schedule = createSchedule(NOW);
+      schedule = scheduleReview(schedule, 'good', NOW);
+      schedule = scheduleReview(schedule, 'good', NOW + DAY);
+
+      const lapsed = scheduleReview(schedule, 'again', NOW + 7 * DAY);
+
+      expect(lapsed.repetitions).toBe(0);
+      expect(lapsed.intervalDays).toBe(0);
+      expect(lapsed.lapses).toBe(1);
+      expect(lapsed.due).toBe(NOW + 7 * DAY + RELEARN_DELAY_MS);
+      expect(lapsed.ease).toBeCloseTo(schedule.ease - 0.2);
+    });
+
+    it('should not count a lapse for a card that was never learned', () => {
+      const failed = scheduleReview(createSchedule(NOW), 'again', NOW);
+      expect(failed.lapses).toBe(0);
+    });
+
+    it('should never let the ease factor drop below the minimum', () => {
+      let schedule = createSchedule(NOW);
+      for (let i = 0; i < 20; i++) {
+        schedule = scheduleReview(schedule, i % 2 ? 'again' : 'hard', NOW + i * DAY);
+      }
+      expect(schedule.ease).toBe(MIN_EASE);
+    });
+  });
+
+  describe('getDueCards', () => {
+    it('should return due cards with the most overdue first', () => {
+      const card = (id: string, due: number): ReviewCard => ({
+        id, wrong: id, corrected: id, createdAt: NOW,
+        schedule: { ...createSchedule(NOW), due },
+      });
+      const cards = [card('later', NOW + DAY), card('recent', NOW - 1000), card('old', NOW - DAY)];
+
+      expect(getDueCards(cards, NOW).map(c => c.id)).toEqual(['old', 'recent']);
+    });
+  });
+
+  describe('collectNewCards', () => {
+    it('should create one card per distinct correction', () => {
+      const messages = [
+        correctionMessage('Ich habe gegangen.', 'Ich bin gegangen.'),
+        { id: 'u', sender: Sender.USER, text: 'Ich habe gegangen.', timestamp: NOW },
+        correctionMessage('ich habe gegangen', 'Ich bin gegangen'),
+        correctionMessage('Der Mädchen', 'Das Mädchen'),
+      ];
+
+      const cards = collectNewCards(messages, new Set(), NOW, 'session-1');
+
+      expect(cards).toHaveLength(2);
+      expect(cards[0].sessionId).toBe('session-1');
+      expect(cards[0].schedule.due).toBe(NOW);
+    });
+
+    it('should skip corrections already in the deck', () => {
+      const message = correctionMessage('Der Mädchen', 'Das Mädchen');
+      const existing = new Set([cardIdFor(message.corrections![0])]);
+
+      expect(collectNewCards([message], existing, NOW)).toEqual([]);
+    });
+
+    it('should skip corrections the tutor withdrew and name their cards', () => {
+      const recorded = (id: string, status: 'done' | 'cancelled'): ChatMessage => ({
+        ...correctionMessage(`Der Mädchen ${id}`, `Das Mädchen ${id}`),
+        sender: Sender.SYSTEM,
+        toolCall: { id, name: 'record_correction', args: { wrong: `Der Mädchen ${id}`, corrected: `Das Mädchen ${id}` }, status, result: '' },
+      });
+      const messages = [recorded('a', 'done'), recorded('b', 'cancelled')];
+
+      expect(collectNewCards(messages, new Set(), NOW).map(card => card.wrong)).toEqual(['Der Mädchen a']);
+      expect([...withdrawnCardIds(messages)]).toEqual([cardIdFor({ wrong: 'Der Mädchen b', corrected: 'Das Mädchen b' })]);
+    });
+  });
+
+  describe('isAnswerCorrect', () => {
+    it('should ignore case and punctuation', () => {
+      expect(isAnswerCorrect('ich bin gegangen', 'Ich bin gegangen.')).toBe(true);
+      expect(isAnswerCorrect('Ich habe gegangen', 'Ich bin gegangen.')).toBe(false);
+    });
+  });
+});
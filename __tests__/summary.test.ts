@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest';
+import {
+  coerceSummary,
+  conversationTurns,
+  formatSummary,
+  parseSummary,
+  shouldRefreshSummary,
+  SUMMARY_LIST_LIMIT,
+  validateSummary,
+} from '../utils/summary';
+import { ChatMessage, ConversationSummary, Sender } from '../types';
+
+const summary: ConversationSummary = {
+  summary: 'The learner is planning a trip to Hamburg.',
+  entities: ['Anna – the learner\'s sister in Hamburg'],
+  topics: ['Reisen', 'Familie'],
+  recurringMistakes: ['Dativ after "mit"'],
+  coveredTurns: 8,
+  updatedAt: 1000,
+};
+
+describe('Conversation Summary', () => {
+  it('should count only learner and tutor turns', () => {
+    const messages = [Sender.MODEL, Sender.SYSTEM, Sender.USER].map((sender, i): ChatMessage => ({
+      id: String(i), sender, text: 'x', timestamp: i,
+    }));
+    expect(conversationTurns(messages).map(m => m.sender)).toEqual([Sender.MODEL, Sender.USER]);
+  });
+
+  it('should refresh every N turns after the covered ones', () => {
+    expect(shouldRefreshSummary(7, null, 8)).toBe(false);
+    expect(shouldRefreshSummary(8, null, 8)).toBe(true);
+    expect(shouldRefreshSummary(15, summary, 8)).toBe(false);
+    expect(shouldRefreshSummary(16, summary, 8)).toBe(true);
+  });
+
+  it('should parse the model JSON, trimming, deduplicating and capping lists', () => {
+    const topics = Array.from({ length: 20 }, (_, i) => `Thema ${i}`);
+    const parsed = parseSummary(
+      '```json\n' + JSON.stringify({
+        summary: '  Anna visits Berlin. ',
+        entities: ['Anna', 'anna', ' ', 42, 'Berlin'],
+        topics,
+      }) + '\n```',
+      12,
+      5000
+    );
+
+    expect(parsed).toEqual({
+      summary: 'Anna visits Berlin.',
+      entities: ['Anna', 'Berlin'],
+      topics: topics.slice(0, SUMMARY_LIST_LIMIT),
+      recurringMistakes: [],
+      coveredTurns: 12,
+      updatedAt: 5000,
+    });
+  });
+
+  it('should reject responses without summary text', () => {
+    expect(parseSummary('not json', 4)).toBeNull();
+    expect(parseSummary('{"entities":["Anna"]}', 4)).toBeNull();
+    expect(validateSummary(['summary'], 4)).toBeNull();
+  });
+
+  it('should restore stored summaries', () => {
+    expect(coerceSummary(JSON.parse(JSON.stringify(summary)))).toEqual(summary);
+    expect(coerceSummary({ summary: 'Alt' })).toMatchObject({ summary: 'Alt', coveredTurns: 0 });
+    expect(coerceSummary(undefined)).toBeNull();
+  });
+
+  it('should format the summary for a prompt, skipping empty sections', () => {
+    expect(formatSummary(summary)).toBe([
+      'The learner is planning a trip to Hamburg.',
+      'People, places and things: Anna – the learner\'s sister in Hamburg',
+      'Topics so far: Reisen; Familie',
+      'Recurring mistakes of the learner: Dativ after "mit"',
+    ].join('\n'));
+    expect(formatSummary({ ...summary, entities: [], topics: [], recurringMistakes: [] }))
+      .toBe('The learner is planning a trip to Hamburg.');
+  });
+});
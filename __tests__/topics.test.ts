@@ -0,0 +1,151 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildTopicPrompt,
+  coerceTopic,
+  filterUnseenTopics,
+  findSourceUrl,
+  parseTopicCandidates,
+  pickOfflineTopics,
+  pruneRecentTopics,
+  rememberTopics,
+  topicKey,
+} from '../utils/topics';
+import { getTopicBand, OFFLINE_TOPICS } from '../utils/topicBank';
+import { NewsTopic } from '../types';
+
+const DAY = 24 * 60 * 60 * 1000;
+const NOW = Date.UTC(2026, 4, 1);
+
+const answer = `Hier sind drei Themen:
+\`\`\`json
+[
+  {"title": "Neues Stadion in Freiburg", "summary": "Freiburg hat ein neues Stadion.", "questions": ["Magst du Fußball?", "Warst du schon im Stadion?"], "vocabulary": ["das Stadion – stadium", "der Verein – club"]},
+  {"title": "", "summary": "Ohne Titel"},
+  {"title": "Frauen-EM in der Schweiz", "summary": "Die Schweiz feiert die Frauen-EM.", "questions": "keine Liste"},
+  {"title": "neues stadion in freiburg!", "summary": "Doppelt."}
+]
+\`\`\``;
+
+const topic = (title: string): NewsTopic => ({ title, summary: '' });
+
+describe('Topic Prompt', () => {
+  it('should ask for the selected level and interest and list topics to avoid', () => {
+    const prompt = buildTopicPrompt('A2', 'sport', 3, ['Weihnachtsmärkte']);
+    expect(prompt).toContain('CEFR level A2');
+    expect(prompt).toContain('Find 3 different');
+    expect(prompt).toContain('sports (');
+    expect(prompt).toContain('"Weihnachtsmärkte"');
+    expect(prompt).not.toContain('B1');
+  });
+});
+
+describe('Topic Parsing', () => {
+  it('should read candidates from a fenced JSON answer and drop broken or duplicate ones', () => {
+    const candidates = parseTopicCandidates(answer, 'A2', 'sport');
+    expect(candidates).toEqual([
+      {
+        title: 'Neues Stadion in Freiburg',
+        summary: 'Freiburg hat ein neues Stadion.',
+        level: 'A2',
+        interest: 'sport',
+        questions: ['Magst du Fußball?', 'Warst du schon im Stadion?'],
+        vocabulary: ['das Stadion – stadium', 'der Verein – club'],
+        source: 'search',
+      },
+      {
+        title: 'Frauen-EM in der Schweiz',
+        summary: 'Die Schweiz feiert die Frauen-EM.',
+        level: 'A2',
+        interest: 'sport',
+        questions: [],
+        vocabulary: [],
+        source: 'search',
+      },
+    ]);
+  });
+
+  it('should return nothing for an answer without a JSON array', () => {
+    expect(parseTopicCandidates('Title: Etwas\nSummary: Text', 'B1', 'culture')).toEqual([]);
+    expect(parseTopicCandidates('[not json]', 'B1', 'culture')).toEqual([]);
+  });
+
+  it('should only link sources whose grounded passage mentions the topic', () => {
+    const sources = [
+      { text: 'Die Schweiz feiert die Frauen-EM.', uris: ['https://example.org/em'] },
+      { text: 'Unrelated', uris: ['https://example.org/other'] },
+    ];
+    const [stadium, em] = parseTopicCandidates(answer, 'A2', 'sport', sources);
+
+    expect(stadium.url).toBeUndefined();
+    expect(em.url).toBe('https://example.org/em');
+    expect(findSourceUrl({ title: 'Neues Stadion in Freiburg', summary: '' }, [{ text: '"title": "Neues Stadion in Freiburg"', uris: [] }])).toBeUndefined();
+  });
+});
+
+describe('Recent Topic Cache', () => {
+  it('should identify topics regardless of case, punctuation and umlaut spelling', () => {
+    expect(topicKey('Die Buchmesse!')).toBe(topicKey('die buchmesse'));
+    expect(topicKey('Größe')).toBe(topicKey('groesse'));
+  });
+
+  it('should filter topics shown within the last month', () => {
+    const recent = [
+      { key: topicKey('Alt'), title: 'Alt', shownAt: NOW - 40 * DAY },
+      { key: topicKey('Neu'), title: 'Neu', shownAt: NOW - 2 * DAY },
+    ];
+    expect(filterUnseenTopics([topic('Alt'), topic('neu'), topic('Frisch')], recent, NOW).map(t => t.title)).toEqual(['Alt', 'Frisch']);
+    expect(pruneRecentTopics(recent, NOW).map(t => t.title)).toEqual(['Neu']);
+  });
+
+  it('should move topics shown again to the front without duplicates', () => {
+    const recent = rememberTopics([], [topic('Eins'), topic('Zwei')], NOW - DAY);
+    const updated = rememberTopics(recent, [topic('zwei')], NOW);
+
+    expect(updated.map(t => [t.title, t.shownAt])).toEqual([['zwei', NOW], ['Eins', NOW - DAY]]);
+  });
+});
+
+describe('Offline Topic Bank', () => {
+  it('should cover every interest with level-adapted texts', () => {
+    (['sport', 'culture', 'tech', 'travel'] as const).forEach(interest => {
+      expect(OFFLINE_TOPICS.filter(t => t.interest === interest).length).toBeGreaterThanOrEqual(3);
+    });
+    expect(getTopicBand('A1')).toBe('basic');
+    expect(getTopicBand('B1')).toBe('intermediate');
+    expect(getTopicBand('C1')).toBe('advanced');
+  });
+
+  it('should pick unseen topics of the interest at the learner level', () => {
+    const [first] = OFFLINE_TOPICS.filter(t => t.interest === 'travel');
+    const picks = pickOfflineTopics('A1', 'travel', [{ key: topicKey(first.title), title: first.title, shownAt: NOW - DAY }], NOW, 2);
+
+    expect(picks).toHaveLength(2);
+    expect(picks.map(t => t.title)).not.toContain(first.title);
+    picks.forEach(pick => {
+      const source = OFFLINE_TOPICS.find(t => t.title === pick.title)!;
+      expect(pick).toMatchObject({ level: 'A1', interest: 'travel', source: 'offline', summary: source.summaries.basic });
+      expect(pick.url).toBeUndefined();
+    });
+  });
+
+  it('should reuse the topic shown longest ago once all have been shown', () => {
+    const bank = OFFLINE_TOPICS.filter(t => t.interest === 'tech');
+    const recent = bank.map((t, i) => ({ key: topicKey(t.title), title: t.title, shownAt: NOW - (i + 1) * DAY }));
+    const [pick] = pickOfflineTopics('B2', 'tech', recent, NOW, 1);
+
+    expect(pick.title).toBe(bank[bank.length - 1].title);
+  });
+});
+
+describe('Topic Coercion', () => {
+  it('should drop the placeholder link of older records', () => {
+    expect(coerceTopic({ title: 'Alt', summary: 'Text', url: '#' })).toEqual({ title: 'Alt', summary: 'Text' });
+  });
+
+  it('should keep valid fields and reject topics without a title', () => {
+    expect(coerceTopic({ title: 'Neu', summary: 'S', url: 'https://x.de', level: 'B2', interest: 'tech', questions: ['Q?'], source: 'offline' }))
+      .toEqual({ title: 'Neu', summary: 'S', url: 'https://x.de', level: 'B2', interest: 'tech', questions: ['Q?'], source: 'offline' });
+    expect(coerceTopic({ title: 'X', level: 'Z9', interest: 'cooking' })).toEqual({ title: 'X', summary: '' });
+    expect(coerceTopic({ summary: 'no title' })).toBeNull();
+  });
+});
@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { formatTranscript, textHeardUntil, TimedText } from '../utils/transcript';
+import { ChatMessage, Sender } from '../types';
+
+const message = (sender: Sender, text: string, i: number): ChatMessage => ({
+  id: String(i),
+  sender,
+  text,
+  timestamp: i,
+});
+
+describe('Transcript Utilities', () => {
+  describe('formatTranscript', () => {
+    const messages = [
+      message(Sender.MODEL, 'Hallo! Wie geht es dir?', 1),
+      message(Sender.SYSTEM, 'Switching to level B1...', 2),
+      message(Sender.USER, 'Mir geht es gut.', 3),
+      message(Sender.MODEL, 'Schön!', 4),
+    ];
+
+    it('should label turns and skip system notices', () => {
+      expect(formatTranscript(messages)).toBe(
+        'Tutor: Hallo! Wie geht es dir?\nUser: Mir geht es gut.\nTutor: Schön!'
+      );
+    });
+
+    it('should keep only the most recent turns when limited', () => {
+      expect(formatTranscript(messages, 2)).toBe('User: Mir geht es gut.\nTutor: Schön!');
+    });
+  });
+
+  describe('textHeardUntil', () => {
+    const segments: TimedText[] = [
+      { text: 'Das ist', startTime: 1.0 },
+      { text: ' eine sehr', startTime: 1.6 },
+      { text: ' lange Antwort.', startTime: 2.4 },
+    ];
+
+    it('should keep the chunks that had started playing', () => {
+      expect(textHeardUntil(segments, 2.0)).toBe('Das ist eine sehr');
+    });
+
+    it('should return everything when playback got past the last chunk', () => {
+      expect(textHeardUntil(segments, 10)).toBe('Das ist eine sehr lange Antwort.');
+    });
+
+    it('should return nothing when playback stopped before the first chunk', () => {
+      expect(textHeardUntil(segments, 1.0)).toBe('');
+      expect(textHeardUntil([], 5)).toBe('');
+    });
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import { TurnAssembler } from '../utils/turnAssembler';
+import { Sender } from '../types';
+
+const assembler = () => {
+  let clock = 1000;
+  return new TurnAssembler(() => clock++);
+};
+
+const texts = (turns: { sender: Sender; text: string }[]) => turns.map(turn => `${turn.sender}: ${turn.text}`);
+
+describe('TurnAssembler', () => {
+  it('should build up each side in place under one id', () => {
+    const turns = assembler();
+    turns.addInput('Ich habe ');
+    const [caption] = turns.openTurns();
+    turns.addInput('Hunger.');
+
+    expect(turns.openTurns()).toEqual([{ ...caption, text: 'Ich habe Hunger.' }]);
+  });
+
+  it('should order turns by when their first words arrived', () => {
+    const turns = assembler();
+    turns.addInput('Wie spät');
+    turns.addOutput('Es ist');
+    // Input transcription trailing the reply still belongs to the learner turn
+    turns.addInput(' ist es?');
+    turns.addOutput(' drei Uhr.');
+
+    expect(texts(turns.openTurns())).toEqual(['user: Wie spät ist es?', 'model: Es ist drei Uhr.']);
+    const { user, tutor } = turns.closeTutor();
+    expect(user?.order).toBeLessThan(tutor!.order);
+    expect(turns.openTurns()).toEqual([]);
+  });
+
+  it('should keep a learner turn that started while the tutor was speaking open and after it', () => {
+    const turns = assembler();
+    turns.addOutput('Erstens, zweitens');
+    turns.addInput('Moment mal');
+
+    expect(texts(turns.openTurns())).toEqual(['model: Erstens, zweitens', 'user: Moment mal']);
+    expect(turns.closeTutor()).toMatchObject({ user: null, tutor: { text: 'Erstens, zweitens' } });
+    turns.addInput('!');
+    expect(texts(turns.openTurns())).toEqual(['user: Moment mal!']);
+  });
+
+  it('should close the learner turn on turn completion when the tutor stayed silent', () => {
+    const turns = assembler();
+    turns.addInput('Hmm');
+
+    expect(turns.closeTutor(true)).toMatchObject({ user: { text: 'Hmm' }, tutor: null });
+    turns.addInput('Also');
+    expect(texts(turns.openTurns())).toEqual(['user: Also']);
+  });
+
+  it('should leave the learner turn open when the tutor is interrupted before speaking', () => {
+    const turns = assembler();
+    turns.addInput('Hallo');
+
+    expect(turns.closeTutor()).toEqual({ user: null, tutor: null });
+    // The completion of the interrupted turn does not end the learner's
+    expect(turns.closeTutor(true)).toEqual({ user: null, tutor: null });
+    expect(turns.closeUser()?.text).toBe('Hallo');
+  });
+
+  it('should hand out unique ids, even within the same millisecond', () => {
+    const turns = new TurnAssembler(() => 5000);
+    turns.addInput('Ja');
+    turns.addOutput('Gut');
+    const ids = [...turns.openTurns().map(turn => turn.id), turns.nextId('typed'), turns.nextId('typed')];
+    turns.reset();
+    turns.addInput('Nein');
+    ids.push(turns.openTurns()[0].id);
+
+    expect(new Set(ids).size).toBe(ids.length);
+    expect(ids[0]).toBe('5000-0-user');
+  });
+});
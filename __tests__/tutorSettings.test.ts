@@ -0,0 +1,30 @@
+import { describe, it, expect } from 'vitest';
+import { coerceTutorSettings, DEFAULT_TUTOR_SETTINGS, normalizeTutorName } from '../utils/tutorSettings';
+
+describe('Tutor Settings', () => {
+  it('should fall back to the defaults for missing or unknown values', () => {
+    expect(coerceTutorSettings(null)).toEqual(DEFAULT_TUTOR_SETTINGS);
+    expect(coerceTutorSettings({ voice: 'Siri', correctionPolicy: 'never', explanationLanguage: 'es', tutorName: '   ' }))
+      .toEqual(DEFAULT_TUTOR_SETTINGS);
+  });
+
+  it('should keep valid values field by field', () => {
+    expect(coerceTutorSettings({ tutorName: 'Lena', voice: 'Puck', explanationLanguage: 'fr' })).toEqual({
+      ...DEFAULT_TUTOR_SETTINGS,
+      tutorName: 'Lena',
+      voice: 'Puck',
+      explanationLanguage: 'fr',
+    });
+  });
+
+  it('should only accept the offered replay rates', () => {
+    expect(coerceTutorSettings({ replayRate: 0.7 }).replayRate).toBe(0.7);
+    expect(coerceTutorSettings({ replayRate: 0.1 }).replayRate).toBe(1);
+    expect(coerceTutorSettings({ replayRate: '0.85' }).replayRate).toBe(1);
+  });
+
+  it('should tidy up the tutor name', () => {
+    expect(normalizeTutorName('  Frau   Weber ')).toBe('Frau Weber');
+    expect(normalizeTutorName('x'.repeat(40))).toHaveLength(24);
+  });
+});
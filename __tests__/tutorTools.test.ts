@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest';
+import {
+  coerceToolCall,
+  describeToolCall,
+  runToolCall,
+  toolCallMessage,
+  TUTOR_TOOL_DECLARATIONS,
+  validateToolCall,
+} from '../utils/tutorTools';
+import { Sender } from '../types';
+
+describe('Tutor Tool Declarations', () => {
+  it('should declare a validator for every tool and require what the validators need', () => {
+    TUTOR_TOOL_DECLARATIONS.forEach(declaration => {
+      const required = declaration.parameters?.required ?? [];
+      expect(validateToolCall(declaration.name, {})).toMatchObject({ ok: false });
+      expect(required.length).toBeGreaterThan(0);
+      required.forEach(key => expect(declaration.parameters?.properties).toHaveProperty(key));
+    });
+  });
+});
+
+describe('Tool Call Validation', () => {
+  it('should reject unknown functions and missing arguments', () => {
+    expect(validateToolCall('delete_everything', {})).toEqual({ ok: false, error: 'Unknown function "delete_everything".' });
+    expect(validateToolCall('toString', {})).toMatchObject({ ok: false });
+    expect(validateToolCall('record_correction', { wrong: 'Ich gehe' })).toEqual({ ok: false, error: '"wrong" and "corrected" are required.' });
+    expect(validateToolCall('set_topic', null)).toMatchObject({ ok: false });
+  });
+
+  it('should tidy up and type the arguments', () => {
+    expect(validateToolCall('record_correction', { wrong: '  Ich habe   gegangen ', corrected: 'Ich bin gegangen', explanation: '', extra: 1 }))
+      .toEqual({ ok: true, name: 'record_correction', args: { wrong: 'Ich habe gegangen', corrected: 'Ich bin gegangen' } });
+    expect(validateToolCall('suggest_level_change', { level: 'b2', reason: 'Du sprichst sehr sicher.' }))
+      .toEqual({ ok: true, name: 'suggest_level_change', args: { level: 'B2', reason: 'Du sprichst sehr sicher.' } });
+    expect(validateToolCall('set_topic', { title: 'Reisen', summary: 'Urlaub', questions: ['Wohin?', 42, 'Wann?', 'Mit wem?', 'Warum?'] }))
+      .toEqual({ ok: true, name: 'set_topic', args: { title: 'Reisen', summary: 'Urlaub', questions: ['Wohin?', 'Wann?', 'Mit wem?'] } });
+  });
+
+  it('should reject levels the app does not offer and identical corrections', () => {
+    expect(validateToolCall('suggest_level_change', { level: 'C2', reason: '' })).toMatchObject({ ok: false });
+    expect(validateToolCall('record_correction', { wrong: 'Gut.', corrected: 'Gut.' })).toMatchObject({ ok: false });
+  });
+});
+
+describe('Tool Call Execution', () => {
+  it('should run the handler and answer with its result', () => {
+    const { record, response } = runToolCall(
+      { id: '1', name: 'complete_scenario_goal', args: { goal_id: 'greet' } },
+      { complete_scenario_goal: ({ goalId }) => `Ticked off ${goalId}.` }
+    );
+    expect(record).toEqual({ id: '1', name: 'complete_scenario_goal', args: { goalId: 'greet' }, status: 'done', result: 'Ticked off greet.' });
+    expect(response).toEqual({ id: '1', name: 'complete_scenario_goal', response: { output: 'Ticked off greet.' } });
+  });
+
+  it('should turn a refusing handler into an error for the tutor', () => {
+    const { record, response } = runToolCall(
+      { id: '2', name: 'suggest_level_change', args: { level: 'B1', reason: '' } },
+      { suggest_level_change: () => { throw new Error('Already at B1.'); } }
+    );
+    expect(record?.status).toBe('failed');
+    expect(response.response).toEqual({ error: 'Already at B1.' });
+  });
+
+  it('should not create a card for an invalid call', () => {
+    const { record, response } = runToolCall({ id: '3', name: 'add_vocabulary', args: {} }, {});
+    expect(record).toBeNull();
+    expect(response.response).toEqual({ error: '"word" is required.' });
+  });
+});
+
+describe('Tool Call Cards', () => {
+  const correction = runToolCall(
+    { id: 'c', name: 'record_correction', args: { wrong: 'Ich habe gegangen', corrected: 'Ich bin gegangen', explanation: 'Bewegung' } },
+    {}
+  ).record!;
+
+  it('should carry a recorded correction as a system message', () => {
+    const message = toolCallMessage(correction, 'm1', 1000);
+    expect(message).toMatchObject({ id: 'm1', sender: Sender.SYSTEM, timestamp: 1000, text: 'Correction: Ich habe gegangen → Ich bin gegangen' });
+    expect(message.corrections).toHaveLength(1);
+    expect(message.corrections?.[0]).toMatchObject({ wrong: 'Ich habe gegangen', corrected: 'Ich bin gegangen', explanation: 'Bewegung' });
+  });
+
+  it('should describe every kind of call in one line', () => {
+    const word = runToolCall({ id: 'w', name: 'add_vocabulary', args: { word: 'der Bahnhof', translation: 'station' } }, {}).record!;
+    expect(describeToolCall(word)).toBe('New word: der Bahnhof (station)');
+  });
+
+  it('should restore stored calls and drop broken ones', () => {
+    const goal = runToolCall({ id: 'g', name: 'complete_scenario_goal', args: { goal_id: 'pay' } }, {}).record!;
+    expect(coerceToolCall(JSON.parse(JSON.stringify(correction)))).toEqual(correction);
+    expect(coerceToolCall(JSON.parse(JSON.stringify(goal)))).toEqual(goal);
+    expect(coerceToolCall({ ...correction, status: 'maybe' })).toBeNull();
+    expect(coerceToolCall({ ...correction, name: 'order_pizza' })).toBeNull();
+  });
+});
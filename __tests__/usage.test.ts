@@ -0,0 +1,155 @@
+import { describe, it, expect } from 'vitest';
+import {
+  budgetNotice,
+  checkBudgets,
+  coerceUsageSettings,
+  countTokens,
+  DEFAULT_PRICES,
+  DEFAULT_USAGE_SETTINGS,
+  estimateCost,
+  formatCost,
+  summarizeRates,
+  summarizeUsage,
+} from '../utils/usage';
+import { UsageFeature, UsageRecord, UsageSettings } from '../types';
+
+const LIVE_MODEL = 'gemini-2.5-flash-native-audio-preview-09-2025';
+
+let nextId = 0;
+const record = (feature: UsageFeature, patch: Partial<UsageRecord> = {}): UsageRecord => ({
+  id: String(nextId++),
+  feature,
+  model: 'gemini-2.5-flash',
+  sessionId: 's1',
+  at: 0,
+  inputText: 0,
+  inputAudio: 0,
+  outputText: 0,
+  outputAudio: 0,
+  ...patch,
+});
+
+const settings = (patch: Partial<UsageSettings> = {}): UsageSettings => ({
+  ...DEFAULT_USAGE_SETTINGS,
+  prices: { 'gemini-2.5-flash': { inputText: 1, inputAudio: 2, outputText: 4, outputAudio: 8 } },
+  ...patch,
+});
+
+describe('Usage', () => {
+  describe('countTokens', () => {
+    it('should bill thinking and tool prompts of a generateContent call', () => {
+      expect(countTokens({ promptTokenCount: 1200, toolUsePromptTokenCount: 300, candidatesTokenCount: 400, thoughtsTokenCount: 2000 }))
+        .toEqual({ inputText: 1500, inputAudio: 0, outputText: 2400, outputAudio: 0 });
+    });
+
+    it('should split the audio of a live message from its text', () => {
+      expect(countTokens({
+        promptTokenCount: 900,
+        responseTokenCount: 600,
+        promptTokensDetails: [{ modality: 'TEXT', tokenCount: 300 }, { modality: 'AUDIO', tokenCount: 600 }],
+        responseTokensDetails: [{ modality: 'AUDIO', tokenCount: 550 }],
+      })).toEqual({ inputText: 300, inputAudio: 600, outputText: 50, outputAudio: 550 });
+    });
+
+    it('should count nothing for empty metadata', () => {
+      expect(countTokens({})).toEqual({ inputText: 0, inputAudio: 0, outputText: 0, outputAudio: 0 });
+    });
+  });
+
+  describe('costs', () => {
+    it('should price each modality per million tokens', () => {
+      const counts = { inputText: 1_000_000, inputAudio: 500_000, outputText: 0, outputAudio: 100_000 };
+      expect(estimateCost(counts, DEFAULT_PRICES[LIVE_MODEL])).toBeCloseTo(0.5 + 1.5 + 1.2);
+      expect(estimateCost(counts, undefined)).toBe(0);
+    });
+
+    it('should break usage down by feature and flag models without a price', () => {
+      const breakdown = summarizeUsage([
+        record('live', { inputAudio: 1_000_000 }),
+        record('live', { outputText: 500_000 }),
+        record('tts', { model: 'some-new-tts', outputAudio: 1000 }),
+      ], settings().prices);
+
+      expect(breakdown.byFeature.live).toEqual({ calls: 2, tokens: 1_500_000, cost: 4 });
+      expect(breakdown.byFeature.tts).toEqual({ calls: 1, tokens: 1000, cost: 0 });
+      expect(breakdown.byFeature.analysis.calls).toBe(0);
+      expect(breakdown.total).toEqual({ calls: 3, tokens: 1_501_000, cost: 4 });
+      expect(breakdown.unpricedModels).toEqual(['some-new-tts']);
+    });
+
+    it('should format fractions of a cent', () => {
+      expect(formatCost(0)).toBe('$0.00');
+      expect(formatCost(0.00042)).toBe('$0.0004');
+      expect(formatCost(1.5)).toBe('$1.50');
+    });
+  });
+
+  describe('budgets', () => {
+    // $0.40 each
+    const call = () => record('analysis', { outputText: 100_000 });
+
+    it('should warn near a budget and stop at it', () => {
+      const budgets = checkBudgets([call()], [call(), call(), call(), call()], settings({ sessionBudget: 1, dailyBudget: 2 }));
+      expect(budgets.session).toMatchObject({ spent: expect.closeTo(0.4), status: 'ok' });
+      expect(budgets.daily).toMatchObject({ spent: expect.closeTo(1.6), status: 'warning' });
+      expect(budgets.status).toBe('warning');
+
+      expect(checkBudgets([call(), call(), call()], [], settings({ sessionBudget: 1 })).status).toBe('exceeded');
+      expect(checkBudgets([call(), call(), call()], [], settings({ sessionBudget: null, dailyBudget: null })).status).toBe('ok');
+    });
+
+    it('should tell the learner about the budget that is used up first', () => {
+      const s = settings({ sessionBudget: 1, dailyBudget: 1 });
+      expect(budgetNotice(checkBudgets([], [], s))).toBeNull();
+      expect(budgetNotice(checkBudgets([call(), call()], [call(), call(), call()], s)))
+        .toBe('The usage budget for today ($1.00) is used up. The tutor is paused until you raise it in the usage panel.');
+      expect(budgetNotice(checkBudgets([call(), call()], [call(), call()], s)))
+        .toBe('$0.80 of the $1.00 usage budget for this session is used.');
+    });
+  });
+
+  describe('summarizeRates', () => {
+    const limits = settings({ rateLimits: { 'gemini-2.5-flash': { requestsPerMinute: 10, tokensPerMinute: 1000 } } });
+
+    it('should count the requests and tokens of the last minute per model', () => {
+      const requests = [{ model: 'gemini-2.5-flash', at: 0 }, { model: 'gemini-2.5-flash', at: 50_000 }, { model: LIVE_MODEL, at: 55_000 }];
+      const records = [record('analysis', { at: 0, outputText: 500 }), record('analysis', { at: 40_000, inputText: 300, outputText: 200 })];
+
+      expect(summarizeRates(requests, records, limits, 70_000)).toEqual([
+        { model: 'gemini-2.5-flash', requests: 1, tokens: 500, limit: { requestsPerMinute: 10, tokensPerMinute: 1000 }, status: 'ok' },
+        { model: LIVE_MODEL, requests: 1, tokens: 0, limit: null, status: 'ok' },
+      ]);
+    });
+
+    it('should take the status of the limit that is closest to being reached', () => {
+      const requests = Array.from({ length: 9 }, (_, i) => ({ model: 'gemini-2.5-flash', at: i }));
+      expect(summarizeRates(requests, [], limits, 100)[0].status).toBe('warning');
+      expect(summarizeRates(requests, [record('analysis', { at: 50, outputText: 1000 })], limits, 100)[0].status).toBe('exceeded');
+    });
+  });
+
+  describe('coerceUsageSettings', () => {
+    it('should fall back to the defaults field by field', () => {
+      expect(coerceUsageSettings(null)).toEqual(DEFAULT_USAGE_SETTINGS);
+      expect(coerceUsageSettings({ sessionBudget: null, dailyBudget: -3, warnAt: 1.5, analysisThinkingBudget: 999 })).toEqual({
+        ...DEFAULT_USAGE_SETTINGS,
+        sessionBudget: null,
+      });
+    });
+
+    it('should keep valid stored prices on top of the defaults', () => {
+      const custom = { inputText: 1, inputAudio: 1, outputText: 1, outputAudio: 1 };
+      const { prices } = coerceUsageSettings({ prices: { 'gemini-2.5-flash': custom, broken: { inputText: -1 } } });
+      expect(prices['gemini-2.5-flash']).toEqual(custom);
+      expect(prices[LIVE_MODEL]).toEqual(DEFAULT_PRICES[LIVE_MODEL]);
+      expect(prices).not.toHaveProperty('broken');
+    });
+
+    it('should drop rate limits without a valid limit', () => {
+      const { rateLimits } = coerceUsageSettings({
+        rateLimits: { 'gemini-2.5-flash': { requestsPerMinute: 10, tokensPerMinute: -1 }, broken: { requestsPerMinute: 'many' } },
+      });
+      expect(rateLimits).toEqual({ 'gemini-2.5-flash': { requestsPerMinute: 10, tokensPerMinute: null } });
+    });
+  });
+});
@@ -0,0 +1,620 @@
+// @vitest-environment jsdom
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { act, renderHook, waitFor } from '@testing-library/react';
+import { useLiveTutor } from '../hooks/useLiveTutor';
+import {
+  audioChunk,
+  FakeTutorTransport,
+  FakeTutorScript,
+  inputTranscription,
+  interrupted,
+  outputTranscription,
+  resumptionUpdate,
+  toolCall,
+  toolCallCancellation,
+  turnComplete,
+  tutorTurn,
+  usage,
+} from '../services/fakeTutorTransport';
+import { ConversationSummary, Sender } from '../types';
+import { getScenario } from '../utils/scenarios';
+import { DEFAULT_TUTOR_SETTINGS } from '../utils/tutorSettings';
+import { FakeAudioContext, FakeAudioWorkletNode, installWebAudioFakes, outputContext, speak } from './webAudioFakes';
+
+const setup = (script: FakeTutorScript = {}, gateSilence = false, summary: ConversationSummary | null = null) => {
+  const transport = new FakeTutorTransport(script);
+  const hook = renderHook(() => useLiveTutor({ gateSilence, createTransport: () => transport, getSummary: () => summary }));
+  return { transport, hook };
+};
+
+const emit = async (transport: FakeTutorTransport, ...messages: Parameters<FakeTutorTransport['emit']>) => {
+  // One act per message so audio decoding settles in between, like on a real socket
+  for (const message of messages) {
+    await act(async () => transport.emit(message));
+  }
+};
+
+describe('useLiveTutor', () => {
+  beforeEach(() => {
+    installWebAudioFakes();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+    vi.useRealTimers();
+  });
+
+  it('should connect with the level in the system instruction and commit the greeting', async () => {
+    const { transport, hook } = setup({
+      steps: [{ on: 'connect', messages: tutorTurn(['Hallo! ', 'Worüber möchtest du sprechen?']) }],
+    });
+
+    await act(() => hook.result.current.start('B1'));
+
+    expect(hook.result.current.connectionState).toBe('live');
+    expect(String(transport.params?.config.systemInstruction)).toContain('**Target Level**: B1');
+    await waitFor(() => expect(hook.result.current.messages).toHaveLength(1));
+    expect(hook.result.current.messages[0]).toMatchObject({
+      sender: Sender.MODEL,
+      text: 'Hallo! Worüber möchtest du sprechen?',
+    });
+    expect(outputContext().sources).toHaveLength(2);
+  });
+
+  it('should connect with the persona and voice from the settings', async () => {
+    const transport = new FakeTutorTransport();
+    const settings = { ...DEFAULT_TUTOR_SETTINGS, tutorName: 'Lena', voice: 'Puck' as const };
+    const hook = renderHook(() => useLiveTutor({ createTransport: () => transport, getSettings: () => settings }));
+
+    await act(() => hook.result.current.start('B1'));
+
+    expect(String(transport.params?.config.systemInstruction)).toContain('your name is **Lena**');
+    expect(transport.params?.config.speechConfig?.voiceConfig?.prebuiltVoiceConfig?.voiceName).toBe('Puck');
+  });
+
+  it('should brief the tutor on the role-play and keep it across a reconnect', async () => {
+    const scenario = getScenario('baeckerei')!;
+    const { transport, hook } = setup();
+    await act(() => hook.result.current.start('A1', '', { scenario }));
+
+    let instruction = String(transport.params?.config.systemInstruction);
+    expect(instruction).toContain('ROLE-PLAY SCENARIO: Bäckerei');
+    expect(instruction).toContain('Open the scene in your role');
+    expect(instruction).not.toContain('Ich bin DAD');
+
+    await emit(transport, inputTranscription('Guten Morgen!'), ...tutorTurn(['Guten Morgen, was darf es sein?']));
+    await act(async () => transport.drop());
+
+    instruction = String(transport.params?.config.systemInstruction);
+    expect(instruction).toContain('connection to the user dropped');
+    expect(instruction).toContain('ROLE-PLAY SCENARIO: Bäckerei');
+  });
+
+  it('should commit the learner turn before the tutor reply and parse corrections', async () => {
+    const { transport, hook } = setup();
+    await act(() => hook.result.current.start('A2'));
+
+    await emit(
+      transport,
+      inputTranscription('Ich habe nach Berlin '),
+      inputTranscription('gefahren.'),
+      outputTranscription('❌ Ich habe nach Berlin gefahren.\n✔️ Ich bin nach Berlin gefahren.\n💡 Bewegung: sein.'),
+      turnComplete(),
+    );
+
+    const [user, tutor] = hook.result.current.messages;
+    expect(user).toMatchObject({ sender: Sender.USER, text: 'Ich habe nach Berlin gefahren.' });
+    expect(tutor.sender).toBe(Sender.MODEL);
+    expect(tutor.corrections?.[0]).toMatchObject({
+      wrong: 'Ich habe nach Berlin gefahren.',
+      corrected: 'Ich bin nach Berlin gefahren.',
+    });
+  });
+
+  it('should commit the learner turn when the tutor completes its turn without speaking', async () => {
+    const { transport, hook } = setup();
+    await act(() => hook.result.current.start('A2'));
+
+    await emit(transport, inputTranscription('Hmm.'), turnComplete(), inputTranscription('Ich bin müde.'));
+
+    expect(hook.result.current.messages.map(m => m.text)).toEqual(['Hmm.']);
+    expect(hook.result.current.liveTurns.map(m => m.text)).toEqual(['Ich bin müde.']);
+  });
+
+  describe('live captions', () => {
+    it('should caption both sides while they are transcribed and keep the ids when committing', async () => {
+      const { transport, hook } = setup();
+      await act(() => hook.result.current.start('A2'));
+
+      await emit(transport, inputTranscription('Ich gehe '));
+      expect(hook.result.current.liveTurns).toEqual([expect.objectContaining({ sender: Sender.USER, text: 'Ich gehe', partial: true })]);
+
+      await emit(transport, inputTranscription('ins Kino.'), outputTranscription('Toll! '));
+      const captions = hook.result.current.liveTurns;
+      expect(captions.map(m => m.text)).toEqual(['Ich gehe ins Kino.', 'Toll!']);
+      expect(hook.result.current.messages).toEqual([]);
+
+      await emit(transport, outputTranscription('Welchen Film?'), turnComplete());
+      expect(hook.result.current.liveTurns).toEqual([]);
+      expect(hook.result.current.messages.map(m => [m.id, m.text])).toEqual([
+        [captions[0].id, 'Ich gehe ins Kino.'],
+        [captions[1].id, 'Toll! Welchen Film?'],
+      ]);
+      expect(hook.result.current.messages.some(m => m.partial)).toBe(false);
+    });
+
+    it('should commit the learner turn before the tutor turn it answered when that one is cut off', async () => {
+      const { transport, hook } = setup();
+      await act(() => hook.result.current.start('A1'));
+
+      await emit(transport, inputTranscription('Hallo.'), outputTranscription('Hallo! Heute'), audioChunk(1000));
+      outputContext().currentTime = 0.5;
+      await emit(transport, interrupted());
+      expect(hook.result.current.messages.map(m => m.text)).toEqual(['Hallo.', 'Hallo! Heute']);
+
+      await emit(transport, inputTranscription('Warte!'), ...tutorTurn(['Ja, bitte?']));
+      const { messages } = hook.result.current;
+      expect(messages.map(m => m.text)).toEqual(['Hallo.', 'Hallo! Heute', 'Warte!', 'Ja, bitte?']);
+      expect(new Set(messages.map(m => m.id)).size).toBe(messages.length);
+    });
+
+    it('should place a learner turn that starts during the tutor turn after it', async () => {
+      const { transport, hook } = setup();
+      await act(() => hook.result.current.start('A1'));
+
+      await emit(transport, outputTranscription('Willkommen! Was'), audioChunk(1000), inputTranscription('Entschuldigung'));
+      expect(hook.result.current.liveTurns.map(m => m.sender)).toEqual([Sender.MODEL, Sender.USER]);
+
+      outputContext().currentTime = 0.5;
+      await emit(transport, interrupted(), turnComplete());
+      expect(hook.result.current.messages).toEqual([expect.objectContaining({ text: 'Willkommen! Was', interrupted: true })]);
+      expect(hook.result.current.liveTurns).toEqual([expect.objectContaining({ text: 'Entschuldigung' })]);
+    });
+  });
+
+  describe('function calls', () => {
+    it('should declare the tutor tools when connecting', async () => {
+      const { transport, hook } = setup();
+      await act(() => hook.result.current.start('B1'));
+
+      const names = transport.params?.config.tools?.flatMap(tool => ('functionDeclarations' in tool && tool.functionDeclarations) || []).map(fn => fn.name);
+      expect(names).toEqual(['record_correction', 'add_vocabulary', 'set_topic', 'complete_scenario_goal', 'suggest_level_change']);
+    });
+
+    it('should run the handlers, add a card per call and answer every call', async () => {
+      const transport = new FakeTutorTransport();
+      const setTopic = vi.fn(() => 'Topic set.');
+      const hook = renderHook(() => useLiveTutor({
+        createTransport: () => transport,
+        getToolHandlers: () => ({ set_topic: setTopic }),
+      }));
+      await act(() => hook.result.current.start('A2'));
+
+      await emit(
+        transport,
+        inputTranscription('Ich habe nach Berlin gefahren.'),
+        toolCall(
+          { name: 'record_correction', args: { wrong: 'Ich habe nach Berlin gefahren.', corrected: 'Ich bin nach Berlin gefahren.' } },
+          { name: 'set_topic', args: { title: 'Reisen', summary: 'Wir sprechen über Reisen.' } },
+          { name: 'order_pizza', args: {} },
+        ),
+      );
+
+      const [user, correction, topic] = hook.result.current.messages;
+      expect(user).toMatchObject({ sender: Sender.USER, text: 'Ich habe nach Berlin gefahren.' });
+      expect(correction).toMatchObject({ sender: Sender.SYSTEM, toolCall: { name: 'record_correction', status: 'done' } });
+      expect(correction.corrections?.[0].corrected).toBe('Ich bin nach Berlin gefahren.');
+      expect(topic.toolCall).toMatchObject({ name: 'set_topic', status: 'done', result: 'Topic set.' });
+      expect(hook.result.current.messages).toHaveLength(3);
+      expect(setTopic).toHaveBeenCalledWith({ title: 'Reisen', summary: 'Wir sprechen über Reisen.', questions: [] });
+
+      expect(transport.toolResponses).toEqual([
+        { id: 'record_correction', name: 'record_correction', response: { output: 'Done.' } },
+        { id: 'set_topic', name: 'set_topic', response: { output: 'Topic set.' } },
+        { id: 'order_pizza', name: 'order_pizza', response: { error: 'Unknown function "order_pizza".' } },
+      ]);
+    });
+
+    it('should report a refused call back to the tutor and mark withdrawn calls', async () => {
+      const transport = new FakeTutorTransport();
+      const hook = renderHook(() => useLiveTutor({
+        createTransport: () => transport,
+        getToolHandlers: () => ({
+          complete_scenario_goal: () => { throw new Error('No role-play is running.'); },
+        }),
+      }));
+      await act(() => hook.result.current.start('B1'));
+
+      await emit(
+        transport,
+        toolCall({ name: 'complete_scenario_goal', args: { goal_id: 'greet' } }),
+        toolCall({ id: 'call-2', name: 'add_vocabulary', args: { word: 'der Bahnhof' } }),
+        toolCall({ id: 'call-3', name: 'record_correction', args: { wrong: 'Ich gehe gestern.', corrected: 'Ich bin gestern gegangen.' } }),
+        toolCallCancellation('call-2', 'call-3'),
+      );
+
+      const [goal, word, correction] = hook.result.current.messages;
+      expect(goal.toolCall).toMatchObject({ status: 'failed', result: 'No role-play is running.' });
+      expect(transport.toolResponses[0].response).toEqual({ error: 'No role-play is running.' });
+      expect(word.toolCall?.status).toBe('cancelled');
+      expect(correction.toolCall?.status).toBe('cancelled');
+      expect(correction.corrections).toBeUndefined();
+    });
+  });
+
+  it('should stream mic audio to the transport', async () => {
+    const { transport, hook } = setup();
+    await act(() => hook.result.current.start('A1'));
+
+    await speak(0.01, 5);
+
+    expect(transport.audioChunks.length).toBeGreaterThanOrEqual(4);
+    expect(transport.audioChunks[0].mimeType).toBe('audio/pcm;rate=16000');
+  });
+
+  it('should gate silence and end the audio stream when the learner stops talking', async () => {
+    const { transport, hook } = setup({
+      steps: [{
+        on: 'audio-stream-end',
+        messages: [inputTranscription('Ich heiße Anna.'), ...tutorTurn(['Freut mich, Anna!'])],
+      }],
+    }, true);
+    await act(() => hook.result.current.start('A1'));
+
+    await speak(0.001, 20);
+    expect(transport.audioChunks).toHaveLength(0);
+
+    await speak(0.3, 10);
+    expect(hook.result.current.isUserSpeaking).toBe(true);
+    expect(transport.audioChunks.length).toBeGreaterThan(0);
+
+    await speak(0.001, 15);
+    expect(hook.result.current.isUserSpeaking).toBe(false);
+    expect(transport.audioStreamEnds).toBe(1);
+
+    await waitFor(() => expect(hook.result.current.messages).toHaveLength(2));
+    expect(hook.result.current.messages.map(m => m.text)).toEqual(['Ich heiße Anna.', 'Freut mich, Anna!']);
+  });
+
+  it('should record both voices and mark each turn on the recording', async () => {
+    let clock = 1000;
+    vi.spyOn(performance, 'now').mockImplementation(() => clock);
+    const { transport, hook } = setup();
+    await act(() => hook.result.current.start('A1', '', { record: true }));
+    await speak(0.001, 10);
+
+    clock += 1000;
+    await speak(0.3, 10);
+    clock += 1000;
+    await speak(0.001, 15);
+    await emit(transport, inputTranscription('Hallo!'), ...tutorTurn(['Hallo, wie geht es dir?'], 1000));
+
+    const recordingId = hook.result.current.recordingId;
+    const [user, tutor] = hook.result.current.messages;
+    expect(recordingId).not.toBeNull();
+    expect(user.audio).toMatchObject({ recordingId, end: 2 });
+    expect(user.audio!.start).toBeLessThan(1);
+    expect(tutor.audio).toEqual({ recordingId, start: 2, end: 3 });
+
+    const recording = hook.result.current.getRecording()!;
+    expect(recording.duration).toBeCloseTo(3, 1);
+    expect(recording.toWav(tutor.audio!.start, tutor.audio!.end).length).toBe(44 + 48000);
+  });
+
+  it('should truncate the tutor turn to what was heard when the server reports an interruption', async () => {
+    const { transport, hook } = setup();
+    await act(() => hook.result.current.start('A1'));
+
+    await emit(
+      transport,
+      outputTranscription('Das ist'), audioChunk(1000),
+      outputTranscription(' eine lange'), audioChunk(1000),
+      outputTranscription(' Antwort.'), audioChunk(1000),
+    );
+    const ctx = outputContext();
+    ctx.currentTime = 1.5;
+
+    await emit(transport, interrupted(), turnComplete());
+
+    expect(ctx.sources.every(source => source.stopped)).toBe(true);
+    expect(hook.result.current.messages).toHaveLength(1);
+    expect(hook.result.current.messages[0]).toMatchObject({ text: 'Das ist eine lange', interrupted: true });
+  });
+
+  it('should stop playback as soon as the learner talks over the tutor', async () => {
+    const { transport, hook } = setup();
+    await act(() => hook.result.current.start('A1'));
+    await speak(0.001, 10);
+
+    await emit(transport, outputTranscription('Erstens'), audioChunk(1000), outputTranscription(', zweitens'), audioChunk(1000));
+    const ctx = outputContext();
+    ctx.currentTime = 0.4;
+
+    await speak(0.3, 3);
+    expect(ctx.sources.every(source => source.stopped)).toBe(true);
+
+    // Audio still in flight for the cut-off turn is not played
+    await emit(transport, outputTranscription(', drittens'), audioChunk(1000));
+    expect(ctx.sources).toHaveLength(2);
+
+    await emit(transport, interrupted());
+    expect(hook.result.current.messages[0]).toMatchObject({ text: 'Erstens', interrupted: true });
+  });
+
+  it('should tap mic and tutor audio for the visualizer and tell who is speaking', async () => {
+    const { transport, hook } = setup();
+    await act(() => hook.result.current.start('A1'));
+
+    const [output, input] = FakeAudioContext.instances;
+    const { analysers } = hook.result.current;
+    expect(analysers.tutor).toBe(output.analysers[0]);
+    expect(analysers.mic).toBe(input.analysers[0]);
+    expect(output.analysers[0].connected).toEqual([output.destination]);
+
+    await emit(transport, audioChunk(1000), audioChunk(1000));
+    expect(output.sources.every(source => source.destination === output.analysers[0])).toBe(true);
+    expect(hook.result.current.isTutorSpeaking).toBe(true);
+
+    await act(async () => output.sources[0].onended?.());
+    expect(hook.result.current.isTutorSpeaking).toBe(true);
+    await act(async () => output.sources[1].onended?.());
+    expect(hook.result.current.isTutorSpeaking).toBe(false);
+
+    await act(() => hook.result.current.stop());
+    expect(hook.result.current.analysers).toEqual({ mic: null, tutor: null });
+  });
+
+  it('should pass on the token usage the server reports', async () => {
+    const transport = new FakeTutorTransport();
+    const onUsage = vi.fn();
+    const hook = renderHook(() => useLiveTutor({ createTransport: () => transport, onUsage }));
+    await act(() => hook.result.current.start('B1'));
+
+    await emit(transport, ...tutorTurn(['Hallo!']), usage({ promptTokenCount: 120, responseTokenCount: 40 }));
+
+    expect(onUsage).toHaveBeenCalledTimes(1);
+    expect(onUsage).toHaveBeenCalledWith(transport.params?.model, { promptTokenCount: 120, responseTokenCount: 40 });
+  });
+
+  it('should stop the session once a usage report uses up the budget', async () => {
+    const transport = new FakeTutorTransport();
+    let spent = 0;
+    const hook = renderHook(() => useLiveTutor({
+      createTransport: () => transport,
+      onUsage: (_, { promptTokenCount = 0 }) => { spent += promptTokenCount; },
+      withinBudget: () => spent < 200
+    }));
+    await act(() => hook.result.current.start('B1'));
+
+    await emit(transport, usage({ promptTokenCount: 120 }));
+    expect(hook.result.current.connectionState).toBe('live');
+
+    await emit(transport, usage({ promptTokenCount: 120 }));
+    expect(hook.result.current.connectionState).toBe('stopped');
+    expect(transport.isOpen).toBe(false);
+  });
+
+  describe('typed turns', () => {
+    it('should send typed text through the client-content channel and mark it as typed', async () => {
+      const { transport, hook } = setup({
+        steps: [{ on: 'text', match: /Brötchen/, messages: tutorTurn(['Gern! Sonst noch etwas?']) }],
+      });
+      await act(() => hook.result.current.start('A1'));
+
+      let sent = false;
+      act(() => { sent = hook.result.current.sendText('  Ich möchte zwei Brötchen. '); });
+
+      expect(sent).toBe(true);
+      expect(transport.texts).toEqual(['Ich möchte zwei Brötchen.']);
+      await waitFor(() => expect(hook.result.current.messages).toHaveLength(2));
+      expect(hook.result.current.messages[0]).toMatchObject({
+        sender: Sender.USER, text: 'Ich möchte zwei Brötchen.', typed: true,
+      });
+      expect(hook.result.current.messages[1]).toMatchObject({ sender: Sender.MODEL, text: 'Gern! Sonst noch etwas?' });
+    });
+
+    it('should refuse to send without a live connection', async () => {
+      const { transport, hook } = setup();
+      expect(hook.result.current.sendText('Hallo')).toBe(false);
+
+      await act(() => hook.result.current.start('A1'));
+      expect(hook.result.current.sendText('   ')).toBe(false);
+      expect(transport.texts).toEqual([]);
+    });
+
+    it('should run a text-only session without asking for the microphone', async () => {
+      const { transport, hook } = setup({
+        steps: [{ on: 'text', messages: tutorTurn(['Hallo! Schön, dass du schreibst.']) }],
+      });
+
+      await act(() => hook.result.current.start('B1', '', { textOnly: true }));
+      act(() => { hook.result.current.sendText('Hallo!'); });
+
+      expect(hook.result.current.connectionState).toBe('live');
+      expect(navigator.mediaDevices.getUserMedia).not.toHaveBeenCalled();
+      expect(FakeAudioWorkletNode.instances).toHaveLength(0);
+      await waitFor(() => expect(hook.result.current.messages).toHaveLength(2));
+      // Replies are still spoken
+      expect(outputContext().sources).toHaveLength(1);
+    });
+
+    it('should keep text-only mode across a level change', async () => {
+      vi.useFakeTimers();
+      const { hook } = setup();
+      await act(() => hook.result.current.start('A1', '', { textOnly: true }));
+
+      await act(async () => {
+        const changed = hook.result.current.changeLevel('B1');
+        await vi.advanceTimersByTimeAsync(1000);
+        await changed;
+      });
+
+      expect(hook.result.current.connectionState).toBe('live');
+      expect(navigator.mediaDevices.getUserMedia).not.toHaveBeenCalled();
+    });
+  });
+
+  it('should retry a refused connection', async () => {
+    vi.useFakeTimers();
+    const { transport, hook } = setup({ failConnects: 1 });
+
+    await act(async () => {
+      const started = hook.result.current.start('A1');
+      await vi.advanceTimersByTimeAsync(1000);
+      await started;
+    });
+
+    expect(transport.connectAttempts).toBe(2);
+    expect(hook.result.current.connectionState).toBe('live');
+  });
+
+  it('should close the transport on stop', async () => {
+    const { transport, hook } = setup();
+    await act(() => hook.result.current.start('A1'));
+
+    await act(() => hook.result.current.stop());
+
+    expect(transport.isOpen).toBe(false);
+    expect(hook.result.current.connectionState).toBe('stopped');
+    expect(FakeAudioContext.instances.every(ctx => ctx.state === 'closed')).toBe(true);
+  });
+
+  it('should fail after the initial connection attempts are exhausted', async () => {
+    vi.useFakeTimers();
+    const { transport, hook } = setup({ failConnects: 5 });
+
+    await act(async () => {
+      const started = hook.result.current.start('A1');
+      await vi.advanceTimersByTimeAsync(10000);
+      await started;
+    });
+
+    expect(transport.connectAttempts).toBe(3);
+    expect(hook.result.current.connectionState).toBe('failed');
+    expect(hook.result.current.messages.at(-1)?.sender).toBe(Sender.SYSTEM);
+  });
+
+  describe('reconnecting', () => {
+    it('should resume the server session with the latest resumption handle', async () => {
+      const { transport, hook } = setup();
+      await act(() => hook.result.current.start('A1'));
+      await emit(transport, resumptionUpdate('handle-1'), resumptionUpdate('handle-2'));
+
+      await act(async () => transport.drop());
+
+      expect(hook.result.current.connectionState).toBe('live');
+      expect(transport.connectAttempts).toBe(2);
+      expect(transport.params?.config.sessionResumption).toEqual({ handle: 'handle-2' });
+      expect(FakeAudioContext.instances.every(ctx => ctx.state === 'running')).toBe(true);
+    });
+
+    it('should fall back to restoring context when the handle is rejected', async () => {
+      vi.useFakeTimers();
+      const { transport, hook } = setup({ rejectResumption: true });
+      await act(() => hook.result.current.start('A1'));
+      await emit(transport, resumptionUpdate('expired'), inputTranscription('Ich wohne in Köln.'), ...tutorTurn(['Köln ist schön!']));
+
+      await act(async () => transport.drop());
+      await act(() => vi.advanceTimersByTimeAsync(2000));
+
+      expect(hook.result.current.connectionState).toBe('live');
+      expect(transport.connectAttempts).toBe(3);
+      expect(transport.params?.config.sessionResumption).toEqual({});
+      expect(String(transport.params?.config.systemInstruction)).toContain('User: Ich wohne in Köln.\nTutor: Köln ist schön!');
+    });
+
+    it('should restore context from the transcript when there is no handle', async () => {
+      const { transport, hook } = setup();
+      await act(() => hook.result.current.start('A1'));
+      await emit(transport, inputTranscription('Ich wohne in Köln.'), ...tutorTurn(['Köln ist schön!']));
+
+      await act(async () => transport.drop());
+
+      const instruction = String(transport.params?.config.systemInstruction);
+      expect(instruction).toContain('connection to the user dropped');
+      expect(instruction).toContain('User: Ich wohne in Köln.\nTutor: Köln ist schön!');
+      expect(transport.params?.config.sessionResumption).toEqual({});
+    });
+
+    it('should hand the rolling summary to the new connection', async () => {
+      const { transport, hook } = setup({}, false, {
+        summary: 'The learner has a dog called Bello.',
+        entities: ['Bello – the learner\'s dog'],
+        topics: ['Haustiere'],
+        recurringMistakes: [],
+        coveredTurns: 10,
+        updatedAt: 0,
+      });
+      await act(() => hook.result.current.start('A1'));
+      await emit(transport, inputTranscription('Bello ist krank.'), ...tutorTurn(['Oh nein!']));
+
+      await act(async () => transport.drop());
+
+      const instruction = String(transport.params?.config.systemInstruction);
+      expect(instruction).toContain('CONVERSATION SUMMARY:\nThe learner has a dog called Bello.');
+      expect(instruction).toContain('RECENT TURNS:\nUser: Bello ist krank.\nTutor: Oh nein!');
+    });
+
+    it('should keep the unfinished tutor turn when the connection drops mid-sentence', async () => {
+      const { transport, hook } = setup();
+      await act(() => hook.result.current.start('A1'));
+      await emit(transport, outputTranscription('Also, wie ich'), audioChunk(500));
+
+      await act(async () => transport.drop());
+
+      expect(hook.result.current.messages[0]).toMatchObject({ text: 'Also, wie ich', interrupted: true });
+    });
+
+    it('should buffer recent mic audio while offline and send it after reconnecting', async () => {
+      vi.useFakeTimers();
+      const { transport, hook } = setup();
+      await act(() => hook.result.current.start('A1'));
+
+      transport.offline = true;
+      await act(async () => transport.drop());
+      expect(hook.result.current.connectionState).toBe('reconnecting');
+
+      await speak(0.01, 5);
+      expect(transport.audioChunks).toHaveLength(0);
+
+      transport.offline = false;
+      await act(() => vi.advanceTimersByTimeAsync(2000));
+
+      expect(hook.result.current.connectionState).toBe('live');
+      expect(transport.audioChunks.length).toBeGreaterThanOrEqual(4);
+    });
+
+    it('should give up after repeated failures and release the microphone', async () => {
+      vi.useFakeTimers();
+      const { transport, hook } = setup();
+      await act(() => hook.result.current.start('A1'));
+
+      transport.offline = true;
+      await act(async () => transport.drop());
+      await act(() => vi.advanceTimersByTimeAsync(120000));
+
+      expect(hook.result.current.connectionState).toBe('failed');
+      expect(transport.connectAttempts).toBe(7);
+      expect(outputContext().state).toBe('closed');
+      expect(hook.result.current.messages.at(-1)?.text).toContain('Connection lost');
+    });
+
+    it('should not reconnect after stop', async () => {
+      vi.useFakeTimers();
+      const { transport, hook } = setup();
+      await act(() => hook.result.current.start('A1'));
+
+      transport.offline = true;
+      await act(async () => transport.drop());
+      await act(() => hook.result.current.stop());
+      transport.offline = false;
+      await act(() => vi.advanceTimersByTimeAsync(120000));
+
+      expect(hook.result.current.connectionState).toBe('stopped');
+      expect(transport.connectAttempts).toBe(2);
+    });
+  });
+});
@@ -0,0 +1,84 @@
+// @vitest-environment jsdom
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { act, renderHook } from '@testing-library/react';
+import { useShadowingListener } from '../hooks/useShadowingListener';
+import { FakeTutorTransport, inputTranscription, turnComplete, usage } from '../services/fakeTutorTransport';
+import { FakeAudioContext, installWebAudioFakes, speak } from './webAudioFakes';
+
+const setup = (transport = new FakeTutorTransport()) => {
+  const onUsage = vi.fn();
+  const hook = renderHook(() => useShadowingListener({ createTransport: () => transport, onUsage }));
+  return { transport, hook, onUsage };
+};
+
+describe('useShadowingListener', () => {
+  beforeEach(() => {
+    installWebAudioFakes();
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('should return the input transcription of the attempt', async () => {
+    const { transport, hook, onUsage } = setup(new FakeTutorTransport({
+      steps: [{ on: 'audio-stream-end', messages: [inputTranscription('Ich wohne '), inputTranscription('in Köln.'), usage({ promptTokenCount: 40 }), turnComplete()] }],
+    }));
+
+    let attempt: Promise<string | null> = Promise.resolve(null);
+    await act(async () => { attempt = hook.result.current.listen(); });
+    expect(hook.result.current.isListening).toBe(true);
+    expect(transport.params?.config).toMatchObject({ inputAudioTranscription: {} });
+
+    await speak(0.001, 20);
+    await speak(0.3, 10);
+    await speak(0.001, 15);
+    expect(transport.audioChunks.length).toBeGreaterThan(0);
+    expect(transport.audioStreamEnds).toBe(1);
+
+    await act(async () => { expect(await attempt).toBe('Ich wohne in Köln.'); });
+    expect(hook.result.current.isListening).toBe(false);
+    expect(transport.isOpen).toBe(false);
+    expect(onUsage).toHaveBeenCalledWith(expect.any(String), { promptTokenCount: 40 });
+    expect(FakeAudioContext.instances.every(ctx => ctx.state === 'closed')).toBe(true);
+  });
+
+  it('should only start the listen timeout once the microphone is open', async () => {
+    vi.useFakeTimers();
+    let grant: (stream: MediaStream) => void = () => {};
+    vi.mocked(navigator.mediaDevices.getUserMedia).mockImplementationOnce(() => new Promise(resolve => { grant = resolve; }));
+    const { transport, hook } = setup();
+
+    let attempt: Promise<string | null> = Promise.resolve(null);
+    await act(async () => { attempt = hook.result.current.listen(); });
+    // The learner takes a while to answer the permission prompt
+    await act(() => vi.advanceTimersByTimeAsync(20000));
+    expect(hook.result.current.isListening).toBe(true);
+
+    await act(async () => {
+      grant({ getTracks: () => [{ stop: vi.fn() }] } as unknown as MediaStream);
+      await vi.advanceTimersByTimeAsync(0);
+    });
+    expect(transport.isOpen).toBe(true);
+    expect(FakeAudioContext.instances.every(ctx => ctx.state === 'running')).toBe(true);
+
+    await act(() => vi.advanceTimersByTimeAsync(15000));
+    expect(hook.result.current.isListening).toBe(false);
+    await act(async () => { expect(await attempt).toBeNull(); });
+    expect(transport.isOpen).toBe(false);
+  });
+
+  it('should fall back to typing when the tutor cannot be reached', async () => {
+    const { hook } = setup(new FakeTutorTransport({ failConnects: 1 }));
+
+    let transcript: string | null = 'unset';
+    await act(async () => { transcript = await hook.result.current.listen(); });
+
+    expect(transcript).toBeNull();
+    expect(hook.result.current.isListening).toBe(false);
+    expect(hook.result.current.error).toContain('Type what you said instead');
+  });
+});
@@ -0,0 +1,130 @@
+import { describe, it, expect } from 'vitest';
+import { VoiceActivityDetector, VadEvent, frameLevelDb, DEFAULT_VAD_OPTIONS } from '../utils/vad';
+
+const SAMPLE_RATE = 16000;
+const FRAME_SIZE = 640; // 40ms
+
+// Deterministic PRNG (mulberry32) so noise fixtures are identical on every run
+const createRandom = (seed: number) => () => {
+  seed |= 0;
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+const noiseFrames = (count: number, amplitude: number, seed = 1): Float32Array[] => {
+  const random = createRandom(seed);
+  return Array.from({ length: count }, () =>
+    Float32Array.from({ length: FRAME_SIZE }, () => (random() * 2 - 1) * amplitude)
+  );
+};
+
+// Voiced-speech stand-in: a 180 Hz tone with a bit of background noise
+const speechFrames = (count: number, amplitude: number, seed = 2): Float32Array[] => {
+  const random = createRandom(seed);
+  let phase = 0;
+  return Array.from({ length: count }, () =>
+    Float32Array.from({ length: FRAME_SIZE }, () => {
+      phase += (2 * Math.PI * 180) / SAMPLE_RATE;
+      return Math.sin(phase) * amplitude + (random() * 2 - 1) * 0.003;
+    })
+  );
+};
+
+const run = (frames: Float32Array[], detector = new VoiceActivityDetector()): VadEvent[] =>
+  frames.map(frame => detector.process(frame)).filter((e): e is VadEvent => e !== null);
+
+const { onsetFrames, hangoverFrames } = DEFAULT_VAD_OPTIONS;
+
+describe('Voice Activity Detection', () => {
+  it('should measure frame levels in dBFS', () => {
+    expect(frameLevelDb(new Float32Array(FRAME_SIZE).fill(1))).toBeCloseTo(0);
+    expect(frameLevelDb(speechFrames(1, 1)[0])).toBeCloseTo(-3, 0);
+    expect(frameLevelDb(new Float32Array(FRAME_SIZE))).toBe(-100);
+  });
+
+  it('should stay silent on background noise and learn its level', () => {
+    const detector = new VoiceActivityDetector();
+    const events = run(noiseFrames(200, 0.003), detector);
+
+    expect(events).toEqual([]);
+    expect(detector.noiseFloorDb).toBeCloseTo(frameLevelDb(noiseFrames(1, 0.003)[0]), 0);
+  });
+
+  it('should emit speech-start after the onset frames and speech-end after the hangover', () => {
+    const frames = [...noiseFrames(50, 0.003), ...speechFrames(20, 0.2), ...noiseFrames(30, 0.003, 3)];
+
+    expect(run(frames)).toEqual([
+      { type: 'speech-start', frame: 50 + onsetFrames - 1 },
+      { type: 'speech-end', frame: 70 + hangoverFrames - 1 },
+    ]);
+  });
+
+  it('should ignore clicks shorter than the onset', () => {
+    const frames = [...noiseFrames(50, 0.003), ...speechFrames(onsetFrames - 1, 0.5), ...noiseFrames(50, 0.003, 3)];
+    expect(run(frames)).toEqual([]);
+  });
+
+  it('should bridge pauses shorter than the hangover', () => {
+    const frames = [
+      ...noiseFrames(50, 0.003),
+      ...speechFrames(10, 0.2),
+      ...noiseFrames(hangoverFrames - 1, 0.003, 3),
+      ...speechFrames(10, 0.2, 4),
+      ...noiseFrames(40, 0.003, 5),
+    ];
+
+    expect(run(frames).map(e => e.type)).toEqual(['speech-start', 'speech-end']);
+  });
+
+  it('should keep speech going between the end and start thresholds (hysteresis)', () => {
+    const detector = new VoiceActivityDetector();
+    run([...noiseFrames(50, 0.003), ...speechFrames(5, 0.2)], detector);
+    expect(detector.isSpeaking).toBe(true);
+
+    // ~9 dB above the noise floor: below the start threshold, above the end threshold
+    const noiseLevel = detector.noiseFloorDb;
+    const amplitude = Math.pow(10, (noiseLevel + 9) / 20) * Math.SQRT2;
+    expect(run(speechFrames(30, amplitude), detector)).toEqual([]);
+    expect(detector.isSpeaking).toBe(true);
+
+    // The same level never starts speech from silence
+    const fresh = new VoiceActivityDetector();
+    run(noiseFrames(50, 0.003), fresh);
+    expect(run(speechFrames(30, amplitude), fresh)).toEqual([]);
+  });
+
+  it('should calibrate to a loud room and still detect speech above it', () => {
+    const hum = speechFrames(300, 0.02); // constant -37 dBFS hum from the first frame
+    const detector = new VoiceActivityDetector();
+    const events = run([...hum, ...speechFrames(20, 0.5, 7)], detector);
+
+    expect(events.map(e => e.type)).toEqual(['speech-start']);
+    expect(events[0].frame).toBe(300 + onsetFrames - 1);
+  });
+
+  it('should eventually learn a permanent rise in background noise', () => {
+    const detector = new VoiceActivityDetector();
+    const events = run([...noiseFrames(50, 0.003), ...speechFrames(600, 0.02)], detector);
+
+    // The hum first looks like speech, then is absorbed into the noise floor
+    expect(events.map(e => e.type)).toEqual(['speech-start', 'speech-end']);
+    expect(detector.isSpeaking).toBe(false);
+    expect(detector.noiseFloorDb).toBeGreaterThan(-45);
+  });
+
+  it('should be deterministic', () => {
+    const frames = [...noiseFrames(30, 0.004), ...speechFrames(15, 0.3), ...noiseFrames(30, 0.004, 9)];
+    expect(run(frames)).toEqual(run(frames));
+  });
+
+  it('should reset to its initial state', () => {
+    const detector = new VoiceActivityDetector();
+    run([...noiseFrames(10, 0.003), ...speechFrames(10, 0.3)], detector);
+    detector.reset();
+
+    expect(detector.isSpeaking).toBe(false);
+    expect(detector.noiseFloorDb).toBe(DEFAULT_VAD_OPTIONS.initialNoiseDb);
+  });
+});
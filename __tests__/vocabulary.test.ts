@@ -0,0 +1,151 @@
+import { describe, it, expect } from 'vitest';
+import {
+  countMessageStems,
+  countStems,
+  diffStemCounts,
+  getWordListLevel,
+  getWordsToPush,
+  introduceWord,
+  measureCoverage,
+  recordUsage,
+  stemWord,
+  tokenize,
+} from '../utils/vocabulary';
+import { WORD_LISTS } from '../utils/wordLists';
+import { parseCorrections } from '../utils/corrections';
+import { Sender, VocabularyEntry } from '../types';
+
+const entry = (stem: string, patch: Partial<VocabularyEntry> = {}): VocabularyEntry => ({
+  stem,
+  forms: [stem],
+  count: 0,
+  tutorCount: 0,
+  ...patch,
+});
+
+describe('Vocabulary Tokenizer', () => {
+  it('should lower-case words and drop punctuation, numbers and single letters', () => {
+    expect(tokenize('Ich habe 2 Kinder, a Hund und eine E-Mail!')).toEqual(['ich', 'habe', 'kinder', 'hund', 'und', 'eine', 'e-mail']);
+    expect(tokenize('❌ ✔️ 💡')).toEqual([]);
+  });
+});
+
+describe('Vocabulary Stemmer', () => {
+  it('should strip plural and case endings', () => {
+    expect(stemWord('Kinder')).toBe(stemWord('Kind'));
+    expect(stemWord('Wohnungen')).toBe(stemWord('Wohnung'));
+    expect(stemWord('Tages')).toBe(stemWord('Tag'));
+  });
+
+  it('should fold umlauts so umlauted plurals share the stem', () => {
+    expect(stemWord('Häuser')).toBe('haus');
+    expect(stemWord('Haus')).toBe('haus');
+    expect(stemWord('schönen')).toBe(stemWord('schön'));
+  });
+
+  it('should treat ß and ss alike', () => {
+    expect(stemWord('Straße')).toBe(stemWord('Strasse'));
+  });
+
+  it('should strip verb endings', () => {
+    expect(stemWord('arbeiten')).toBe('arbeit');
+    expect(stemWord('arbeitest')).toBe('arbeit');
+    expect(stemWord('kaufst')).toBe(stemWord('kaufen'));
+  });
+
+  it('should leave short words alone', () => {
+    expect(stemWord('der')).toBe('der');
+    expect(stemWord('Bus')).toBe('bus');
+  });
+});
+
+describe('Vocabulary Counting', () => {
+  it('should count stems with the forms that were used', () => {
+    const counts = countStems('Das Kind spielt. Die Kinder spielen gern.');
+    expect(counts.get(stemWord('Kind'))).toEqual({ count: 2, forms: ['kind', 'kinder'] });
+  });
+
+  it('should only report what a growing transcript adds', () => {
+    const before = countStems('Ich gehe');
+    const after = countStems('Ich gehe heute ins Kino, ich');
+    const added = diffStemCounts(before, after);
+
+    expect(added.get('ich')?.count).toBe(1);
+    expect(added.has(stemWord('gehe'))).toBe(false);
+    expect(added.has('kino')).toBe(true);
+    expect(diffStemCounts(undefined, before)).toBe(before);
+  });
+
+  it('should record first-seen and last-used dates for the learner', () => {
+    const [first] = recordUsage({}, countStems('Kaffee'), 'learner', 100);
+    expect(first).toEqual({ stem: 'kaffe', forms: ['kaffee'], count: 1, tutorCount: 0, firstSeenAt: 100, lastUsedAt: 100 });
+
+    const [second] = recordUsage({ kaffe: first }, countStems('Kaffee, Kaffees'), 'learner', 200);
+    expect(second).toMatchObject({ count: 3, firstSeenAt: 100, lastUsedAt: 200, forms: ['kaffee', 'kaffees'] });
+  });
+
+  it('should count tutor usage separately', () => {
+    const [tutor] = recordUsage({}, countStems('Urlaub'), 'tutor', 50);
+    expect(tutor).toMatchObject({ count: 0, tutorCount: 1, tutorLastUsedAt: 50 });
+    expect(tutor.firstSeenAt).toBeUndefined();
+  });
+
+  it('should not credit the tutor with the learner sentence it corrects', () => {
+    const text = 'Fast!\n❌ Ich habe gegesst.\n✔️ Ich habe gegessen.\n💡 Partizip von essen.\nWas gab es?';
+    const counts = countMessageStems({ id: 'm1', sender: Sender.MODEL, text, timestamp: 0, corrections: parseCorrections(text) });
+
+    expect(counts.has(stemWord('gegesst'))).toBe(false);
+    expect(counts.get(stemWord('gegessen'))).toEqual({ count: 1, forms: ['gegessen'] });
+    expect(counts.get(stemWord('gab'))?.count).toBe(1);
+    expect(countMessageStems({ id: 'm2', sender: Sender.USER, text: 'Ich habe gegesst.', timestamp: 0 }).has(stemWord('gegesst'))).toBe(true);
+  });
+});
+
+describe('Word List Coverage', () => {
+  it('should look up the level of listed words', () => {
+    expect(getWordListLevel(stemWord('Wohnung'))).toBe('A1');
+    expect(getWordListLevel(stemWord('Urlaub'))).toBe('A2');
+    expect(getWordListLevel(stemWord('Nachhaltigkeit'))).toBe('B2');
+    expect(getWordListLevel('quatsch')).toBeNull();
+  });
+
+  it('should measure coverage from words the learner used', () => {
+    const coverage = measureCoverage([
+      entry(stemWord('Wohnung'), { count: 2 }),
+      entry(stemWord('Haus'), { count: 1 }),
+      entry(stemWord('Kind'), { tutorCount: 4 }),
+    ]);
+    const a1 = coverage.find(list => list.level === 'A1')!;
+
+    expect(coverage.map(list => list.level)).toEqual(['A1', 'A2', 'B1', 'B2']);
+    expect(a1.used).toBe(2);
+    expect(a1.total).toBeLessThanOrEqual(WORD_LISTS.A1.length);
+    expect(a1.missing).toContain('Kind');
+    expect(a1.missing).not.toContain('Wohnung');
+    expect(a1.percent).toBe(Math.round((2 / a1.total) * 100));
+  });
+});
+
+describe('Words To Push', () => {
+  it('should suggest tutor words the learner never used, reachable levels first', () => {
+    const suggestions = getWordsToPush([
+      entry('quatsch', { tutorCount: 9 }),
+      entry(stemWord('Nachhaltigkeit'), { tutorCount: 5 }),
+      entry(stemWord('Urlaub'), { tutorCount: 1 }),
+      entry(stemWord('Termin'), { tutorCount: 3 }),
+      entry(stemWord('Wohnung'), { tutorCount: 8, count: 1 }),
+    ], 'A2');
+
+    expect(suggestions.map(s => s.stem)).toEqual([stemWord('Termin'), stemWord('Urlaub'), stemWord('Nachhaltigkeit'), 'quatsch']);
+  });
+
+  it('should file words the tutor introduced under their stem and push them first', () => {
+    const bahnhof = introduceWord({}, 'der Bahnhof', 'station', 100)!;
+    expect(bahnhof).toEqual({ stem: stemWord('Bahnhof'), forms: ['bahnhof'], count: 0, tutorCount: 0, introducedAt: 100, translation: 'station' });
+    expect(introduceWord({ [bahnhof.stem]: bahnhof }, 'Bahnhöfe', undefined, 200)).toMatchObject({ introducedAt: 100, translation: 'station' });
+    expect(introduceWord({}, '–', undefined, 100)).toBeNull();
+
+    const suggestions = getWordsToPush([entry(stemWord('Termin'), { tutorCount: 3 }), bahnhof], 'A2');
+    expect(suggestions.map(s => s.stem)).toEqual([bahnhof.stem, stemWord('Termin')]);
+  });
+});
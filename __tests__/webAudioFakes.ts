@@ -0,0 +1,95 @@
+import { vi } from 'vitest';
+import { act } from '@testing-library/react';
+
+// Minimal Web Audio stand-ins: enough for the capture graph and scheduled playback
+
+export const MIC_SAMPLE_RATE = 48000;
+export const MIC_CHUNK = (MIC_SAMPLE_RATE * 40) / 1000;
+
+export class FakeBufferSource {
+  buffer: { duration: number } | null = null;
+  onended: (() => void) | null = null;
+  startTime: number | null = null;
+  stopped = false;
+  destination: unknown = null;
+  connect(node: unknown) { this.destination = node; }
+  start(when = 0) { this.startTime = when; }
+  stop() { this.stopped = true; }
+}
+
+export class FakeAnalyser {
+  fftSize = 2048;
+  smoothingTimeConstant = 0.8;
+  connected: unknown[] = [];
+  connect(node: unknown) { this.connected.push(node); }
+  disconnect() {}
+}
+
+export class FakeAudioContext {
+  static instances: FakeAudioContext[] = [];
+  sampleRate = MIC_SAMPLE_RATE;
+  currentTime = 0;
+  state = 'running';
+  destination = {};
+  audioWorklet = { addModule: vi.fn(async () => {}) };
+  sources: FakeBufferSource[] = [];
+  analysers: FakeAnalyser[] = [];
+
+  constructor() { FakeAudioContext.instances.push(this); }
+  createMediaStreamSource() { return { connect() {} }; }
+  createBuffer(channels: number, length: number, sampleRate: number) {
+    const data = Array.from({ length: channels }, () => new Float32Array(length));
+    return { duration: length / sampleRate, getChannelData: (channel: number) => data[channel] };
+  }
+  createAnalyser() {
+    const analyser = new FakeAnalyser();
+    this.analysers.push(analyser);
+    return analyser;
+  }
+  createBufferSource() {
+    const source = new FakeBufferSource();
+    this.sources.push(source);
+    return source;
+  }
+  async close() { this.state = 'closed'; }
+}
+
+export class FakeAudioWorkletNode {
+  static instances: FakeAudioWorkletNode[] = [];
+  port: { onmessage: ((e: { data: Float32Array }) => void) | null } = { onmessage: null };
+  constructor() { FakeAudioWorkletNode.instances.push(this); }
+  connect() {}
+  disconnect() {}
+}
+
+export const outputContext = () => FakeAudioContext.instances[0];
+export const captureNode = () => FakeAudioWorkletNode.instances[FakeAudioWorkletNode.instances.length - 1];
+
+export const tone = (amplitude: number) => {
+  let phase = 0;
+  return Float32Array.from({ length: MIC_CHUNK }, () => {
+    phase += (2 * Math.PI * 200) / MIC_SAMPLE_RATE;
+    return Math.sin(phase) * amplitude;
+  });
+};
+
+/** Feeds mic chunks through the capture worklet port. */
+export const speak = async (amplitude: number, chunks: number) => {
+  await act(async () => {
+    for (let i = 0; i < chunks; i++) captureNode().port.onmessage?.({ data: tone(amplitude) });
+  });
+};
+
+/** Installs the fakes and a microphone that always grants access. */
+export const installWebAudioFakes = () => {
+  FakeAudioContext.instances = [];
+  FakeAudioWorkletNode.instances = [];
+  vi.stubGlobal('AudioContext', FakeAudioContext);
+  vi.stubGlobal('AudioWorkletNode', FakeAudioWorkletNode);
+  Object.defineProperty(navigator, 'mediaDevices', {
+    configurable: true,
+    value: { getUserMedia: vi.fn(async () => ({ getTracks: () => [{ stop: vi.fn() }] })) },
+  });
+  URL.createObjectURL = vi.fn(() => 'blob:capture');
+  URL.revokeObjectURL = vi.fn();
+};
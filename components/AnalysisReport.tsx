@@ -0,0 +1,130 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { AnalysisResult, ErrorCategory } from '../types';
+import { groupErrorsByCategory } from '../utils/analysis';
+import { Markdown } from './Markdown';
+
+interface Props {
+  analysis: AnalysisResult;
+  onClose: () => void;
+}
+
+const CATEGORY_HINTS: Record<ErrorCategory, string> = {
+  Kasus: 'Nominativ, Akkusativ, Dativ, Genitiv',
+  Verbstellung: 'Position of the verb in the sentence',
+  Artikel: 'der, die, das & Co.',
+  'Präpositionen': 'Which preposition, which case',
+  Wortschatz: 'Word choice and idioms',
+  Konjugation: 'Verb forms and tenses',
+  Adjektivendungen: 'Adjective endings',
+  Rechtschreibung: 'Spelling and capitalization',
+  Sonstiges: 'Other mistakes',
+};
+
+export const AnalysisReport: React.FC<Props> = ({ analysis, onClose }) => {
+  const groups = useMemo(() => groupErrorsByCategory(analysis.errors), [analysis.errors]);
+  const firstOpen = () => new Set(groups.slice(0, 1).map(([category]) => category));
+  const [openCategories, setOpenCategories] = useState<Set<ErrorCategory>>(firstOpen);
+  const isStructured = !analysis.rawText;
+
+  // A new report starts with only its first category expanded again
+  useEffect(() => {
+    setOpenCategories(firstOpen());
+  }, [analysis]);
+
+  const toggleCategory = (category: ErrorCategory) => {
+    setOpenCategories(p => {
+      const next = new Set(p);
+      if (next.has(category)) next.delete(category); else next.add(category);
+      return next;
+    });
+  };
+
+  return (
+    <div className="mt-8 p-6 bg-slate-900 border border-indigo-500/50 rounded-2xl shadow-2xl mb-8">
+      <div className="flex items-start justify-between mb-4">
+        <h2 className="text-xl font-bold text-white">Conversation Analysis</h2>
+        {analysis.estimatedLevel && (
+          <div className="text-right">
+            <div className="text-[10px] uppercase tracking-wider text-slate-500">Estimated level</div>
+            <div className="text-2xl font-bold text-indigo-300">{analysis.estimatedLevel}</div>
+          </div>
+        )}
+      </div>
+
+      {!isStructured && (
+        <div className="mb-4">
+          <p className="text-xs text-yellow-400 mb-2">The report could not be structured, showing the raw analysis instead.</p>
+          <Markdown source={analysis.rawText ?? ''} className="text-sm text-slate-300 leading-relaxed" />
+        </div>
+      )}
+
+      {analysis.summary && (
+        <Markdown source={analysis.summary} className="text-sm text-slate-300 leading-relaxed mb-6" />
+      )}
+
+      {isStructured && (
+        <section className="mb-6">
+          <h3 className="text-sm font-bold text-white mb-2">
+            Mistakes <span className="text-slate-500 font-normal">({analysis.errors.length})</span>
+          </h3>
+          {groups.length === 0 && (
+            <p className="text-sm text-green-400">No mistakes found. Hervorragend!</p>
+          )}
+          <div className="space-y-2">
+            {groups.map(([category, errors]) => {
+              const isOpen = openCategories.has(category);
+              return (
+                <div key={category} className="rounded-lg border border-slate-700 bg-slate-800/40">
+                  <button
+                    onClick={() => toggleCategory(category)}
+                    className="w-full flex items-center justify-between px-3 py-2 text-left"
+                    aria-expanded={isOpen}
+                  >
+                    <span>
+                      <span className="text-sm font-semibold text-indigo-300">{category}</span>
+                      <span className="text-xs text-slate-500 ml-2">{CATEGORY_HINTS[category]}</span>
+                    </span>
+                    <span className="text-xs text-slate-400">
+                      {errors.length} {isOpen ? '▾' : '▸'}
+                    </span>
+                  </button>
+                  {isOpen && (
+                    <ul className="px-3 pb-3 space-y-3">
+                      {errors.map((error, i) => (
+                        <li key={i} className="text-sm">
+                          <div className="text-red-300">❌ {error.original}</div>
+                          <div className="text-green-300">✔️ {error.corrected}</div>
+                          {error.explanation && <div className="text-xs text-slate-400 mt-0.5">💡 {error.explanation}</div>}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </section>
+      )}
+
+      {analysis.strengths.length > 0 && (
+        <section className="mb-6">
+          <h3 className="text-sm font-bold text-white mb-2">Strengths</h3>
+          <ul className="list-disc list-inside text-sm text-slate-300 space-y-1">
+            {analysis.strengths.map((strength, i) => <li key={i}>{strength}</li>)}
+          </ul>
+        </section>
+      )}
+
+      {analysis.nextSteps.length > 0 && (
+        <section className="mb-2">
+          <h3 className="text-sm font-bold text-white mb-2">Next Steps</h3>
+          <ol className="list-decimal list-inside text-sm text-slate-300 space-y-1">
+            {analysis.nextSteps.map((step, i) => <li key={i}>{step}</li>)}
+          </ol>
+        </section>
+      )}
+
+      <button onClick={onClose} className="mt-4 text-xs text-slate-500 hover:text-white underline">Close Report</button>
+    </div>
+  );
+};
@@ -1,12 +1,49 @@
 import React, { useEffect, useRef } from 'react';
+import { AudioAnalysers } from '../types';
+import { frequencyBands, waveformPoints } from '../utils/spectrum';
 
 interface Props {
-  volume: number; // 0-100
+  analysers: AudioAnalysers;
   isActive: boolean;
+  isUserSpeaking?: boolean; // VAD speech state of the learner
+  isTutorSpeaking?: boolean; // tutor audio is playing
 }
 
-export const AudioVisualizer: React.FC<Props> = ({ volume, isActive }) => {
+const BARS = 24;
+const WAVE_POINTS = 64;
+const COLORS = {
+  user: '74, 222, 128', // green-400
+  tutor: '129, 140, 248', // indigo-400
+};
+
+interface Snapshot {
+  frequencies: Uint8Array<ArrayBuffer>;
+  waveform: Uint8Array<ArrayBuffer>;
+}
+
+// Reuses one pair of buffers per analyser instead of allocating every frame
+const readAnalyser = (analyser: AnalyserNode, snapshots: WeakMap<AnalyserNode, Snapshot>): Snapshot => {
+  let snapshot = snapshots.get(analyser);
+  if (!snapshot) {
+    snapshot = { frequencies: new Uint8Array(analyser.frequencyBinCount), waveform: new Uint8Array(analyser.fftSize) };
+    snapshots.set(analyser, snapshot);
+  }
+  analyser.getByteFrequencyData(snapshot.frequencies);
+  analyser.getByteTimeDomainData(snapshot.waveform);
+  return snapshot;
+};
+
+/**
+ * Spectrum and waveform of both voices: the tutor above the centre line, the
+ * learner below it. The voice of whoever is talking is drawn brighter.
+ */
+export const AudioVisualizer: React.FC<Props> = ({ analysers, isActive, isUserSpeaking = false, isTutorSpeaking = false }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
+  // The learner wins while talking over the tutor, playback is being cut off then
+  const speaker = isUserSpeaking ? 'user' : isTutorSpeaking ? 'tutor' : null;
+  // Read by the animation loop, which runs for the lifetime of the component instead of restarting on every change
+  const latestRef = useRef({ analysers, isActive, speaker });
+  latestRef.current = { analysers, isActive, speaker };
 
   useEffect(() => {
     const canvas = canvasRef.current;
@@ -14,60 +51,77 @@ export const AudioVisualizer: React.FC<Props> = ({ volume, isActive }) => {
     const ctx = canvas.getContext('2d');
     if (!ctx) return;
 
+    const snapshots = new WeakMap<AnalyserNode, Snapshot>();
     let animationId: number;
 
+    const drawVoice = (analyser: AnalyserNode, voice: 'user' | 'tutor', active: boolean) => {
+      const { width, height } = canvas;
+      const middle = height / 2;
+      const direction = voice === 'tutor' ? -1 : 1;
+      const { frequencies, waveform } = readAnalyser(analyser, snapshots);
+
+      // Spectrum bars grow away from the centre line
+      const barWidth = width / BARS;
+      ctx.fillStyle = `rgba(${COLORS[voice]}, ${active ? 0.9 : 0.35})`;
+      frequencyBands(frequencies, analyser.context.sampleRate, BARS).forEach((level, i) => {
+        const barHeight = Math.max(1, level * (middle - 2));
+        ctx.fillRect(i * barWidth + 1, direction < 0 ? middle - barHeight : middle, barWidth - 2, barHeight);
+      });
+
+      // Waveform on top, in the same half
+      ctx.strokeStyle = `rgba(${COLORS[voice]}, ${active ? 1 : 0.5})`;
+      ctx.lineWidth = 1.5;
+      ctx.beginPath();
+      waveformPoints(waveform, WAVE_POINTS).forEach((value, i) => {
+        const x = (i / (WAVE_POINTS - 1)) * width;
+        const y = middle + direction * (middle / 2) + value * (middle / 2);
+        if (i === 0) ctx.moveTo(x, y);
+        else ctx.lineTo(x, y);
+      });
+      ctx.stroke();
+    };
+
     const draw = () => {
-      const width = canvas.width;
-      const height = canvas.height;
+      animationId = requestAnimationFrame(draw);
+      const { analysers, isActive, speaker } = latestRef.current;
+      const { width, height } = canvas;
       ctx.clearRect(0, 0, width, height);
 
-      if (!isActive) {
-        // Idle state line
-        ctx.beginPath();
-        ctx.strokeStyle = '#334155'; // slate-700
-        ctx.lineWidth = 2;
-        ctx.moveTo(0, height / 2);
-        ctx.lineTo(width, height / 2);
-        ctx.stroke();
-        return;
-      }
-
-      // Dynamic wave
-      const bars = 20;
-      const barWidth = width / bars;
-      
-      ctx.fillStyle = '#4ade80'; // green-400
-      
-      for (let i = 0; i < bars; i++) {
-        // Create a wave effect based on volume and time
-        const time = Date.now() / 100;
-        const wave = Math.sin(i * 0.5 + time) * 0.5 + 0.5; // 0 to 1
-        // Random jitter based on volume
-        const jitter = Math.random() * 0.5 + 0.5;
-        
-        // Height is proportional to volume + wave effect
-        const barHeight = Math.max(4, (volume / 100) * height * wave * jitter * 1.5);
-        
-        const x = i * barWidth + 2;
-        const y = (height - barHeight) / 2;
-        
-        ctx.fillRect(x, y, barWidth - 4, barHeight);
-      }
+      // Centre line, also the idle state
+      ctx.fillStyle = '#334155'; // slate-700
+      ctx.fillRect(0, height / 2 - 1, width, 2);
+      if (!isActive) return;
 
-      animationId = requestAnimationFrame(draw);
+      if (analysers.tutor) drawVoice(analysers.tutor, 'tutor', speaker === 'tutor');
+      if (analysers.mic) drawVoice(analysers.mic, 'user', speaker === 'user');
     };
 
     draw();
 
     return () => cancelAnimationFrame(animationId);
-  }, [volume, isActive]);
+  }, []);
+
+  const indicator = (voice: 'user' | 'tutor', label: string, position: string) => (
+    <span
+      className={`absolute ${position} flex items-center gap-1 px-2 py-0.5 rounded-full text-[10px] font-semibold transition-opacity ${
+        speaker === voice ? 'opacity-100' : 'opacity-30'
+      } ${voice === 'user' ? 'bg-green-900/70 text-green-300' : 'bg-indigo-900/70 text-indigo-300'}`}
+    >
+      <span className={`w-1.5 h-1.5 rounded-full ${voice === 'user' ? 'bg-green-400' : 'bg-indigo-400'} ${speaker === voice ? 'animate-pulse' : ''}`} />
+      {label}
+    </span>
+  );
 
   return (
-    <canvas 
-      ref={canvasRef} 
-      width={300} 
-      height={60} 
-      className="w-full h-16 rounded-lg bg-slate-800 border border-slate-700 shadow-inner"
-    />
+    <div className="relative">
+      <canvas
+        ref={canvasRef}
+        width={300}
+        height={60}
+        className="w-full h-16 rounded-lg bg-slate-800 border border-slate-700 shadow-inner"
+      />
+      {isActive && indicator('tutor', 'Tutor', 'top-1 left-1')}
+      {isActive && indicator('user', 'You', 'bottom-1 right-1')}
+    </div>
   );
-};
\ No newline at end of file
+};
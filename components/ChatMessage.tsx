@@ -1,13 +1,57 @@
-import React from 'react';
-import { ChatMessage as IChatMessage, Sender } from '../types';
+import React, { useMemo } from 'react';
+import { ChatMessage as IChatMessage, ProficiencyLevel, Sender, SpeechPlayback } from '../types';
+import { stripCorrections } from '../utils/corrections';
+import { markdownToPlainText } from '../utils/markdown';
+import { CorrectionDiff } from './CorrectionDiff';
+import { Markdown } from './Markdown';
+import { SpeakButton } from './SpeakButton';
+import { ToolCallCard } from './ToolCallCard';
 
 interface Props {
   message: IChatMessage;
+  /** Plays this turn from the session recording; omitted when the recording is not available. */
+  onPlayAudio?: () => void;
+  isPlayingAudio?: boolean;
+  /** Reads a text aloud with the tutor voice; the same text again stops it. */
+  onSpeak?: (text: string) => void;
+  speech?: SpeechPlayback | null;
+  /** For level suggestions made by the tutor. */
+  currentLevel?: ProficiencyLevel;
+  onSwitchLevel?: (level: ProficiencyLevel) => void;
 }
 
-export const ChatMessage: React.FC<Props> = ({ message }) => {
+export const ChatMessage: React.FC<Props> = ({
+  message,
+  onPlayAudio,
+  isPlayingAudio = false,
+  onSpeak,
+  speech = null,
+  currentLevel,
+  onSwitchLevel,
+}) => {
   const isUser = message.sender === Sender.USER;
   const isSystem = message.sender === Sender.SYSTEM;
+  const corrections = message.corrections ?? [];
+  const hasCorrections = corrections.length > 0 && !isUser;
+
+  const body = useMemo(
+    () => (hasCorrections ? stripCorrections(message.text) : message.text),
+    [hasCorrections, message.text]
+  );
+  const spokenText = useMemo(() => (isUser || message.partial ? '' : markdownToPlainText(body)), [isUser, message.partial, body]);
+
+  if (isSystem && message.toolCall) {
+    return (
+      <ToolCallCard
+        call={message.toolCall}
+        corrections={corrections}
+        onSpeak={onSpeak}
+        speech={speech}
+        currentLevel={currentLevel}
+        onSwitchLevel={onSwitchLevel}
+      />
+    );
+  }
 
   if (isSystem) {
     return (
@@ -21,21 +65,63 @@ export const ChatMessage: React.FC<Props> = ({ message }) => {
 
   return (
     <div className={`flex w-full mb-4 ${isUser ? 'justify-end' : 'justify-start'}`}>
-      <div 
+      <div
         className={`
           max-w-[80%] px-4 py-3 rounded-2xl shadow-sm
-          ${isUser 
-            ? 'bg-blue-600 text-white rounded-br-sm' 
+          ${isUser
+            ? 'bg-blue-600 text-white rounded-br-sm'
             : 'bg-slate-700 text-slate-100 rounded-bl-sm border border-slate-600'
           }
-          ${message.isCorrection ? 'border-l-4 border-l-yellow-400' : ''}
+          ${hasCorrections ? 'border-l-4 border-l-yellow-400' : ''}
+          ${message.interrupted ? 'border-dashed' : ''}
+          ${message.partial ? 'opacity-70' : ''}
         `}
       >
-        {message.isCorrection && !isUser && (
+        {hasCorrections && (
           <div className="text-xs font-bold text-yellow-400 mb-1 uppercase tracking-wider">Correction / Suggestion</div>
         )}
-        <p className="text-sm leading-relaxed whitespace-pre-wrap">{message.text}</p>
+        {/* Captions are plain text, half-streamed markdown would flicker */}
+        {body && (isUser || message.partial
+          ? <p className="text-sm leading-relaxed whitespace-pre-wrap">{body}</p>
+          : <Markdown source={body} className="text-sm leading-relaxed" />
+        )}
+        {hasCorrections && corrections.map((correction, i) => (
+          <CorrectionDiff key={i} correction={correction} onSpeak={onSpeak} speech={speech} />
+        ))}
+        {message.partial && (
+          <div className={`mt-1 text-[10px] italic ${isUser ? 'text-blue-200/80 text-right' : 'text-slate-400'}`}>
+            {isUser ? 'Listening…' : 'Speaking…'}
+          </div>
+        )}
+        {message.typed && isUser && (
+          <div className="mt-1 text-[10px] text-blue-200/80 text-right" title="Typed instead of spoken">
+            ⌨ typed
+          </div>
+        )}
+        {message.interrupted && !isUser && (
+          <div className="mt-1 text-[10px] italic text-amber-300/80" title="The tutor was cut off before finishing">
+            ✋ Cut off
+          </div>
+        )}
+        {onPlayAudio && (
+          <button
+            onClick={onPlayAudio}
+            className={`mt-1 text-[10px] ${isUser ? 'text-blue-100 hover:text-white' : 'text-slate-300 hover:text-white'}`}
+            title={isPlayingAudio ? 'Stop' : 'Play this turn from the recording'}
+          >
+            {isPlayingAudio ? '■ Stop' : '▶ Play'}
+          </button>
+        )}
+        {onSpeak && spokenText && (
+          <SpeakButton
+            text={spokenText}
+            label="Hear again"
+            speech={speech}
+            onSpeak={onSpeak}
+            className={`mt-1 text-[10px] text-slate-300 hover:text-white ${onPlayAudio ? 'ml-3' : ''}`}
+          />
+        )}
       </div>
     </div>
   );
-};
\ No newline at end of file
+};
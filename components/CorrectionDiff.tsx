@@ -0,0 +1,44 @@
+import React, { useMemo } from 'react';
+import { Correction, SpeechPlayback } from '../types';
+import { diffWords } from '../utils/corrections';
+import { SpeakButton } from './SpeakButton';
+
+interface Props {
+  correction: Correction;
+  onSpeak?: (text: string) => void;
+  speech: SpeechPlayback | null;
+}
+
+export const CorrectionDiff: React.FC<Props> = ({ correction, onSpeak, speech }) => {
+  const segments = useMemo(
+    () => diffWords(correction.wrong, correction.corrected),
+    [correction.wrong, correction.corrected]
+  );
+
+  return (
+    <div className="mt-2 p-2 rounded-lg bg-slate-800/60 border border-slate-600">
+      {onSpeak && (
+        <SpeakButton
+          text={correction.corrected}
+          speech={speech}
+          onSpeak={onSpeak}
+          className="float-right ml-2 text-xs text-slate-400 hover:text-white"
+        />
+      )}
+      <p className="text-sm leading-relaxed">
+        {segments.map((segment, i) => {
+          if (segment.type === 'removed') {
+            return <del key={i} className="text-red-300 decoration-red-400/70">{segment.text}</del>;
+          }
+          if (segment.type === 'added') {
+            return <ins key={i} className="text-green-300 no-underline font-semibold">{segment.text}</ins>;
+          }
+          return <span key={i}>{segment.text}</span>;
+        })}
+      </p>
+      {correction.explanation && (
+        <p className="text-xs text-slate-300 mt-1">💡 {correction.explanation}</p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,75 @@
+import React, { useRef, useState } from 'react';
+import { ExportFormat } from '../utils/exporters';
+
+interface Props {
+  canExport: boolean;
+  onExport: (format: ExportFormat) => void;
+  onImport: (file: File) => void;
+}
+
+const FORMATS: { format: ExportFormat; label: string; hint: string }[] = [
+  { format: 'markdown', label: 'Markdown', hint: 'Notes with corrections and analysis' },
+  { format: 'json', label: 'JSON', hint: 'Full backup, can be imported again' },
+  { format: 'vtt', label: 'WebVTT', hint: 'Subtitles with turn timestamps' },
+  { format: 'srt', label: 'SRT', hint: 'Subtitles with turn timestamps' },
+  { format: 'anki-csv', label: 'Anki (CSV)', hint: 'Flashcards from your corrections' },
+  { format: 'anki-tsv', label: 'Anki (TSV)', hint: 'Flashcards from your corrections' },
+];
+
+const ExportIcon = () => <svg className="w-5 h-5 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-8l-4-4m0 0L8 8m4-4v12" /></svg>;
+
+export const ExportMenu: React.FC<Props> = ({ canExport, onExport, onImport }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const choose = (format: ExportFormat) => {
+    setIsOpen(false);
+    onExport(format);
+  };
+
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Reset so picking the same file again still fires a change
+    e.target.value = '';
+    if (file) onImport(file);
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        className="px-3 py-2 bg-slate-800 hover:bg-slate-700 text-slate-300 text-xs rounded-md transition-colors flex items-center border border-slate-700"
+        title="Export or import a conversation"
+      >
+        <ExportIcon />
+        <span className="hidden sm:inline">Export</span>
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-64 bg-slate-900 border border-slate-700 rounded-md shadow-xl z-40 py-1">
+          {FORMATS.map(({ format, label, hint }) => (
+            <button
+              key={format}
+              onClick={() => choose(format)}
+              disabled={!canExport}
+              className="w-full text-left px-3 py-2 hover:bg-slate-800 disabled:opacity-40 disabled:cursor-not-allowed"
+            >
+              <span className="block text-xs text-white">{label}</span>
+              <span className="block text-[10px] text-slate-500">{hint}</span>
+            </button>
+          ))}
+          <div className="border-t border-slate-800 my-1"></div>
+          <button
+            onClick={() => { setIsOpen(false); fileInputRef.current?.click(); }}
+            className="w-full text-left px-3 py-2 hover:bg-slate-800"
+          >
+            <span className="block text-xs text-white">Import JSON…</span>
+            <span className="block text-[10px] text-slate-500">Adds a backup to your session history</span>
+          </button>
+        </div>
+      )}
+
+      <input ref={fileInputRef} type="file" accept="application/json,.json" onChange={handleFile} className="hidden" />
+    </div>
+  );
+};
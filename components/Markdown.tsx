@@ -0,0 +1,16 @@
+import React, { useMemo } from 'react';
+import { renderMarkdown } from '../utils/markdown';
+
+interface Props {
+  source: string;
+  className?: string;
+}
+
+/**
+ * Renders model-generated Markdown. `renderMarkdown` escapes all raw HTML and
+ * filters link protocols, which is what makes the innerHTML below safe.
+ */
+export const Markdown: React.FC<Props> = ({ source, className = '' }) => {
+  const html = useMemo(() => renderMarkdown(source), [source]);
+  return <div className={`markdown ${className}`} dangerouslySetInnerHTML={{ __html: html }} />;
+};
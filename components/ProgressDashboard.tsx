@@ -0,0 +1,192 @@
+import React, { useMemo } from 'react';
+import { SessionRecord } from '../types';
+import { CEFR_LEVELS } from '../utils/analysis';
+import { summarizeProgress } from '../utils/progress';
+
+interface Props {
+  sessions: SessionRecord[];
+  onClose: () => void;
+}
+
+interface ChartPoint {
+  label: string;
+  value: number | null;
+}
+
+const WIDTH = 300;
+const HEIGHT = 100;
+const PADDING = 6;
+// Only the latest sessions fit the charts legibly
+const MAX_POINTS = 30;
+
+const formatMinutes = (seconds: number) =>
+  seconds < 60 ? `${Math.round(seconds)} s` : `${Math.round(seconds / 60)} min`;
+
+const formatDay = (timestamp: number) =>
+  new Date(timestamp).toLocaleDateString('de-DE', { day: '2-digit', month: '2-digit' });
+
+/** A small client-side SVG chart; null values leave a gap in lines and no bar. */
+const TrendChart: React.FC<{
+  points: ChartPoint[];
+  kind: 'line' | 'bar';
+  color: string;
+  format: (value: number) => string;
+  /** Fixed labels for the integer values 0..n-1, e.g. CEFR levels. */
+  scale?: string[];
+}> = ({ points, kind, color, format, scale }) => {
+  const values = points.map(p => p.value).filter((v): v is number => v !== null);
+  if (values.length === 0) {
+    return <p className="text-xs text-slate-500 py-6 text-center">No data yet.</p>;
+  }
+
+  const max = scale ? scale.length - 1 : Math.max(...values, 1);
+  const step = (WIDTH - PADDING * 2) / Math.max(points.length, 1);
+  const x = (i: number) => PADDING + step * i + step / 2;
+  const y = (value: number) => HEIGHT - PADDING - (value / max) * (HEIGHT - PADDING * 2);
+
+  // Break the line wherever a session has no value
+  const segments: string[] = [];
+  let current: string[] = [];
+  points.forEach((point, i) => {
+    if (point.value === null) {
+      if (current.length > 0) segments.push(current.join(' '));
+      current = [];
+      return;
+    }
+    current.push(`${current.length === 0 ? 'M' : 'L'}${x(i).toFixed(1)},${y(point.value).toFixed(1)}`);
+  });
+  if (current.length > 0) segments.push(current.join(' '));
+
+  return (
+    <div className="flex">
+      <div className="flex flex-col justify-between text-[10px] text-slate-500 pr-2 py-0.5 text-right w-10">
+        <span>{scale ? scale[scale.length - 1] : format(max)}</span>
+        <span>{scale ? scale[0] : format(0)}</span>
+      </div>
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="flex-1 h-24" preserveAspectRatio="none" role="img">
+        <line x1={PADDING} x2={WIDTH - PADDING} y1={HEIGHT - PADDING} y2={HEIGHT - PADDING} stroke="#334155" strokeWidth={1} />
+        {kind === 'bar' && points.map((point, i) => point.value !== null && (
+          <rect
+            key={i}
+            x={x(i) - step * 0.35}
+            y={y(point.value)}
+            width={step * 0.7}
+            height={HEIGHT - PADDING - y(point.value)}
+            fill={color}
+            rx={1}
+          >
+            <title>{`${point.label}: ${format(point.value)}`}</title>
+          </rect>
+        ))}
+        {kind === 'line' && segments.map((d, i) => (
+          <path key={i} d={d} fill="none" stroke={color} strokeWidth={2} vectorEffect="non-scaling-stroke" />
+        ))}
+        {kind === 'line' && points.map((point, i) => point.value !== null && (
+          <circle key={i} cx={x(i)} cy={y(point.value)} r={2.5} fill={color}>
+            <title>{`${point.label}: ${scale ? scale[point.value] : format(point.value)}`}</title>
+          </circle>
+        ))}
+      </svg>
+    </div>
+  );
+};
+
+const Stat: React.FC<{ label: string; value: string; hint?: string }> = ({ label, value, hint }) => (
+  <div className="p-3 bg-slate-900 border border-slate-800 rounded-lg">
+    <div className="text-[10px] uppercase tracking-wider text-slate-500">{label}</div>
+    <div className="text-xl font-bold text-white">{value}</div>
+    {hint && <div className="text-[10px] text-slate-500">{hint}</div>}
+  </div>
+);
+
+const Panel: React.FC<{ title: string; children: React.ReactNode }> = ({ title, children }) => (
+  <section className="p-4 bg-slate-900/60 border border-slate-800 rounded-xl">
+    <h3 className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-3">{title}</h3>
+    {children}
+  </section>
+);
+
+export const ProgressDashboard: React.FC<Props> = ({ sessions, onClose }) => {
+  const progress = useMemo(() => summarizeProgress(sessions), [sessions]);
+  const recent = progress.sessions.slice(-MAX_POINTS);
+  const points = (pick: (index: number) => number | null): ChartPoint[] =>
+    recent.map((metrics, i) => ({ label: formatDay(metrics.startedAt), value: pick(i) }));
+  const maxCategory = Math.max(...progress.categories.map(c => c.per100Words), 1);
+
+  return (
+    <div className="absolute inset-0 z-30 bg-slate-950/95 backdrop-blur flex flex-col">
+      <div className="p-4 border-b border-slate-800 flex items-center justify-between">
+        <h2 className="text-sm font-bold text-white">
+          Progress · <span className="text-slate-400 font-normal">{progress.totals.sessions} sessions</span>
+        </h2>
+        <button onClick={onClose} className="text-slate-400 hover:text-white text-lg leading-none" title="Close">×</button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-6">
+        {progress.sessions.length === 0 ? (
+          <div className="text-center mt-20">
+            <p className="text-slate-300 text-lg mb-2">No progress to show yet.</p>
+            <p className="text-slate-500 text-sm">Have a conversation and your trends appear here.</p>
+          </div>
+        ) : (
+          <div className="max-w-3xl mx-auto space-y-4">
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+              <Stat label="Streak" value={`${progress.streaks.current} 🔥`} hint={`Longest ${progress.streaks.longest} days`} />
+              <Stat label="Speaking time" value={formatMinutes(progress.totals.speakingSeconds)} hint={`${progress.streaks.activeDays} active days`} />
+              <Stat label="Words / min" value={progress.averages.wordsPerMinute?.toString() ?? '–'} hint={`${progress.totals.learnerWords} words said`} />
+              <Stat
+                label="Corrections"
+                value={progress.averages.correctionsPer100Words?.toString() ?? '–'}
+                hint="per 100 words"
+              />
+            </div>
+
+            <div className="grid sm:grid-cols-2 gap-4">
+              <Panel title="Speaking time per session">
+                <TrendChart points={points(i => recent[i].speakingSeconds / 60)} kind="bar" color="#3b82f6" format={v => `${v.toFixed(1)}m`} />
+              </Panel>
+              <Panel title="Words per minute">
+                <TrendChart points={points(i => recent[i].wordsPerMinute)} kind="line" color="#22c55e" format={v => `${Math.round(v)}`} />
+              </Panel>
+              <Panel title="Turns per session">
+                <TrendChart points={points(i => recent[i].turns)} kind="bar" color="#a855f7" format={v => `${Math.round(v)}`} />
+              </Panel>
+              <Panel title="Corrections per 100 words">
+                <TrendChart points={points(i => recent[i].correctionsPer100Words)} kind="line" color="#f59e0b" format={v => v.toFixed(1)} />
+              </Panel>
+              <Panel title="Estimated level">
+                <TrendChart
+                  points={points(i => {
+                    const level = recent[i].estimatedLevel;
+                    return level ? CEFR_LEVELS.indexOf(level) : null;
+                  })}
+                  kind="line"
+                  color="#14b8a6"
+                  format={v => CEFR_LEVELS[Math.round(v)]}
+                  scale={CEFR_LEVELS}
+                />
+              </Panel>
+              <Panel title="Mistakes by category">
+                {progress.categories.length === 0 ? (
+                  <p className="text-xs text-slate-500 py-6 text-center">No corrections yet.</p>
+                ) : (
+                  <ul className="space-y-1.5">
+                    {progress.categories.map(rate => (
+                      <li key={rate.category} className="flex items-center text-xs">
+                        <span className="w-32 text-slate-300 truncate">{rate.category}</span>
+                        <span className="flex-1 h-2 bg-slate-800 rounded-full overflow-hidden mx-2">
+                          <span className="block h-full bg-amber-500" style={{ width: `${(rate.per100Words / maxCategory) * 100}%` }} />
+                        </span>
+                        <span className="w-20 text-right text-slate-400">{rate.per100Words} / 100</span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </Panel>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
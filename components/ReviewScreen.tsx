@@ -0,0 +1,156 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { ReviewCard, ReviewGrade } from '../types';
+import { diffWords } from '../utils/corrections';
+import { getSpeechRecognition, recognizeUtterance, SpeechRecognitionLike } from '../utils/speechRecognition';
+import { isAnswerCorrect, scheduleReview } from '../utils/srs';
+
+interface Props {
+  dueCards: ReviewCard[];
+  totalCards: number;
+  onGrade: (id: string, grade: ReviewGrade) => void;
+  onDelete: (id: string) => void;
+  onClose: () => void;
+}
+
+const GRADES: { grade: ReviewGrade; label: string; className: string }[] = [
+  { grade: 'again', label: 'Again', className: 'bg-red-900/60 hover:bg-red-800 border-red-700 text-red-200' },
+  { grade: 'hard', label: 'Hard', className: 'bg-orange-900/60 hover:bg-orange-800 border-orange-700 text-orange-200' },
+  { grade: 'good', label: 'Good', className: 'bg-green-900/60 hover:bg-green-800 border-green-700 text-green-200' },
+  { grade: 'easy', label: 'Easy', className: 'bg-blue-900/60 hover:bg-blue-800 border-blue-700 text-blue-200' },
+];
+
+const formatInterval = (card: ReviewCard, grade: ReviewGrade) => {
+  const now = Date.now();
+  const next = scheduleReview(card.schedule, grade, now);
+  const minutes = Math.round((next.due - now) / 60000);
+  if (minutes < 60) return `${minutes} min`;
+  return `${next.intervalDays} d`;
+};
+
+export const ReviewScreen: React.FC<Props> = ({ dueCards, totalCards, onGrade, onDelete, onClose }) => {
+  const card = dueCards[0] ?? null;
+  const [answer, setAnswer] = useState('');
+  const [revealed, setRevealed] = useState(false);
+  const [isListening, setIsListening] = useState(false);
+  const recognitionRef = useRef<SpeechRecognitionLike | null>(null);
+  const canListen = useMemo(() => getSpeechRecognition() !== null, []);
+
+  // Reset the answer whenever a new card comes up
+  useEffect(() => {
+    setAnswer('');
+    setRevealed(false);
+  }, [card?.id]);
+
+  useEffect(() => () => recognitionRef.current?.abort(), []);
+
+  const listen = () => {
+    if (isListening) return;
+    recognitionRef.current = recognizeUtterance(setAnswer, () => setIsListening(false));
+    if (recognitionRef.current) setIsListening(true);
+  };
+
+  const answerDiff = useMemo(
+    () => (card && revealed && answer.trim() ? diffWords(answer.trim(), card.corrected) : null),
+    [card, revealed, answer]
+  );
+
+  return (
+    <div className="absolute inset-0 z-30 bg-slate-950/95 backdrop-blur flex flex-col">
+      <div className="p-4 border-b border-slate-800 flex items-center justify-between">
+        <h2 className="text-sm font-bold text-white">
+          Review · <span className="text-slate-400 font-normal">{dueCards.length} due / {totalCards} cards</span>
+        </h2>
+        <button onClick={onClose} className="text-slate-400 hover:text-white text-lg leading-none" title="Close">×</button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-6">
+        <div className="max-w-xl mx-auto">
+          {!card ? (
+            <div className="text-center mt-20">
+              <p className="text-slate-300 text-lg mb-2">Nothing to review right now. 🎉</p>
+              <p className="text-slate-500 text-sm">Corrections from your conversations are added here automatically.</p>
+            </div>
+          ) : (
+            <div className="p-6 bg-slate-900 border border-slate-700 rounded-2xl shadow-xl">
+              <div className="text-xs font-bold text-red-400 uppercase tracking-wider mb-2">Fix this sentence</div>
+              <p className="text-lg text-slate-100 mb-6">❌ {card.wrong}</p>
+
+              <div className="flex space-x-2 mb-4">
+                <input
+                  value={answer}
+                  onChange={e => setAnswer(e.target.value)}
+                  onKeyDown={e => { if (e.key === 'Enter') setRevealed(true); }}
+                  disabled={revealed}
+                  placeholder="Type or say the correct sentence..."
+                  className="flex-1 px-3 py-2 bg-slate-950 text-white text-sm rounded-md border border-slate-700 focus:outline-none focus:border-blue-500"
+                />
+                {canListen && !revealed && (
+                  <button
+                    onClick={listen}
+                    className={`px-3 py-2 text-xs rounded-md border transition-colors ${isListening ? 'bg-red-600 border-red-500 text-white animate-pulse' : 'bg-slate-800 border-slate-700 text-slate-300 hover:bg-slate-700'}`}
+                    title="Say it"
+                  >
+                    🎤
+                  </button>
+                )}
+              </div>
+
+              {!revealed ? (
+                <button
+                  onClick={() => setRevealed(true)}
+                  className="w-full px-4 py-2 bg-indigo-600 hover:bg-indigo-500 text-white text-sm rounded-md font-medium transition-colors"
+                >
+                  Show answer
+                </button>
+              ) : (
+                <>
+                  <div className="p-3 bg-slate-800/60 rounded-lg border border-slate-600 mb-4">
+                    <p className="text-green-300 font-semibold">✔️ {card.corrected}</p>
+                    {card.explanation && <p className="text-xs text-slate-300 mt-1">💡 {card.explanation}</p>}
+                  </div>
+
+                  {answerDiff && (
+                    <div className="mb-4 text-sm">
+                      {isAnswerCorrect(answer, card.corrected) ? (
+                        <p className="text-green-400">Your answer matches. Gut gemacht!</p>
+                      ) : (
+                        <p className="text-slate-300">
+                          <span className="text-slate-500 text-xs mr-2">Your answer:</span>
+                          {answerDiff.map((segment, i) => {
+                            if (segment.type === 'removed') return <del key={i} className="text-red-300">{segment.text}</del>;
+                            if (segment.type === 'added') return <ins key={i} className="text-green-300 no-underline">{segment.text}</ins>;
+                            return <span key={i}>{segment.text}</span>;
+                          })}
+                        </p>
+                      )}
+                    </div>
+                  )}
+
+                  <div className="grid grid-cols-4 gap-2">
+                    {GRADES.map(({ grade, label, className }) => (
+                      <button
+                        key={grade}
+                        onClick={() => onGrade(card.id, grade)}
+                        className={`px-2 py-2 text-xs rounded-md border transition-colors ${className}`}
+                      >
+                        <div className="font-bold">{label}</div>
+                        <div className="opacity-70">{formatInterval(card, grade)}</div>
+                      </button>
+                    ))}
+                  </div>
+                </>
+              )}
+
+              <button
+                onClick={() => onDelete(card.id)}
+                className="mt-6 text-xs text-slate-500 hover:text-red-400 underline"
+              >
+                Remove card from deck
+              </button>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
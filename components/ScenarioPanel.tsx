@@ -0,0 +1,46 @@
+import React from 'react';
+import { Scenario, ScenarioProgress } from '../types';
+
+interface Props {
+  scenario: Scenario;
+  progress: ScenarioProgress;
+  /** Hidden while a session is running so the scene cannot be swapped mid-conversation. */
+  onLeave?: () => void;
+}
+
+export const ScenarioPanel: React.FC<Props> = ({ scenario, progress, onLeave }) => {
+  const done = progress.achievedGoalIds.length;
+
+  return (
+    <div className="mb-6 p-4 bg-slate-800/50 border border-emerald-500/30 rounded-xl shadow-lg">
+      <div className="flex justify-between items-start">
+        <h3 className="text-emerald-400 font-bold mb-1 text-lg">{scenario.icon} {scenario.title}</h3>
+        <div className="flex items-center space-x-3">
+          <span className="text-xs text-slate-400">{done}/{scenario.goals.length} goals</span>
+          {onLeave && (
+            <button onClick={onLeave} className="text-slate-400 hover:text-white text-lg leading-none" title="Leave scenario">×</button>
+          )}
+        </div>
+      </div>
+      <p className="text-slate-400 text-xs mb-3">You are {scenario.learnerRole}. {scenario.setting}</p>
+
+      <ul className="space-y-1">
+        {scenario.goals.map(goal => {
+          const achieved = progress.achievedGoalIds.includes(goal.id);
+          return (
+            <li key={goal.id} className={`text-sm flex items-center ${achieved ? 'text-emerald-300' : 'text-slate-300'}`}>
+              <span className="mr-2 w-4 text-center">{achieved ? '✔' : '○'}</span>
+              <span className={achieved ? 'line-through decoration-emerald-700' : ''}>{goal.label}</span>
+            </li>
+          );
+        })}
+      </ul>
+
+      {progress.completedAt && (
+        <div className="mt-3 text-xs text-emerald-200 bg-emerald-900/40 border border-emerald-700 rounded-md px-3 py-2">
+          🎉 Scenario complete! Every goal reached.
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,68 @@
+import React from 'react';
+import { CefrLevel } from '../types';
+import { isLevelInRange, SCENARIOS } from '../utils/scenarios';
+
+interface Props {
+  level: CefrLevel;
+  tutorName: string;
+  selectedId: string | null;
+  onSelect: (id: string | null) => void;
+  onClose: () => void;
+}
+
+export const ScenarioPicker: React.FC<Props> = ({ level, tutorName, selectedId, onSelect, onClose }) => {
+  return (
+    <div className="absolute inset-0 z-30 bg-slate-950/95 backdrop-blur flex flex-col">
+      <div className="p-4 border-b border-slate-800 flex items-center justify-between">
+        <h2 className="text-sm font-bold text-white">
+          Role-play · <span className="text-slate-400 font-normal">pick a situation to act out</span>
+        </h2>
+        <button onClick={onClose} className="text-slate-400 hover:text-white text-lg leading-none" title="Close">×</button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-6">
+        <div className="max-w-xl mx-auto space-y-3">
+          <button
+            onClick={() => onSelect(null)}
+            className={`w-full text-left p-4 rounded-xl border transition-colors ${
+              selectedId === null ? 'bg-blue-900/40 border-blue-600' : 'bg-slate-900 border-slate-700 hover:border-slate-500'
+            }`}
+          >
+            <div className="text-sm font-bold text-white">💬 Free conversation</div>
+            <div className="text-xs text-slate-400 mt-1">No role-play, talk about whatever you like.</div>
+          </button>
+
+          {SCENARIOS.map(scenario => {
+            const fitsLevel = isLevelInRange(scenario, level);
+            return (
+              <button
+                key={scenario.id}
+                onClick={() => onSelect(scenario.id)}
+                className={`w-full text-left p-4 rounded-xl border transition-colors ${
+                  selectedId === scenario.id ? 'bg-blue-900/40 border-blue-600' : 'bg-slate-900 border-slate-700 hover:border-slate-500'
+                }`}
+              >
+                <div className="flex items-center justify-between">
+                  <span className="text-sm font-bold text-white">{scenario.icon} {scenario.title}</span>
+                  <span
+                    className={`text-[10px] font-bold px-2 py-0.5 rounded-full border ${
+                      fitsLevel ? 'text-green-300 border-green-700' : 'text-slate-400 border-slate-600'
+                    }`}
+                    title={fitsLevel ? `Suits your level (${level})` : `Made for ${scenario.minLevel}–${scenario.maxLevel}`}
+                  >
+                    {scenario.minLevel}–{scenario.maxLevel}
+                  </span>
+                </div>
+                <p className="text-xs text-slate-300 mt-2">{scenario.setting}</p>
+                <p className="text-xs text-slate-500 mt-1">{tutorName} plays {scenario.tutorRole}. You are {scenario.learnerRole}.</p>
+                <ul className="mt-2 text-xs text-slate-400 list-disc list-inside">
+                  {scenario.goals.map(goal => <li key={goal.id}>{goal.label}</li>)}
+                </ul>
+              </button>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
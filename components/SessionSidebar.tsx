@@ -0,0 +1,120 @@
+import React, { useState } from 'react';
+import { SessionRecord, Sender } from '../types';
+
+interface Props {
+  sessions: SessionRecord[];
+  activeSessionId: string | null;
+  onOpen: (id: string) => void;
+  onRename: (id: string, title: string) => void;
+  onDelete: (id: string) => void;
+  onNew: () => void;
+  onClose: () => void;
+}
+
+const formatDate = (timestamp: number) =>
+  new Date(timestamp).toLocaleString('de-DE', {
+    day: '2-digit', month: '2-digit', hour: '2-digit', minute: '2-digit'
+  });
+
+const formatDuration = (session: SessionRecord) => {
+  if (!session.endedAt) return null;
+  const minutes = Math.max(1, Math.round((session.endedAt - session.startedAt) / 60000));
+  return `${minutes} min`;
+};
+
+export const SessionSidebar: React.FC<Props> = ({
+  sessions,
+  activeSessionId,
+  onOpen,
+  onRename,
+  onDelete,
+  onNew,
+  onClose,
+}) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftTitle, setDraftTitle] = useState('');
+
+  const beginRename = (session: SessionRecord) => {
+    setEditingId(session.id);
+    setDraftTitle(session.title);
+  };
+
+  const commitRename = () => {
+    if (editingId) onRename(editingId, draftTitle);
+    setEditingId(null);
+  };
+
+  const handleDelete = (session: SessionRecord) => {
+    if (window.confirm(`Delete "${session.title}"?`)) {
+      onDelete(session.id);
+    }
+  };
+
+  return (
+    <div className="absolute inset-0 z-30 flex">
+      <aside className="w-72 max-w-[85%] h-full bg-slate-900 border-r border-slate-800 flex flex-col shadow-2xl">
+        <div className="p-4 border-b border-slate-800 flex items-center justify-between">
+          <h2 className="text-sm font-bold text-white">Past Sessions</h2>
+          <button onClick={onClose} className="text-slate-400 hover:text-white text-lg leading-none" title="Close">×</button>
+        </div>
+
+        <div className="p-3 border-b border-slate-800">
+          <button
+            onClick={onNew}
+            className="w-full px-3 py-2 bg-blue-600 hover:bg-blue-500 text-white text-xs rounded-md font-medium transition-colors"
+          >
+            + New Session
+          </button>
+        </div>
+
+        <ul className="flex-1 overflow-y-auto p-2 space-y-1">
+          {sessions.length === 0 && (
+            <li className="text-xs text-slate-500 text-center mt-6">No saved sessions yet.</li>
+          )}
+          {sessions.map(session => {
+            const isActive = session.id === activeSessionId;
+            const turns = session.messages.filter(m => m.sender !== Sender.SYSTEM).length;
+            const duration = formatDuration(session);
+
+            return (
+              <li
+                key={session.id}
+                className={`group p-2 rounded-lg border transition-colors ${isActive ? 'bg-slate-800 border-blue-500/50' : 'border-transparent hover:bg-slate-800/60'}`}
+              >
+                {editingId === session.id ? (
+                  <input
+                    autoFocus
+                    value={draftTitle}
+                    onChange={e => setDraftTitle(e.target.value)}
+                    onBlur={commitRename}
+                    onKeyDown={e => {
+                      if (e.key === 'Enter') commitRename();
+                      if (e.key === 'Escape') setEditingId(null);
+                    }}
+                    className="w-full px-2 py-1 bg-slate-950 text-white text-xs rounded border border-slate-600 focus:outline-none focus:border-blue-500"
+                  />
+                ) : (
+                  <button onClick={() => onOpen(session.id)} className="w-full text-left">
+                    <div className="text-xs font-medium text-slate-100 truncate">{session.title}</div>
+                    <div className="text-[10px] text-slate-500 mt-0.5">
+                      {session.level} · {formatDate(session.startedAt)} · {turns} turns{duration ? ` · ${duration}` : ''}
+                      {session.analysis ? ' · analysed' : ''}
+                    </div>
+                  </button>
+                )}
+
+                {editingId !== session.id && (
+                  <div className="flex space-x-3 mt-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                    <button onClick={() => beginRename(session)} className="text-[10px] text-slate-400 hover:text-white">Rename</button>
+                    <button onClick={() => handleDelete(session)} className="text-[10px] text-red-400 hover:text-red-300">Delete</button>
+                  </div>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      </aside>
+      <div className="flex-1 bg-black/40" onClick={onClose} />
+    </div>
+  );
+};
@@ -0,0 +1,130 @@
+import React, { useEffect, useState } from 'react';
+import { CorrectionPolicy, ExplanationLanguage, TutorPersonality, TutorSettings, TutorVoice } from '../types';
+import { CORRECTION_POLICIES, EXPLANATION_LANGUAGES, PERSONALITIES, REPLAY_RATES, VOICES } from '../utils/tutorSettings';
+
+interface Props {
+  settings: TutorSettings;
+  sessionActive: boolean;
+  onChange: (patch: Partial<TutorSettings>) => void;
+  onClose: () => void;
+}
+
+const fieldClass = 'w-full px-3 py-2 bg-slate-800 text-white text-sm rounded-md border border-slate-700 focus:outline-none focus:border-blue-500';
+
+export const SettingsPanel: React.FC<Props> = ({ settings, sessionActive, onChange, onClose }) => {
+  // The name is committed on blur so a half-typed name is not trimmed while typing
+  const [name, setName] = useState(settings.tutorName);
+
+  useEffect(() => {
+    setName(settings.tutorName);
+  }, [settings.tutorName]);
+
+  const commitName = () => {
+    if (name !== settings.tutorName) onChange({ tutorName: name });
+  };
+
+  return (
+    <div className="absolute inset-0 z-30 bg-slate-950/95 backdrop-blur flex flex-col">
+      <div className="p-4 border-b border-slate-800 flex items-center justify-between">
+        <h2 className="text-sm font-bold text-white">
+          Tutor settings
+          {sessionActive && <span className="text-slate-400 font-normal"> · changes apply from the next session</span>}
+        </h2>
+        <button onClick={onClose} className="text-slate-400 hover:text-white text-lg leading-none" title="Close">×</button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-6">
+        <div className="max-w-xl mx-auto space-y-6">
+          <label className="block">
+            <span className="block text-xs font-bold text-slate-400 uppercase tracking-wider mb-2">Name</span>
+            <input
+              value={name}
+              onChange={e => setName(e.target.value)}
+              onBlur={commitName}
+              onKeyDown={e => { if (e.key === 'Enter') commitName(); }}
+              maxLength={24}
+              className={fieldClass}
+            />
+          </label>
+
+          <label className="block">
+            <span className="block text-xs font-bold text-slate-400 uppercase tracking-wider mb-2">Personality</span>
+            <select
+              value={settings.personality}
+              onChange={e => onChange({ personality: e.target.value as TutorPersonality })}
+              className={fieldClass}
+            >
+              {(Object.keys(PERSONALITIES) as TutorPersonality[]).map(personality => (
+                <option key={personality} value={personality}>{PERSONALITIES[personality].label}</option>
+              ))}
+            </select>
+            <span className="block text-xs text-slate-500 mt-1">{PERSONALITIES[settings.personality].description}</span>
+          </label>
+
+          <label className="block">
+            <span className="block text-xs font-bold text-slate-400 uppercase tracking-wider mb-2">Voice</span>
+            <select
+              value={settings.voice}
+              onChange={e => onChange({ voice: e.target.value as TutorVoice })}
+              className={fieldClass}
+            >
+              {VOICES.map(({ voice, label }) => <option key={voice} value={voice}>{label}</option>)}
+            </select>
+          </label>
+
+          <label className="block">
+            <span className="block text-xs font-bold text-slate-400 uppercase tracking-wider mb-2">Replay speed</span>
+            <select
+              value={settings.replayRate}
+              onChange={e => onChange({ replayRate: Number(e.target.value) })}
+              className={fieldClass}
+            >
+              {REPLAY_RATES.map(({ rate, label }) => <option key={rate} value={rate}>{label}</option>)}
+            </select>
+            <span className="block text-xs text-slate-500 mt-1">Used when you replay a message with 🔊. The live conversation keeps its pace.</span>
+          </label>
+
+          <fieldset>
+            <legend className="block text-xs font-bold text-slate-400 uppercase tracking-wider mb-2">Corrections</legend>
+            <div className="space-y-2">
+              {(Object.keys(CORRECTION_POLICIES) as CorrectionPolicy[]).map(policy => (
+                <label
+                  key={policy}
+                  className={`flex items-start p-3 rounded-md border cursor-pointer transition-colors ${
+                    settings.correctionPolicy === policy ? 'bg-blue-900/40 border-blue-600' : 'bg-slate-900 border-slate-700 hover:border-slate-500'
+                  }`}
+                >
+                  <input
+                    type="radio"
+                    name="correctionPolicy"
+                    checked={settings.correctionPolicy === policy}
+                    onChange={() => onChange({ correctionPolicy: policy })}
+                    className="mt-1 mr-3 accent-blue-500"
+                  />
+                  <span>
+                    <span className="block text-sm text-white">{CORRECTION_POLICIES[policy].label}</span>
+                    <span className="block text-xs text-slate-400">{CORRECTION_POLICIES[policy].description}</span>
+                  </span>
+                </label>
+              ))}
+            </div>
+          </fieldset>
+
+          <label className="block">
+            <span className="block text-xs font-bold text-slate-400 uppercase tracking-wider mb-2">Explanations in</span>
+            <select
+              value={settings.explanationLanguage}
+              onChange={e => onChange({ explanationLanguage: e.target.value as ExplanationLanguage })}
+              className={fieldClass}
+            >
+              {(Object.keys(EXPLANATION_LANGUAGES) as ExplanationLanguage[]).map(language => (
+                <option key={language} value={language}>{EXPLANATION_LANGUAGES[language].label}</option>
+              ))}
+            </select>
+            <span className="block text-xs text-slate-500 mt-1">The conversation itself always stays in German.</span>
+          </label>
+        </div>
+      </div>
+    </div>
+  );
+};
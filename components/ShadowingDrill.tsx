@@ -0,0 +1,242 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ProficiencyLevel, TutorVoice } from '../types';
+import { loadSpeech, SPEECH_SAMPLE_RATE } from '../services/speechService';
+import { decodeAudioData } from '../utils/audioUtils';
+import { AlignmentOp, pickShadowingSentence, ShadowingProgress, ShadowingScore } from '../utils/shadowing';
+
+interface Props {
+  level: ProficiencyLevel;
+  voice: TutorVoice;
+  progress: ShadowingProgress[];
+  onAttempt: (sentence: string, level: ProficiencyLevel, transcript: string) => { alignment: AlignmentOp[]; score: ShadowingScore };
+  /** Records one attempt and resolves with its input transcription, null when nothing was understood. */
+  onListen: () => Promise<string | null>;
+  /** Ends the attempt early, e.g. when the learner has finished the sentence. */
+  onStopListening: () => void;
+  isListening: boolean;
+  /** Why listening failed; typing what was said still works. */
+  listenError: string | null;
+  onClose: () => void;
+}
+
+const OP_STYLES: Record<AlignmentOp['type'], string> = {
+  match: 'text-green-300',
+  near: 'text-yellow-300 underline decoration-dotted',
+  substitution: 'text-red-300 underline decoration-wavy',
+  omission: 'text-slate-500 line-through',
+  insertion: 'text-orange-300 italic',
+};
+
+const OP_TITLES: Record<AlignmentOp['type'], string> = {
+  match: 'Correct',
+  near: 'Almost: watch the umlaut',
+  substitution: 'Said differently',
+  omission: 'Left out',
+  insertion: 'Extra word',
+};
+
+const accuracyColor = (accuracy: number) =>
+  accuracy >= 90 ? 'text-green-400' : accuracy >= 70 ? 'text-yellow-400' : 'text-red-400';
+
+const AlignmentView: React.FC<{ alignment: AlignmentOp[] }> = ({ alignment }) => (
+  <p className="text-lg leading-relaxed">
+    {alignment.map((op, i) => (
+      <span key={i} className={`mr-1.5 ${OP_STYLES[op.type]}`} title={OP_TITLES[op.type]}>
+        {op.type === 'insertion' ? `+${op.spoken}` : op.target}
+        {(op.type === 'substitution' || op.type === 'near') && (
+          <span className="text-xs text-slate-400 no-underline"> ({op.spoken})</span>
+        )}
+      </span>
+    ))}
+  </p>
+);
+
+export const ShadowingDrill: React.FC<Props> = ({
+  level,
+  voice,
+  progress,
+  onAttempt,
+  onListen,
+  onStopListening,
+  isListening,
+  listenError,
+  onClose,
+}) => {
+  const [sentence, setSentence] = useState(() => pickShadowingSentence(level));
+  const [transcript, setTranscript] = useState('');
+  const [result, setResult] = useState<{ alignment: AlignmentOp[]; score: ShadowingScore } | null>(null);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [playError, setPlayError] = useState<string | null>(null);
+  const audioCtxRef = useRef<AudioContext | null>(null);
+
+  const history = progress.find(entry => entry.sentence === sentence) ?? null;
+
+  useEffect(() => {
+    setTranscript('');
+    setResult(null);
+    setPlayError(null);
+  }, [sentence]);
+
+  useEffect(() => () => {
+    audioCtxRef.current?.close();
+  }, []);
+
+  const play = async () => {
+    if (isPlaying) return;
+    setIsPlaying(true);
+    setPlayError(null);
+    try {
+      const pcm = await loadSpeech(sentence, voice);
+      if (!audioCtxRef.current) audioCtxRef.current = new AudioContext();
+      const ctx = audioCtxRef.current;
+      const source = ctx.createBufferSource();
+      source.buffer = await decodeAudioData(pcm, ctx, SPEECH_SAMPLE_RATE);
+      source.connect(ctx.destination);
+      source.onended = () => setIsPlaying(false);
+      source.start();
+    } catch (e) {
+      console.warn("Could not play shadowing sentence", e);
+      setPlayError('Could not play the sentence. Read it aloud from the text instead.');
+      setIsPlaying(false);
+    }
+  };
+
+  const submit = (spoken: string) => {
+    if (!spoken.trim()) return;
+    setResult(onAttempt(sentence, level, spoken.trim()));
+  };
+
+  const listen = async () => {
+    if (isListening) {
+      onStopListening();
+      return;
+    }
+    setResult(null);
+    const spoken = await onListen();
+    if (spoken) {
+      setTranscript(spoken);
+      submit(spoken);
+    }
+  };
+
+  const retry = () => {
+    setTranscript('');
+    setResult(null);
+  };
+
+  return (
+    <div className="absolute inset-0 z-30 bg-slate-950/95 backdrop-blur flex flex-col">
+      <div className="p-4 border-b border-slate-800 flex items-center justify-between">
+        <h2 className="text-sm font-bold text-white">
+          Shadowing · <span className="text-slate-400 font-normal">Listen, then repeat ({level})</span>
+        </h2>
+        <button onClick={onClose} className="text-slate-400 hover:text-white text-lg leading-none" title="Close">×</button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-6">
+        <div className="max-w-xl mx-auto">
+          <div className="p-6 bg-slate-900 border border-slate-700 rounded-2xl shadow-xl">
+            <div className="text-xs font-bold text-blue-400 uppercase tracking-wider mb-2">Repeat this sentence</div>
+            {result ? (
+              <AlignmentView alignment={result.alignment} />
+            ) : (
+              <p className="text-lg text-slate-100">{sentence}</p>
+            )}
+
+            <div className="flex flex-wrap gap-2 mt-4">
+              <button
+                onClick={play}
+                disabled={isPlaying}
+                className="px-3 py-2 text-xs rounded-md border bg-slate-800 border-slate-700 text-slate-300 hover:bg-slate-700 disabled:opacity-50"
+              >
+                {isPlaying ? '🔊 Playing...' : '🔊 Listen'}
+              </button>
+              <button
+                onClick={() => setSentence((p: string) => pickShadowingSentence(level, p))}
+                className="px-3 py-2 text-xs rounded-md border bg-slate-800 border-slate-700 text-slate-300 hover:bg-slate-700"
+              >
+                Next sentence
+              </button>
+            </div>
+            {playError && <p className="text-xs text-red-400 mt-2">{playError}</p>}
+            {listenError && <p className="text-xs text-red-400 mt-2">{listenError}</p>}
+
+            {!result ? (
+              <div className="flex space-x-2 mt-6">
+                <input
+                  value={transcript}
+                  onChange={e => setTranscript(e.target.value)}
+                  onKeyDown={e => { if (e.key === 'Enter') submit(transcript); }}
+                  placeholder="Press 🎤 and repeat, or type what you said..."
+                  className="flex-1 px-3 py-2 bg-slate-950 text-white text-sm rounded-md border border-slate-700 focus:outline-none focus:border-blue-500"
+                />
+                <button
+                  onClick={listen}
+                  className={`px-3 py-2 text-xs rounded-md border transition-colors ${isListening ? 'bg-red-600 border-red-500 text-white animate-pulse' : 'bg-slate-800 border-slate-700 text-slate-300 hover:bg-slate-700'}`}
+                  title={isListening ? 'Done' : 'Repeat the sentence'}
+                >
+                  🎤
+                </button>
+                <button
+                  onClick={() => submit(transcript)}
+                  disabled={!transcript.trim()}
+                  className="px-3 py-2 bg-indigo-600 hover:bg-indigo-500 text-white text-xs rounded-md font-medium transition-colors disabled:opacity-50"
+                >
+                  Check
+                </button>
+              </div>
+            ) : (
+              <div className="mt-6">
+                <div className="flex items-baseline justify-between mb-2">
+                  <span className={`text-3xl font-bold ${accuracyColor(result.score.accuracy)}`}>{result.score.accuracy}%</span>
+                  <span className="text-xs text-slate-400">
+                    {result.score.omissions} left out · {result.score.substitutions} different · {result.score.insertions} extra
+                    {result.score.near > 0 && ` · ${result.score.near} umlaut`}
+                  </span>
+                </div>
+                <p className="text-sm text-slate-400 mb-4">
+                  <span className="text-slate-500 text-xs mr-2">You said:</span>{transcript}
+                </p>
+                <button
+                  onClick={retry}
+                  className="w-full px-4 py-2 bg-indigo-600 hover:bg-indigo-500 text-white text-sm rounded-md font-medium transition-colors"
+                >
+                  Try again
+                </button>
+              </div>
+            )}
+
+            {history && (
+              <p className="text-xs text-slate-500 mt-4">
+                {history.attempts} {history.attempts === 1 ? 'attempt' : 'attempts'} · first {history.first}% · best {history.best}% · latest {history.latest}%
+              </p>
+            )}
+          </div>
+
+          {progress.length > 0 && (
+            <div className="mt-6">
+              <h3 className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-2">Your progress</h3>
+              <ul className="space-y-1">
+                {progress.slice(0, 10).map(entry => (
+                  <li key={entry.sentence} className="flex items-center justify-between text-xs p-2 bg-slate-900/60 rounded-md border border-slate-800">
+                    <button
+                      onClick={() => setSentence(entry.sentence)}
+                      className="text-left text-slate-300 hover:text-white truncate mr-3"
+                      title="Practise this sentence again"
+                    >
+                      {entry.sentence}
+                    </button>
+                    <span className="shrink-0 text-slate-400">
+                      {entry.first}% → <span className={accuracyColor(entry.latest)}>{entry.latest}%</span>
+                      <span className="text-slate-600"> ({entry.attempts}×)</span>
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
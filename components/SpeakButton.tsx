@@ -0,0 +1,30 @@
+import React from 'react';
+import { SpeechPlayback } from '../types';
+
+interface Props {
+  text: string;
+  label?: string;
+  speech: SpeechPlayback | null;
+  onSpeak: (text: string) => void;
+  className: string;
+}
+
+const SPEAK_LABELS: Record<SpeechPlayback['status'] | 'idle', string> = {
+  idle: '🔊',
+  loading: '…',
+  playing: '■',
+};
+
+/** Reads `text` aloud; shows loading and stop states while it is the text being spoken. */
+export const SpeakButton: React.FC<Props> = ({ text, label, speech, onSpeak, className }) => {
+  const status = speech?.text === text ? speech.status : 'idle';
+  return (
+    <button
+      onClick={() => onSpeak(text)}
+      className={className}
+      title={status === 'idle' ? 'Hear it again' : 'Stop'}
+    >
+      {SPEAK_LABELS[status]}{label && ` ${status === 'idle' ? label : 'Stop'}`}
+    </button>
+  );
+};
@@ -0,0 +1,38 @@
+import React, { useState } from 'react';
+
+interface Props {
+  /** Returns false if the text could not be sent, in which case it stays in the box. */
+  onSend: (text: string) => boolean;
+  disabled?: boolean;
+}
+
+export const TextComposer: React.FC<Props> = ({ onSend, disabled = false }) => {
+  const [draft, setDraft] = useState('');
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft.trim() || disabled) return;
+    if (onSend(draft)) setDraft('');
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="flex items-center gap-2">
+      <input
+        type="text"
+        value={draft}
+        onChange={e => setDraft(e.target.value)}
+        disabled={disabled}
+        placeholder={disabled ? 'Start a conversation to type...' : 'Auf Deutsch schreiben...'}
+        lang="de"
+        className="flex-1 bg-slate-800 text-white text-sm rounded-full px-4 py-2 border border-slate-700 focus:outline-none focus:ring-2 focus:ring-blue-500 placeholder-slate-500 disabled:opacity-50"
+      />
+      <button
+        type="submit"
+        disabled={disabled || !draft.trim()}
+        className="px-4 py-2 rounded-full bg-blue-600 hover:bg-blue-500 text-white text-sm font-semibold transition-colors disabled:opacity-40 disabled:hover:bg-blue-600"
+      >
+        Send
+      </button>
+    </form>
+  );
+};
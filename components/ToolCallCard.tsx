@@ -0,0 +1,78 @@
+import React from 'react';
+import { Correction, ProficiencyLevel, SpeechPlayback, TutorToolCall, TutorToolName } from '../types';
+import { CorrectionDiff } from './CorrectionDiff';
+
+interface Props {
+  call: TutorToolCall;
+  /** The recorded correction, for `record_correction` calls. */
+  corrections: Correction[];
+  onSpeak?: (text: string) => void;
+  speech: SpeechPlayback | null;
+  currentLevel?: ProficiencyLevel;
+  onSwitchLevel?: (level: ProficiencyLevel) => void;
+}
+
+const TOOL_HEADINGS: Record<TutorToolName, { icon: string; label: string }> = {
+  record_correction: { icon: '✏️', label: 'Correction saved' },
+  add_vocabulary: { icon: '📘', label: 'New word' },
+  set_topic: { icon: '🗞️', label: 'New topic' },
+  complete_scenario_goal: { icon: '🎯', label: 'Goal reached' },
+  suggest_level_change: { icon: '📈', label: 'Level suggestion' },
+};
+
+const CardBody: React.FC<Props> = ({ call, corrections, onSpeak, speech, currentLevel, onSwitchLevel }) => {
+  switch (call.name) {
+    case 'record_correction':
+      return <>{corrections.map((correction, i) => <CorrectionDiff key={i} correction={correction} onSpeak={onSpeak} speech={speech} />)}</>;
+    case 'add_vocabulary':
+      return (
+        <p className="text-sm">
+          <span className="font-semibold text-slate-100">{call.args.word}</span>
+          {call.args.translation && <span className="text-slate-400"> — {call.args.translation}</span>}
+        </p>
+      );
+    case 'set_topic':
+      return (
+        <>
+          <p className="text-sm font-semibold text-slate-100">{call.args.title}</p>
+          <p className="text-xs text-slate-400 mt-0.5">{call.args.summary}</p>
+        </>
+      );
+    case 'complete_scenario_goal':
+      return <p className="text-sm text-slate-200">{call.result}</p>;
+    case 'suggest_level_change':
+      return (
+        <div className="flex items-center justify-between gap-3">
+          <p className="text-sm text-slate-200">{call.args.reason || `Try ${call.args.level}.`}</p>
+          {onSwitchLevel && call.args.level !== currentLevel && (
+            <button
+              onClick={() => onSwitchLevel(call.args.level)}
+              className="shrink-0 px-3 py-1 bg-indigo-600 hover:bg-indigo-500 text-white text-xs rounded-md transition-colors"
+            >
+              Switch to {call.args.level}
+            </button>
+          )}
+        </div>
+      );
+  }
+};
+
+/** A function the tutor called, shown in the chat in place of a speech bubble. */
+export const ToolCallCard: React.FC<Props> = (props) => {
+  const { call } = props;
+  const heading = TOOL_HEADINGS[call.name];
+  const succeeded = call.status === 'done';
+
+  return (
+    <div className="flex justify-center my-3">
+      <div className={`w-full max-w-[80%] px-4 py-3 rounded-xl border ${succeeded ? 'bg-slate-800/60 border-indigo-500/30' : 'bg-slate-900/60 border-slate-700 opacity-70'}`}>
+        <div className="flex items-center justify-between mb-1">
+          <span className="text-[10px] font-bold text-indigo-300 uppercase tracking-wider">{heading.icon} {heading.label}</span>
+          {call.status === 'failed' && <span className="text-[10px] text-amber-300" title={call.result}>Not applied</span>}
+          {call.status === 'cancelled' && <span className="text-[10px] text-slate-400">Withdrawn</span>}
+        </div>
+        {succeeded ? <CardBody {...props} /> : <p className="text-xs text-slate-400">{call.status === 'failed' ? call.result : 'The tutor withdrew this.'}</p>}
+      </div>
+    </div>
+  );
+};
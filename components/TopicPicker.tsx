@@ -0,0 +1,64 @@
+import React from 'react';
+import { NewsTopic, ProficiencyLevel, TopicInterest } from '../types';
+import { TOPIC_INTERESTS } from '../utils/topics';
+
+interface Props {
+  level: ProficiencyLevel;
+  interest: TopicInterest;
+  candidates: NewsTopic[];
+  isLoading: boolean;
+  /** The candidates come from the bundled bank because search was unavailable. */
+  isOffline: boolean;
+  onInterestChange: (interest: TopicInterest) => void;
+  onChoose: (topic: NewsTopic) => void;
+  onClose: () => void;
+}
+
+export const TopicPicker: React.FC<Props> = ({ level, interest, candidates, isLoading, isOffline, onInterestChange, onChoose, onClose }) => (
+  <div className="mb-6 p-4 bg-slate-800/50 border border-indigo-500/30 rounded-xl shadow-lg">
+    <div className="flex justify-between items-start mb-3">
+      <h3 className="text-indigo-400 font-bold text-lg">Pick a topic <span className="text-xs text-slate-400 font-normal">for {level}</span></h3>
+      <button onClick={onClose} className="text-slate-400 hover:text-white text-lg leading-none" title="Close">×</button>
+    </div>
+
+    <div className="flex flex-wrap gap-2 mb-4">
+      {(Object.keys(TOPIC_INTERESTS) as TopicInterest[]).map(key => (
+        <button
+          key={key}
+          onClick={() => onInterestChange(key)}
+          disabled={isLoading}
+          className={`px-3 py-1 text-xs rounded-full border transition-colors ${key === interest ? 'bg-indigo-600 border-indigo-500 text-white' : 'bg-slate-900 border-slate-700 text-slate-300 hover:bg-slate-700'}`}
+        >
+          {TOPIC_INTERESTS[key].icon} {TOPIC_INTERESTS[key].label}
+        </button>
+      ))}
+    </div>
+
+    {isLoading ? (
+      <p className="text-sm text-slate-400 animate-pulse">Searching for topics...</p>
+    ) : (
+      <>
+        {isOffline && candidates.length > 0 && (
+          <p className="text-xs text-amber-300/80 mb-3">Search is unavailable right now, so these come from the built-in topic list.</p>
+        )}
+        <ul className="space-y-2">
+          {candidates.map(topic => (
+            <li key={topic.title}>
+              <button
+                onClick={() => onChoose(topic)}
+                className="w-full text-left p-3 bg-slate-900/70 hover:bg-slate-900 border border-slate-700 hover:border-indigo-500 rounded-lg transition-colors"
+              >
+                <div className="text-sm font-semibold text-slate-100">{topic.title}</div>
+                <p className="text-xs text-slate-400 mt-1">{topic.summary}</p>
+                {topic.vocabulary && topic.vocabulary.length > 0 && (
+                  <p className="text-[10px] text-slate-500 mt-1">{topic.vocabulary.join(' · ')}</p>
+                )}
+              </button>
+            </li>
+          ))}
+        </ul>
+        {candidates.length === 0 && <p className="text-sm text-slate-500">No topics found for this interest.</p>}
+      </>
+    )}
+  </div>
+);
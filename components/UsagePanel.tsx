@@ -0,0 +1,267 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { BudgetStatus, ModelPrice, ModelRequest, RateLimit, TokenCounts, UsageFeature, UsageRecord, UsageSettings } from '../types';
+import {
+  ANALYSIS_THINKING_BUDGETS,
+  BudgetCheck,
+  formatCost,
+  summarizeRates,
+  summarizeUsage,
+  USAGE_FEATURES,
+  UsageBudgets
+} from '../utils/usage';
+
+interface Props {
+  today: UsageRecord[];
+  session: UsageRecord[];
+  /** Requests of the last minute. */
+  requests: ModelRequest[];
+  budgets: UsageBudgets;
+  settings: UsageSettings;
+  onChange: (patch: Partial<UsageSettings>) => void;
+  onClose: () => void;
+}
+
+const fieldClass = 'w-full px-3 py-2 bg-slate-800 text-white text-sm rounded-md border border-slate-700 focus:outline-none focus:border-blue-500';
+
+const STATUS_COLORS: Record<BudgetStatus, string> = {
+  ok: 'bg-green-500',
+  warning: 'bg-amber-400',
+  exceeded: 'bg-red-500',
+};
+
+const WARN_AT_OPTIONS = [0.5, 0.7, 0.8, 0.9];
+
+// The rates cover a sliding minute, so they are recomputed while nothing new is recorded too
+const RATE_REFRESH_MS = 5000;
+
+const PRICE_FIELDS: { field: keyof TokenCounts; label: string }[] = [
+  { field: 'inputText', label: 'Text in' },
+  { field: 'inputAudio', label: 'Audio in' },
+  { field: 'outputText', label: 'Text out' },
+  { field: 'outputAudio', label: 'Audio out' },
+];
+
+const BudgetMeter: React.FC<{ label: string; check: BudgetCheck }> = ({ label, check }) => {
+  const share = check.budget ? Math.min(1, check.spent / check.budget) : 0;
+  return (
+    <div>
+      <div className="flex justify-between text-xs mb-1">
+        <span className="font-bold text-slate-300">{label}</span>
+        <span className="text-slate-400">
+          {formatCost(check.spent)}{check.budget !== null ? ` of ${formatCost(check.budget)}` : ' · no limit'}
+        </span>
+      </div>
+      <div className="h-2 rounded-full bg-slate-800 overflow-hidden">
+        <div className={`h-full ${STATUS_COLORS[check.status]} transition-all`} style={{ width: `${share * 100}%` }} />
+      </div>
+    </div>
+  );
+};
+
+// Edited as text and committed on blur, so a half-typed number is not coerced while typing
+const NumberField: React.FC<{ value: number | null; placeholder?: string; onCommit: (value: number | null) => void }> = ({ value, placeholder, onCommit }) => {
+  const [text, setText] = useState(value === null ? '' : String(value));
+
+  useEffect(() => {
+    setText(value === null ? '' : String(value));
+  }, [value]);
+
+  const commit = () => {
+    const parsed = text.trim() === '' ? null : Number(text);
+    if (parsed !== value && (parsed === null || Number.isFinite(parsed))) onCommit(parsed);
+    else setText(value === null ? '' : String(value));
+  };
+
+  return (
+    <input
+      value={text}
+      inputMode="decimal"
+      placeholder={placeholder}
+      onChange={e => setText(e.target.value)}
+      onBlur={commit}
+      onKeyDown={e => { if (e.key === 'Enter') commit(); }}
+      className={fieldClass}
+    />
+  );
+};
+
+export const UsagePanel: React.FC<Props> = ({ today, session, requests, budgets, settings, onChange, onClose }) => {
+  const [scope, setScope] = useState<'session' | 'today'>('session');
+  const [now, setNow] = useState(() => Date.now());
+  const breakdown = useMemo(
+    () => summarizeUsage(scope === 'session' ? session : today, settings.prices),
+    [scope, session, today, settings.prices]
+  );
+
+  useEffect(() => {
+    setNow(Date.now());
+    const timer = window.setInterval(() => setNow(Date.now()), RATE_REFRESH_MS);
+    return () => window.clearInterval(timer);
+  }, [requests, today]);
+
+  const rates = useMemo(() => summarizeRates(requests, today, settings, now), [requests, today, settings, now]);
+  const rateModels = [...new Set([...Object.keys(settings.prices), ...rates.map(rate => rate.model)])];
+
+  const setRateLimit = (model: string, field: keyof RateLimit, value: number | null) => {
+    const limit: RateLimit = { requestsPerMinute: null, tokensPerMinute: null, ...settings.rateLimits[model], [field]: value };
+    onChange({ rateLimits: { ...settings.rateLimits, [model]: limit } });
+  };
+
+  const setPrice = (model: string, field: keyof TokenCounts, value: number | null) => {
+    const price: ModelPrice = { ...settings.prices[model], [field]: value ?? 0 };
+    onChange({ prices: { ...settings.prices, [model]: price } });
+  };
+
+  return (
+    <div className="absolute inset-0 z-30 bg-slate-950/95 backdrop-blur flex flex-col">
+      <div className="p-4 border-b border-slate-800 flex items-center justify-between">
+        <h2 className="text-sm font-bold text-white">
+          Usage
+          <span className="text-slate-400 font-normal"> · estimated from the tokens the models report</span>
+        </h2>
+        <button onClick={onClose} className="text-slate-400 hover:text-white text-lg leading-none" title="Close">×</button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-6">
+        <div className="max-w-xl mx-auto space-y-8">
+          <section className="space-y-4">
+            <BudgetMeter label="This session" check={budgets.session} />
+            <BudgetMeter label="Today" check={budgets.daily} />
+          </section>
+
+          <section>
+            <div className="flex items-center justify-between mb-2">
+              <span className="text-xs font-bold text-slate-400 uppercase tracking-wider">By feature</span>
+              <div className="flex rounded-md border border-slate-700 overflow-hidden text-xs">
+                {(['session', 'today'] as const).map(option => (
+                  <button
+                    key={option}
+                    onClick={() => setScope(option)}
+                    className={`px-3 py-1 ${scope === option ? 'bg-slate-700 text-white' : 'text-slate-400 hover:text-white'}`}
+                  >
+                    {option === 'session' ? 'Session' : 'Today'}
+                  </button>
+                ))}
+              </div>
+            </div>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-xs text-slate-500 text-left">
+                  <th className="font-normal py-1">Feature</th>
+                  <th className="font-normal py-1 text-right">Calls</th>
+                  <th className="font-normal py-1 text-right">Tokens</th>
+                  <th className="font-normal py-1 text-right">Cost</th>
+                </tr>
+              </thead>
+              <tbody className="text-slate-200">
+                {(Object.keys(USAGE_FEATURES) as UsageFeature[]).map(feature => {
+                  const usage = breakdown.byFeature[feature];
+                  return (
+                    <tr key={feature} className={`border-t border-slate-800 ${usage.calls === 0 ? 'text-slate-500' : ''}`}>
+                      <td className="py-1.5">{USAGE_FEATURES[feature].icon} {USAGE_FEATURES[feature].label}</td>
+                      <td className="py-1.5 text-right">{usage.calls}</td>
+                      <td className="py-1.5 text-right">{usage.tokens.toLocaleString()}</td>
+                      <td className="py-1.5 text-right">{formatCost(usage.cost)}</td>
+                    </tr>
+                  );
+                })}
+                <tr className="border-t border-slate-600 font-semibold">
+                  <td className="py-1.5">Total</td>
+                  <td className="py-1.5 text-right">{breakdown.total.calls}</td>
+                  <td className="py-1.5 text-right">{breakdown.total.tokens.toLocaleString()}</td>
+                  <td className="py-1.5 text-right">{formatCost(breakdown.total.cost)}</td>
+                </tr>
+              </tbody>
+            </table>
+            {breakdown.unpricedModels.length > 0 && (
+              <p className="text-xs text-amber-300 mt-2">
+                No price for {breakdown.unpricedModels.join(', ')}; their calls are not included in the cost.
+              </p>
+            )}
+          </section>
+
+          <section className="grid grid-cols-2 gap-4">
+            <label className="block">
+              <span className="block text-xs font-bold text-slate-400 uppercase tracking-wider mb-2">Session budget (USD)</span>
+              <NumberField value={settings.sessionBudget} placeholder="No limit" onCommit={value => onChange({ sessionBudget: value })} />
+            </label>
+            <label className="block">
+              <span className="block text-xs font-bold text-slate-400 uppercase tracking-wider mb-2">Daily budget (USD)</span>
+              <NumberField value={settings.dailyBudget} placeholder="No limit" onCommit={value => onChange({ dailyBudget: value })} />
+            </label>
+            <label className="block">
+              <span className="block text-xs font-bold text-slate-400 uppercase tracking-wider mb-2">Warn at</span>
+              <select
+                value={settings.warnAt}
+                onChange={e => onChange({ warnAt: Number(e.target.value) })}
+                className={fieldClass}
+              >
+                {WARN_AT_OPTIONS.map(share => <option key={share} value={share}>{share * 100}% of a budget</option>)}
+              </select>
+            </label>
+            <label className="block">
+              <span className="block text-xs font-bold text-slate-400 uppercase tracking-wider mb-2">Analysis depth</span>
+              <select
+                value={settings.analysisThinkingBudget}
+                onChange={e => onChange({ analysisThinkingBudget: Number(e.target.value) })}
+                className={fieldClass}
+              >
+                {ANALYSIS_THINKING_BUDGETS.map(({ budget, label }) => <option key={budget} value={budget}>{label}</option>)}
+              </select>
+            </label>
+          </section>
+
+          <section>
+            <span className="block text-xs font-bold text-slate-400 uppercase tracking-wider mb-2">Rate limits (last minute)</span>
+            <div className="space-y-3">
+              {rateModels.map(model => {
+                const rate = rates.find(r => r.model === model);
+                const limit = settings.rateLimits[model];
+                return (
+                  <div key={model}>
+                    <div className="flex items-center justify-between text-xs mb-1">
+                      <span className="text-slate-300 font-mono">{model}</span>
+                      <span className="flex items-center gap-1.5 text-slate-400">
+                        <span className={`w-1.5 h-1.5 rounded-full ${STATUS_COLORS[rate?.status ?? 'ok']}`} />
+                        {rate?.requests ?? 0} requests · {(rate?.tokens ?? 0).toLocaleString()} tokens
+                      </span>
+                    </div>
+                    <div className="grid grid-cols-2 gap-2">
+                      <label className="block">
+                        <span className="block text-[10px] text-slate-500 mb-0.5">Requests per minute</span>
+                        <NumberField value={limit?.requestsPerMinute ?? null} placeholder="No limit" onCommit={value => setRateLimit(model, 'requestsPerMinute', value)} />
+                      </label>
+                      <label className="block">
+                        <span className="block text-[10px] text-slate-500 mb-0.5">Tokens per minute</span>
+                        <NumberField value={limit?.tokensPerMinute ?? null} placeholder="No limit" onCommit={value => setRateLimit(model, 'tokensPerMinute', value)} />
+                      </label>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          </section>
+
+          <section>
+            <span className="block text-xs font-bold text-slate-400 uppercase tracking-wider mb-2">Prices (USD per million tokens)</span>
+            <div className="space-y-3">
+              {Object.entries(settings.prices).map(([model, price]) => (
+                <div key={model}>
+                  <div className="text-xs text-slate-300 mb-1 font-mono">{model}</div>
+                  <div className="grid grid-cols-4 gap-2">
+                    {PRICE_FIELDS.map(({ field, label }) => (
+                      <label key={field} className="block">
+                        <span className="block text-[10px] text-slate-500 mb-0.5">{label}</span>
+                        <NumberField value={price[field]} onCommit={value => setPrice(model, field, value)} />
+                      </label>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </section>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,140 @@
+import React, { useMemo, useState } from 'react';
+import { VocabularyEntry } from '../types';
+import { WordListCoverage } from '../utils/vocabulary';
+
+interface Props {
+  entries: VocabularyEntry[];
+  coverage: WordListCoverage[];
+  wordsToPush: VocabularyEntry[];
+  /** Whether the next session asks the tutor to work `wordsToPush` in. */
+  pushWords: boolean;
+  onPushWordsChange: (push: boolean) => void;
+  onClose: () => void;
+}
+
+const formatDate = (timestamp?: number) =>
+  timestamp ? new Date(timestamp).toLocaleDateString('de-DE', { day: '2-digit', month: '2-digit', year: 'numeric' }) : '–';
+
+// How many of a list's unused words to show when it is expanded
+const MISSING_PREVIEW = 12;
+
+export const VocabularyPanel: React.FC<Props> = ({ entries, coverage, wordsToPush, pushWords, onPushWordsChange, onClose }) => {
+  const [filter, setFilter] = useState('');
+  const [openLevel, setOpenLevel] = useState<string | null>(null);
+
+  const ownWords = useMemo(() => {
+    const query = filter.trim().toLowerCase();
+    return entries
+      .filter(entry => entry.count > 0)
+      .filter(entry => !query || entry.forms.some(form => form.includes(query)));
+  }, [entries, filter]);
+  const totalOwn = useMemo(() => entries.filter(entry => entry.count > 0).length, [entries]);
+
+  return (
+    <div className="absolute inset-0 z-30 bg-slate-950/95 backdrop-blur flex flex-col">
+      <div className="p-4 border-b border-slate-800 flex items-center justify-between">
+        <h2 className="text-sm font-bold text-white">
+          Vocabulary · <span className="text-slate-400 font-normal">{totalOwn} words used</span>
+        </h2>
+        <button onClick={onClose} className="text-slate-400 hover:text-white text-lg leading-none" title="Close">×</button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-6">
+        <div className="max-w-2xl mx-auto space-y-8">
+          <section>
+            <h3 className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-3">Word list coverage</h3>
+            <div className="space-y-2">
+              {coverage.map(list => (
+                <div key={list.level}>
+                  <button
+                    onClick={() => setOpenLevel(openLevel === list.level ? null : list.level)}
+                    className="w-full flex items-center text-xs text-left"
+                    title="Show words you have not used yet"
+                  >
+                    <span className="w-8 font-bold text-slate-300">{list.level}</span>
+                    <span className="flex-1 h-2 bg-slate-800 rounded-full overflow-hidden mx-2">
+                      <span className="block h-full bg-blue-500" style={{ width: `${list.percent}%` }} />
+                    </span>
+                    <span className="w-24 text-right text-slate-400">{list.used}/{list.total} · {list.percent}%</span>
+                  </button>
+                  {openLevel === list.level && list.missing.length > 0 && (
+                    <p className="mt-1 ml-10 text-xs text-slate-500">
+                      Not used yet: {list.missing.slice(0, MISSING_PREVIEW).join(', ')}
+                      {list.missing.length > MISSING_PREVIEW && ` … +${list.missing.length - MISSING_PREVIEW}`}
+                    </p>
+                  )}
+                </div>
+              ))}
+            </div>
+          </section>
+
+          <section>
+            <div className="flex items-center justify-between mb-3">
+              <h3 className="text-xs font-bold text-slate-400 uppercase tracking-wider">Heard but never used</h3>
+              <label className="flex items-center text-xs text-slate-400 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={pushWords}
+                  onChange={e => onPushWordsChange(e.target.checked)}
+                  className="mr-1.5 accent-blue-500"
+                />
+                Practise in next session
+              </label>
+            </div>
+            {wordsToPush.length === 0 ? (
+              <p className="text-sm text-slate-500">Words the tutor uses that you have not said yet will show up here.</p>
+            ) : (
+              <div className="flex flex-wrap gap-2">
+                {wordsToPush.map(entry => (
+                  <span
+                    key={entry.stem}
+                    className="px-2 py-1 text-xs rounded-md bg-amber-900/40 border border-amber-700/60 text-amber-200"
+                    title={`${entry.translation ? `${entry.translation} · ` : ''}The tutor used it ${entry.tutorCount}×`}
+                  >
+                    {entry.forms[0]}
+                  </span>
+                ))}
+              </div>
+            )}
+          </section>
+
+          <section>
+            <div className="flex items-center justify-between mb-3">
+              <h3 className="text-xs font-bold text-slate-400 uppercase tracking-wider">Your words</h3>
+              <input
+                value={filter}
+                onChange={e => setFilter(e.target.value)}
+                placeholder="Filter..."
+                className="px-2 py-1 bg-slate-900 text-white text-xs rounded-md border border-slate-700 focus:outline-none focus:border-blue-500"
+              />
+            </div>
+            {ownWords.length === 0 ? (
+              <p className="text-sm text-slate-500">Start talking and the words you use are collected here.</p>
+            ) : (
+              <table className="w-full text-xs">
+                <thead>
+                  <tr className="text-slate-500 text-left">
+                    <th className="font-medium pb-2">Word</th>
+                    <th className="font-medium pb-2 text-right">Used</th>
+                    <th className="font-medium pb-2 text-right">First seen</th>
+                    <th className="font-medium pb-2 text-right">Last used</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {ownWords.map(entry => (
+                    <tr key={entry.stem} className="border-t border-slate-800">
+                      <td className="py-1.5 text-slate-200" title={entry.forms.join(', ')}>{entry.forms[0]}</td>
+                      <td className="py-1.5 text-right text-slate-400">{entry.count}×</td>
+                      <td className="py-1.5 text-right text-slate-500">{formatDate(entry.firstSeenAt)}</td>
+                      <td className="py-1.5 text-right text-slate-500">{formatDate(entry.lastUsedAt)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </section>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,57 @@
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { ChatMessage, ConversationSummary } from '../types';
+import { generateSummary } from '../services/geminiService';
+import { formatTranscript } from '../utils/transcript';
+import { conversationTurns, shouldRefreshSummary } from '../utils/summary';
+
+// Fold new turns into the summary after this many learner/tutor turns
+const SUMMARY_EVERY_TURNS = 8;
+
+/**
+ * Keeps a rolling summary of the conversation, refreshed in the background
+ * every few turns from the previous summary plus the turns since.
+ */
+export const useConversationSummary = (messages: ChatMessage[]) => {
+  const [summary, setSummary] = useState<ConversationSummary | null>(null);
+  const summaryRef = useRef(summary);
+  summaryRef.current = summary;
+  const isUpdatingRef = useRef(false);
+  // Turn count of the last attempt, so a failed refresh waits for more turns instead of retrying every message
+  const lastAttemptRef = useRef(0);
+  // Bumped when the conversation is replaced, so a late response for the old one is discarded
+  const generationRef = useRef(0);
+
+  useEffect(() => {
+    const turns = conversationTurns(messages);
+    const current = summaryRef.current;
+    if (isUpdatingRef.current || !shouldRefreshSummary(turns.length, current, SUMMARY_EVERY_TURNS)) return;
+    if (turns.length - lastAttemptRef.current < SUMMARY_EVERY_TURNS) return;
+
+    isUpdatingRef.current = true;
+    lastAttemptRef.current = turns.length;
+    const generation = generationRef.current;
+    const newTurns = formatTranscript(turns.slice(current?.coveredTurns ?? 0));
+
+    generateSummary(current, newTurns, turns.length)
+      .then(next => {
+        if (next && generation === generationRef.current) setSummary(next);
+      })
+      .catch(e => console.warn("Could not update conversation summary", e))
+      .finally(() => {
+        isUpdatingRef.current = false;
+      });
+  }, [messages]);
+
+  // Replaces the summary, e.g. when reopening a stored session or starting a new one.
+  const restoreSummary = useCallback((next: ConversationSummary | null) => {
+    generationRef.current++;
+    isUpdatingRef.current = false;
+    lastAttemptRef.current = next?.coveredTurns ?? 0;
+    setSummary(next);
+  }, []);
+
+  return {
+    summary,
+    restoreSummary,
+  };
+};
@@ -1,371 +1,795 @@
-import { useState, useRef, useCallback } from 'react';
-import { GoogleGenAI, LiveServerMessage, Modality } from '@google/genai';
-import { createPcmBlob, decodeAudioData, downsampleBuffer } from '../utils/audioUtils';
-import { ChatMessage, Sender } from '../types';
-
-const MODEL_NAME = 'gemini-2.5-flash-native-audio-preview-09-2025';
-
-const getSystemInstruction = (level: string, context: string = '') => {
-  const baseInstruction = `
-Starting now, your name is **DAD**. 
-You are a highly intelligent, thoughtful, and curious AI. 
-Your role is to:
-
-1. Understand the context of the conversation deeply.
-2. Remember key points discussed earlier in this session and use them to maintain continuity.
-3. Ask relevant, insightful, and engaging questions that help expand the conversation naturally.
-4. Suggest topics, ideas, or clarifications when appropriate.
-5. Provide detailed, clear, and accurate answers.
-6. Avoid repeating irrelevant information.
-7. Adapt your style and tone to the user, being helpful, friendly, and professional.
-8. Confirm understanding if a topic is unclear, and ask for clarification politely.
-9. Keep a mental summary of all discussed points in this session to avoid forgetting.
-
-You are not Gemini, and you should always refer to yourself as "DAD". 
-Stay in this role for the entire conversation unless I instruct otherwise.
-
-OPERATIONAL RULES FOR THIS APP:
-- **Language**: The conversation must take place in GERMAN.
-- **Corrections**: If the user makes a grammar or vocabulary mistake, correct it using this exact format:
-   ❌ Wrong sentence
-   ✔️ Correct sentence
-   💡 Short explanation
-- **Engagement**: If the user is silent, use your curiosity to propose a new topic.
-- **Target Level**: ${level}.
-`.trim();
-
-  if (context) {
-    return `${baseInstruction}
-
-IMPORTANT CONTEXT UPDATE:
-The user has just changed their target proficiency level to ${level}.
-Below is the transcript of the conversation so far.
-Please RESUME the conversation naturally from the last point, but adapt your vocabulary and complexity to match the new level (${level}).
-Briefly acknowledge the change as DAD, then continue the topic.
-
-PREVIOUS CONTEXT:
-${context}
-`;
-  }
-
-  return `${baseInstruction}
-
-10. First message:
-   “Hallo! Ich bin DAD. Ich bin bereit, unser Gespräch zu beginnen. Worüber möchtest du heute sprechen?”
-`;
+import { useState, useRef, useCallback, useEffect } from 'react';
+import { Blob as PcmBlob, FunctionCall, LiveServerMessage, Modality, UsageMetadata } from '@google/genai';
+import { createPcmBlob, decodeAudioData } from '../utils/audioUtils';
+import { CAPTURE_CHUNK_MS, Microphone, openMicrophone } from '../utils/microphone';
+import { DEFAULT_VAD_OPTIONS } from '../utils/vad';
+import { parseCorrections } from '../utils/corrections';
+import { textHeardUntil, TimedText } from '../utils/transcript';
+import { buildContext, ContextBudget, DEFAULT_CONTEXT_BUDGET } from '../utils/contextBuilder';
+import { ConnectionEvent, ConnectionState, isSessionActive, nextConnectionState, reconnectDelay } from '../utils/connection';
+import { buildSystemInstruction, ContextReason } from '../utils/promptBuilder';
+import { DEFAULT_TUTOR_SETTINGS } from '../utils/tutorSettings';
+import { SessionRecorder } from '../utils/sessionRecorder';
+import { runToolCall, toolCallMessage, TutorToolHandlers, TUTOR_TOOL_DECLARATIONS } from '../utils/tutorTools';
+import { LiveTurn, TurnAssembler } from '../utils/turnAssembler';
+import {
+  createGeminiLiveTransport,
+  TutorConnectParams,
+  TutorTransport,
+  TutorTransportEvents,
+  TutorTransportFactory
+} from '../services/tutorTransport';
+import { AudioAnalysers, AudioSegment, ChatMessage, ConversationSummary, Scenario, Sender, TutorSettings, TutorVoice } from '../types';
+
+export const LIVE_MODEL_NAME = 'gemini-2.5-flash-native-audio-preview-09-2025';
+const SILENCE_TIMEOUT_MS = 20000;
+// Chunks kept while gated so the start of an utterance is not clipped by the VAD onset delay
+const PRE_ROLL_CHUNKS = DEFAULT_VAD_OPTIONS.onsetFrames + 2;
+// How long tutor audio stays muted after a local barge-in while waiting for the server to confirm it
+const BARGE_IN_GRACE_MS = 1500;
+const INITIAL_CONNECT_ATTEMPTS = 3;
+const RECONNECT_ATTEMPTS = 6;
+// Most recent mic audio kept while reconnecting (2s) and replayed once the connection is back
+const OFFLINE_AUDIO_CHUNKS = 2000 / CAPTURE_CHUNK_MS;
+// The visualizer only draws a few dozen bars, a small FFT is plenty
+const ANALYSER_FFT_SIZE = 512;
+
+export interface StartOptions {
+  reason?: ContextReason;
+  /** Type instead of speak: no microphone access, the tutor still answers with voice. */
+  textOnly?: boolean;
+  /** Role-play to act out; kept across level changes and reconnects. */
+  scenario?: Scenario | null;
+  /** Record mic and tutor audio; a level change continues the same recording. */
+  record?: boolean;
+  /** Vocabulary for the tutor to work in; kept across level changes and reconnects. */
+  targetWords?: string[];
+}
+
+export interface LiveTutorOptions {
+  /** Only stream mic audio while the VAD detects speech (plus a short pre-roll). */
+  gateSilence?: boolean;
+  /** Connection to the tutor model; defaults to the Gemini Live API. */
+  createTransport?: TutorTransportFactory;
+  /** Current rolling summary, handed to restarted sessions together with the recent turns. */
+  getSummary?: () => ConversationSummary | null;
+  /** Size limit for the context of restarted sessions. */
+  contextBudget?: ContextBudget;
+  /** Persona, voice and correction policy; read when a session starts. */
+  getSettings?: () => TutorSettings;
+  /** App-side effects of the functions the tutor calls; read for every call. */
+  getToolHandlers?: () => TutorToolHandlers;
+  /** Called with the token usage the server reports for the session. */
+  onUsage?: (model: string, usage: UsageMetadata) => void;
+  /** Checked after every usage report; the session stops once it returns false. */
+  withinBudget?: () => boolean;
+}
+
+const createAnalyser = (ctx: AudioContext): AnalyserNode => {
+  const analyser = ctx.createAnalyser();
+  analyser.fftSize = ANALYSER_FFT_SIZE;
+  analyser.smoothingTimeConstant = 0.75;
+  return analyser;
 };
 
-export const useLiveTutor = () => {
-  const [isConnected, setIsConnected] = useState(false);
+const getConnectParams = (systemInstruction: string, voice: TutorVoice, resumeHandle: string | null): TutorConnectParams => ({
+  model: LIVE_MODEL_NAME,
+  config: {
+    responseModalities: [Modality.AUDIO],
+    systemInstruction,
+    inputAudioTranscription: {},
+    outputAudioTranscription: {},
+    speechConfig: {
+      voiceConfig: { prebuiltVoiceConfig: { voiceName: voice } }
+    },
+    tools: [{ functionDeclarations: TUTOR_TOOL_DECLARATIONS }],
+    // Ask for resumption handles so a dropped connection can continue the same session
+    sessionResumption: resumeHandle ? { handle: resumeHandle } : {}
+  }
+});
+
+export const useLiveTutor = ({
+  gateSilence = false,
+  createTransport = createGeminiLiveTransport,
+  getSummary = () => null,
+  contextBudget = DEFAULT_CONTEXT_BUDGET,
+  getSettings = () => DEFAULT_TUTOR_SETTINGS,
+  getToolHandlers = () => ({}),
+  onUsage = () => {},
+  withinBudget = () => true
+}: LiveTutorOptions = {}) => {
+  const [connectionState, setConnectionState] = useState<ConnectionState>('idle');
   const [messages, setMessages] = useState<ChatMessage[]>([]);
-  const [volume, setVolume] = useState(0);
+  // Captions of the turns still being transcribed, in conversation order
+  const [liveTurns, setLiveTurns] = useState<ChatMessage[]>([]);
+  const [analysers, setAnalysers] = useState<AudioAnalysers>({ mic: null, tutor: null });
   const [isSilent, setIsSilent] = useState(false);
+  const [isUserSpeaking, setIsUserSpeaking] = useState(false);
+  // Tutor audio is playing or queued to play
+  const [isTutorSpeaking, setIsTutorSpeaking] = useState(false);
+  const [recordingId, setRecordingId] = useState<string | null>(null);
 
-  const inputContextRef = useRef<AudioContext | null>(null);
+  const microphoneRef = useRef<Microphone | null>(null);
   const outputContextRef = useRef<AudioContext | null>(null);
-  const mediaStreamRef = useRef<MediaStream | null>(null);
-  const sessionRef = useRef<any>(null);
+  // Tutor audio goes through the analyser on its way to the speakers
+  const tutorOutputRef = useRef<AnalyserNode | null>(null);
+  const transportRef = useRef<TutorTransport | null>(null);
   const sourceNodesRef = useRef<Set<AudioBufferSourceNode>>(new Set());
   const silenceTimerRef = useRef<number | null>(null);
   const isCleaningUpRef = useRef(false);
   const nextStartTimeRef = useRef<number>(0);
+  // Bumped whenever queued playback is flushed, so audio decoded meanwhile is dropped
+  const playbackEpochRef = useRef(0);
+  // Playback time at which the learner talked over the tutor, until the turn is settled
+  const bargeInAtRef = useRef<number | null>(null);
+  const bargeInTimerRef = useRef<number | null>(null);
+
+  // Connection bookkeeping; the run id invalidates callbacks and retry loops of a stopped session
+  const connectionStateRef = useRef<ConnectionState>('idle');
+  const runIdRef = useRef(0);
+  const resumeHandleRef = useRef<string | null>(null);
+  const offlineAudioRef = useRef<PcmBlob[]>([]);
+  const messagesRef = useRef<ChatMessage[]>([]);
+  const textOnlyRef = useRef(false);
+  const scenarioRef = useRef<Scenario | null>(null);
+  const targetWordsRef = useRef<string[]>([]);
+  const recorderRef = useRef<SessionRecorder | null>(null);
+  // Recording time spans of the turns in progress
+  const userAudioStartRef = useRef<number | null>(null);
+  const userAudioEndRef = useRef<number | null>(null);
+  const tutorAudioStartRef = useRef<number | null>(null);
+  const tutorAudioEndRef = useRef(0);
+  const getSummaryRef = useRef(getSummary);
+  getSummaryRef.current = getSummary;
+  const contextBudgetRef = useRef(contextBudget);
+  contextBudgetRef.current = contextBudget;
+  const getSettingsRef = useRef(getSettings);
+  getSettingsRef.current = getSettings;
+  const getToolHandlersRef = useRef(getToolHandlers);
+  getToolHandlersRef.current = getToolHandlers;
+  const onUsageRef = useRef(onUsage);
+  onUsageRef.current = onUsage;
+  const withinBudgetRef = useRef(withinBudget);
+  withinBudgetRef.current = withinBudget;
   
   // Transcription accumulation
-  const inputTranscriptBuffer = useRef('');
-  const outputTranscriptBuffer = useRef('');
+  const [turns] = useState(() => new TurnAssembler());
+  const outputSegmentsRef = useRef<TimedText[]>([]);
+
+  useEffect(() => {
+    messagesRef.current = messages;
+  }, [messages]);
+
+  const dispatchConnection = useCallback((event: ConnectionEvent) => {
+    const next = nextConnectionState(connectionStateRef.current, event);
+    connectionStateRef.current = next;
+    setConnectionState(next);
+  }, []);
 
   const triggerSilenceAction = useCallback(() => {
     setIsSilent(true);
     console.log("User silent. Waiting for user input.");
   }, []);
 
-  const resetSilenceTimer = useCallback(() => {
+  const clearSilenceTimer = useCallback(() => {
     if (silenceTimerRef.current) {
       window.clearTimeout(silenceTimerRef.current);
+      silenceTimerRef.current = null;
     }
     setIsSilent(false);
-    silenceTimerRef.current = window.setTimeout(triggerSilenceAction, 20000); // 20s timeout
-  }, [triggerSilenceAction]);
+  }, []);
+
+  // Starts the countdown after which the learner is considered silent
+  const resetSilenceTimer = useCallback(() => {
+    clearSilenceTimer();
+    silenceTimerRef.current = window.setTimeout(triggerSilenceAction, SILENCE_TIMEOUT_MS);
+  }, [clearSilenceTimer, triggerSilenceAction]);
 
   const addSystemMessage = useCallback((text: string) => {
+    const now = Date.now();
     setMessages(p => [...p, {
-        id: Date.now().toString(),
+        id: turns.nextId('system', now),
         sender: Sender.SYSTEM,
         text,
-        timestamp: Date.now()
+        timestamp: now
     }]);
+  }, [turns]);
+
+  const syncLiveTurns = useCallback(() => {
+    setLiveTurns(turns.openTurns().flatMap(turn => {
+      const text = turn.text.trim();
+      return text ? [{ id: turn.id, sender: turn.sender, text, timestamp: turn.startedAt, partial: true }] : [];
+    }));
+  }, [turns]);
+
+  // Maps a playback time of the output context onto the recording timeline
+  const recordingTime = useCallback((playbackTime: number) => {
+    const recorder = recorderRef.current;
+    const ctx = outputContextRef.current;
+    if (!recorder) return 0;
+    return recorder.now() + (ctx ? playbackTime - ctx.currentTime : 0);
   }, []);
 
-  const stop = useCallback(async () => {
+  // Stops everything queued for playback and returns the playback time it stopped at
+  const flushPlayback = useCallback(() => {
+    sourceNodesRef.current.forEach(node => {
+      try { node.stop(); } catch (e) {}
+    });
+    sourceNodesRef.current.clear();
+    setIsTutorSpeaking(false);
+    playbackEpochRef.current++;
+    const now = outputContextRef.current?.currentTime ?? 0;
+    nextStartTimeRef.current = now;
+    // Audio that was queued but never played is not part of the recording
+    recorderRef.current?.cutTutor(recordingTime(now));
+    return now;
+  }, [recordingTime]);
+
+  const takeUserSegment = useCallback((): AudioSegment | null => {
+    const recorder = recorderRef.current;
+    const start = userAudioStartRef.current;
+    const end = userAudioEndRef.current;
+    userAudioStartRef.current = null;
+    userAudioEndRef.current = null;
+    if (!recorder || start === null) return null;
+    return { recordingId: recorder.id, start, end: Math.max(start, end ?? recorder.now()) };
+  }, []);
+
+  // `until` caps the segment at the point playback was cut off
+  const takeTutorSegment = useCallback((until: number = Infinity): AudioSegment | null => {
+    const recorder = recorderRef.current;
+    const start = tutorAudioStartRef.current;
+    tutorAudioStartRef.current = null;
+    if (!recorder || start === null) return null;
+    return { recordingId: recorder.id, start, end: Math.max(start, Math.min(tutorAudioEndRef.current, until)) };
+  }, []);
+
+  const clearBargeIn = useCallback(() => {
+    if (bargeInTimerRef.current) {
+      window.clearTimeout(bargeInTimerRef.current);
+      bargeInTimerRef.current = null;
+    }
+    bargeInAtRef.current = null;
+  }, []);
+
+  // The final message of a closed learner turn; null when nothing was transcribed
+  const userTurnMessage = useCallback((turn: LiveTurn | null): ChatMessage | null => {
+    const audio = takeUserSegment();
+    const text = turn?.text.trim();
+    if (!turn || !text) return null;
+    return {
+      id: turn.id,
+      sender: Sender.USER,
+      text,
+      timestamp: turn.startedAt,
+      ...(audio ? { audio } : {})
+    };
+  }, [takeUserSegment]);
+
+  const commitUserTurn = useCallback(() => {
+    const message = userTurnMessage(turns.closeUser());
+    syncLiveTurns();
+    if (message) setMessages(p => [...p, message]);
+  }, [turns, userTurnMessage, syncLiveTurns]);
+
+  /**
+   * Commits the tutor turn after the learner turn it answered. `playedUntil`
+   * marks a turn the learner cut off, which is truncated to what was actually heard.
+   * On `turnComplete` the learner turn is committed even if the tutor said nothing.
+   */
+  const commitTutorTurn = useCallback((playedUntil?: number, turnComplete = false) => {
+    const { user, tutor } = turns.closeTutor(turnComplete);
+    const cutOff = playedUntil !== undefined;
+    const text = (cutOff ? textHeardUntil(outputSegmentsRef.current, playedUntil) : tutor?.text ?? '').trim();
+    outputSegmentsRef.current = [];
+    const audio = takeTutorSegment(cutOff && Number.isFinite(playedUntil) ? recordingTime(playedUntil) : Infinity);
+
+    const committed: ChatMessage[] = [];
+    const userMessage = user && userTurnMessage(user);
+    if (userMessage) committed.push(userMessage);
+    if (tutor && text) {
+      const corrections = parseCorrections(text);
+      committed.push({
+        id: tutor.id,
+        sender: Sender.MODEL,
+        text,
+        timestamp: tutor.startedAt,
+        ...(cutOff ? { interrupted: true } : {}),
+        ...(corrections.length ? { corrections } : {}),
+        ...(audio ? { audio } : {})
+      });
+    }
+    syncLiveTurns();
+    if (committed.length) setMessages(p => [...p, ...committed]);
+  }, [turns, userTurnMessage, syncLiveTurns, takeTutorSegment, recordingTime]);
+
+  // Runs the functions the tutor called, shows each as a card and answers all of them at once
+  const handleToolCalls = useCallback((calls: FunctionCall[]) => {
+    // The tutor acting on the learner's turn means it is over; keep it above the cards
+    commitUserTurn();
+    const handlers = getToolHandlersRef.current();
+    const outcomes = calls.map(call => runToolCall(call, handlers));
+    const now = Date.now();
+    const cards = outcomes.flatMap(({ record, response }) => {
+      if (record) return [toolCallMessage(record, turns.nextId('tool', now), now)];
+      console.warn("Rejected tool call:", response.name, response.response?.error);
+      return [];
+    });
+    if (cards.length) setMessages(p => [...p, ...cards]);
+
+    try {
+      transportRef.current?.sendToolResponse(outcomes.map(outcome => outcome.response));
+    } catch (err) {
+      console.warn("Error sending tool response:", err);
+    }
+  }, [turns, commitUserTurn]);
+
+  // The server withdrew calls, e.g. because the learner interrupted the turn they belonged to.
+  // A withdrawn correction no longer counts, so it loses its correction too.
+  const cancelToolCalls = useCallback((ids: string[]) => {
+    setMessages(p => p.map(m => {
+      if (!m.toolCall || !ids.includes(m.toolCall.id)) return m;
+      const { corrections, ...rest } = m;
+      return { ...rest, toolCall: { ...m.toolCall, status: 'cancelled' as const } };
+    }));
+  }, []);
+
+  const closeTransport = useCallback(() => {
+    const transport = transportRef.current;
+    transportRef.current = null;
+    if (transport) {
+      try { transport.close(); } catch (e) { console.warn("Transport close error", e); }
+    }
+  }, []);
+
+  // Releases the microphone and audio graph; `event` decides whether the session ends as stopped or failed
+  const teardown = useCallback(async (event: 'stop' | 'give-up') => {
     if (isCleaningUpRef.current) return;
     isCleaningUpRef.current = true;
+    runIdRef.current++;
     console.log("Stopping live tutor...");
 
+    // Close the connection first so no more messages arrive during teardown
+    closeTransport();
+
     if (silenceTimerRef.current) {
       window.clearTimeout(silenceTimerRef.current);
       silenceTimerRef.current = null;
     }
 
-    // Stop Media Stream (release microphone)
-    if (mediaStreamRef.current) {
-      mediaStreamRef.current.getTracks().forEach(track => track.stop());
-      mediaStreamRef.current = null;
-    }
+    // Stop capturing before tearing down the graph
+    const microphone = microphoneRef.current;
+    microphoneRef.current = null;
+    microphone?.pause();
 
     // Stop all playing sources
-    sourceNodesRef.current.forEach(node => {
-      try { node.stop(); } catch (e) {}
-    });
-    sourceNodesRef.current.clear();
+    flushPlayback();
+    tutorOutputRef.current = null;
+    setAnalysers({ mic: null, tutor: null });
+    clearBargeIn();
+    // Turns still being transcribed will never complete
+    turns.reset();
+    setLiveTurns([]);
+    outputSegmentsRef.current = [];
+    offlineAudioRef.current = [];
+    resumeHandleRef.current = null;
 
-    // Close Session if open
     const closeCtx = async (ctx: AudioContext | null) => {
       if (ctx && ctx.state !== 'closed') {
         try { await ctx.close(); } catch (e) { console.warn("Ctx close error", e); }
       }
     };
 
+    // Release the microphone
     await Promise.all([
-      closeCtx(inputContextRef.current),
+      microphone?.close(),
       closeCtx(outputContextRef.current)
     ]);
 
-    inputContextRef.current = null;
     outputContextRef.current = null;
-    sessionRef.current = null;
     
-    setIsConnected(false);
-    setVolume(0);
+    dispatchConnection(event);
     setIsSilent(false);
+    setIsUserSpeaking(false);
     isCleaningUpRef.current = false;
-  }, []);
-
-  const start = useCallback(async (level: string, context: string = '') => {
-    if (isConnected || isCleaningUpRef.current) return;
-
-    try {
-      // Ensure apiKey is clean
-      const apiKey = process.env.API_KEY ? process.env.API_KEY.trim() : "";
-      if (!apiKey) throw new Error("API Key not set in process.env.API_KEY");
+  }, [turns, closeTransport, flushPlayback, clearBargeIn, dispatchConnection]);
+
+  const stop = useCallback(() => teardown('stop'), [teardown]);
+
+  const start = useCallback(async (level: string, context: string = '', options: StartOptions = {}) => {
+    if (isSessionActive(connectionStateRef.current) || isCleaningUpRef.current) return;
+
+    const textOnly = options.textOnly ?? false;
+    textOnlyRef.current = textOnly;
+    const scenario = options.scenario ?? null;
+    scenarioRef.current = scenario;
+    const targetWords = options.targetWords ?? [];
+    targetWordsRef.current = targetWords;
+    if (!options.record) {
+      recorderRef.current = null;
+    } else if (options.reason !== 'level-change' || !recorderRef.current) {
+      recorderRef.current = new SessionRecorder();
+    }
+    setRecordingId(recorderRef.current?.id ?? null);
+    userAudioStartRef.current = null;
+    userAudioEndRef.current = null;
+    tutorAudioStartRef.current = null;
+    const runId = ++runIdRef.current;
+    const isCurrentRun = () => runIdRef.current === runId;
+    // Settings apply from the next start, a reconnect keeps the ones the session began with
+    const settings = getSettingsRef.current();
+    const systemInstruction = buildSystemInstruction(settings, { level, context, reason: options.reason, scenario, targetWords });
+    dispatchConnection('start');
+
+    const handleMessage = async (msg: LiveServerMessage) => {
+      const { serverContent, sessionResumptionUpdate, toolCall, toolCallCancellation, usageMetadata } = msg;
+
+      if (sessionResumptionUpdate?.resumable && sessionResumptionUpdate.newHandle) {
+        resumeHandleRef.current = sessionResumptionUpdate.newHandle;
+      }
+      if (usageMetadata) {
+        onUsageRef.current(LIVE_MODEL_NAME, usageMetadata);
+        // Hard stop: nothing more is streamed once the usage just reported used up a budget
+        if (!withinBudgetRef.current()) {
+          teardown('stop');
+          return;
+        }
+      }
 
-      console.log("Starting live tutor session...");
-      
-      // 1. Initialize Audio Contexts
-      const inputCtx = new (window.AudioContext || (window as any).webkitAudioContext)();
-      const outputCtx = new (window.AudioContext || (window as any).webkitAudioContext)();
+      if (toolCall?.functionCalls?.length) {
+        handleToolCalls(toolCall.functionCalls);
+      }
+      if (toolCallCancellation?.ids?.length) {
+        cancelToolCalls(toolCallCancellation.ids);
+      }
 
-      inputContextRef.current = inputCtx;
-      outputContextRef.current = outputCtx;
-      nextStartTimeRef.current = outputCtx.currentTime;
+      // Handle Text (Transcriptions), shown as live captions until the turn is committed
+      if (serverContent?.inputTranscription?.text) {
+        turns.addInput(serverContent.inputTranscription.text);
+        syncLiveTurns();
+      }
+      if (serverContent?.outputTranscription?.text) {
+        const text = serverContent.outputTranscription.text;
+        const ctx = outputContextRef.current;
+        // The chunk is heard once the audio queued so far has played out
+        const startTime = Math.max(nextStartTimeRef.current, ctx?.currentTime ?? 0);
+        turns.addOutput(text);
+        outputSegmentsRef.current.push({ text, startTime });
+        syncLiveTurns();
+      }
 
-      // 2. Get Mic Stream
-      const stream = await navigator.mediaDevices.getUserMedia({ 
-        audio: {
-          channelCount: 1,
-          echoCancellation: true,
-          autoGainControl: true,
-          noiseSuppression: true,
-        } 
-      });
-      mediaStreamRef.current = stream;
+      // The server detected the learner talking over the tutor
+      if (serverContent?.interrupted) {
+        const playedUntil = bargeInAtRef.current ?? flushPlayback();
+        clearBargeIn();
+        commitTutorTurn(playedUntil);
+      }
 
-      const source = inputCtx.createMediaStreamSource(stream);
-      const processor = inputCtx.createScriptProcessor(4096, 1, 1);
+      // Commit messages on turn completion
+      if (serverContent?.turnComplete) {
+        if (bargeInAtRef.current !== null) {
+          // Playback was already cut locally, the learner only heard part of the turn
+          commitTutorTurn(bargeInAtRef.current, true);
+          clearBargeIn();
+        } else {
+          commitTutorTurn(undefined, true);
+        }
+        tutorAudioStartRef.current = null;
+      }
 
-      // 3. Initialize Gemini
-      const ai = new GoogleGenAI({ apiKey });
-      
-      const sessionConfig = {
-        model: MODEL_NAME,
-        config: {
-          responseModalities: [Modality.AUDIO],
-          systemInstruction: getSystemInstruction(level, context),
-          inputAudioTranscription: {},
-          outputAudioTranscription: {},
-          speechConfig: {
-            voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Kore' } }
+      // Handle Audio Output
+      const audioData = serverContent?.modelTurn?.parts?.[0]?.inlineData?.data;
+      if (audioData && outputContextRef.current && bargeInAtRef.current === null) {
+        const ctx = outputContextRef.current;
+        const epoch = playbackEpochRef.current;
+        try {
+          const rawBytes = new Uint8Array(atob(audioData).split('').map(c => c.charCodeAt(0)));
+          const audioBuffer = await decodeAudioData(rawBytes, ctx, 24000);
+          if (epoch !== playbackEpochRef.current || bargeInAtRef.current !== null) return;
+          
+          const now = ctx.currentTime;
+          nextStartTimeRef.current = Math.max(nextStartTimeRef.current, now);
+          
+          const recorder = recorderRef.current;
+          if (recorder) {
+            const at = recordingTime(nextStartTimeRef.current);
+            recorder.addTutor(new Int16Array(rawBytes.buffer), at);
+            if (tutorAudioStartRef.current === null) tutorAudioStartRef.current = at;
+            tutorAudioEndRef.current = at + audioBuffer.duration;
           }
-        },
-        callbacks: {
-          onopen: () => {
-            console.log("Session Connected");
-            if (isCleaningUpRef.current) {
-               return; 
-            }
-            setIsConnected(true);
-            resetSilenceTimer();
-          },
-          onmessage: async (msg: LiveServerMessage) => {
-            if (isCleaningUpRef.current) return;
-            const { serverContent } = msg;
 
-            // Handle Text (Transcriptions)
-            if (serverContent?.inputTranscription?.text) {
-              inputTranscriptBuffer.current += serverContent.inputTranscription.text;
-            }
-            if (serverContent?.outputTranscription?.text) {
-              outputTranscriptBuffer.current += serverContent.outputTranscription.text;
-            }
-
-            // Commit messages on turn completion
-            if (serverContent?.turnComplete) {
-              if (inputTranscriptBuffer.current.trim()) {
-                 setMessages(p => [...p, {
-                   id: Date.now() + '-user',
-                   sender: Sender.USER,
-                   text: inputTranscriptBuffer.current.trim(),
-                   timestamp: Date.now()
-                 }]);
-                 inputTranscriptBuffer.current = '';
-              }
-
-              if (outputTranscriptBuffer.current.trim()) {
-                const text = outputTranscriptBuffer.current.trim();
-                setMessages(p => [...p, {
-                  id: Date.now() + '-ai',
-                  sender: Sender.MODEL,
-                  text: text,
-                  timestamp: Date.now(),
-                  isCorrection: text.includes("Wrong:") || text.includes("Correct:") || text.includes("❌") || text.includes("✔️")
-                }]);
-                outputTranscriptBuffer.current = '';
-              }
-            }
+          const source = ctx.createBufferSource();
+          source.buffer = audioBuffer;
+          source.connect(tutorOutputRef.current ?? ctx.destination);
+          source.start(nextStartTimeRef.current);
+          
+          sourceNodesRef.current.add(source);
+          setIsTutorSpeaking(true);
+          source.onended = () => {
+            sourceNodesRef.current.delete(source);
+            if (sourceNodesRef.current.size === 0) setIsTutorSpeaking(false);
+          };
+          
+          nextStartTimeRef.current += audioBuffer.duration;
+        } catch (e) {
+          console.warn("Audio decoding error", e);
+        }
+      }
+    };
 
-            // Handle Audio Output
-            const audioData = serverContent?.modelTurn?.parts?.[0]?.inlineData?.data;
-            if (audioData && outputContextRef.current) {
-              const ctx = outputContextRef.current;
-              try {
-                const rawBytes = new Uint8Array(atob(audioData).split('').map(c => c.charCodeAt(0)));
-                const audioBuffer = await decodeAudioData(rawBytes, ctx, 24000);
-                
-                const now = ctx.currentTime;
-                nextStartTimeRef.current = Math.max(nextStartTimeRef.current, now);
-                
-                const source = ctx.createBufferSource();
-                source.buffer = audioBuffer;
-                source.connect(ctx.destination);
-                source.start(nextStartTimeRef.current);
-                
-                sourceNodesRef.current.add(source);
-                source.onended = () => sourceNodesRef.current.delete(source);
-                
-                nextStartTimeRef.current += audioBuffer.duration;
-              } catch (e) {
-                console.warn("Audio decoding error", e);
-              }
-            }
+    // Opens a connection, retrying with jittered backoff. Resolves null if the session was stopped meanwhile.
+    const connect = async (maxAttempts: number, params: (attempt: number) => TutorConnectParams): Promise<TutorTransport | null> => {
+      let lastError: unknown;
+      for (let attempt = 0; attempt < maxAttempts; attempt++) {
+        if (attempt > 0) {
+          await new Promise(r => setTimeout(r, reconnectDelay(attempt - 1)));
+        }
+        if (!isCurrentRun()) return null;
+
+        const transport = createTransport();
+        transportRef.current = transport;
+        const isCurrent = () => isCurrentRun() && transportRef.current === transport;
+        const events: TutorTransportEvents = {
+          onOpen: () => console.log("Session Connected"),
+          onMessage: (msg: LiveServerMessage) => {
+            if (!isCleaningUpRef.current && isCurrent()) handleMessage(msg);
           },
-          onclose: () => {
-            console.log("Session Closed");
-            if (isConnected) stop();
+          onClose: (reason?: string) => {
+            console.log("Session Closed", reason ?? '');
+            // Closed by the server rather than by stop()
+            if (isCurrent()) handleConnectionLost();
           },
-          onerror: (err: any) => {
+          onError: (err: Error) => {
             console.error("Live Session Error:", err);
-            const msg = err.message || String(err);
-            // Notify user about connection drops
-            if (msg.includes("unavailable") || msg.includes("Network") || msg.includes("Aborted")) {
-                addSystemMessage("Connection interrupted: Service unavailable. Please try again.");
-                stop();
-            }
+            if (isCurrent()) handleConnectionLost();
           }
-        }
-      };
+        };
 
-      // Connect with retry logic (3 attempts)
-      let session;
-      let attempt = 0;
-      while (attempt < 3) {
         try {
-          session = await ai.live.connect(sessionConfig);
-          break; // Success
+          await transport.connect(params(attempt), events);
+          if (!isCurrent()) {
+            transport.close();
+            return null;
+          }
+          return transport;
         } catch (e) {
-          attempt++;
-          console.warn(`Connection attempt ${attempt} failed:`, e);
-          if (attempt === 3) throw e; // Rethrow on last failure
-          // Exponential backoff: 1s, 2s, 3s
-          await new Promise(r => setTimeout(r, 1000 * attempt));
+          lastError = e;
+          console.warn(`Connection attempt ${attempt + 1} failed:`, e);
+          if (transportRef.current === transport) transportRef.current = null;
         }
       }
-      
-      // Check if we stopped while waiting
-      if (isCleaningUpRef.current) {
-         return; 
+      throw lastError;
+    };
+
+    // Keeps the microphone open and reconnects, continuing the conversation where it dropped
+    const handleConnectionLost = async () => {
+      if (!isCurrentRun() || connectionStateRef.current !== 'live') return;
+      closeTransport();
+      dispatchConnection('lost');
+
+      // The current turns will never complete on this connection; keep what was said
+      commitTutorTurn(bargeInAtRef.current ?? Infinity);
+      commitUserTurn();
+      clearBargeIn();
+
+      try {
+        const transport = await connect(RECONNECT_ATTEMPTS, attempt => {
+          // An expired or rejected handle would fail every retry, so it only gets the first one
+          if (attempt > 0) resumeHandleRef.current = null;
+          if (resumeHandleRef.current) {
+            return getConnectParams(systemInstruction, settings.voice, resumeHandleRef.current);
+          }
+          const restored = buildContext(messagesRef.current, getSummaryRef.current(), contextBudgetRef.current);
+          return getConnectParams(
+            buildSystemInstruction(settings, { level, context: restored, reason: 'reconnect', scenario, targetWords }),
+            settings.voice,
+            null
+          );
+        });
+        if (!transport) return;
+
+        dispatchConnection('connected');
+        offlineAudioRef.current.splice(0).forEach(chunk => {
+          try { transport.sendAudio(chunk); } catch (err) { console.debug("Error sending buffered audio:", err); }
+        });
+      } catch (error) {
+        console.error("Reconnect failed:", error);
+        addSystemMessage("Connection lost. Please check your internet and start the conversation again.");
+        teardown('give-up');
       }
+    };
+
+    try {
+      console.log("Starting live tutor session...");
+      resumeHandleRef.current = null;
+      offlineAudioRef.current = [];
       
-      sessionRef.current = session;
+      // 1. Initialize Audio Contexts (replies are spoken in text-only mode too)
+      const outputCtx = new (window.AudioContext || (window as any).webkitAudioContext)();
+      outputContextRef.current = outputCtx;
+      nextStartTimeRef.current = outputCtx.currentTime;
+      const tutorAnalyser = createAnalyser(outputCtx);
+      tutorAnalyser.connect(outputCtx.destination);
+      tutorOutputRef.current = tutorAnalyser;
+
+      // 2. Get Mic Stream, unless the learner only types
+      const mic = textOnly ? null : await openMicrophone();
+      if (mic && !isCurrentRun()) {
+        // Stopped while the learner was asked for the microphone
+        await mic.close();
+        return;
+      }
+      microphoneRef.current = mic;
+      const micAnalyser = mic ? createAnalyser(mic.ctx) : null;
+      setAnalysers({ mic: micAnalyser, tutor: tutorAnalyser });
+
+      // 3. Connect to the tutor
+      const transport = await connect(INITIAL_CONNECT_ATTEMPTS, () => getConnectParams(systemInstruction, settings.voice, null));
+      // Check if we stopped while waiting
+      if (!transport) return;
+
+      dispatchConnection('connected');
+      resetSilenceTimer();
 
       // 4. Start Audio Pipeline
-      processor.onaudioprocess = (e) => {
-        if (isCleaningUpRef.current || !sessionRef.current) return;
-        
-        const inputData = e.inputBuffer.getChannelData(0);
-        
-        // Simple RMS for Volume
-        let sum = 0;
-        for(let i=0; i<inputData.length; i++) sum += inputData[i] * inputData[i];
-        const rms = Math.sqrt(sum / inputData.length);
-        setVolume(Math.min(100, rms * 2000));
-
-        if (rms > 0.02) {
-          resetSilenceTimer();
-        }
+      if (mic && micAnalyser) {
+        const preRoll: PcmBlob[] = [];
+
+        mic.start(({ pcm, vadEvent, isSpeaking }) => {
+          if (isCleaningUpRef.current || !isCurrentRun()) return;
+
+          // Silence countdown only runs between utterances
+          if (vadEvent?.type === 'speech-start') {
+            clearSilenceTimer();
+            setIsUserSpeaking(true);
+            if (recorderRef.current && userAudioStartRef.current === null) {
+              // The VAD reports speech a few chunks late, start the segment where the pre-roll does
+              userAudioStartRef.current = Math.max(0, recorderRef.current.now() - (PRE_ROLL_CHUNKS * CAPTURE_CHUNK_MS) / 1000);
+            }
+            // Barge-in: silence the tutor right away instead of waiting for the server round trip
+            if (sourceNodesRef.current.size > 0 && bargeInAtRef.current === null) {
+              bargeInAtRef.current = flushPlayback();
+              bargeInTimerRef.current = window.setTimeout(() => {
+                // The server kept the turn going (e.g. a cough), resume with the audio still to come
+                bargeInTimerRef.current = null;
+                bargeInAtRef.current = null;
+              }, BARGE_IN_GRACE_MS);
+            }
+          } else if (vadEvent?.type === 'speech-end') {
+            setIsUserSpeaking(false);
+            resetSilenceTimer();
+            if (recorderRef.current) userAudioEndRef.current = recorderRef.current.now();
+          }
 
-        const downsampled = downsampleBuffer(inputData, inputCtx.sampleRate, 16000);
-        const blob = createPcmBlob(downsampled);
-        
-        // Send Audio to Model
-        try {
-             session.sendRealtimeInput({ media: blob });
-        } catch (err) {
-            console.debug("Error sending realtime input:", err);
-        }
-      };
+          if (pcm.length === 0) return;
+          recorderRef.current?.addMic(pcm);
+          const blob = createPcmBlob(pcm);
+          const live = connectionStateRef.current === 'live' ? transportRef.current : null;
+
+          const send = (chunk: PcmBlob) => {
+            if (!live) {
+              // Offline: keep only the most recent audio to replay once reconnected
+              offlineAudioRef.current.push(chunk);
+              if (offlineAudioRef.current.length > OFFLINE_AUDIO_CHUNKS) offlineAudioRef.current.shift();
+              return;
+            }
+            try {
+              live.sendAudio(chunk);
+            } catch (err) {
+              console.debug("Error sending realtime input:", err);
+            }
+          };
+
+          if (gateSilence && !isSpeaking) {
+            if (vadEvent?.type === 'speech-end') {
+              // Let the server-side turn detection know the learner has finished
+              send(blob);
+              try { live?.endAudioStream(); } catch (err) { console.debug("Error ending audio stream:", err); }
+              return;
+            }
+            preRoll.push(blob);
+            if (preRoll.length > PRE_ROLL_CHUNKS) preRoll.shift();
+            return;
+          }
 
-      source.connect(processor);
-      processor.connect(inputCtx.destination);
+          preRoll.splice(0).forEach(send);
+          send(blob);
+        });
+
+        // Analysers are pulled without being connected onwards, the mic is not played back
+        mic.source.connect(micAnalyser);
+      }
 
     } catch (error: any) {
       console.error("Failed to start tutor:", error);
       let friendlyError = "Connection failed. Please check your internet or try again.";
       
       // Enhance error message for common 503s
-      if (error.message?.includes("unavailable") || error.message?.includes("503")) {
+      if (error?.message?.includes("unavailable") || error?.message?.includes("503")) {
           friendlyError = "The AI service is currently overloaded. Please wait a moment and try again.";
       }
+      if (error?.name === "NotAllowedError") {
+          friendlyError = "Microphone access was denied. Allow it in your browser or switch to text-only mode.";
+      }
       
       addSystemMessage(friendlyError);
-      stop();
+      teardown('give-up');
     }
-  }, [stop, isConnected, resetSilenceTimer, addSystemMessage]);
+  }, [gateSilence, createTransport, dispatchConnection, clearSilenceTimer, resetSilenceTimer, addSystemMessage, flushPlayback, clearBargeIn, turns, syncLiveTurns, commitUserTurn, commitTutorTurn, handleToolCalls, cancelToolCalls, closeTransport, teardown, recordingTime]);
 
   const changeLevel = useCallback(async (newLevel: string) => {
     console.log(`Switching level to ${newLevel}`);
     addSystemMessage(`Switching to level ${newLevel}...`);
     
-    const recentContext = messages
-      .filter(m => m.sender !== Sender.SYSTEM)
-      .slice(-6)
-      .map(m => `${m.sender === Sender.USER ? 'User' : 'Tutor'}: ${m.text}`)
-      .join('\n');
+    const recentContext = buildContext(messages, getSummaryRef.current(), contextBudgetRef.current);
 
-    if (isConnected) {
+    if (isSessionActive(connectionStateRef.current)) {
       await stop();
       await new Promise(resolve => setTimeout(resolve, 500));
     }
     
-    await start(newLevel, recentContext);
-  }, [addSystemMessage, stop, start, isConnected, messages]);
+    await start(newLevel, recentContext, {
+      reason: 'level-change',
+      textOnly: textOnlyRef.current,
+      scenario: scenarioRef.current,
+      record: recorderRef.current !== null,
+      targetWords: targetWordsRef.current
+    });
+  }, [addSystemMessage, stop, start, messages]);
+
+  // Sends a typed learner turn into the live session; returns false if there is no live connection
+  const sendText = useCallback((text: string) => {
+    const trimmed = text.trim();
+    const transport = transportRef.current;
+    if (!trimmed || connectionStateRef.current !== 'live' || !transport) return false;
+
+    try {
+      transport.sendText(trimmed);
+    } catch (err) {
+      console.warn("Error sending text:", err);
+      return false;
+    }
+
+    // A typed turn ends any half-transcribed spoken one
+    commitUserTurn();
+    const now = Date.now();
+    setMessages(p => [...p, {
+      id: turns.nextId('typed', now),
+      sender: Sender.USER,
+      text: trimmed,
+      timestamp: now,
+      typed: true
+    }]);
+    resetSilenceTimer();
+    return true;
+  }, [turns, commitUserTurn, resetSilenceTimer]);
+
+  // The current recording, if the session is or was recorded
+  const getRecording = useCallback(() => recorderRef.current, []);
+
+  // Replaces the visible conversation, e.g. when reopening a stored session.
+  const restoreMessages = useCallback((next: ChatMessage[]) => {
+    turns.reset();
+    setLiveTurns([]);
+    outputSegmentsRef.current = [];
+    setMessages(next);
+  }, [turns]);
 
   return {
-    isConnected,
+    connectionState,
     start,
     stop,
     changeLevel,
+    sendText,
+    recordingId,
+    getRecording,
     messages,
-    volume,
+    liveTurns,
+    analysers,
     isSilent,
-    addSystemMessage
+    isUserSpeaking,
+    isTutorSpeaking,
+    addSystemMessage,
+    restoreMessages
   };
 };
@@ -0,0 +1,56 @@
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { AudioSegment } from '../types';
+import { SessionRecorder } from '../utils/sessionRecorder';
+import { downloadBlob } from '../utils/download';
+
+const wavUrl = (wav: Uint8Array) => URL.createObjectURL(new Blob([wav], { type: 'audio/wav' }));
+
+/** Plays single turns of the session recording and downloads the whole of it. */
+export const useRecordingPlayback = (getRecording: () => SessionRecorder | null) => {
+  const [playingId, setPlayingId] = useState<string | null>(null);
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+  const urlRef = useRef<string | null>(null);
+
+  const stopPlayback = useCallback(() => {
+    audioRef.current?.pause();
+    audioRef.current = null;
+    if (urlRef.current) URL.revokeObjectURL(urlRef.current);
+    urlRef.current = null;
+    setPlayingId(null);
+  }, []);
+
+  useEffect(() => stopPlayback, [stopPlayback]);
+
+  // Toggles playback of a turn; `id` identifies the message that is playing
+  const playSegment = useCallback((id: string, segment: AudioSegment) => {
+    const wasPlaying = playingId === id;
+    stopPlayback();
+    const recorder = getRecording();
+    if (wasPlaying || !recorder || recorder.id !== segment.recordingId) return;
+
+    const url = wavUrl(recorder.toWav(segment.start, segment.end));
+    const audio = new Audio(url);
+    audioRef.current = audio;
+    urlRef.current = url;
+    audio.onended = () => {
+      if (audioRef.current === audio) stopPlayback();
+    };
+    setPlayingId(id);
+    audio.play().catch(e => {
+      console.warn("Could not play recording", e);
+      stopPlayback();
+    });
+  }, [playingId, getRecording, stopPlayback]);
+
+  const downloadRecording = useCallback((filename: string) => {
+    const recorder = getRecording();
+    if (!recorder) return;
+    downloadBlob(new Blob([recorder.toWav()], { type: 'audio/wav' }), filename);
+  }, [getRecording]);
+
+  return {
+    playingId,
+    playSegment,
+    downloadRecording,
+  };
+};
@@ -0,0 +1,82 @@
+import { useState, useCallback, useEffect, useMemo, useRef } from 'react';
+import { ChatMessage, ReviewCard, ReviewGrade } from '../types';
+import { deleteCard, discardCard, listCards, listDeletedCardIds, saveCard, saveCards } from '../services/reviewDeckStore';
+import { collectNewCards, getDueCards, scheduleReview, withdrawnCardIds } from '../utils/srs';
+
+// Re-evaluate which cards are due once a minute so relearning cards show up again
+const DUE_REFRESH_MS = 60000;
+
+export const useReviewDeck = (messages: ChatMessage[], sessionId: string | null) => {
+  const [cards, setCards] = useState<ReviewCard[]>([]);
+  const [isLoaded, setIsLoaded] = useState(false);
+  const [now, setNow] = useState(() => Date.now());
+  // Ids of every card ever seen, including deleted ones, so they are not re-collected
+  const knownIdsRef = useRef<Set<string>>(new Set());
+  const cardsRef = useRef(cards);
+  cardsRef.current = cards;
+
+  useEffect(() => {
+    Promise.all([listCards(), listDeletedCardIds()])
+      .then(([stored, deletedIds]) => {
+        stored.forEach(card => knownIdsRef.current.add(card.id));
+        deletedIds.forEach(id => knownIdsRef.current.add(id));
+        setCards(stored);
+      })
+      .catch(e => console.warn("Could not load review deck", e))
+      .finally(() => setIsLoaded(true));
+  }, []);
+
+  useEffect(() => {
+    const timer = window.setInterval(() => setNow(Date.now()), DUE_REFRESH_MS);
+    return () => window.clearInterval(timer);
+  }, []);
+
+  // Turn new tutor corrections into cards as they arrive
+  useEffect(() => {
+    if (!isLoaded) return;
+
+    // A recorded correction is usually carded before the tutor withdraws it; drop such cards unless already studied
+    const withdrawn = withdrawnCardIds(messages);
+    const stale = cardsRef.current.filter(card =>
+      withdrawn.has(card.id) && card.sessionId === (sessionId ?? undefined) && !card.schedule.lastReviewedAt
+    );
+    if (stale.length > 0) {
+      const staleIds = new Set(stale.map(card => card.id));
+      staleIds.forEach(id => knownIdsRef.current.delete(id));
+      setCards(p => p.filter(card => !staleIds.has(card.id)));
+      stale.forEach(card => discardCard(card.id).catch(e => console.warn("Could not delete review card", e)));
+    }
+
+    const newCards = collectNewCards(messages, knownIdsRef.current, Date.now(), sessionId ?? undefined);
+    if (newCards.length === 0) return;
+
+    newCards.forEach(card => knownIdsRef.current.add(card.id));
+    setCards(p => [...p, ...newCards]);
+    saveCards(newCards).catch(e => console.warn("Could not save review cards", e));
+  }, [messages, sessionId, isLoaded]);
+
+  const gradeCard = useCallback((id: string, grade: ReviewGrade) => {
+    const card = cardsRef.current.find(c => c.id === id);
+    if (!card) return;
+
+    const reviewedAt = Date.now();
+    const updated = { ...card, schedule: scheduleReview(card.schedule, grade, reviewedAt) };
+    setCards(p => p.map(c => (c.id === id ? updated : c)));
+    setNow(reviewedAt);
+    saveCard(updated).catch(e => console.warn("Could not save review card", e));
+  }, []);
+
+  const removeCard = useCallback((id: string) => {
+    setCards(p => p.filter(card => card.id !== id));
+    deleteCard(id).catch(e => console.warn("Could not delete review card", e));
+  }, []);
+
+  const dueCards = useMemo(() => getDueCards(cards, now), [cards, now]);
+
+  return {
+    cards,
+    dueCards,
+    gradeCard,
+    removeCard,
+  };
+};
@@ -0,0 +1,42 @@
+import { useState, useCallback, useEffect, useMemo } from 'react';
+import { ChatMessage, ScenarioProgress } from '../types';
+import { completeScenarioGoal, createScenarioProgress, getScenario, updateScenarioProgress } from '../utils/scenarios';
+
+/**
+ * The role-play the learner picked and the goals reached so far, ticked off
+ * from learner turns as they come in.
+ */
+export const useScenario = (messages: ChatMessage[]) => {
+  const [progress, setProgress] = useState<ScenarioProgress | null>(null);
+  const scenario = useMemo(() => (progress ? getScenario(progress.scenarioId) : null), [progress?.scenarioId]);
+
+  useEffect(() => {
+    if (!scenario) return;
+    setProgress((p: ScenarioProgress | null) => (p ? updateScenarioProgress(scenario, p, messages) : p));
+  }, [messages, scenario]);
+
+  // Starts tracking a scenario from now on; turns before it do not count towards its goals
+  const selectScenario = useCallback((id: string | null) => {
+    const next = id ? getScenario(id) : null;
+    setProgress(next ? createScenarioProgress(next) : null);
+  }, []);
+
+  // Ticks off a goal the tutor reported through a function call; unknown goals are ignored
+  const completeGoal = useCallback((goalId: string) => {
+    if (!scenario) return;
+    setProgress((p: ScenarioProgress | null) => (p ? completeScenarioGoal(scenario, p, goalId) ?? p : p));
+  }, [scenario]);
+
+  // Replaces the progress, e.g. when reopening a stored session or starting a new one.
+  const restoreProgress = useCallback((next: ScenarioProgress | null) => {
+    setProgress(next);
+  }, []);
+
+  return {
+    scenario,
+    progress,
+    selectScenario,
+    completeGoal,
+    restoreProgress,
+  };
+};
@@ -0,0 +1,106 @@
+import { useState, useCallback, useEffect } from 'react';
+import { NewsTopic, ProficiencyLevel, SessionRecord } from '../types';
+import {
+  createSessionId,
+  createSessionRecord,
+  deleteSession,
+  getSession,
+  listSessions,
+  saveSession,
+  updateSession as updateStoredSession,
+} from '../services/sessionStore';
+
+export const useSessionHistory = () => {
+  const [sessions, setSessions] = useState<SessionRecord[]>([]);
+  const [activeSessionId, setActiveSessionId] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      setSessions(await listSessions());
+    } catch (e) {
+      console.warn("Could not load session history", e);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const replaceLocal = useCallback((session: SessionRecord) => {
+    setSessions(p => {
+      const others = p.filter(s => s.id !== session.id);
+      return [session, ...others].sort((a, b) => b.startedAt - a.startedAt);
+    });
+  }, []);
+
+  const beginSession = useCallback(async (level: ProficiencyLevel, topic?: NewsTopic | null) => {
+    const session = createSessionRecord(level, topic);
+    setActiveSessionId(session.id);
+    replaceLocal(session);
+    try {
+      await saveSession(session);
+    } catch (e) {
+      console.warn("Could not save session", e);
+    }
+    return session;
+  }, [replaceLocal]);
+
+  // Stores a session read from an export file under a fresh id, so re-importing never overwrites
+  const importSession = useCallback(async (imported: SessionRecord) => {
+    const session = { ...imported, id: createSessionId(imported.startedAt) };
+    await saveSession(session);
+    replaceLocal(session);
+    setActiveSessionId(session.id);
+    return session;
+  }, [replaceLocal]);
+
+  const updateSession = useCallback(async (id: string, patch: Partial<Omit<SessionRecord, 'id'>>) => {
+    try {
+      const updated = await updateStoredSession(id, patch);
+      if (updated) replaceLocal(updated);
+      return updated;
+    } catch (e) {
+      console.warn("Could not update session", e);
+      return null;
+    }
+  }, [replaceLocal]);
+
+  const renameSession = useCallback((id: string, title: string) => {
+    const trimmed = title.trim();
+    if (!trimmed) return Promise.resolve(null);
+    return updateSession(id, { title: trimmed });
+  }, [updateSession]);
+
+  const removeSession = useCallback(async (id: string) => {
+    setSessions(p => p.filter(s => s.id !== id));
+    setActiveSessionId(current => (current === id ? null : current));
+    try {
+      await deleteSession(id);
+    } catch (e) {
+      console.warn("Could not delete session", e);
+      refresh();
+    }
+  }, [refresh]);
+
+  const openSession = useCallback(async (id: string) => {
+    const session = await getSession(id);
+    if (session) setActiveSessionId(session.id);
+    return session;
+  }, []);
+
+  const closeSession = useCallback(() => {
+    setActiveSessionId(null);
+  }, []);
+
+  return {
+    sessions,
+    activeSessionId,
+    beginSession,
+    importSession,
+    updateSession,
+    renameSession,
+    removeSession,
+    openSession,
+    closeSession,
+  };
+};
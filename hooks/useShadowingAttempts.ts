@@ -0,0 +1,40 @@
+import { useState, useCallback, useEffect, useMemo } from 'react';
+import { ProficiencyLevel, ShadowingAttempt } from '../types';
+import { listAttempts, saveAttempt } from '../services/shadowingStore';
+import { alignWords, scoreAlignment, summarizeAttempts } from '../utils/shadowing';
+
+export const useShadowingAttempts = () => {
+  const [attempts, setAttempts] = useState<ShadowingAttempt[]>([]);
+
+  useEffect(() => {
+    listAttempts()
+      .then(stored => setAttempts(stored))
+      .catch(e => console.warn("Could not load shadowing attempts", e));
+  }, []);
+
+  /** Scores what the learner said against the sentence and stores the attempt. */
+  const recordAttempt = useCallback((sentence: string, level: ProficiencyLevel, transcript: string) => {
+    const alignment = alignWords(sentence, transcript);
+    const score = scoreAlignment(alignment);
+    const createdAt = Date.now();
+    const attempt: ShadowingAttempt = {
+      id: `shadowing-${createdAt}-${Math.random().toString(36).slice(2, 8)}`,
+      sentence,
+      level,
+      transcript,
+      accuracy: score.accuracy,
+      createdAt,
+    };
+    setAttempts((p: ShadowingAttempt[]) => [...p, attempt]);
+    saveAttempt(attempt).catch(e => console.warn("Could not save shadowing attempt", e));
+    return { attempt, alignment, score };
+  }, []);
+
+  const progress = useMemo(() => summarizeAttempts(attempts), [attempts]);
+
+  return {
+    attempts,
+    progress,
+    recordAttempt,
+  };
+};
@@ -0,0 +1,156 @@
+import { useState, useRef, useCallback, useEffect } from 'react';
+import { LiveServerMessage, Modality, UsageMetadata } from '@google/genai';
+import { createPcmBlob } from '../utils/audioUtils';
+import { Microphone, openMicrophone } from '../utils/microphone';
+import { createGeminiLiveTransport, TutorTransport, TutorTransportFactory } from '../services/tutorTransport';
+import { LIVE_MODEL_NAME } from './useLiveTutor';
+
+// Gives up when the learner says nothing at all, counted from when listening started
+const LISTEN_TIMEOUT_MS = 15000;
+// After the learner stops, the last words of the transcription can still be on their way
+const TRANSCRIPT_SETTLE_MS = 2000;
+
+const SHADOWING_INSTRUCTION =
+  'The user is practising German pronunciation by repeating single sentences. ' +
+  'Do not correct or comment on what they say; answer every sentence with "Gut."';
+
+interface ShadowingListenerOptions {
+  /** Connection used for the transcription; tests pass a fake. */
+  createTransport?: TutorTransportFactory;
+  /** Called with the token usage the server reports for the attempt. */
+  onUsage?: (model: string, usage: UsageMetadata) => void;
+}
+
+interface ListenSession {
+  /** The learner is done: stop sending audio and wait for the transcription to settle. */
+  end: () => void;
+  /** Resolve right away with what has been transcribed so far. */
+  abort: () => void;
+}
+
+/**
+ * Listens to one shadowing attempt through the live API and returns its input
+ * transcription, the same transcription the tutor conversation uses.
+ */
+export const useShadowingListener = ({
+  createTransport = createGeminiLiveTransport,
+  onUsage = () => {}
+}: ShadowingListenerOptions = {}) => {
+  const [isListening, setIsListening] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const sessionRef = useRef<ListenSession | null>(null);
+  const onUsageRef = useRef(onUsage);
+  onUsageRef.current = onUsage;
+
+  useEffect(() => () => sessionRef.current?.abort(), []);
+
+  const stop = useCallback(() => sessionRef.current?.end(), []);
+
+  /** Resolves with what the learner said, or null when nothing was understood. */
+  const listen = useCallback((): Promise<string | null> => {
+    if (sessionRef.current) return Promise.resolve(null);
+    setError(null);
+    setIsListening(true);
+
+    return new Promise(resolve => {
+      const parts: string[] = [];
+      let transport: TutorTransport | null = null;
+      let microphone: Microphone | null = null;
+      let timer: number | undefined;
+      let listening = false;
+      let done = false;
+
+      // Safe to call again: audio opened after the attempt ended is released too
+      const release = () => {
+        microphone?.close();
+        transport?.close();
+        microphone = null;
+        transport = null;
+      };
+
+      const finish = () => {
+        if (done) return;
+        done = true;
+        window.clearTimeout(timer);
+        release();
+        sessionRef.current = null;
+        setIsListening(false);
+        resolve(parts.join('').replace(/\s+/g, ' ').trim() || null);
+      };
+
+      const finishIn = (ms: number) => {
+        window.clearTimeout(timer);
+        timer = window.setTimeout(finish, ms);
+      };
+
+      const end = () => {
+        if (done) return;
+        // Nothing was sent yet, so there is no transcription to wait for
+        if (!listening) return finish();
+        microphone?.pause();
+        try {
+          transport?.endAudioStream();
+        } catch (err) {
+          console.debug("Error ending audio stream:", err);
+        }
+        finishIn(TRANSCRIPT_SETTLE_MS);
+      };
+
+      const handleMessage = ({ serverContent, usageMetadata }: LiveServerMessage) => {
+        if (usageMetadata) onUsageRef.current(LIVE_MODEL_NAME, usageMetadata);
+        if (serverContent?.inputTranscription?.text) parts.push(serverContent.inputTranscription.text);
+        // The model only answers once the learner's turn, and so its transcription, is over
+        if (serverContent?.turnComplete && parts.length > 0) finish();
+      };
+
+      const open = async () => {
+        const mic = await openMicrophone();
+        microphone = mic;
+        if (done) return release();
+
+        const connection = createTransport();
+        transport = connection;
+        await connection.connect(
+          {
+            model: LIVE_MODEL_NAME,
+            config: { responseModalities: [Modality.AUDIO], systemInstruction: SHADOWING_INSTRUCTION, inputAudioTranscription: {} },
+          },
+          {
+            onMessage: handleMessage,
+            onClose: () => finish(),
+            onError: err => console.warn("Shadowing transcription error:", err),
+          }
+        );
+        if (done) return release();
+
+        mic.start(({ pcm, vadEvent }) => {
+          if (pcm.length > 0) {
+            try {
+              connection.sendAudio(createPcmBlob(pcm));
+            } catch (err) {
+              console.debug("Error sending realtime input:", err);
+            }
+          }
+          if (vadEvent?.type === 'speech-end') end();
+        });
+        // The permission prompt for the microphone does not count against the attempt
+        listening = true;
+        finishIn(LISTEN_TIMEOUT_MS);
+      };
+
+      sessionRef.current = { end, abort: finish };
+      open().catch(err => {
+        console.warn("Could not listen for the shadowing attempt", err);
+        setError('Could not use the microphone or reach the tutor. Type what you said instead.');
+        finish();
+      });
+    });
+  }, [createTransport]);
+
+  return {
+    isListening,
+    error,
+    listen,
+    stop,
+  };
+};
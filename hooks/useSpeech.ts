@@ -0,0 +1,63 @@
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { SpeechPlayback, TutorVoice } from '../types';
+import { loadSpeech, SPEECH_SAMPLE_RATE } from '../services/speechService';
+import { encodeWav, pcmToInt16 } from '../utils/audioUtils';
+
+/**
+ * Reads texts aloud with the TTS voice, one at a time. Clips are cached by the
+ * speech service; playback runs through an audio element so a slower `rate`
+ * keeps the pitch.
+ */
+export const useSpeech = (voice: TutorVoice, rate: number) => {
+  const [speech, setSpeech] = useState<SpeechPlayback | null>(null);
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+  const urlRef = useRef<string | null>(null);
+  const requestIdRef = useRef(0);
+
+  const stop = useCallback(() => {
+    requestIdRef.current++;
+    audioRef.current?.pause();
+    audioRef.current = null;
+    if (urlRef.current) URL.revokeObjectURL(urlRef.current);
+    urlRef.current = null;
+    setSpeech(null);
+  }, []);
+
+  useEffect(() => stop, [stop]);
+
+  // Toggles: speaking the text that is already loading or playing stops it
+  const speak = useCallback(async (text: string) => {
+    const wasSpeaking = speech?.text === text;
+    stop();
+    if (wasSpeaking || !text.trim()) return;
+
+    const requestId = requestIdRef.current;
+    setSpeech({ text, status: 'loading' });
+    try {
+      const pcm = await loadSpeech(text, voice);
+      if (requestId !== requestIdRef.current) return;
+
+      const wav = encodeWav(pcmToInt16(pcm), SPEECH_SAMPLE_RATE);
+      const url = URL.createObjectURL(new Blob([wav], { type: 'audio/wav' }));
+      const audio = new Audio(url);
+      audio.playbackRate = rate;
+      audio.preservesPitch = true;
+      audioRef.current = audio;
+      urlRef.current = url;
+      audio.onended = () => {
+        if (audioRef.current === audio) stop();
+      };
+      await audio.play();
+      if (requestId === requestIdRef.current) setSpeech({ text, status: 'playing' });
+    } catch (e) {
+      console.warn("Could not play speech", e);
+      if (requestId === requestIdRef.current) stop();
+    }
+  }, [speech, voice, rate, stop]);
+
+  return {
+    speech,
+    speak,
+    stop,
+  };
+};
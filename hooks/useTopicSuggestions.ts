@@ -0,0 +1,53 @@
+import { useState, useCallback, useRef } from 'react';
+import { NewsTopic, ProficiencyLevel, TopicInterest } from '../types';
+import { findConversationTopics } from '../services/geminiService';
+import { loadRecentTopics, saveRecentTopics } from '../services/topicHistoryStore';
+import { filterUnseenTopics, pickOfflineTopics, pruneRecentTopics, rememberTopics, TOPIC_CANDIDATES } from '../utils/topics';
+
+export const useTopicSuggestions = () => {
+  const [candidates, setCandidates] = useState<NewsTopic[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isOffline, setIsOffline] = useState(false);
+  const requestIdRef = useRef(0);
+
+  /** Searches for fresh candidates, falling back to the offline topic bank. */
+  const suggest = useCallback(async (level: ProficiencyLevel, interest: TopicInterest) => {
+    const requestId = ++requestIdRef.current;
+    setIsLoading(true);
+    const now = Date.now();
+    const recent = pruneRecentTopics(loadRecentTopics(), now);
+
+    let found: NewsTopic[] = [];
+    if (typeof navigator === 'undefined' || navigator.onLine) {
+      try {
+        const results = await findConversationTopics(level, interest, recent.map(topic => topic.title));
+        found = filterUnseenTopics(results, recent, now).slice(0, TOPIC_CANDIDATES);
+      } catch (e) {
+        console.warn("Could not search for topics", e);
+      }
+    }
+    // A newer request (e.g. another interest picked meanwhile) wins
+    if (requestId !== requestIdRef.current) return;
+
+    const offline = found.length === 0;
+    const shown = offline ? pickOfflineTopics(level, interest, recent, now) : found;
+    saveRecentTopics(rememberTopics(recent, shown, now));
+    setCandidates(shown);
+    setIsOffline(offline);
+    setIsLoading(false);
+  }, []);
+
+  const clear = useCallback(() => {
+    requestIdRef.current++;
+    setCandidates([]);
+    setIsLoading(false);
+  }, []);
+
+  return {
+    candidates,
+    isLoading,
+    isOffline,
+    suggest,
+    clear,
+  };
+};
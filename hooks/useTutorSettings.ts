@@ -0,0 +1,21 @@
+import { useState, useCallback } from 'react';
+import { TutorSettings } from '../types';
+import { loadTutorSettings, saveTutorSettings } from '../services/settingsStore';
+import { coerceTutorSettings } from '../utils/tutorSettings';
+
+export const useTutorSettings = () => {
+  const [settings, setSettings] = useState<TutorSettings>(loadTutorSettings);
+
+  const updateSettings = useCallback((patch: Partial<TutorSettings>) => {
+    setSettings((p: TutorSettings) => {
+      const next = coerceTutorSettings({ ...p, ...patch });
+      saveTutorSettings(next);
+      return next;
+    });
+  }, []);
+
+  return {
+    settings,
+    updateSettings,
+  };
+};
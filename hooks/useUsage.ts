@@ -0,0 +1,44 @@
+import { useState, useCallback, useEffect, useMemo } from 'react';
+import { UsageSettings } from '../types';
+import { loadUsageSettings, saveUsageSettings } from '../services/settingsStore';
+import { getUsage, loadTodayUsage, setUsageSession, subscribeUsage } from '../services/usageService';
+import { checkBudgets, coerceUsageSettings } from '../utils/usage';
+
+/**
+ * Token usage and estimated cost of today and of the active session, checked
+ * against the budgets. Calls are recorded by the usage service.
+ */
+export const useUsage = (sessionId: string | null) => {
+  const [settings, setSettings] = useState<UsageSettings>(loadUsageSettings);
+  const [usage, setUsage] = useState(() => getUsage());
+
+  useEffect(() => {
+    const unsubscribe = subscribeUsage(() => setUsage(getUsage()));
+    loadTodayUsage().catch(e => console.warn("Could not load usage", e));
+    return unsubscribe;
+  }, []);
+
+  useEffect(() => {
+    setUsageSession(sessionId).catch(e => console.warn("Could not load session usage", e));
+  }, [sessionId]);
+
+  const updateSettings = useCallback((patch: Partial<UsageSettings>) => {
+    setSettings((p: UsageSettings) => {
+      const next = coerceUsageSettings({ ...p, ...patch });
+      saveUsageSettings(next);
+      return next;
+    });
+  }, []);
+
+  const budgets = useMemo(() => checkBudgets(usage.session, usage.today, settings), [usage, settings]);
+
+  return {
+    settings,
+    updateSettings,
+    today: usage.today,
+    session: usage.session,
+    /** Requests of the last minute, for the rate limits. */
+    requests: usage.requests,
+    budgets,
+  };
+};
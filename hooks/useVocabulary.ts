@@ -0,0 +1,69 @@
+import { useState, useEffect, useMemo, useRef } from 'react';
+import { ChatMessage, ProficiencyLevel, Sender, VocabularyEntry } from '../types';
+import { listVocabulary, saveVocabularyEntries } from '../services/vocabularyStore';
+import { countMessageStems, diffStemCounts, getWordsToPush, introduceWord, measureCoverage, recordUsage, StemCounts } from '../utils/vocabulary';
+
+export const useVocabulary = (messages: ChatMessage[], level: ProficiencyLevel) => {
+  const [lexicon, setLexicon] = useState<Record<string, VocabularyEntry>>({});
+  const [isLoaded, setIsLoaded] = useState(false);
+  const lexiconRef = useRef(lexicon);
+  lexiconRef.current = lexicon;
+  // Words already counted per message, so a transcript that keeps growing only adds its new words
+  const countedRef = useRef<Map<string, StemCounts>>(new Map());
+  // Turns from before this point (reopened or imported sessions) were counted when they happened
+  const countFromRef = useRef(Date.now());
+
+  useEffect(() => {
+    listVocabulary()
+      .then(stored => setLexicon(Object.fromEntries(stored.map(entry => [entry.stem, entry]))))
+      .catch(e => console.warn("Could not load vocabulary", e))
+      .finally(() => setIsLoaded(true));
+  }, []);
+
+  useEffect(() => {
+    if (!isLoaded) return;
+    const now = Date.now();
+    const next = { ...lexiconRef.current };
+    const changed = new Map<string, VocabularyEntry>();
+
+    messages.forEach(message => {
+      if (message.timestamp < countFromRef.current) return;
+      const call = message.toolCall;
+      if (call?.name === 'add_vocabulary' && call.status === 'done' && !countedRef.current.has(message.id)) {
+        countedRef.current.set(message.id, new Map());
+        const entry = introduceWord(next, call.args.word, call.args.translation, now);
+        if (entry) {
+          next[entry.stem] = entry;
+          changed.set(entry.stem, entry);
+        }
+      }
+      if (message.sender === Sender.SYSTEM) return;
+      const counts = countMessageStems(message);
+      const added = diffStemCounts(countedRef.current.get(message.id), counts);
+      countedRef.current.set(message.id, counts);
+
+      const speaker = message.sender === Sender.USER ? 'learner' : 'tutor';
+      recordUsage(next, added, speaker, now).forEach(entry => {
+        next[entry.stem] = entry;
+        changed.set(entry.stem, entry);
+      });
+    });
+    if (changed.size === 0) return;
+
+    setLexicon(next);
+    saveVocabularyEntries(Array.from(changed.values())).catch(e => console.warn("Could not save vocabulary", e));
+  }, [messages, isLoaded]);
+
+  const entries = useMemo(
+    () => (Object.values(lexicon) as VocabularyEntry[]).sort((a, b) => b.count - a.count || a.stem.localeCompare(b.stem)),
+    [lexicon]
+  );
+  const coverage = useMemo(() => measureCoverage(entries), [entries]);
+  const wordsToPush = useMemo(() => getWordsToPush(entries, level), [entries, level]);
+
+  return {
+    entries,
+    coverage,
+    wordsToPush,
+  };
+};
@@ -0,0 +1,116 @@
+const DB_NAME = 'deutschflow';
+
+export const STORES = {
+  sessions: 'sessions',
+  reviewCards: 'reviewCards',
+  shadowingAttempts: 'shadowingAttempts',
+  vocabulary: 'vocabulary',
+  speechClips: 'speechClips',
+  usage: 'usage',
+  deletedCards: 'deletedCards',
+} as const;
+
+export type StoreName = typeof STORES[keyof typeof STORES];
+
+// One entry per schema version. Never edit a shipped migration - append a new one.
+const MIGRATIONS: Array<(db: IDBDatabase) => void> = [
+  (db) => {
+    const sessions = db.createObjectStore(STORES.sessions, { keyPath: 'id' });
+    sessions.createIndex('startedAt', 'startedAt');
+  },
+  (db) => {
+    db.createObjectStore(STORES.reviewCards, { keyPath: 'id' });
+  },
+  (db) => {
+    const attempts = db.createObjectStore(STORES.shadowingAttempts, { keyPath: 'id' });
+    attempts.createIndex('createdAt', 'createdAt');
+  },
+  (db) => {
+    db.createObjectStore(STORES.vocabulary, { keyPath: 'stem' });
+  },
+  (db) => {
+    const clips = db.createObjectStore(STORES.speechClips, { keyPath: 'key' });
+    clips.createIndex('lastUsedAt', 'lastUsedAt');
+  },
+  (db) => {
+    const usage = db.createObjectStore(STORES.usage, { keyPath: 'id' });
+    usage.createIndex('at', 'at');
+    usage.createIndex('sessionId', 'sessionId');
+  },
+  (db) => {
+    db.createObjectStore(STORES.deletedCards, { keyPath: 'id' });
+  },
+];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error("IndexedDB is not available in this browser."));
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, MIGRATIONS.length);
+    request.onupgradeneeded = (event) => {
+      const db = request.result;
+      for (let version = event.oldVersion; version < MIGRATIONS.length; version++) {
+        MIGRATIONS[version](db);
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+  // Allow a later retry if opening failed (e.g. private mode, blocked upgrade)
+  dbPromise.catch(() => { dbPromise = null; });
+  return dbPromise;
+};
+
+/**
+ * Runs a single request against an object store and resolves once the
+ * surrounding transaction has committed.
+ */
+export const runRequest = async <T>(
+  storeName: StoreName,
+  mode: IDBTransactionMode,
+  makeRequest: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise<T>((resolve, reject) => {
+    const tx = db.transaction(storeName, mode);
+    const request = makeRequest(tx.objectStore(storeName));
+    tx.oncomplete = () => resolve(request.result);
+    tx.onerror = () => reject(tx.error ?? request.error);
+    tx.onabort = () => reject(tx.error ?? new Error("Transaction aborted"));
+  });
+};
+
+/**
+ * Read-modify-write of a single record inside one transaction, so concurrent
+ * updates to the same key cannot overwrite each other.
+ */
+export const updateRecord = async <T>(
+  storeName: StoreName,
+  key: IDBValidKey,
+  update: (existing: T) => T
+): Promise<T | null> => {
+  const db = await openDatabase();
+  return new Promise<T | null>((resolve, reject) => {
+    const tx = db.transaction(storeName, 'readwrite');
+    const store = tx.objectStore(storeName);
+    let result: T | null = null;
+
+    const getRequest = store.get(key);
+    getRequest.onsuccess = () => {
+      if (getRequest.result === undefined) return;
+      result = update(getRequest.result as T);
+      store.put(result);
+    };
+    tx.oncomplete = () => resolve(result);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new Error("Transaction aborted"));
+  });
+};
@@ -0,0 +1,164 @@
+import { Blob as PcmBlob, FunctionCall, FunctionResponse, LiveServerMessage, UsageMetadata } from '@google/genai';
+import { uint8ArrayToBase64 } from '../utils/audioUtils';
+import { TutorConnectParams, TutorTransport, TutorTransportEvents } from './tutorTransport';
+
+/** What the learner did that makes a scripted step play. */
+export type FakeTrigger = 'connect' | 'audio-stream-end' | 'text' | 'tool-response';
+
+export interface FakeScriptStep {
+  on: FakeTrigger;
+  /** For `text` steps: only fire when the sent text matches. */
+  match?: RegExp;
+  messages: LiveServerMessage[];
+}
+
+export interface FakeTutorScript {
+  /** Number of connection attempts that are refused before one succeeds. */
+  failConnects?: number;
+  /** Refuse every attempt to resume a session, as the server does for an expired handle. */
+  rejectResumption?: boolean;
+  /** Replies consumed in order, each one the first time its trigger happens. */
+  steps?: FakeScriptStep[];
+}
+
+/**
+ * In-memory stand-in for the Gemini Live API. It records everything the
+ * client sends and replays canned `LiveServerMessage` sequences, either from
+ * a script or pushed by hand with `emit()`. Scripted replies are delivered
+ * asynchronously, like messages from a real socket.
+ */
+export class FakeTutorTransport implements TutorTransport {
+  readonly audioChunks: PcmBlob[] = [];
+  readonly texts: string[] = [];
+  readonly toolResponses: FunctionResponse[] = [];
+  audioStreamEnds = 0;
+  connectAttempts = 0;
+  params: TutorConnectParams | null = null;
+  isOpen = false;
+  /** While true every connection attempt is refused, e.g. to simulate a network outage. */
+  offline = false;
+
+  private events: TutorTransportEvents | null = null;
+  private readonly steps: FakeScriptStep[];
+  private readonly failConnects: number;
+  private readonly rejectResumption: boolean;
+
+  constructor(script: FakeTutorScript = {}) {
+    this.steps = [...(script.steps ?? [])];
+    this.failConnects = script.failConnects ?? 0;
+    this.rejectResumption = script.rejectResumption ?? false;
+  }
+
+  async connect(params: TutorConnectParams, events: TutorTransportEvents): Promise<void> {
+    this.connectAttempts++;
+    if (this.offline || this.connectAttempts <= this.failConnects) {
+      throw new Error('Fake transport: connection refused');
+    }
+    if (this.rejectResumption && params.config.sessionResumption?.handle) {
+      throw new Error('Fake transport: session resumption handle rejected');
+    }
+    this.params = params;
+    this.events = events;
+    this.isOpen = true;
+    events.onOpen?.();
+    this.trigger('connect');
+  }
+
+  sendAudio(chunk: PcmBlob): void {
+    if (this.isOpen) this.audioChunks.push(chunk);
+  }
+
+  endAudioStream(): void {
+    if (!this.isOpen) return;
+    this.audioStreamEnds++;
+    this.trigger('audio-stream-end');
+  }
+
+  sendText(text: string): void {
+    if (!this.isOpen) return;
+    this.texts.push(text);
+    this.trigger('text', text);
+  }
+
+  sendToolResponse(responses: FunctionResponse[]): void {
+    if (!this.isOpen) return;
+    this.toolResponses.push(...responses);
+    this.trigger('tool-response');
+  }
+
+  close(): void {
+    this.end();
+  }
+
+  /** Delivers messages to the client immediately. */
+  emit(...messages: LiveServerMessage[]): void {
+    messages.forEach(message => {
+      if (this.isOpen) this.events?.onMessage(message);
+    });
+  }
+
+  /** Simulates the server dropping the connection. */
+  drop(reason = 'Fake transport: connection lost'): void {
+    this.end(reason);
+  }
+
+  /** Simulates a socket error. */
+  fail(error: Error): void {
+    if (this.isOpen) this.events?.onError?.(error);
+  }
+
+  private end(reason?: string) {
+    if (!this.isOpen) return;
+    this.isOpen = false;
+    this.events?.onClose?.(reason);
+  }
+
+  private trigger(on: FakeTrigger, text?: string) {
+    const index = this.steps.findIndex(step =>
+      step.on === on && (!step.match || (text !== undefined && step.match.test(text)))
+    );
+    if (index === -1) return;
+    const [step] = this.steps.splice(index, 1);
+    setTimeout(() => this.emit(...step.messages), 0);
+  }
+}
+
+// Builders for canned server messages
+
+const serverContent = (content: LiveServerMessage['serverContent']) =>
+  ({ serverContent: content }) as LiveServerMessage;
+
+export const inputTranscription = (text: string) => serverContent({ inputTranscription: { text } });
+
+export const outputTranscription = (text: string) => serverContent({ outputTranscription: { text } });
+
+/** Tutor audio: `durationMs` of silent 24 kHz 16-bit PCM. */
+export const audioChunk = (durationMs: number) => {
+  const bytes = new Uint8Array(Math.round((24000 * durationMs) / 1000) * 2);
+  return serverContent({
+    modelTurn: { parts: [{ inlineData: { mimeType: 'audio/pcm;rate=24000', data: uint8ArrayToBase64(bytes) } }] },
+  });
+};
+
+export const resumptionUpdate = (newHandle: string) =>
+  ({ sessionResumptionUpdate: { newHandle, resumable: true } }) as LiveServerMessage;
+
+/** The tutor calling functions; `id`s default to the function name. */
+export const toolCall = (...calls: FunctionCall[]) =>
+  ({ toolCall: { functionCalls: calls.map(call => ({ id: call.name, ...call })) } }) as LiveServerMessage;
+
+export const toolCallCancellation = (...ids: string[]) =>
+  ({ toolCallCancellation: { ids } }) as LiveServerMessage;
+
+export const usage = (usageMetadata: UsageMetadata) =>
+  ({ usageMetadata }) as LiveServerMessage;
+
+export const turnComplete = () => serverContent({ turnComplete: true });
+
+export const interrupted = () => serverContent({ interrupted: true });
+
+/** A complete tutor turn: each chunk of text followed by `chunkMs` of audio, then turn completion. */
+export const tutorTurn = (chunks: string[], chunkMs = 500): LiveServerMessage[] => [
+  ...chunks.flatMap(text => [outputTranscription(text), audioChunk(chunkMs)]),
+  turnComplete(),
+];
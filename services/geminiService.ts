@@ -1,9 +1,17 @@
 import { GoogleGenAI, Modality, Type } from "@google/genai";
-import { NewsTopic } from "../types";
+import { AnalysisResult, ConversationSummary, NewsTopic, ProficiencyLevel, TopicInterest, TutorVoice } from "../types";
+import { CEFR_LEVELS, ERROR_CATEGORIES, parseAnalysis } from "../utils/analysis";
+import { formatSummary, parseSummary } from "../utils/summary";
+import { buildTopicPrompt, GroundingSource, parseTopicCandidates, TOPIC_CANDIDATES } from "../utils/topics";
+import { DEFAULT_USAGE_SETTINGS } from "../utils/usage";
+import { assertWithinBudget, recordUsage, startRequest } from "./usageService";
 
 // Initialize shared instance
-// Note: Live API uses its own instance connection, this is for static requests
-const getAiClient = () => {
+// Note: Live API uses its own instance connection, this is for static requests.
+// Every request is refused once a usage budget or the model's rate limit is used up, and records its usage otherwise.
+const getAiClient = (model: string) => {
+  assertWithinBudget();
+  startRequest(model);
   const apiKey = process.env.API_KEY;
   if (!apiKey) {
     throw new Error("API Key not set. Please check process.env.API_KEY.");
@@ -11,87 +19,174 @@ const getAiClient = () => {
   return new GoogleGenAI({ apiKey });
 };
 
-export const generateAnalysis = async (conversationHistory: string): Promise<string> => {
-  const ai = getAiClient();
-  
+const ANALYSIS_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    estimatedLevel: {
+      type: Type.STRING,
+      enum: CEFR_LEVELS,
+      description: "Estimated CEFR level of the user's German in this conversation.",
+    },
+    summary: {
+      type: Type.STRING,
+      description: "Two or three encouraging sentences summarizing the user's performance.",
+    },
+    errors: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          category: { type: Type.STRING, enum: ERROR_CATEGORIES },
+          original: { type: Type.STRING, description: "The user's sentence as spoken." },
+          corrected: { type: Type.STRING, description: "The corrected sentence." },
+          explanation: { type: Type.STRING, description: "Short explanation of the rule." },
+        },
+        required: ['category', 'original', 'corrected', 'explanation'],
+      },
+    },
+    strengths: { type: Type.ARRAY, items: { type: Type.STRING } },
+    nextSteps: { type: Type.ARRAY, items: { type: Type.STRING } },
+  },
+  required: ['estimatedLevel', 'summary', 'errors', 'strengths', 'nextSteps'],
+  propertyOrdering: ['estimatedLevel', 'summary', 'errors', 'strengths', 'nextSteps'],
+};
+
+/** `thinkingBudget` caps the reasoning tokens, which make up most of the cost of an analysis. */
+export const generateAnalysis = async (
+  conversationHistory: string,
+  thinkingBudget: number = DEFAULT_USAGE_SETTINGS.analysisThinkingBudget
+): Promise<AnalysisResult> => {
   // Using Gemini 3 Pro for deep thinking/reasoning about grammar
+  const model = "gemini-3-pro-preview";
+  const ai = getAiClient(model);
   const response = await ai.models.generateContent({
-    model: "gemini-3-pro-preview",
+    model,
     contents: `Analyze the following German conversation transcript. 
     Identify the user's mistakes (grammar, vocabulary, pronunciation hints from context).
-    Provide a detailed but encouraging report in Markdown.
+    Only report mistakes made by the user, not by the tutor. Explanations should be short and encouraging.
     
     Transcript:
     ${conversationHistory}`,
     config: {
-      thinkingConfig: { thinkingBudget: 32768 }, // Max thinking budget
+      thinkingConfig: { thinkingBudget },
+      responseMimeType: "application/json",
+      responseSchema: ANALYSIS_SCHEMA,
     }
   });
+  recordUsage('analysis', model, response.usageMetadata);
 
-  return response.text || "No analysis could be generated.";
+  return parseAnalysis(response.text || "");
 };
 
-export const findConversationTopic = async (): Promise<NewsTopic | null> => {
-  const ai = getAiClient();
+const SUMMARY_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    summary: { type: Type.STRING, description: "3-5 sentences: what was discussed, plans, the learner's situation" },
+    entities: {
+      type: Type.ARRAY,
+      items: { type: Type.STRING, description: "A name, place or thing with a short note, e.g. 'Anna – the learner's sister in Hamburg'" },
+    },
+    topics: { type: Type.ARRAY, items: { type: Type.STRING } },
+    recurringMistakes: {
+      type: Type.ARRAY,
+      items: { type: Type.STRING, description: "A mistake pattern the learner repeats, e.g. 'Dativ after mit'" },
+    },
+  },
+  required: ["summary", "entities", "topics", "recurringMistakes"],
+};
+
+/**
+ * Folds the turns since the last refresh into the rolling conversation summary.
+ * `coveredTurns` is the total number of turns the new summary will cover.
+ * Returns null if the model response is not usable.
+ */
+export const generateSummary = async (
+  previous: ConversationSummary | null,
+  newTurns: string,
+  coveredTurns: number
+): Promise<ConversationSummary | null> => {
+  const model = "gemini-2.5-flash";
+  const ai = getAiClient(model);
+  const response = await ai.models.generateContent({
+    model,
+    contents: `You maintain the memory of a German conversation between a learner (User) and a tutor.
+    Update the summary with the new turns below. Keep every name, place, plan and personal detail the learner shared,
+    merge duplicates, and drop what is no longer relevant. Write the summary in English; keep German names and words as they are.
+
+    ${previous ? `Current summary:
+${formatSummary(previous)}` : "There is no summary yet."}
 
+    New turns:
+    ${newTurns}`,
+    config: {
+      responseMimeType: "application/json",
+      responseSchema: SUMMARY_SCHEMA,
+    }
+  });
+  recordUsage('summary', model, response.usageMetadata);
+
+  return parseSummary(response.text || "", coveredTurns);
+};
+
+/**
+ * Searches for current stories matching the learner's level and interest.
+ * Throws when the request fails; resolves to an empty list when the answer
+ * cannot be read, so callers can fall back to the offline topic bank.
+ */
+export const findConversationTopics = async (
+  level: ProficiencyLevel,
+  interest: TopicInterest,
+  avoidTitles: string[] = [],
+  count: number = TOPIC_CANDIDATES
+): Promise<NewsTopic[]> => {
   // Using Gemini 2.5 Flash with Google Search
   // Note: When using googleSearch, responseMimeType and responseSchema are not supported.
+  const model = "gemini-2.5-flash";
+  const ai = getAiClient(model);
   const response = await ai.models.generateContent({
-    model: "gemini-2.5-flash",
-    contents: "Find a recent, interesting, positive news story or cultural event from Germany suitable for a B1 level conversation. Return the title and a 1-sentence summary. Format:\nTitle: [Title]\nSummary: [Summary]",
+    model,
+    contents: buildTopicPrompt(level, interest, count, avoidTitles),
     config: {
       tools: [{ googleSearch: {} }],
     }
   });
+  recordUsage('topics', model, response.usageMetadata);
 
-  try {
-    const text = response.text || "";
-    
-    const titleMatch = text.match(/Title:\s*(.+)/i);
-    const summaryMatch = text.match(/Summary:\s*(.+)/i);
-
-    const title = titleMatch ? titleMatch[1].trim() : "Nachrichten aus Deutschland";
-    const summary = summaryMatch ? summaryMatch[1].trim() : text;
-
-    // Extract URL from grounding metadata
-    let url = "";
-    const chunks = response.candidates?.[0]?.groundingMetadata?.groundingChunks;
-    if (chunks) {
-      for (const chunk of chunks) {
-        if (chunk.web?.uri) {
-          url = chunk.web.uri;
-          break;
-        }
-      }
-    }
+  // Map each grounded passage of the answer to the web sources behind it
+  const metadata = response.candidates?.[0]?.groundingMetadata;
+  const chunks = metadata?.groundingChunks ?? [];
+  const sources: GroundingSource[] = (metadata?.groundingSupports ?? []).map(support => ({
+    text: support.segment?.text ?? "",
+    uris: (support.groundingChunkIndices ?? [])
+      .map(index => chunks[index]?.web?.uri)
+      .filter((uri): uri is string => Boolean(uri)),
+  }));
 
-    return { 
-      title, 
-      summary, 
-      url: url || "#" 
-    };
-  } catch (e) {
-    console.error("Failed to parse topic", e);
-    return null;
-  }
+  return parseTopicCandidates(response.text || "", level, interest, sources);
 };
 
-export const generateSpeech = async (text: string): Promise<ArrayBuffer | null> => {
-  const ai = getAiClient();
-
+/**
+ * Synthesizes `text` with a prebuilt voice. The model answers with raw 16-bit
+ * mono PCM at 24 kHz, not a container format, so the result must be decoded
+ * with `decodeAudioData` from audioUtils or wrapped with `encodeWav`.
+ */
+export const generateSpeech = async (text: string, voice: TutorVoice = 'Fenrir'): Promise<ArrayBuffer | null> => {
   // Using Gemini 2.5 Flash TTS
+  const model = "gemini-2.5-flash-preview-tts";
+  const ai = getAiClient(model);
   const response = await ai.models.generateContent({
-    model: "gemini-2.5-flash-preview-tts",
+    model,
     contents: { parts: [{ text }] },
     config: {
       responseModalities: [Modality.AUDIO],
       speechConfig: {
         voiceConfig: {
-          prebuiltVoiceConfig: { voiceName: 'Fenrir' }, // Deep male voice
+          prebuiltVoiceConfig: { voiceName: voice },
         },
       },
     },
   });
+  recordUsage('tts', model, response.usageMetadata);
 
   const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
   if (!base64Audio) return null;
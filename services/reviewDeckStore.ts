@@ -0,0 +1,46 @@
+import { ReviewCard } from '../types';
+import { openDatabase, runRequest, STORES } from './db';
+
+export const listCards = (): Promise<ReviewCard[]> =>
+  runRequest<ReviewCard[]>(STORES.reviewCards, 'readonly', store => store.getAll());
+
+export const saveCard = async (card: ReviewCard): Promise<void> => {
+  await runRequest(STORES.reviewCards, 'readwrite', store => store.put(card));
+};
+
+export const saveCards = async (cards: ReviewCard[]): Promise<void> => {
+  if (cards.length === 0) return;
+  const db = await openDatabase();
+  await new Promise<void>((resolve, reject) => {
+    const tx = db.transaction(STORES.reviewCards, 'readwrite');
+    const store = tx.objectStore(STORES.reviewCards);
+    cards.forEach(card => store.put(card));
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new Error("Transaction aborted"));
+  });
+};
+
+/** Ids of the cards the learner deleted, so the same corrections are not turned into cards again. */
+export const listDeletedCardIds = async (): Promise<string[]> => {
+  const keys = await runRequest(STORES.deletedCards, 'readonly', store => store.getAllKeys());
+  return keys.map(String);
+};
+
+// The card goes and its tombstone comes in one transaction, so a deletion is never half-done
+export const deleteCard = async (id: string): Promise<void> => {
+  const db = await openDatabase();
+  await new Promise<void>((resolve, reject) => {
+    const tx = db.transaction([STORES.reviewCards, STORES.deletedCards], 'readwrite');
+    tx.objectStore(STORES.reviewCards).delete(id);
+    tx.objectStore(STORES.deletedCards).put({ id, deletedAt: Date.now() });
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new Error("Transaction aborted"));
+  });
+};
+
+/** Removes a card without a tombstone, e.g. when the tutor withdrew its correction. */
+export const discardCard = async (id: string): Promise<void> => {
+  await runRequest(STORES.reviewCards, 'readwrite', store => store.delete(id));
+};
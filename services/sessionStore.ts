@@ -0,0 +1,49 @@
+import { NewsTopic, ProficiencyLevel, SessionRecord } from '../types';
+import { runRequest, updateRecord, STORES } from './db';
+
+const formatSessionTitle = (startedAt: number, level: ProficiencyLevel, topic?: NewsTopic | null) => {
+  if (topic) return topic.title;
+  const date = new Date(startedAt).toLocaleString('de-DE', {
+    day: '2-digit', month: '2-digit', year: 'numeric', hour: '2-digit', minute: '2-digit'
+  });
+  return `Gespräch ${level} – ${date}`;
+};
+
+export const createSessionId = (startedAt: number) =>
+  `session-${startedAt}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const createSessionRecord = (level: ProficiencyLevel, topic?: NewsTopic | null): SessionRecord => {
+  const startedAt = Date.now();
+  return {
+    id: createSessionId(startedAt),
+    title: formatSessionTitle(startedAt, level, topic),
+    level,
+    startedAt,
+    ...(topic ? { topic } : {}),
+    messages: [],
+  };
+};
+
+export const listSessions = async (): Promise<SessionRecord[]> => {
+  const sessions = await runRequest<SessionRecord[]>(STORES.sessions, 'readonly', store => store.getAll());
+  return sessions.sort((a, b) => b.startedAt - a.startedAt);
+};
+
+export const getSession = async (id: string): Promise<SessionRecord | null> => {
+  const session = await runRequest<SessionRecord | undefined>(STORES.sessions, 'readonly', store => store.get(id));
+  return session ?? null;
+};
+
+export const saveSession = async (session: SessionRecord): Promise<void> => {
+  await runRequest(STORES.sessions, 'readwrite', store => store.put(session));
+};
+
+export const updateSession = (
+  id: string,
+  patch: Partial<Omit<SessionRecord, 'id'>>
+): Promise<SessionRecord | null> =>
+  updateRecord<SessionRecord>(STORES.sessions, id, existing => ({ ...existing, ...patch }));
+
+export const deleteSession = async (id: string): Promise<void> => {
+  await runRequest(STORES.sessions, 'readwrite', store => store.delete(id));
+};
@@ -0,0 +1,44 @@
+import { TutorSettings, UsageSettings } from '../types';
+import { coerceTutorSettings, DEFAULT_TUTOR_SETTINGS } from '../utils/tutorSettings';
+import { coerceUsageSettings, DEFAULT_USAGE_SETTINGS } from '../utils/usage';
+
+const SETTINGS_KEY = 'deutschflow.tutorSettings';
+const USAGE_SETTINGS_KEY = 'deutschflow.usageSettings';
+
+// Settings are small and needed before the first render, so they live in localStorage rather than IndexedDB
+export const loadTutorSettings = (): TutorSettings => {
+  try {
+    const stored = localStorage.getItem(SETTINGS_KEY);
+    return stored ? coerceTutorSettings(JSON.parse(stored)) : DEFAULT_TUTOR_SETTINGS;
+  } catch (e) {
+    console.warn("Could not load tutor settings", e);
+    return DEFAULT_TUTOR_SETTINGS;
+  }
+};
+
+export const saveTutorSettings = (settings: TutorSettings): void => {
+  try {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+  } catch (e) {
+    console.warn("Could not save tutor settings", e);
+  }
+};
+
+// Budgets are checked before every model call, so they are read synchronously too
+export const loadUsageSettings = (): UsageSettings => {
+  try {
+    const stored = localStorage.getItem(USAGE_SETTINGS_KEY);
+    return stored ? coerceUsageSettings(JSON.parse(stored)) : DEFAULT_USAGE_SETTINGS;
+  } catch (e) {
+    console.warn("Could not load usage settings", e);
+    return DEFAULT_USAGE_SETTINGS;
+  }
+};
+
+export const saveUsageSettings = (settings: UsageSettings): void => {
+  try {
+    localStorage.setItem(USAGE_SETTINGS_KEY, JSON.stringify(settings));
+  } catch (e) {
+    console.warn("Could not save usage settings", e);
+  }
+};
@@ -0,0 +1,9 @@
+import { ShadowingAttempt } from '../types';
+import { runRequest, STORES } from './db';
+
+export const listAttempts = (): Promise<ShadowingAttempt[]> =>
+  runRequest<ShadowingAttempt[]>(STORES.shadowingAttempts, 'readonly', store => store.index('createdAt').getAll());
+
+export const saveAttempt = async (attempt: ShadowingAttempt): Promise<void> => {
+  await runRequest(STORES.shadowingAttempts, 'readwrite', store => store.put(attempt));
+};
@@ -0,0 +1,29 @@
+import { SpeechClip } from '../types';
+import { openDatabase, runRequest, STORES, updateRecord } from './db';
+
+/** Reads a clip and marks it as used now, so pruning keeps it longer. */
+export const readClip = (key: string, now: number = Date.now()): Promise<SpeechClip | null> =>
+  updateRecord<SpeechClip>(STORES.speechClips, key, clip => ({ ...clip, lastUsedAt: now }));
+
+export const saveClip = async (clip: SpeechClip): Promise<void> => {
+  await runRequest(STORES.speechClips, 'readwrite', store => store.put(clip));
+};
+
+/** Deletes all but the `keep` most recently used clips. */
+export const pruneClips = async (keep: number): Promise<void> => {
+  const db = await openDatabase();
+  await new Promise<void>((resolve, reject) => {
+    const tx = db.transaction(STORES.speechClips, 'readwrite');
+    const request = tx.objectStore(STORES.speechClips).index('lastUsedAt').openCursor(null, 'prev');
+    let seen = 0;
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) return;
+      if (++seen > keep) cursor.delete();
+      cursor.continue();
+    };
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new Error("Transaction aborted"));
+  });
+};
@@ -0,0 +1,59 @@
+import { TutorVoice } from '../types';
+import { LruCache } from '../utils/lru';
+import { generateSpeech } from './geminiService';
+import { pruneClips, readClip, saveClip } from './speechCacheStore';
+
+/** Sample rate of the PCM returned by the TTS model. */
+export const SPEECH_SAMPLE_RATE = 24000;
+
+// Recent clips stay in memory; IndexedDB keeps more of them across reloads
+const MAX_MEMORY_CLIPS = 40;
+const MAX_MEMORY_BYTES = 16 * 1024 * 1024;
+const MAX_STORED_CLIPS = 200;
+
+const memory = new LruCache<string, Uint8Array>(MAX_MEMORY_CLIPS, MAX_MEMORY_BYTES, pcm => pcm.byteLength);
+// Clicking "hear again" twice must not synthesize the same text twice
+const pending = new Map<string, Promise<Uint8Array>>();
+
+/** Cache identity of a clip: the same text in the same voice sounds the same. */
+export const speechCacheKey = (text: string, voice: TutorVoice): string =>
+  `${voice}:${text.normalize('NFC').replace(/\s+/g, ' ').trim()}`;
+
+const synthesize = async (key: string, text: string, voice: TutorVoice): Promise<Uint8Array> => {
+  const stored = await readClip(key).catch(e => {
+    console.warn("Could not read cached speech", e);
+    return null;
+  });
+  if (stored) return new Uint8Array(stored.pcm);
+
+  const pcm = await generateSpeech(text, voice);
+  if (!pcm) throw new Error("No audio returned");
+
+  const now = Date.now();
+  saveClip({ key, pcm, sampleRate: SPEECH_SAMPLE_RATE, createdAt: now, lastUsedAt: now })
+    .then(() => pruneClips(MAX_STORED_CLIPS))
+    .catch(e => console.warn("Could not cache speech", e));
+  return new Uint8Array(pcm);
+};
+
+/**
+ * Raw 16-bit PCM of `text` spoken in `voice`, from memory, from IndexedDB or,
+ * failing both, from the TTS model.
+ */
+export const loadSpeech = async (text: string, voice: TutorVoice): Promise<Uint8Array> => {
+  const key = speechCacheKey(text, voice);
+  const cached = memory.get(key);
+  if (cached) return cached;
+
+  let request = pending.get(key);
+  if (!request) {
+    request = synthesize(key, text, voice)
+      .then(pcm => {
+        memory.set(key, pcm);
+        return pcm;
+      })
+      .finally(() => pending.delete(key));
+    pending.set(key, request);
+  }
+  return request;
+};
@@ -0,0 +1,29 @@
+import { RecentTopic } from '../utils/topics';
+
+const RECENT_TOPICS_KEY = 'deutschflow.recentTopics';
+
+const isRecentTopic = (value: unknown): value is RecentTopic =>
+  typeof value === 'object' && value !== null &&
+  typeof (value as RecentTopic).key === 'string' &&
+  typeof (value as RecentTopic).title === 'string' &&
+  typeof (value as RecentTopic).shownAt === 'number';
+
+// A short list read on every suggestion, so it lives in localStorage like the settings
+export const loadRecentTopics = (): RecentTopic[] => {
+  try {
+    const stored = localStorage.getItem(RECENT_TOPICS_KEY);
+    const parsed: unknown = stored ? JSON.parse(stored) : [];
+    return Array.isArray(parsed) ? parsed.filter(isRecentTopic) : [];
+  } catch (e) {
+    console.warn("Could not load recent topics", e);
+    return [];
+  }
+};
+
+export const saveRecentTopics = (topics: RecentTopic[]): void => {
+  try {
+    localStorage.setItem(RECENT_TOPICS_KEY, JSON.stringify(topics));
+  } catch (e) {
+    console.warn("Could not save recent topics", e);
+  }
+};
@@ -0,0 +1,80 @@
+import { Blob as PcmBlob, FunctionResponse, GoogleGenAI, LiveConnectConfig, LiveServerMessage, Session } from '@google/genai';
+
+/** Model and config for a live tutor connection (everything but the callbacks). */
+export interface TutorConnectParams {
+  model: string;
+  config: LiveConnectConfig;
+}
+
+export interface TutorTransportEvents {
+  onOpen?: () => void;
+  onMessage: (message: LiveServerMessage) => void;
+  /** The connection ended, either through `close()` or from the remote side. */
+  onClose?: (reason?: string) => void;
+  onError?: (error: Error) => void;
+}
+
+/**
+ * The live connection `useLiveTutor` and `useShadowingListener` talk through.
+ * The Gemini Live API is the production implementation; tests plug in a
+ * scripted fake instead.
+ */
+export interface TutorTransport {
+  /** Resolves once the connection is open, rejects if it could not be established. */
+  connect(params: TutorConnectParams, events: TutorTransportEvents): Promise<void>;
+  sendAudio(chunk: PcmBlob): void;
+  /** Tells the server-side turn detection that the learner stopped sending audio. */
+  endAudioStream(): void;
+  sendText(text: string): void;
+  /** Answers the function calls of a `toolCall` message, matched by call id. */
+  sendToolResponse(responses: FunctionResponse[]): void;
+  close(): void;
+}
+
+export type TutorTransportFactory = () => TutorTransport;
+
+export const createGeminiLiveTransport: TutorTransportFactory = () => {
+  let session: Session | null = null;
+
+  return {
+    async connect({ model, config }, events) {
+      // Ensure apiKey is clean
+      const apiKey = process.env.API_KEY ? process.env.API_KEY.trim() : '';
+      if (!apiKey) throw new Error('API Key not set in process.env.API_KEY');
+
+      const ai = new GoogleGenAI({ apiKey });
+      session = await ai.live.connect({
+        model,
+        config,
+        callbacks: {
+          onopen: () => events.onOpen?.(),
+          onmessage: (message: LiveServerMessage) => events.onMessage(message),
+          onclose: (e: CloseEvent) => events.onClose?.(e?.reason),
+          onerror: (e: ErrorEvent) => events.onError?.(e?.error instanceof Error ? e.error : new Error(e?.message || String(e))),
+        },
+      });
+    },
+
+    sendAudio(chunk) {
+      session?.sendRealtimeInput({ media: chunk });
+    },
+
+    endAudioStream() {
+      session?.sendRealtimeInput({ audioStreamEnd: true });
+    },
+
+    sendText(text) {
+      session?.sendClientContent({ turns: text, turnComplete: true });
+    },
+
+    sendToolResponse(responses) {
+      session?.sendToolResponse({ functionResponses: responses });
+    },
+
+    close() {
+      const current = session;
+      session = null;
+      current?.close();
+    },
+  };
+};
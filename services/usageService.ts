@@ -0,0 +1,111 @@
+import { ModelRequest, UsageFeature, UsageRecord } from '../types';
+import { toDayKey } from '../utils/progress';
+import { checkBudgets, countTokens, RATE_WINDOW_MS, summarizeRates, totalTokens, UsageBudgets, UsageMetadataLike } from '../utils/usage';
+import { loadUsageSettings } from './settingsStore';
+import { listSessionUsage, listUsageSince, saveUsageRecord } from './usageStore';
+
+export interface UsageSnapshot {
+  today: UsageRecord[];
+  session: UsageRecord[];
+  /** Requests of the last minute, for the rate limits. */
+  requests: ModelRequest[];
+}
+
+// Today's records and those of the active session stay in memory, so budgets can be checked before every call
+let today: UsageRecord[] = [];
+let todayKey = toDayKey(Date.now());
+let session: UsageRecord[] = [];
+let sessionId: string | null = null;
+let requests: ModelRequest[] = [];
+let sequence = 0;
+const listeners = new Set<() => void>();
+
+const notify = () => listeners.forEach(listener => listener());
+
+const rollOver = (now: number) => {
+  const key = toDayKey(now);
+  if (key === todayKey) return;
+  todayKey = key;
+  today = [];
+};
+
+// Stored records first, then the ones made while they were loading
+const merge = (stored: UsageRecord[], current: UsageRecord[]): UsageRecord[] => {
+  const ids = new Set(current.map(record => record.id));
+  return [...stored.filter(record => !ids.has(record.id)), ...current];
+};
+
+export const subscribeUsage = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+/** Loads what was used earlier today, e.g. before a reload. */
+export const loadTodayUsage = async (now: number = Date.now()): Promise<void> => {
+  const midnight = new Date(now).setHours(0, 0, 0, 0);
+  const stored = await listUsageSince(midnight);
+  rollOver(now);
+  today = merge(stored, today);
+  notify();
+};
+
+/** Attributes the following calls to a session and loads what it used before, e.g. when it is reopened. */
+export const setUsageSession = async (id: string | null): Promise<void> => {
+  if (id === sessionId) return;
+  sessionId = id;
+  session = [];
+  notify();
+  if (!id) return;
+
+  const stored = await listSessionUsage(id);
+  if (sessionId !== id) return;
+  session = merge(stored, session);
+  notify();
+};
+
+/** Records the usage a model reported; calls that report no tokens are skipped. */
+export const recordUsage = (
+  feature: UsageFeature,
+  model: string,
+  usage: UsageMetadataLike | undefined,
+  now: number = Date.now()
+): UsageRecord | null => {
+  if (!usage) return null;
+  const counts = countTokens(usage);
+  if (totalTokens(counts) === 0) return null;
+
+  const record: UsageRecord = { id: `${now}-${sequence++}`, feature, model, sessionId, at: now, ...counts };
+  rollOver(now);
+  today = [...today, record];
+  if (sessionId) session = [...session, record];
+  saveUsageRecord(record).catch(e => console.warn("Could not save usage", e));
+  notify();
+  return record;
+};
+
+/** Refuses a request while its model is at a per-minute limit, and counts it otherwise. */
+export const startRequest = (model: string, now: number = Date.now()): void => {
+  const rate = summarizeRates(requests, today, loadUsageSettings(), now).find(r => r.model === model);
+  if (rate?.status === 'exceeded') {
+    throw new Error(`The rate limit of ${model} is reached. Please try again in a minute.`);
+  }
+  requests = [...requests.filter(request => request.at > now - RATE_WINDOW_MS), { model, at: now }];
+  notify();
+};
+
+export const getUsage = (now: number = Date.now()): UsageSnapshot => {
+  rollOver(now);
+  return { today, session, requests };
+};
+
+export const getBudgets = (now: number = Date.now()): UsageBudgets => {
+  const usage = getUsage(now);
+  return checkBudgets(usage.session, usage.today, loadUsageSettings());
+};
+
+/** Refuses a model call once the session's or today's budget is used up. */
+export const assertWithinBudget = (now: number = Date.now()): void => {
+  const budgets = getBudgets(now);
+  if (budgets.session.status === 'exceeded') throw new Error("The usage budget of this session is used up.");
+  if (budgets.daily.status === 'exceeded') throw new Error("Today's usage budget is used up.");
+};
@@ -0,0 +1,12 @@
+import { UsageRecord } from '../types';
+import { runRequest, STORES } from './db';
+
+export const listUsageSince = (since: number): Promise<UsageRecord[]> =>
+  runRequest<UsageRecord[]>(STORES.usage, 'readonly', store => store.index('at').getAll(IDBKeyRange.lowerBound(since)));
+
+export const listSessionUsage = (sessionId: string): Promise<UsageRecord[]> =>
+  runRequest<UsageRecord[]>(STORES.usage, 'readonly', store => store.index('sessionId').getAll(sessionId));
+
+export const saveUsageRecord = async (record: UsageRecord): Promise<void> => {
+  await runRequest(STORES.usage, 'readwrite', store => store.put(record));
+};
@@ -0,0 +1,18 @@
+import { VocabularyEntry } from '../types';
+import { openDatabase, runRequest, STORES } from './db';
+
+export const listVocabulary = (): Promise<VocabularyEntry[]> =>
+  runRequest<VocabularyEntry[]>(STORES.vocabulary, 'readonly', store => store.getAll());
+
+export const saveVocabularyEntries = async (entries: VocabularyEntry[]): Promise<void> => {
+  if (entries.length === 0) return;
+  const db = await openDatabase();
+  await new Promise<void>((resolve, reject) => {
+    const tx = db.transaction(STORES.vocabulary, 'readwrite');
+    const store = tx.objectStore(STORES.vocabulary);
+    entries.forEach(entry => store.put(entry));
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new Error("Transaction aborted"));
+  });
+};
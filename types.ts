@@ -4,22 +4,336 @@ export enum Sender {
   SYSTEM = 'system'
 }
 
+/** Character range [start, end) inside a sentence. */
+export interface TextSpan {
+  start: number;
+  end: number;
+}
+
+/**
+ * A single ❌ / ✔️ / 💡 correction given by the tutor.
+ * Spans mark the characters that differ between the two sentences.
+ */
+export interface Correction {
+  wrong: string;
+  corrected: string;
+  explanation?: string;
+  wrongSpans: TextSpan[];
+  correctedSpans: TextSpan[];
+}
+
+/** Where a turn lies in a session recording, in seconds from its start. */
+export interface AudioSegment {
+  recordingId: string;
+  start: number;
+  end: number;
+}
+
+/** Taps on the learner's mic and the tutor's playback, for visualizing both voices. */
+export interface AudioAnalysers {
+  mic: AnalyserNode | null;
+  tutor: AnalyserNode | null;
+}
+
 export interface ChatMessage {
   id: string;
   text: string;
   sender: Sender;
   timestamp: number;
-  isCorrection?: boolean;
+  corrections?: Correction[];
+  /** Tutor turn cut off by the learner; `text` holds only the part that was heard. */
+  interrupted?: boolean;
+  /** Learner turn that was typed rather than spoken. */
+  typed?: boolean;
+  /** Set while the session is being recorded. */
+  audio?: AudioSegment;
+  /** A function the tutor called; shown as a card instead of a chat bubble. */
+  toolCall?: TutorToolCall;
+  /** Live caption of a turn still being transcribed; the final message keeps its id. */
+  partial?: boolean;
+}
+
+export type CefrLevel = 'A1' | 'A2' | 'B1' | 'B2' | 'C1' | 'C2';
+
+export type ErrorCategory =
+  | 'Kasus'
+  | 'Verbstellung'
+  | 'Artikel'
+  | 'Präpositionen'
+  | 'Wortschatz'
+  | 'Konjugation'
+  | 'Adjektivendungen'
+  | 'Rechtschreibung'
+  | 'Sonstiges';
+
+export interface AnalysisError {
+  category: ErrorCategory;
+  original: string;
+  corrected: string;
+  explanation: string;
 }
 
 export interface AnalysisResult {
-  markdown: string;
+  estimatedLevel: CefrLevel | null;
+  summary: string;
+  errors: AnalysisError[];
+  strengths: string[];
+  nextSteps: string[];
+  /** Unstructured model output, kept when it could not be parsed into a report. */
+  rawText?: string;
 }
 
+/** Validated arguments of each function the tutor can call in a live session. */
+export interface TutorToolArgs {
+  record_correction: { wrong: string; corrected: string; explanation?: string };
+  add_vocabulary: { word: string; translation?: string };
+  set_topic: { title: string; summary: string; questions: string[] };
+  complete_scenario_goal: { goalId: string };
+  suggest_level_change: { level: ProficiencyLevel; reason: string };
+}
+
+export type TutorToolName = keyof TutorToolArgs;
+
+/**
+ * A function call made by the tutor and what came of it. `result` is what was
+ * sent back to the tutor: a short confirmation, or why the call was refused.
+ */
+export type TutorToolCall = {
+  [K in TutorToolName]: {
+    id: string;
+    name: K;
+    args: TutorToolArgs[K];
+    status: 'done' | 'failed' | 'cancelled';
+    result: string;
+  };
+}[TutorToolName];
+
+export type TopicInterest = 'sport' | 'culture' | 'tech' | 'travel';
+
 export interface NewsTopic {
   title: string;
+  /** Retold at the level the topic was suggested for. */
+  summary: string;
+  /** Source article; absent for offline topics and when search named none. */
+  url?: string;
+  level?: ProficiencyLevel;
+  interest?: TopicInterest;
+  /** Warm-up questions to open the conversation. */
+  questions?: string[];
+  /** Key words with a short gloss, e.g. "die Meisterschaft – championship". */
+  vocabulary?: string[];
+  /** `offline` when taken from the bundled topic bank. */
+  source?: 'search' | 'offline';
+}
+
+export type ProficiencyLevel = 'A1' | 'A2' | 'B1' | 'B2' | 'C1';
+
+export type TutorPersonality = 'curious' | 'patient' | 'playful' | 'direct';
+
+/** Prebuilt voices of the Live API. */
+export type TutorVoice = 'Kore' | 'Aoede' | 'Leda' | 'Zephyr' | 'Puck' | 'Charon' | 'Fenrir' | 'Orus';
+
+/**
+ * How the tutor corrects: every mistake right away, only mistakes that get in
+ * the way of understanding, or everything collected at the end of its turn.
+ */
+export type CorrectionPolicy = 'all' | 'blocking' | 'end-of-turn';
+
+export type ExplanationLanguage = 'de' | 'en' | 'fr' | 'ar';
+
+export interface TutorSettings {
+  tutorName: string;
+  personality: TutorPersonality;
+  voice: TutorVoice;
+  correctionPolicy: CorrectionPolicy;
+  /** Language of the 💡 explanations; the conversation itself stays German. */
+  explanationLanguage: ExplanationLanguage;
+  /** Playback rate for replayed tutor messages; below 1 is slower, at the same pitch. */
+  replayRate: number;
+}
+
+export interface ScenarioGoal {
+  id: string;
+  /** What the learner should do, shown in the checklist. */
+  label: string;
+  /**
+   * Learner utterances that count as achieving the goal. Matched against
+   * lower-cased text with umlauts spelled out (ä → ae, ß → ss).
+   */
+  patterns: RegExp[];
+}
+
+/** A role-play situation the tutor acts out with the learner. */
+export interface Scenario {
+  id: string;
+  title: string;
+  icon: string;
+  /** The situation, as briefed to the tutor and shown to the learner. */
+  setting: string;
+  tutorRole: string;
+  learnerRole: string;
+  minLevel: CefrLevel;
+  maxLevel: CefrLevel;
+  goals: ScenarioGoal[];
+  /** When the tutor should end the scene. */
+  closing: string;
+}
+
+export interface ScenarioProgress {
+  scenarioId: string;
+  startedAt: number;
+  achievedGoalIds: string[];
+  completedAt?: number;
+}
+
+/**
+ * Compact memory of a long conversation, refreshed every few turns so the
+ * tutor keeps names, plans and topics after a restart.
+ */
+export interface ConversationSummary {
   summary: string;
-  url: string;
+  /** People, places and things the learner mentioned, with a short note each. */
+  entities: string[];
+  topics: string[];
+  recurringMistakes: string[];
+  /** Number of learner/tutor turns the summary covers. */
+  coveredTurns: number;
+  updatedAt: number;
+}
+
+export interface SessionRecord {
+  id: string;
+  title: string;
+  level: ProficiencyLevel;
+  startedAt: number;
+  endedAt?: number;
+  topic?: NewsTopic;
+  analysis?: AnalysisResult;
+  summary?: ConversationSummary;
+  scenario?: ScenarioProgress;
+  messages: ChatMessage[];
+}
+
+/** Self-assessed recall quality when reviewing a card. */
+export type ReviewGrade = 'again' | 'hard' | 'good' | 'easy';
+
+export interface ReviewSchedule {
+  ease: number;
+  intervalDays: number;
+  repetitions: number;
+  lapses: number;
+  due: number;
+  lastReviewedAt?: number;
 }
 
-export type ProficiencyLevel = 'A1' | 'A2' | 'B1' | 'B2' | 'C1';
\ No newline at end of file
+/** A flashcard built from one of the learner's own corrected mistakes. */
+export interface ReviewCard {
+  id: string;
+  wrong: string;
+  corrected: string;
+  explanation?: string;
+  createdAt: number;
+  sessionId?: string;
+  schedule: ReviewSchedule;
+}
+
+/** One try at repeating a sentence in the shadowing drill. */
+export interface ShadowingAttempt {
+  id: string;
+  sentence: string;
+  level: ProficiencyLevel;
+  /** What the learner said, as transcribed. */
+  transcript: string;
+  /** Word accuracy 0–100. */
+  accuracy: number;
+  createdAt: number;
+}
+
+/** A synthesized clip, cached so replaying a message does not call the TTS model again. */
+export interface SpeechClip {
+  /** Voice and normalized text, see `speechCacheKey`. */
+  key: string;
+  /** Raw 16-bit mono PCM at `sampleRate`. */
+  pcm: ArrayBuffer;
+  sampleRate: number;
+  createdAt: number;
+  lastUsedAt: number;
+}
+
+/** The text currently being read aloud by the speech service. */
+export interface SpeechPlayback {
+  text: string;
+  status: 'loading' | 'playing';
+}
+
+/** One word family in the learner's lexicon, keyed by its stem. */
+export interface VocabularyEntry {
+  stem: string;
+  /** Surface forms seen, in the order they first came up; the first one is shown. */
+  forms: string[];
+  /** How often the learner used it. */
+  count: number;
+  /** First and last time the learner used it; unset for words only the tutor has said. */
+  firstSeenAt?: number;
+  lastUsedAt?: number;
+  /** How often the tutor used it. */
+  tutorCount: number;
+  tutorLastUsedAt?: number;
+  /** Set when the tutor introduced the word on purpose; such words are pushed first. */
+  introducedAt?: number;
+  /** English gloss the tutor gave when introducing it. */
+  translation?: string;
+}
+
+/** What a model call was made for; usage is broken down by feature. */
+export type UsageFeature = 'live' | 'analysis' | 'topics' | 'summary' | 'tts';
+
+/** Tokens of a model call, split by modality because audio is priced differently. */
+export interface TokenCounts {
+  inputText: number;
+  inputAudio: number;
+  /** Includes thinking tokens, which are billed as output. */
+  outputText: number;
+  outputAudio: number;
+}
+
+/** Usage of one `generateContent` call or one live message. */
+export interface UsageRecord extends TokenCounts {
+  id: string;
+  feature: UsageFeature;
+  model: string;
+  /** Conversation the call was made for; null outside a session (e.g. topics picked beforehand). */
+  sessionId: string | null;
+  at: number;
+}
+
+/** USD per million tokens. */
+export type ModelPrice = TokenCounts;
+
+export type BudgetStatus = 'ok' | 'warning' | 'exceeded';
+
+/** Per-minute quota of a model; null for no limit. */
+export interface RateLimit {
+  requestsPerMinute: number | null;
+  tokensPerMinute: number | null;
+}
+
+/** A request sent to a model; kept for a minute to track the request rate. */
+export interface ModelRequest {
+  model: string;
+  at: number;
+}
+
+export interface UsageSettings {
+  /** Spending limits in USD; null for no limit. */
+  sessionBudget: number | null;
+  dailyBudget: number | null;
+  /** Share of a budget (0–1) from which the learner is warned. */
+  warnAt: number;
+  /** Thinking budget of the post-session analysis, its largest cost. */
+  analysisThinkingBudget: number;
+  /** By model name; calls to models without a price are counted but cost nothing. */
+  prices: Record<string, ModelPrice>;
+  /** By model name; requests to a model at its limit are refused until the minute has passed. */
+  rateLimits: Record<string, RateLimit>;
+}
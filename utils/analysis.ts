@@ -0,0 +1,121 @@
+import { AnalysisError, AnalysisResult, CefrLevel, ErrorCategory } from '../types';
+import { isRecord } from './guards';
+
+export const CEFR_LEVELS: CefrLevel[] = ['A1', 'A2', 'B1', 'B2', 'C1', 'C2'];
+
+export const ERROR_CATEGORIES: ErrorCategory[] = [
+  'Kasus',
+  'Verbstellung',
+  'Artikel',
+  'Präpositionen',
+  'Wortschatz',
+  'Konjugation',
+  'Adjektivendungen',
+  'Rechtschreibung',
+  'Sonstiges',
+];
+
+const asString = (value: unknown): string =>
+  typeof value === 'string' ? value.trim() : '';
+
+const asStringList = (value: unknown): string[] =>
+  Array.isArray(value) ? value.map(asString).filter(Boolean) : [];
+
+const normalizeKey = (value: string) =>
+  value.toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+
+const toCategory = (value: unknown): ErrorCategory => {
+  const key = normalizeKey(asString(value));
+  return ERROR_CATEGORIES.find(c => normalizeKey(c) === key) ?? 'Sonstiges';
+};
+
+const toLevel = (value: unknown): CefrLevel | null => {
+  const level = asString(value).toUpperCase().slice(0, 2);
+  return CEFR_LEVELS.includes(level as CefrLevel) ? (level as CefrLevel) : null;
+};
+
+const toError = (value: unknown): AnalysisError | null => {
+  if (!isRecord(value)) return null;
+  const original = asString(value.original);
+  const corrected = asString(value.corrected);
+  if (!original || !corrected) return null;
+  return {
+    category: toCategory(value.category),
+    original,
+    corrected,
+    explanation: asString(value.explanation),
+  };
+};
+
+/** A report that only carries the raw model text, used when parsing fails. */
+export function createFallbackAnalysis(rawText: string): AnalysisResult {
+  return {
+    estimatedLevel: null,
+    summary: '',
+    errors: [],
+    strengths: [],
+    nextSteps: [],
+    rawText,
+  };
+}
+
+/**
+ * Validates an untrusted value against the analysis schema. Unknown categories
+ * map to "Sonstiges" and incomplete error entries are dropped; returns null if
+ * the value does not look like an analysis report at all.
+ */
+export function validateAnalysis(value: unknown): AnalysisResult | null {
+  if (!isRecord(value)) return null;
+
+  const hasReportFields = ['errors', 'strengths', 'nextSteps', 'summary', 'estimatedLevel']
+    .some(key => key in value);
+  if (!hasReportFields) return null;
+
+  const errors = Array.isArray(value.errors)
+    ? value.errors.map(toError).filter((e): e is AnalysisError => e !== null)
+    : [];
+
+  return {
+    estimatedLevel: toLevel(value.estimatedLevel),
+    summary: asString(value.summary),
+    errors,
+    strengths: asStringList(value.strengths),
+    nextSteps: asStringList(value.nextSteps),
+  };
+}
+
+/** Parses the model's JSON response, falling back to the raw text if it is invalid. */
+export function parseAnalysis(text: string): AnalysisResult {
+  const trimmed = text.trim();
+  // Tolerate a ```json fenced block even though JSON mode should not emit one
+  const unfenced = trimmed.replace(/^```(?:json)?\s*([\s\S]*?)\s*```$/i, '$1');
+
+  try {
+    const result = validateAnalysis(JSON.parse(unfenced));
+    if (result) return result;
+  } catch {
+    // fall through to the raw-text fallback
+  }
+  return createFallbackAnalysis(trimmed || "No analysis could be generated.");
+}
+
+/**
+ * Normalizes a stored analysis, including legacy `{ markdown }` records saved
+ * before reports were structured.
+ */
+export function coerceAnalysis(value: unknown): AnalysisResult | null {
+  if (!isRecord(value)) return null;
+  const result = validateAnalysis(value);
+  if (result) {
+    return typeof value.rawText === 'string' ? { ...result, rawText: value.rawText } : result;
+  }
+  if (typeof value.markdown === 'string') return createFallbackAnalysis(value.markdown);
+  return null;
+}
+
+/** Errors grouped by category, in the canonical category order. */
+export function groupErrorsByCategory(errors: AnalysisError[]): [ErrorCategory, AnalysisError[]][] {
+  return ERROR_CATEGORIES
+    .map(category => [category, errors.filter(e => e.category === category)] as [ErrorCategory, AnalysisError[]])
+    .filter(([, items]) => items.length > 0);
+}
@@ -19,14 +19,27 @@ export function uint8ArrayToBase64(bytes: Uint8Array): string {
   return btoa(binary);
 }
 
+/**
+ * Views raw little-endian 16-bit PCM bytes as samples. Only the bytes of `data`
+ * are used, not the rest of a larger underlying buffer; a trailing odd byte is
+ * dropped, and unaligned views are copied since Int16Array needs an even offset.
+ */
+export function pcmToInt16(data: Uint8Array): Int16Array {
+  const sampleCount = Math.floor(data.byteLength / 2);
+  if (data.byteOffset % 2 === 0) {
+    return new Int16Array(data.buffer, data.byteOffset, sampleCount);
+  }
+  return new Int16Array(data.slice(0, sampleCount * 2).buffer);
+}
+
 export async function decodeAudioData(
   data: Uint8Array,
   ctx: AudioContext,
   srcSampleRate: number = 24000,
   numChannels: number = 1,
 ): Promise<AudioBuffer> {
-  const dataInt16 = new Int16Array(data.buffer);
-  const frameCount = dataInt16.length / numChannels;
+  const dataInt16 = pcmToInt16(data);
+  const frameCount = Math.floor(dataInt16.length / numChannels);
   
   // Create a buffer at the source sample rate (24kHz).
   // When played on a system context (e.g. 48kHz), the browser handles resampling automatically.
@@ -42,52 +55,160 @@ export async function decodeAudioData(
   return buffer;
 }
 
+// Windowed-sinc interpolation parameters. The kernel spans SINC_ZERO_CROSSINGS
+// zero crossings on each side and is tabulated once, then linearly interpolated.
+const SINC_ZERO_CROSSINGS = 16;
+const SINC_TABLE_RESOLUTION = 512;
+const KAISER_BETA = 8.6;
+// Cutoff as a fraction of the lower Nyquist frequency, leaving room for the transition band
+const RESAMPLER_ROLLOFF = 0.95;
+
+let sincTable: Float32Array | null = null;
+
+// Zeroth-order modified Bessel function of the first kind (power series)
+function besselI0(x: number): number {
+  let sum = 1;
+  let term = 1;
+  const halfX = x / 2;
+  for (let k = 1; k < 50; k++) {
+    term *= (halfX / k) * (halfX / k);
+    sum += term;
+    if (term < sum * 1e-12) break;
+  }
+  return sum;
+}
+
+function getSincTable(): Float32Array {
+  if (sincTable) return sincTable;
+
+  const size = SINC_ZERO_CROSSINGS * SINC_TABLE_RESOLUTION;
+  // One extra guard entry so interpolation never reads past the end
+  const table = new Float32Array(size + 2);
+  const i0Beta = besselI0(KAISER_BETA);
+  for (let i = 0; i <= size; i++) {
+    const x = i / SINC_TABLE_RESOLUTION;
+    const sinc = x === 0 ? 1 : Math.sin(Math.PI * x) / (Math.PI * x);
+    const ratio = x / SINC_ZERO_CROSSINGS;
+    const window = besselI0(KAISER_BETA * Math.sqrt(Math.max(0, 1 - ratio * ratio))) / i0Beta;
+    table[i] = sinc * window;
+  }
+  sincTable = table;
+  return table;
+}
+
 /**
- * Downsamples audio buffer to target sample rate (default 16kHz).
- * Uses simple averaging (box filter) which is sufficient for real-time voice.
+ * Streaming band-limited resampler (Kaiser-windowed sinc).
+ * The low-pass cutoff follows the lower of the two rates, so it anti-aliases
+ * when downsampling and suppresses imaging when upsampling. Chunks can be fed
+ * one at a time; the output is identical to resampling the whole signal at once.
  */
-export function downsampleBuffer(buffer: Float32Array, inputSampleRate: number, targetSampleRate: number = 16000): Float32Array {
-  if (inputSampleRate === targetSampleRate) {
-    return buffer;
+export class Resampler {
+  private readonly step: number;
+  private readonly scale: number;
+  private readonly halfWidth: number;
+  private history = new Float32Array(0);
+  private historyStart = 0;
+  private received = 0;
+  private produced = 0;
+
+  constructor(
+    private readonly inputSampleRate: number,
+    private readonly outputSampleRate: number
+  ) {
+    if (inputSampleRate <= 0 || outputSampleRate <= 0) {
+      throw new Error(`Invalid sample rates: ${inputSampleRate} -> ${outputSampleRate}`);
+    }
+    this.step = inputSampleRate / outputSampleRate;
+    this.scale = Math.min(1, outputSampleRate / inputSampleRate) * RESAMPLER_ROLLOFF;
+    this.halfWidth = SINC_ZERO_CROSSINGS / this.scale;
   }
-  
-  if (inputSampleRate < targetSampleRate) {
-    // Fallback for unlikely case where mic is lower quality than 16kHz
-    // Just returning original buffer to prevent audio loss/artifacts, 
-    // though pitch might be off if API expects strictly 16k.
-    // Ideally we would upsample, but linear interpolation is expensive here.
-    return buffer;
+
+  /** Resamples the next chunk. Output lags the input by the filter's half-width. */
+  process(chunk: Float32Array): Float32Array {
+    if (this.inputSampleRate === this.outputSampleRate) {
+      return chunk.slice();
+    }
+    const merged = new Float32Array(this.history.length + chunk.length);
+    merged.set(this.history);
+    merged.set(chunk, this.history.length);
+    this.history = merged;
+    this.received += chunk.length;
+    return this.drain(false);
   }
-  
-  const ratio = inputSampleRate / targetSampleRate;
-  const newLength = Math.ceil(buffer.length / ratio);
-  const result = new Float32Array(newLength);
-  let offsetResult = 0;
-  let offsetBuffer = 0;
-  
-  while (offsetResult < newLength) {
-    const nextOffsetBuffer = Math.round((offsetResult + 1) * ratio);
-    let accum = 0;
-    let count = 0;
-    
-    for (let i = offsetBuffer; i < nextOffsetBuffer && i < buffer.length; i++) {
-      accum += buffer[i];
-      count++;
+
+  /** Emits the remaining samples, treating the signal as ended. */
+  flush(): Float32Array {
+    if (this.inputSampleRate === this.outputSampleRate) {
+      return new Float32Array(0);
     }
-    
-    result[offsetResult] = count > 0 ? accum / count : 0;
-    offsetResult++;
-    offsetBuffer = nextOffsetBuffer;
+    return this.drain(true);
+  }
+
+  private expectedLength(): number {
+    // Integer arithmetic keeps e.g. 48000 → 16000 exact
+    return Math.ceil((this.received * this.outputSampleRate) / this.inputSampleRate);
+  }
+
+  private drain(final: boolean): Float32Array {
+    const output: number[] = [];
+    const limit = this.expectedLength();
+
+    while (this.produced < limit) {
+      const position = this.produced * this.step;
+      if (!final && position + this.halfWidth >= this.received) break;
+      output.push(this.sampleAt(position));
+      this.produced++;
+    }
+
+    // Drop input that no future output sample can reach
+    const keepFrom = Math.max(this.historyStart, Math.floor(this.produced * this.step - this.halfWidth));
+    if (keepFrom > this.historyStart) {
+      this.history = this.history.slice(keepFrom - this.historyStart);
+      this.historyStart = keepFrom;
+    }
+
+    return Float32Array.from(output);
+  }
+
+  private sampleAt(position: number): number {
+    const table = getSincTable();
+    const first = Math.max(Math.ceil(position - this.halfWidth), this.historyStart);
+    const last = Math.min(Math.floor(position + this.halfWidth), this.received - 1);
+
+    let sum = 0;
+    let weightSum = 0;
+    for (let k = first; k <= last; k++) {
+      const t = Math.abs(position - k) * this.scale * SINC_TABLE_RESOLUTION;
+      const index = Math.floor(t);
+      if (index >= SINC_ZERO_CROSSINGS * SINC_TABLE_RESOLUTION) continue;
+      const weight = table[index] + (t - index) * (table[index + 1] - table[index]);
+      sum += this.history[k - this.historyStart] * weight;
+      weightSum += weight;
+    }
+    // Normalizing by the weight sum gives unity DC gain, also at the signal edges
+    return weightSum !== 0 ? sum / weightSum : 0;
   }
-  
-  return result;
 }
 
 /**
- * Converts Float32 audio data to 16-bit PCM Blob for Gemini API.
- * Target format: Linear16, 16kHz, Mono.
+ * Resamples a complete buffer to the target rate (default 16kHz, as expected by Gemini).
+ * Output length is ceil(length * targetRate / inputRate).
  */
-export function createPcmBlob(data: Float32Array): Blob {
+export function resampleBuffer(buffer: Float32Array, inputSampleRate: number, targetSampleRate: number = 16000): Float32Array {
+  if (inputSampleRate === targetSampleRate) {
+    return buffer;
+  }
+  const resampler = new Resampler(inputSampleRate, targetSampleRate);
+  const head = resampler.process(buffer);
+  const tail = resampler.flush();
+  const result = new Float32Array(head.length + tail.length);
+  result.set(head);
+  result.set(tail, head.length);
+  return result;
+}
+
+/** Converts float samples in [-1.0, 1.0] to 16-bit PCM, clamping anything outside. */
+export function floatTo16BitPcm(data: Float32Array): Int16Array {
   const l = data.length;
   const int16 = new Int16Array(l);
   for (let i = 0; i < l; i++) {
@@ -96,11 +217,55 @@ export function createPcmBlob(data: Float32Array): Blob {
     // Convert float [-1.0, 1.0] to int16 [-32768, 32767]
     int16[i] = s < 0 ? s * 32768 : s * 32767;
   }
-  
+  return int16;
+}
+
+/**
+ * Converts Float32 audio data to 16-bit PCM Blob for Gemini API.
+ * Target format: Linear16, 16kHz, Mono.
+ */
+export function createPcmBlob(data: Float32Array): Blob {
+  const int16 = floatTo16BitPcm(data);
+
   // Important: Int16Array is platform-endian, but typically Little Endian on web.
   // Gemini expects Little Endian.
   return {
     data: uint8ArrayToBase64(new Uint8Array(int16.buffer)),
     mimeType: 'audio/pcm;rate=16000',
   };
-}
\ No newline at end of file
+}
+
+const WAV_HEADER_BYTES = 44;
+
+/**
+ * Wraps 16-bit PCM samples (interleaved if multi-channel) in a RIFF/WAVE
+ * container. The header is written little-endian regardless of platform.
+ */
+export function encodeWav(samples: Int16Array, sampleRate: number, numChannels: number = 1): Uint8Array {
+  const bytesPerSample = 2;
+  const dataBytes = samples.length * bytesPerSample;
+  const bytes = new Uint8Array(WAV_HEADER_BYTES + dataBytes);
+  const view = new DataView(bytes.buffer);
+  const writeAscii = (offset: number, text: string) => {
+    for (let i = 0; i < text.length; i++) view.setUint8(offset + i, text.charCodeAt(i));
+  };
+
+  writeAscii(0, 'RIFF');
+  view.setUint32(4, 36 + dataBytes, true);
+  writeAscii(8, 'WAVE');
+  writeAscii(12, 'fmt ');
+  view.setUint32(16, 16, true); // fmt chunk size
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, numChannels, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * numChannels * bytesPerSample, true); // byte rate
+  view.setUint16(32, numChannels * bytesPerSample, true); // block align
+  view.setUint16(34, bytesPerSample * 8, true);
+  writeAscii(36, 'data');
+  view.setUint32(40, dataBytes, true);
+
+  for (let i = 0; i < samples.length; i++) {
+    view.setInt16(WAV_HEADER_BYTES + i * bytesPerSample, samples[i], true);
+  }
+  return bytes;
+}
@@ -0,0 +1,67 @@
+export const CAPTURE_PROCESSOR_NAME = 'deutschflow-capture';
+
+/**
+ * AudioWorklet processor that batches the 128-frame render quanta of the mic
+ * input into fixed-size chunks and posts them to the main thread.
+ * Kept as a string so it can be loaded from a Blob URL without a bundler step.
+ */
+const CAPTURE_PROCESSOR_SOURCE = `
+class CaptureProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    this.chunkSize = options.processorOptions.chunkSize;
+    this.buffer = new Float32Array(this.chunkSize);
+    this.offset = 0;
+  }
+
+  process(inputs) {
+    const channel = inputs[0] && inputs[0][0];
+    if (channel) {
+      let read = 0;
+      while (read < channel.length) {
+        const count = Math.min(channel.length - read, this.chunkSize - this.offset);
+        this.buffer.set(channel.subarray(read, read + count), this.offset);
+        this.offset += count;
+        read += count;
+        if (this.offset === this.chunkSize) {
+          this.port.postMessage(this.buffer, [this.buffer.buffer]);
+          this.buffer = new Float32Array(this.chunkSize);
+          this.offset = 0;
+        }
+      }
+    }
+    return true;
+  }
+}
+
+registerProcessor('${CAPTURE_PROCESSOR_NAME}', CaptureProcessor);
+`;
+
+const loadedContexts = new WeakSet<BaseAudioContext>();
+
+export async function loadCaptureWorklet(ctx: BaseAudioContext): Promise<void> {
+  if (loadedContexts.has(ctx)) return;
+  const url = URL.createObjectURL(new Blob([CAPTURE_PROCESSOR_SOURCE], { type: 'application/javascript' }));
+  try {
+    await ctx.audioWorklet.addModule(url);
+    loadedContexts.add(ctx);
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+/**
+ * Creates a capture node that emits `Float32Array` chunks of `chunkMs`
+ * milliseconds (at the context's sample rate) on its message port.
+ */
+export function createCaptureNode(ctx: BaseAudioContext, chunkMs: number): AudioWorkletNode {
+  const chunkSize = Math.max(128, Math.round((ctx.sampleRate * chunkMs) / 1000));
+  return new AudioWorkletNode(ctx, CAPTURE_PROCESSOR_NAME, {
+    numberOfInputs: 1,
+    numberOfOutputs: 1,
+    outputChannelCount: [1],
+    channelCount: 1,
+    channelCountMode: 'explicit',
+    processorOptions: { chunkSize },
+  });
+}
@@ -0,0 +1,56 @@
+/**
+ * Connection lifecycle of a live tutor session.
+ *
+ *   idle ─start→ connecting ─connected→ live ─lost→ reconnecting ─connected→ live
+ *                    │                                   │
+ *                    └──────────── give-up ──────────────┴→ failed
+ *
+ * `stop` ends any state in `stopped`; `start` leaves idle, stopped and failed.
+ */
+
+export type ConnectionState = 'idle' | 'connecting' | 'live' | 'reconnecting' | 'failed' | 'stopped';
+
+export type ConnectionEvent = 'start' | 'connected' | 'lost' | 'give-up' | 'stop';
+
+const TRANSITIONS: Record<ConnectionState, Partial<Record<ConnectionEvent, ConnectionState>>> = {
+  idle: { start: 'connecting' },
+  connecting: { connected: 'live', 'give-up': 'failed', stop: 'stopped' },
+  live: { lost: 'reconnecting', stop: 'stopped' },
+  reconnecting: { connected: 'live', 'give-up': 'failed', stop: 'stopped' },
+  failed: { start: 'connecting', stop: 'stopped' },
+  stopped: { start: 'connecting' },
+};
+
+/** Next state for an event; events that do not apply leave the state unchanged. */
+export function nextConnectionState(state: ConnectionState, event: ConnectionEvent): ConnectionState {
+  return TRANSITIONS[state][event] ?? state;
+}
+
+/** True while the session holds the microphone, including while it reconnects. */
+export function isSessionActive(state: ConnectionState): boolean {
+  return state === 'connecting' || state === 'live' || state === 'reconnecting';
+}
+
+export interface BackoffOptions {
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export const DEFAULT_BACKOFF: BackoffOptions = {
+  baseDelayMs: 1000,
+  maxDelayMs: 15000,
+};
+
+/**
+ * Delay before retry number `attempt` (0-based): exponential growth capped at
+ * `maxDelayMs`, with "equal jitter" — half the delay is fixed, the other half
+ * random — so clients that dropped together do not reconnect in lockstep.
+ */
+export function reconnectDelay(
+  attempt: number,
+  options: BackoffOptions = DEFAULT_BACKOFF,
+  random: () => number = Math.random,
+): number {
+  const ceiling = Math.min(options.maxDelayMs, options.baseDelayMs * Math.pow(2, Math.max(0, attempt)));
+  return Math.round(ceiling / 2 + random() * (ceiling / 2));
+}
@@ -0,0 +1,68 @@
+import { ChatMessage, ConversationSummary } from '../types';
+import { formatTranscript } from './transcript';
+import { conversationTurns, formatSummary } from './summary';
+
+export interface ContextBudget {
+  /** Upper bound for the whole context block, in estimated tokens. */
+  maxTokens: number;
+  /** Most recent turns to include at most, budget permitting. */
+  maxRecentTurns: number;
+}
+
+export const DEFAULT_CONTEXT_BUDGET: ContextBudget = {
+  maxTokens: 2000,
+  maxRecentTurns: 20,
+};
+
+// The summary may use at most this share of the budget, the rest is kept for recent turns
+const SUMMARY_BUDGET_SHARE = 0.5;
+
+/**
+ * Rough token count for prompt budgeting (about four characters per token
+ * for German and English text). Errs on the high side.
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+const truncateToTokens = (text: string, maxTokens: number) => {
+  const maxChars = maxTokens * 4;
+  return text.length <= maxChars ? text : `${text.slice(0, Math.max(0, maxChars - 1)).trimEnd()}…`;
+};
+
+/**
+ * Builds the context handed to a restarted tutor session: the rolling
+ * summary (if any) followed by as many of the most recent turns as fit into
+ * the token budget. Newer turns win over older ones. Without a summary the
+ * result is a plain "User:/Tutor:" transcript.
+ */
+export function buildContext(
+  messages: ChatMessage[],
+  summary: ConversationSummary | null,
+  budget: ContextBudget = DEFAULT_CONTEXT_BUDGET,
+): string {
+  let summaryBlock = '';
+  if (summary) {
+    const header = 'CONVERSATION SUMMARY:\n';
+    const body = truncateToTokens(
+      formatSummary(summary),
+      Math.floor(budget.maxTokens * SUMMARY_BUDGET_SHARE) - estimateTokens(header)
+    );
+    summaryBlock = header + body;
+  }
+
+  const recentHeader = summary ? 'RECENT TURNS:\n' : '';
+  let remaining = budget.maxTokens - estimateTokens(summaryBlock) - estimateTokens(recentHeader);
+  const recent: ChatMessage[] = [];
+  const turns = conversationTurns(messages).slice(-budget.maxRecentTurns);
+
+  for (let i = turns.length - 1; i >= 0; i--) {
+    const cost = estimateTokens(formatTranscript([turns[i]])) + 1;
+    if (cost > remaining) break;
+    recent.unshift(turns[i]);
+    remaining -= cost;
+  }
+
+  const recentBlock = recent.length ? recentHeader + formatTranscript(recent) : '';
+  return [summaryBlock, recentBlock].filter(Boolean).join('\n\n');
+}
@@ -0,0 +1,283 @@
+import { ChatMessage, Correction, Sender, TextSpan } from '../types';
+import { isRecord } from './guards';
+
+type MarkerKind = 'wrong' | 'corrected' | 'explanation';
+
+interface Segment {
+  kind: MarkerKind;
+  content: string;
+  start: number;
+  end: number;
+}
+
+interface Token {
+  text: string;
+  start: number;
+  end: number;
+  lead: string;
+}
+
+export type DiffSegmentType = 'equal' | 'removed' | 'added';
+
+export interface DiffSegment {
+  type: DiffSegmentType;
+  text: string;
+}
+
+// Emoji markers requested by the system prompt, plus the plain-text labels the
+// model sometimes falls back to (especially in audio transcriptions).
+const MARKER_REGEX = /❌|✖️?|✔️?|✅|💡|\b(?:wrong|falsch|correct|richtig|korrekt|explanation|erklärung)\s*:/giu;
+
+const TOKEN_REGEX = /[\p{L}\p{M}\p{N}]+(?:['’-][\p{L}\p{M}\p{N}]+)*|[^\s\p{L}\p{M}\p{N}]/gu;
+
+const markerKind = (marker: string): MarkerKind => {
+  const m = marker.toLowerCase();
+  if (m.startsWith('❌') || m.startsWith('✖') || m.startsWith('wrong') || m.startsWith('falsch')) return 'wrong';
+  if (m.startsWith('💡') || m.startsWith('explanation') || m.startsWith('erklärung')) return 'explanation';
+  return 'corrected';
+};
+
+// Strip decoration the model likes to wrap sentences in (bold, dashes, quotes).
+const cleanContent = (content: string): string => {
+  const stripped = content.trim().replace(/^[\s*:–-]+|[\s*]+$/g, '');
+  const quoted = stripped.match(/^["„“»‚']([^"„“”»«]*)["“”«‘']$/);
+  return (quoted ? quoted[1] : stripped).trim();
+};
+
+/**
+ * Splits text into marker segments. Each segment's content runs until the next
+ * marker or the end of the line; a marker alone on its line takes the next line.
+ */
+const scanSegments = (text: string): Segment[] => {
+  const matches = Array.from(text.matchAll(MARKER_REGEX));
+  const segments: Segment[] = [];
+
+  matches.forEach((match, i) => {
+    const start = match.index ?? 0;
+    const markerEnd = start + match[0].length;
+    const regionEnd = i + 1 < matches.length ? (matches[i + 1].index ?? text.length) : text.length;
+    const region = text.slice(markerEnd, regionEnd);
+
+    const lead = region.match(/^[ \t]*(?:\r?\n[ \t]*)?/)?.[0] ?? '';
+    const rest = region.slice(lead.length);
+    const lineBreak = rest.search(/\r?\n/);
+    const line = lineBreak === -1 ? rest : rest.slice(0, lineBreak);
+
+    segments.push({
+      kind: markerKind(match[0]),
+      content: cleanContent(line),
+      start,
+      end: markerEnd + lead.length + line.length,
+    });
+  });
+
+  return segments;
+};
+
+interface ScanResult {
+  corrections: Correction[];
+  consumed: TextSpan[];
+}
+
+const scan = (text: string): ScanResult => {
+  const corrections: Correction[] = [];
+  const consumed: TextSpan[] = [];
+  let pending: Segment[] = [];
+
+  const flush = () => {
+    const wrong = pending.find(s => s.kind === 'wrong');
+    const corrected = pending.find(s => s.kind === 'corrected');
+    const explanation = pending.find(s => s.kind === 'explanation');
+    if (wrong?.content && corrected?.content) {
+      corrections.push(buildCorrection(wrong.content, corrected.content, explanation?.content));
+      pending.forEach(s => consumed.push({ start: s.start, end: s.end }));
+    }
+    pending = [];
+  };
+
+  for (const segment of scanSegments(text)) {
+    const has = (kind: MarkerKind) => pending.some(s => s.kind === kind);
+
+    if (segment.kind === 'wrong') {
+      flush();
+      pending = [segment];
+    } else if (segment.kind === 'corrected') {
+      if (has('wrong') && !has('corrected')) {
+        pending.push(segment);
+      } else {
+        // Orphaned ✔️ without a preceding ❌ - nothing to diff against.
+        flush();
+      }
+    } else if (has('corrected') && !has('explanation')) {
+      pending.push(segment);
+    }
+  }
+  flush();
+
+  return { corrections, consumed };
+};
+
+const tokenize = (text: string): Token[] => {
+  const tokens: Token[] = [];
+  let previousEnd = 0;
+  for (const match of text.matchAll(TOKEN_REGEX)) {
+    const start = match.index ?? 0;
+    tokens.push({
+      text: match[0],
+      start,
+      end: start + match[0].length,
+      lead: text.slice(previousEnd, start),
+    });
+    previousEnd = start + match[0].length;
+  }
+  return tokens;
+};
+
+type DiffOp = { type: 'equal'; a: Token; b: Token } | { type: 'removed'; a: Token } | { type: 'added'; b: Token };
+
+/**
+ * Longest-common-subsequence diff over word tokens. Within a changed region,
+ * removals are emitted before additions so the result reads naturally inline.
+ */
+const diffTokens = (a: Token[], b: Token[]): DiffOp[] => {
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i].text === b[j].text
+        ? lcs[i + 1][j + 1] + 1
+        : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const ops: DiffOp[] = [];
+  let removed: DiffOp[] = [];
+  let added: DiffOp[] = [];
+  const flushChanges = () => {
+    ops.push(...removed, ...added);
+    removed = [];
+    added = [];
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i].text === b[j].text) {
+      flushChanges();
+      ops.push({ type: 'equal', a: a[i], b: b[j] });
+      i++;
+      j++;
+    } else if (j >= b.length || (i < a.length && lcs[i + 1][j] >= lcs[i][j + 1])) {
+      removed.push({ type: 'removed', a: a[i] });
+      i++;
+    } else {
+      added.push({ type: 'added', b: b[j] });
+      j++;
+    }
+  }
+  flushChanges();
+
+  return ops;
+};
+
+const mergeSpans = (tokens: Token[][]): TextSpan[] =>
+  tokens.map(run => ({ start: run[0].start, end: run[run.length - 1].end }));
+
+const collectRuns = (ops: DiffOp[], type: 'removed' | 'added'): Token[][] => {
+  const runs: Token[][] = [];
+  let current: Token[] = [];
+  for (const op of ops) {
+    if (op.type === type) {
+      current.push(op.type === 'removed' ? op.a : op.b);
+    } else if (op.type === 'equal' && current.length) {
+      runs.push(current);
+      current = [];
+    }
+  }
+  if (current.length) runs.push(current);
+  return runs;
+};
+
+/** A correction with the changed words marked, as if parsed from a ❌ / ✔️ block. */
+export function buildCorrection(wrong: string, corrected: string, explanation?: string): Correction {
+  const ops = diffTokens(tokenize(wrong), tokenize(corrected));
+  return {
+    wrong,
+    corrected,
+    ...(explanation ? { explanation } : {}),
+    wrongSpans: mergeSpans(collectRuns(ops, 'removed')),
+    correctedSpans: mergeSpans(collectRuns(ops, 'added')),
+  };
+}
+
+/**
+ * The corrections a message holds for the learner: those in a tutor reply and
+ * those the tutor recorded through a function call that was not withdrawn.
+ */
+export function messageCorrections(message: ChatMessage): Correction[] {
+  if (message.toolCall ? message.toolCall.status !== 'done' : message.sender !== Sender.MODEL) return [];
+  return message.corrections ?? [];
+}
+
+/**
+ * Restores a stored correction; the spans are recomputed rather than trusted.
+ * Returns null unless both sentences are present.
+ */
+export function coerceCorrection(value: unknown): Correction | null {
+  if (!isRecord(value)) return null;
+  const { wrong, corrected, explanation } = value;
+  if (typeof wrong !== 'string' || typeof corrected !== 'string' || !wrong.trim() || !corrected.trim()) return null;
+  return buildCorrection(wrong, corrected, typeof explanation === 'string' ? explanation : undefined);
+}
+
+/**
+ * Extracts every complete ❌ / ✔️ (/ 💡) correction from a tutor reply.
+ * Incomplete corrections (e.g. a ❌ line whose ✔️ was cut off) are ignored.
+ */
+export function parseCorrections(text: string): Correction[] {
+  return scan(text).corrections;
+}
+
+/**
+ * Returns the tutor reply with all parsed correction blocks removed, so the
+ * remaining prose can be shown next to the rendered corrections.
+ */
+export function stripCorrections(text: string): string {
+  const { consumed } = scan(text);
+  if (consumed.length === 0) return text.trim();
+
+  let result = '';
+  let cursor = 0;
+  for (const span of consumed) {
+    result += text.slice(cursor, span.start);
+    cursor = span.end;
+  }
+  result += text.slice(cursor);
+
+  return result
+    .split(/\r?\n/)
+    .map(line => line.trimEnd())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+/**
+ * Word-level diff between a wrong and a corrected sentence, suitable for
+ * inline rendering. Segment text includes the whitespace preceding each word.
+ */
+export function diffWords(wrong: string, corrected: string): DiffSegment[] {
+  const segments: DiffSegment[] = [];
+  for (const op of diffTokens(tokenize(wrong), tokenize(corrected))) {
+    const token = op.type === 'removed' ? op.a : op.b;
+    const last = segments[segments.length - 1];
+    if (last && last.type === op.type) {
+      last.text += token.lead + token.text;
+    } else {
+      segments.push({ type: op.type, text: token.lead + token.text });
+    }
+  }
+  if (segments.length) {
+    segments[0].text = segments[0].text.trimStart();
+  }
+  return segments;
+}
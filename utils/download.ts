@@ -0,0 +1,12 @@
+// Firefox and Safari read the blob after `click()` returns; revoking right away can cancel the download
+const REVOKE_DELAY_MS = 60000;
+
+/** Saves a blob as a file through a temporary link. */
+export function downloadBlob(blob: Blob, filename: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  window.setTimeout(() => URL.revokeObjectURL(url), REVOKE_DELAY_MS);
+}
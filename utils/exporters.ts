@@ -0,0 +1,301 @@
+import { ChatMessage, Correction, ProficiencyLevel, Sender, SessionRecord } from '../types';
+import { coerceAnalysis } from './analysis';
+import { coerceSummary } from './summary';
+import { coerceScenarioProgress, getScenario } from './scenarios';
+import { coerceCorrection, messageCorrections, stripCorrections } from './corrections';
+import { coerceTopic } from './topics';
+import { coerceToolCall } from './tutorTools';
+import { escapeHtml } from './markdown';
+import { isRecord } from './guards';
+import { foldGerman } from './german';
+
+export type ExportFormat = 'markdown' | 'json' | 'vtt' | 'srt' | 'anki-csv' | 'anki-tsv';
+
+export interface ExportFile {
+  filename: string;
+  mimeType: string;
+  content: string;
+}
+
+/** Identifies our JSON exports; bump `SESSION_EXPORT_VERSION` whenever the shape of `session` changes. */
+export const SESSION_EXPORT_FORMAT = 'deutschflow-session';
+export const SESSION_EXPORT_VERSION = 1;
+
+export interface SessionExport {
+  format: typeof SESSION_EXPORT_FORMAT;
+  version: number;
+  exportedAt: number;
+  session: SessionRecord;
+}
+
+// How long the last subtitle cue stays up, as there is no next turn to end it
+const LAST_CUE_MS = 4000;
+const LEVELS: ProficiencyLevel[] = ['A1', 'A2', 'B1', 'B2', 'C1'];
+
+const SPEAKERS: Record<Sender, string> = {
+  [Sender.USER]: 'You',
+  [Sender.MODEL]: 'Tutor',
+  [Sender.SYSTEM]: 'System',
+};
+
+const conversation = (messages: ChatMessage[]) => messages.filter(m => m.sender !== Sender.SYSTEM);
+
+// The correction blocks are rendered separately, so tutor text is exported without them
+const spokenText = (message: ChatMessage) =>
+  message.sender === Sender.MODEL && message.corrections?.length ? stripCorrections(message.text) : message.text.trim();
+
+const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+
+/** `HH:MM:SS.mmm` (WebVTT) or `HH:MM:SS,mmm` (SRT) for an offset in milliseconds. */
+export function formatCueTime(ms: number, separator: '.' | ',' = '.'): string {
+  const total = Math.max(0, Math.round(ms));
+  const hours = Math.floor(total / 3600000);
+  const minutes = Math.floor((total % 3600000) / 60000);
+  const seconds = Math.floor((total % 60000) / 1000);
+  return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}${separator}${pad(total % 1000, 3)}`;
+}
+
+const formatOffset = (ms: number) => {
+  const seconds = Math.max(0, Math.floor(ms / 1000));
+  return `${pad(Math.floor(seconds / 60))}:${pad(seconds % 60)}`;
+};
+
+const formatUtc = (timestamp: number) => `${new Date(timestamp).toISOString().slice(0, 16).replace('T', ' ')} UTC`;
+
+export function slugifyTitle(title: string): string {
+  const slug = foldGerman(title)
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+  return slug || 'session';
+}
+
+// Markdown
+
+const correctionQuote = (correction: Correction) => {
+  const lines = [`❌ ${correction.wrong}`, `✔️ ${correction.corrected}`];
+  if (correction.explanation) lines.push(`💡 ${correction.explanation}`);
+  // Trailing backslashes are hard line breaks, which survive editors that strip trailing spaces
+  return lines.map(line => `> ${line}`).join('\\\n');
+};
+
+/** Readable notes: metadata, the conversation with its corrections, and the analysis if there is one. */
+export function toMarkdown(session: SessionRecord): string {
+  const lines = [`# ${session.title}`, '', `- **Level:** ${session.level}`, `- **Started:** ${formatUtc(session.startedAt)}`];
+  if (session.topic) {
+    lines.push(`- **Topic:** ${session.topic.url ? `[${session.topic.title}](${session.topic.url})` : session.topic.title}`);
+  }
+  const scenario = session.scenario && getScenario(session.scenario.scenarioId);
+  if (scenario && session.scenario) {
+    const done = session.scenario.achievedGoalIds.length;
+    lines.push(`- **Role-play:** ${scenario.title} (${done}/${scenario.goals.length} goals${session.scenario.completedAt ? ', completed' : ''})`);
+  }
+
+  lines.push('', '## Conversation', '');
+  conversation(session.messages).forEach(message => {
+    const text = spokenText(message);
+    const notes = [message.typed ? 'typed' : '', message.interrupted ? 'cut off' : ''].filter(Boolean);
+    const suffix = notes.length ? ` _(${notes.join(', ')})_` : '';
+    lines.push(`**[${formatOffset(message.timestamp - session.startedAt)}] ${SPEAKERS[message.sender]}:** ${text}${suffix}`, '');
+    message.corrections?.forEach(correction => lines.push(correctionQuote(correction), ''));
+  });
+
+  const analysis = session.analysis;
+  if (analysis) {
+    lines.push('## Analysis', '');
+    if (analysis.estimatedLevel) lines.push(`**Estimated level:** ${analysis.estimatedLevel}`, '');
+    if (analysis.summary) lines.push(analysis.summary, '');
+    if (analysis.errors.length) {
+      lines.push('### Mistakes', '');
+      analysis.errors.forEach(error => {
+        lines.push(`- **${error.category}:** ${error.original} → ${error.corrected}${error.explanation ? ` — ${error.explanation}` : ''}`);
+      });
+      lines.push('');
+    }
+    if (analysis.strengths.length) {
+      lines.push('### Strengths', '', ...analysis.strengths.map(s => `- ${s}`), '');
+    }
+    if (analysis.nextSteps.length) {
+      lines.push('### Next steps', '', ...analysis.nextSteps.map(s => `- ${s}`), '');
+    }
+  }
+
+  return `${lines.join('\n').trimEnd()}\n`;
+}
+
+// JSON
+
+export function toSessionJson(session: SessionRecord, exportedAt: number = Date.now()): string {
+  const payload: SessionExport = { format: SESSION_EXPORT_FORMAT, version: SESSION_EXPORT_VERSION, exportedAt, session };
+  return JSON.stringify(payload, null, 2);
+}
+
+const coerceMessage = (value: unknown): ChatMessage | null => {
+  if (!isRecord(value)) return null;
+  const { id, text, sender, timestamp } = value;
+  if (typeof id !== 'string' || typeof text !== 'string' || typeof timestamp !== 'number') return null;
+  if (!Object.values(Sender).includes(sender as Sender)) return null;
+  const toolCall = coerceToolCall(value.toolCall);
+  const corrections = Array.isArray(value.corrections)
+    ? value.corrections.map(coerceCorrection).filter((c): c is Correction => c !== null)
+    : [];
+
+  return {
+    id,
+    text,
+    sender: sender as Sender,
+    timestamp,
+    ...(corrections.length > 0 ? { corrections } : {}),
+    ...(value.interrupted === true ? { interrupted: true } : {}),
+    ...(value.typed === true ? { typed: true } : {}),
+    ...(toolCall ? { toolCall } : {}),
+  };
+};
+
+/**
+ * Reads a file written by `toSessionJson`. Throws with a message fit for the
+ * learner when the file is not an export or comes from a newer app version.
+ */
+export function parseSessionJson(text: string): SessionRecord {
+  let payload: unknown;
+  try {
+    payload = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON.');
+  }
+
+  if (!isRecord(payload) || payload.format !== SESSION_EXPORT_FORMAT || !isRecord(payload.session)) {
+    throw new Error('The file is not a DeutschFlow session export.');
+  }
+  if (typeof payload.version !== 'number' || payload.version > SESSION_EXPORT_VERSION) {
+    throw new Error(`Unsupported export version ${String(payload.version)}; please update the app.`);
+  }
+
+  const session = payload.session;
+  if (typeof session.id !== 'string' || typeof session.startedAt !== 'number' || !Array.isArray(session.messages)) {
+    throw new Error('The session in the file is incomplete.');
+  }
+
+  const analysis = coerceAnalysis(session.analysis);
+  const summary = coerceSummary(session.summary);
+  const scenario = coerceScenarioProgress(session.scenario);
+  const topic = coerceTopic(session.topic);
+
+  return {
+    id: session.id,
+    title: typeof session.title === 'string' && session.title.trim() ? session.title : 'Imported session',
+    level: LEVELS.includes(session.level as ProficiencyLevel) ? (session.level as ProficiencyLevel) : 'B1',
+    startedAt: session.startedAt,
+    ...(typeof session.endedAt === 'number' ? { endedAt: session.endedAt } : {}),
+    ...(topic ? { topic } : {}),
+    ...(analysis ? { analysis } : {}),
+    ...(summary ? { summary } : {}),
+    ...(scenario ? { scenario } : {}),
+    messages: session.messages.map(coerceMessage).filter((m): m is ChatMessage => m !== null),
+  };
+}
+
+// Subtitles
+
+interface Cue {
+  start: number;
+  end: number;
+  speaker: string;
+  text: string;
+}
+
+// Each turn is shown from its own timestamp until the next turn starts
+const buildCues = (session: SessionRecord): Cue[] => {
+  const turns = conversation(session.messages).filter(m => spokenText(m));
+  return turns.map((message, i) => {
+    const start = Math.max(0, message.timestamp - session.startedAt);
+    const next = turns[i + 1];
+    const end = next ? Math.max(start + 1, next.timestamp - session.startedAt) : start + LAST_CUE_MS;
+    return { start, end, speaker: SPEAKERS[message.sender], text: spokenText(message) };
+  });
+};
+
+// A blank line would end the cue early, and "-->" is reserved in cue text
+const cueText = (text: string) =>
+  text
+    .split(/\r?\n/)
+    .map(line => line.trim())
+    .filter(Boolean)
+    .join('\n')
+    .replace(/-->/g, '->');
+
+export function toWebVtt(session: SessionRecord): string {
+  const cues = buildCues(session).map((cue, i) => {
+    // WebVTT voice spans take escaped text
+    const text = cueText(cue.text).replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+    return `${i + 1}\n${formatCueTime(cue.start)} --> ${formatCueTime(cue.end)}\n<v ${cue.speaker}>${text}`;
+  });
+  return `WEBVTT\n\n${cues.join('\n\n')}\n`;
+}
+
+export function toSrt(session: SessionRecord): string {
+  const cues = buildCues(session).map((cue, i) =>
+    `${i + 1}\n${formatCueTime(cue.start, ',')} --> ${formatCueTime(cue.end, ',')}\n${cue.speaker}: ${cueText(cue.text)}`
+  );
+  return `${cues.join('\n\n')}\n`;
+}
+
+// Anki
+
+export interface AnkiNote {
+  front: string;
+  back: string;
+}
+
+/**
+ * One note per distinct correction: the tutor's corrections first, then the
+ * mistakes listed in the analysis. Both sides are HTML, as Anki expects.
+ */
+export function collectAnkiNotes(session: SessionRecord): AnkiNote[] {
+  const entries: { wrong: string; corrected: string; explanation?: string }[] = [
+    ...session.messages.flatMap(messageCorrections),
+    ...(session.analysis?.errors ?? []).map(e => ({ wrong: e.original, corrected: e.corrected, explanation: e.explanation })),
+  ];
+
+  const seen = new Set<string>();
+  return entries.flatMap(({ wrong, corrected, explanation }) => {
+    const key = `${wrong.trim()}\n${corrected.trim()}`;
+    if (!wrong.trim() || !corrected.trim() || seen.has(key)) return [];
+    seen.add(key);
+    const back = escapeHtml(corrected.trim()) + (explanation?.trim() ? `<br>💡 ${escapeHtml(explanation.trim())}` : '');
+    return [{ front: escapeHtml(wrong.trim()), back }];
+  });
+}
+
+const csvField = (value: string) => (/[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+const tsvField = (value: string) => value.replace(/[\t\r\n]+/g, ' ');
+
+/** Anki "Import File" text with header lines, so the separator and HTML are picked up automatically. */
+export function toAnki(session: SessionRecord, separator: 'comma' | 'tab'): string {
+  const notes = collectAnkiNotes(session);
+  const header = [`#separator:${separator === 'comma' ? 'Comma' : 'Tab'}`, '#html:true', '#columns:Front;Back'];
+  const rows = notes.map(note =>
+    separator === 'comma'
+      ? `${csvField(note.front)},${csvField(note.back)}`
+      : `${tsvField(note.front)}\t${tsvField(note.back)}`
+  );
+  return `${[...header, ...rows].join('\n')}\n`;
+}
+
+export function exportSession(session: SessionRecord, format: ExportFormat): ExportFile {
+  const name = slugifyTitle(session.title);
+  switch (format) {
+    case 'markdown':
+      return { filename: `${name}.md`, mimeType: 'text/markdown', content: toMarkdown(session) };
+    case 'json':
+      return { filename: `${name}.json`, mimeType: 'application/json', content: toSessionJson(session) };
+    case 'vtt':
+      return { filename: `${name}.vtt`, mimeType: 'text/vtt', content: toWebVtt(session) };
+    case 'srt':
+      return { filename: `${name}.srt`, mimeType: 'application/x-subrip', content: toSrt(session) };
+    case 'anki-csv':
+      return { filename: `${name}-anki.csv`, mimeType: 'text/csv', content: toAnki(session, 'comma') };
+    case 'anki-tsv':
+      return { filename: `${name}-anki.txt`, mimeType: 'text/tab-separated-values', content: toAnki(session, 'tab') };
+  }
+}
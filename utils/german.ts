@@ -0,0 +1,13 @@
+/**
+ * Lower-cases German text and spells out umlauts and ß (ä → ae, ß → ss), so
+ * spellings with and without them compare equal.
+ */
+export function foldGerman(text: string): string {
+  return text
+    .normalize('NFC')
+    .toLowerCase()
+    .replace(/ä/g, 'ae')
+    .replace(/ö/g, 'oe')
+    .replace(/ü/g, 'ue')
+    .replace(/ß/g, 'ss');
+}
@@ -0,0 +1,4 @@
+/** A plain object, e.g. a parsed JSON object or a stored record. */
+export function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,63 @@
+/**
+ * In-memory least-recently-used cache. Entries are evicted once there are more
+ * than `maxEntries` of them or, when `sizeOf` is given, once their total size
+ * exceeds `maxSize`. A single entry larger than `maxSize` is not kept at all.
+ */
+export class LruCache<K, V> {
+  // A Map iterates in insertion order, so re-inserting on access keeps the
+  // least recently used entry first
+  private readonly entries = new Map<K, V>();
+  private totalSize = 0;
+
+  constructor(
+    private readonly maxEntries: number,
+    private readonly maxSize: number = Infinity,
+    private readonly sizeOf: (value: V) => number = () => 0
+  ) {}
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  has(key: K): boolean {
+    return this.entries.has(key);
+  }
+
+  /** Returns the value and marks it as the most recently used. */
+  get(key: K): V | undefined {
+    if (!this.entries.has(key)) return undefined;
+    const value = this.entries.get(key)!;
+    this.entries.delete(key);
+    this.entries.set(key, value);
+    return value;
+  }
+
+  /** Stores the value and returns the keys evicted to make room for it. */
+  set(key: K, value: V): K[] {
+    this.delete(key);
+    const size = this.sizeOf(value);
+    if (size > this.maxSize) return [];
+
+    this.entries.set(key, value);
+    this.totalSize += size;
+
+    const evicted: K[] = [];
+    while (this.entries.size > this.maxEntries || this.totalSize > this.maxSize) {
+      const oldest = this.entries.keys().next().value as K;
+      this.delete(oldest);
+      evicted.push(oldest);
+    }
+    return evicted;
+  }
+
+  delete(key: K): boolean {
+    if (!this.entries.has(key)) return false;
+    this.totalSize -= this.sizeOf(this.entries.get(key)!);
+    return this.entries.delete(key);
+  }
+
+  clear(): void {
+    this.entries.clear();
+    this.totalSize = 0;
+  }
+}
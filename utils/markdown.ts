@@ -0,0 +1,296 @@
+/**
+ * Minimal Markdown → HTML renderer for model output.
+ *
+ * Everything the model writes is treated as text: raw HTML is escaped, never
+ * passed through, and links are only emitted for http(s), mailto and relative
+ * URLs. The output is therefore safe to hand to `dangerouslySetInnerHTML`.
+ * Supported: headings, paragraphs, (nested) lists, blockquotes, fenced code,
+ * horizontal rules, GFM tables, bold/italic/strikethrough, code spans, links.
+ */
+
+type Alignment = 'left' | 'center' | 'right' | null;
+
+const HTML_ESCAPES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#39;',
+};
+
+export function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, c => HTML_ESCAPES[c]);
+}
+
+const SAFE_PROTOCOLS = ['http:', 'https:', 'mailto:'];
+
+/**
+ * Returns the URL if it is safe to use as an href, otherwise null.
+ * Browsers ignore whitespace and control characters inside the scheme
+ * ("java\tscript:"), so those are removed before the protocol is checked.
+ */
+export function sanitizeUrl(url: string): string | null {
+  const compact = url.replace(/[\u0000- \u007f-\u009f]+/g, '');
+  if (!compact) return null;
+
+  const scheme = compact.match(/^([a-z][a-z0-9+.-]*):/i);
+  if (!scheme) {
+    // Relative URL or fragment; reject protocol-relative "//host" links too
+    return compact.startsWith('//') ? null : compact;
+  }
+  return SAFE_PROTOCOLS.includes(scheme[1].toLowerCase() + ':') ? compact : null;
+}
+
+// Private-use placeholders keep already rendered HTML out of later inline passes
+const PLACEHOLDER_START = '\uE000';
+const PLACEHOLDER_END = '\uE001';
+
+const LINK_REGEX = /(!?)\[([^\]\n]+)\]\(\s*([^)\s]*)(?:\s+"[^"\n]*")?\s*\)/g;
+
+// Renders spans into `stash`-backed placeholders; nested calls (link labels) share the stash
+function renderSpans(source: string, stash: string[], allowLinks: boolean): string {
+  const hold = (html: string) => {
+    stash.push(html);
+    return `${PLACEHOLDER_START}${stash.length - 1}${PLACEHOLDER_END}`;
+  };
+
+  let text = source.replace(/(`+)([\s\S]*?[^`])\1(?!`)/g, (_, _ticks, code: string) =>
+    hold(`<code>${escapeHtml(code.trim())}</code>`)
+  );
+
+  if (allowLinks) {
+    text = text.replace(LINK_REGEX, (_, bang: string, label: string, url: string) => {
+      const labelHtml = renderSpans(label, stash, false);
+      // Images are never loaded from model output; show the alt text instead
+      if (bang) return hold(labelHtml);
+      const href = sanitizeUrl(url);
+      if (!href) return hold(labelHtml);
+      return hold(`<a href="${escapeHtml(href)}" target="_blank" rel="noopener noreferrer">${labelHtml}</a>`);
+    });
+  }
+
+  return escapeHtml(text)
+    .replace(/\\([\\`*_{}[\]()#+\-.!|~])/g, (_, c: string) => hold(c))
+    .replace(/\*\*(?=\S)([\s\S]*?\S)\*\*/g, '<strong>$1</strong>')
+    .replace(/__(?=\S)([\s\S]*?\S)__/g, '<strong>$1</strong>')
+    .replace(/~~(?=\S)([\s\S]*?\S)~~/g, '<del>$1</del>')
+    .replace(/\*(?=\S)([^*]*?\S)\*/g, '<em>$1</em>')
+    .replace(/(^|[^\p{L}\p{N}_])_(?=\S)([^_]*?\S)_(?![\p{L}\p{N}_])/gu, '$1<em>$2</em>');
+}
+
+function renderInline(source: string): string {
+  const stash: string[] = [];
+  let html = renderSpans(source.replace(new RegExp(`[${PLACEHOLDER_START}${PLACEHOLDER_END}]`, 'g'), ''), stash, true);
+
+  const placeholder = new RegExp(`${PLACEHOLDER_START}(\\d+)${PLACEHOLDER_END}`, 'g');
+  // Stashed fragments may themselves contain placeholders (e.g. code in link labels)
+  while (html.includes(PLACEHOLDER_START)) {
+    html = html.replace(placeholder, (_, index: string) => stash[Number(index)]);
+  }
+  return html;
+}
+
+const HEADING_REGEX = /^ {0,3}(#{1,6})\s+(.*?)\s*#*\s*$/;
+const HR_REGEX = /^ {0,3}([-*_])(?:\s*\1){2,}\s*$/;
+const FENCE_REGEX = /^ {0,3}(```|~~~)/;
+const LIST_ITEM_REGEX = /^(\s*)([-*+]|\d{1,9}[.)])\s+(.*)$/;
+const QUOTE_REGEX = /^ {0,3}>\s?(.*)$/;
+const TABLE_SEPARATOR_REGEX = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+
+const isBlank = (line: string) => line.trim() === '';
+
+const splitTableRow = (line: string): string[] => {
+  let row = line.trim();
+  if (row.startsWith('|')) row = row.slice(1);
+  if (row.endsWith('|') && !row.endsWith('\\|')) row = row.slice(0, -1);
+  return row.split(/(?<!\\)\|/).map(cell => cell.trim().replace(/\\\|/g, '|'));
+};
+
+const isTableStart = (lines: string[], i: number) =>
+  lines[i].includes('|') && i + 1 < lines.length && lines[i + 1].includes('-') && TABLE_SEPARATOR_REGEX.test(lines[i + 1]);
+
+const startsBlock = (lines: string[], i: number) =>
+  HEADING_REGEX.test(lines[i]) ||
+  HR_REGEX.test(lines[i]) ||
+  FENCE_REGEX.test(lines[i]) ||
+  LIST_ITEM_REGEX.test(lines[i]) ||
+  QUOTE_REGEX.test(lines[i]) ||
+  isTableStart(lines, i);
+
+const alignAttr = (align: Alignment) => (align ? ` style="text-align:${align}"` : '');
+
+function renderTable(lines: string[], start: number): { html: string; next: number } {
+  const header = splitTableRow(lines[start]);
+  const alignments: Alignment[] = splitTableRow(lines[start + 1]).map(cell => {
+    const left = cell.startsWith(':');
+    const right = cell.endsWith(':');
+    if (left && right) return 'center';
+    if (right) return 'right';
+    if (left) return 'left';
+    return null;
+  });
+
+  let i = start + 2;
+  const rows: string[][] = [];
+  while (i < lines.length && !isBlank(lines[i]) && lines[i].includes('|')) {
+    rows.push(splitTableRow(lines[i]));
+    i++;
+  }
+
+  const head = header
+    .map((cell, c) => `<th${alignAttr(alignments[c] ?? null)}>${renderInline(cell)}</th>`)
+    .join('');
+  const body = rows
+    .map(row => `<tr>${header.map((_, c) => `<td${alignAttr(alignments[c] ?? null)}>${renderInline(row[c] ?? '')}</td>`).join('')}</tr>`)
+    .join('');
+
+  return {
+    html: `<table><thead><tr>${head}</tr></thead>${body ? `<tbody>${body}</tbody>` : ''}</table>`,
+    next: i,
+  };
+}
+
+function renderList(lines: string[], start: number): { html: string; next: number } {
+  const first = lines[start].match(LIST_ITEM_REGEX)!;
+  const indent = first[1].length;
+  const ordered = /\d/.test(first[2]);
+  const items: string[] = [];
+
+  let i = start;
+  while (i < lines.length) {
+    const match = lines[i].match(LIST_ITEM_REGEX);
+    if (!match || match[1].length !== indent || /\d/.test(match[2]) !== ordered) break;
+
+    let content = renderInline(match[3]);
+    i++;
+
+    // Continuation lines and nested lists belong to the current item
+    while (i < lines.length && !isBlank(lines[i])) {
+      const nested = lines[i].match(LIST_ITEM_REGEX);
+      if (nested && nested[1].length > indent) {
+        const sublist = renderList(lines, i);
+        content += sublist.html;
+        i = sublist.next;
+      } else if (!nested && lines[i].match(/^\s*/)![0].length > indent && !startsBlock(lines, i)) {
+        content += `<br>${renderInline(lines[i].trim())}`;
+        i++;
+      } else {
+        break;
+      }
+    }
+    items.push(`<li>${content}</li>`);
+  }
+
+  const startNumber = ordered ? parseInt(first[2], 10) : 1;
+  const open = ordered ? (startNumber !== 1 ? `<ol start="${startNumber}">` : '<ol>') : '<ul>';
+  return { html: `${open}${items.join('')}${ordered ? '</ol>' : '</ul>'}`, next: i };
+}
+
+function renderBlocks(lines: string[]): string {
+  const out: string[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (isBlank(line)) {
+      i++;
+      continue;
+    }
+
+    const fence = line.match(FENCE_REGEX);
+    if (fence) {
+      const code: string[] = [];
+      i++;
+      while (i < lines.length && !lines[i].trim().startsWith(fence[1])) {
+        code.push(lines[i]);
+        i++;
+      }
+      i++; // closing fence (or end of input)
+      out.push(`<pre><code>${escapeHtml(code.join('\n'))}</code></pre>`);
+      continue;
+    }
+
+    const heading = line.match(HEADING_REGEX);
+    if (heading) {
+      const level = heading[1].length;
+      out.push(`<h${level}>${renderInline(heading[2])}</h${level}>`);
+      i++;
+      continue;
+    }
+
+    if (HR_REGEX.test(line)) {
+      out.push('<hr>');
+      i++;
+      continue;
+    }
+
+    if (isTableStart(lines, i)) {
+      const table = renderTable(lines, i);
+      out.push(table.html);
+      i = table.next;
+      continue;
+    }
+
+    if (LIST_ITEM_REGEX.test(line)) {
+      const list = renderList(lines, i);
+      out.push(list.html);
+      i = list.next;
+      continue;
+    }
+
+    if (QUOTE_REGEX.test(line)) {
+      const quoted: string[] = [];
+      while (i < lines.length && QUOTE_REGEX.test(lines[i])) {
+        quoted.push(lines[i].match(QUOTE_REGEX)![1]);
+        i++;
+      }
+      out.push(`<blockquote>${renderBlocks(quoted)}</blockquote>`);
+      continue;
+    }
+
+    const paragraph: string[] = [];
+    while (i < lines.length && !isBlank(lines[i]) && (paragraph.length === 0 || !startsBlock(lines, i))) {
+      paragraph.push(lines[i].trim());
+      i++;
+    }
+    out.push(`<p>${paragraph.map(l => renderInline(l)).join('<br>')}</p>`);
+  }
+
+  return out.join('');
+}
+
+/** Renders untrusted Markdown to sanitized HTML. */
+export function renderMarkdown(source: string): string {
+  return renderBlocks(source.replace(/\r\n?/g, '\n').split('\n'));
+}
+
+const BLOCK_PREFIX_REGEX = /^(?:#{1,6}\s+|>\s?|[-*+]\s+|\d+[.)]\s+)+/;
+const SKIPPED_LINE_REGEX = /^(?:```|~~~|([-*_])(?:\s*\1){2,}$|\|?\s*:?-{3,}:?\s*(?:\|\s*:?-{3,}:?\s*)*\|?$)/;
+
+/**
+ * The text of Markdown as it should be read aloud: markup, fences and rules
+ * are dropped, link labels and code are kept, table rows become lists.
+ */
+export function markdownToPlainText(source: string): string {
+  return source
+    .replace(/\r\n?/g, '\n')
+    .split('\n')
+    .map(line => line.trim())
+    .filter(line => line && !SKIPPED_LINE_REGEX.test(line))
+    .map(line => {
+      let text = line.replace(BLOCK_PREFIX_REGEX, '');
+      if (text.startsWith('|')) {
+        text = text.split('|').map(cell => cell.trim()).filter(Boolean).join(', ');
+      }
+      return text
+        .replace(LINK_REGEX, (_, _bang: string, label: string) => label)
+        .replace(/\\([\\`*_{}[\]()#+\-.!|~])/g, '$1')
+        .replace(/\*+|~~|`+/g, '')
+        .replace(/(^|[^\p{L}\p{N}_])_+|_+(?![\p{L}\p{N}_])/gu, '$1')
+        .replace(/\s+/g, ' ')
+        .trim();
+    })
+    .filter(Boolean)
+    .join('\n');
+}
@@ -0,0 +1,89 @@
+import { Resampler } from './audioUtils';
+import { createCaptureNode, loadCaptureWorklet } from './captureWorklet';
+import { VadEvent, VoiceActivityDetector } from './vad';
+
+/** Sample rate the live API expects for the learner's audio. */
+export const INPUT_SAMPLE_RATE = 16000;
+// Mic audio is captured in chunks of this duration
+export const CAPTURE_CHUNK_MS = 40;
+
+/** One captured chunk of the learner's audio. */
+export interface MicrophoneChunk {
+  /** The chunk resampled to `INPUT_SAMPLE_RATE`; can be empty. */
+  pcm: Float32Array;
+  /** Start or end of speech detected with this chunk. */
+  vadEvent: VadEvent | null;
+  isSpeaking: boolean;
+}
+
+export interface Microphone {
+  ctx: AudioContext;
+  /** The microphone input, e.g. for an analyser. */
+  source: MediaStreamAudioSourceNode;
+  /** Starts passing captured chunks on. */
+  start: (onChunk: (chunk: MicrophoneChunk) => void) => void;
+  /** Stops passing chunks on; the microphone stays open. */
+  pause: () => void;
+  /** Releases the microphone and closes the context. */
+  close: () => Promise<void>;
+}
+
+/**
+ * Asks for the microphone and sets up the capture worklet. Nothing is passed
+ * on before `start`; if opening fails, whatever was opened is released.
+ */
+export async function openMicrophone(): Promise<Microphone> {
+  const ctx = new (window.AudioContext || (window as any).webkitAudioContext)();
+  let stream: MediaStream | null = null;
+  let source: MediaStreamAudioSourceNode;
+  let captureNode: AudioWorkletNode;
+
+  try {
+    stream = await navigator.mediaDevices.getUserMedia({
+      audio: {
+        channelCount: 1,
+        echoCancellation: true,
+        autoGainControl: true,
+        noiseSuppression: true,
+      }
+    });
+    source = ctx.createMediaStreamSource(stream);
+    await loadCaptureWorklet(ctx);
+    captureNode = createCaptureNode(ctx, CAPTURE_CHUNK_MS);
+  } catch (error) {
+    stream?.getTracks().forEach(track => track.stop());
+    ctx.close().catch(() => {});
+    throw error;
+  }
+  const tracks = stream.getTracks();
+
+  const start = (onChunk: (chunk: MicrophoneChunk) => void) => {
+    const resampler = new Resampler(ctx.sampleRate, INPUT_SAMPLE_RATE);
+    const vad = new VoiceActivityDetector();
+    captureNode.port.onmessage = (e: MessageEvent<Float32Array>) => {
+      const vadEvent = vad.process(e.data);
+      onChunk({ pcm: resampler.process(e.data), vadEvent, isSpeaking: vad.isSpeaking });
+    };
+    // The worklet outputs silence; connecting it keeps it in the rendering graph
+    source.connect(captureNode);
+    captureNode.connect(ctx.destination);
+  };
+
+  const pause = () => {
+    captureNode.port.onmessage = null;
+  };
+
+  const close = async () => {
+    pause();
+    captureNode.disconnect();
+    tracks.forEach(track => track.stop());
+    if (ctx.state === 'closed') return;
+    try {
+      await ctx.close();
+    } catch (e) {
+      console.warn("Ctx close error", e);
+    }
+  };
+
+  return { ctx, source, start, pause, close };
+}
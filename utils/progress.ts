@@ -0,0 +1,192 @@
+import { CefrLevel, ChatMessage, ErrorCategory, Sender, SessionRecord } from '../types';
+import { ERROR_CATEGORIES } from './analysis';
+import { messageCorrections } from './corrections';
+import { tokenize } from './vocabulary';
+
+// A spoken turn longer than this is more likely a pause than a monologue
+const MAX_TURN_SECONDS = 60;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface SessionMetrics {
+  sessionId: string;
+  title: string;
+  startedAt: number;
+  /** Local calendar day, YYYY-MM-DD. */
+  day: string;
+  /** Learner turns. */
+  turns: number;
+  learnerWords: number;
+  /** Words of the spoken turns that `speakingSeconds` covers. */
+  spokenWords: number;
+  /** Time the learner spent talking, from recorded audio or the gaps between turns. */
+  speakingSeconds: number;
+  /** Learner words per minute of speaking; null without spoken turns. */
+  wordsPerMinute: number | null;
+  corrections: number;
+  correctionsByCategory: Partial<Record<ErrorCategory, number>>;
+  /** Null when the learner said nothing. */
+  correctionsPer100Words: number | null;
+  estimatedLevel: CefrLevel | null;
+}
+
+export interface CategoryRate {
+  category: ErrorCategory;
+  count: number;
+  per100Words: number;
+}
+
+export interface Streaks {
+  /** Consecutive days with a session, ending today or yesterday. */
+  current: number;
+  longest: number;
+  activeDays: number;
+}
+
+export interface ProgressSummary {
+  /** Sessions with at least one learner turn, oldest first. */
+  sessions: SessionMetrics[];
+  totals: {
+    sessions: number;
+    turns: number;
+    learnerWords: number;
+    speakingSeconds: number;
+  };
+  averages: {
+    turnsPerSession: number | null;
+    wordsPerMinute: number | null;
+    correctionsPer100Words: number | null;
+  };
+  /** Across all sessions, most frequent first. */
+  categories: CategoryRate[];
+  levelHistory: { startedAt: number; level: CefrLevel }[];
+  streaks: Streaks;
+}
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+export function toDayKey(timestamp: number): string {
+  const date = new Date(timestamp);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+// Whole days between two day keys, immune to DST shifts
+const dayNumber = (day: string) => {
+  const [year, month, date] = day.split('-').map(Number);
+  return Math.round(Date.UTC(year, month - 1, date) / DAY_MS);
+};
+
+const turnSeconds = (message: ChatMessage, next: ChatMessage | undefined, endedAt: number | undefined): number | null => {
+  if (message.audio) return Math.max(0, message.audio.end - message.audio.start);
+  const until = next?.timestamp ?? endedAt;
+  if (until === undefined || until <= message.timestamp) return null;
+  return Math.min(MAX_TURN_SECONDS, (until - message.timestamp) / 1000);
+};
+
+/**
+ * Tutor corrections carry no category, so a session's analysis is used when it
+ * has one; otherwise the corrections in the chat count as "Sonstiges".
+ */
+const countCorrections = (session: SessionRecord): Partial<Record<ErrorCategory, number>> => {
+  const counts: Partial<Record<ErrorCategory, number>> = {};
+  const errors = session.analysis?.errors ?? [];
+  if (errors.length > 0) {
+    errors.forEach(error => { counts[error.category] = (counts[error.category] ?? 0) + 1; });
+    return counts;
+  }
+  const inline = session.messages.reduce((sum, m) => sum + messageCorrections(m).length, 0);
+  if (inline > 0) counts.Sonstiges = inline;
+  return counts;
+};
+
+export function computeSessionMetrics(session: SessionRecord): SessionMetrics {
+  const turns = session.messages.filter(m => m.sender !== Sender.SYSTEM);
+  let learnerTurns = 0;
+  let learnerWords = 0;
+  let speakingSeconds = 0;
+  let spokenWords = 0;
+
+  turns.forEach((message, i) => {
+    if (message.sender !== Sender.USER) return;
+    const words = tokenize(message.text).length;
+    learnerTurns++;
+    learnerWords += words;
+    if (message.typed) return;
+
+    const seconds = turnSeconds(message, turns[i + 1], session.endedAt);
+    if (seconds === null || seconds === 0) return;
+    speakingSeconds += seconds;
+    spokenWords += words;
+  });
+
+  const correctionsByCategory = countCorrections(session);
+  const corrections = Object.values(correctionsByCategory).reduce((sum: number, n) => sum + (n ?? 0), 0);
+
+  return {
+    sessionId: session.id,
+    title: session.title,
+    startedAt: session.startedAt,
+    day: toDayKey(session.startedAt),
+    turns: learnerTurns,
+    learnerWords,
+    spokenWords,
+    speakingSeconds: round1(speakingSeconds),
+    wordsPerMinute: speakingSeconds > 0 ? Math.round(spokenWords / (speakingSeconds / 60)) : null,
+    corrections,
+    correctionsByCategory,
+    correctionsPer100Words: learnerWords > 0 ? round1((corrections / learnerWords) * 100) : null,
+    estimatedLevel: session.analysis?.estimatedLevel ?? null,
+  };
+}
+
+/** Streaks over days with at least one session; `today` is a day key. */
+export function computeStreaks(days: string[], today: string): Streaks {
+  const sorted = Array.from(new Set(days.map(dayNumber))).sort((a, b) => a - b);
+  let longest = 0;
+  let run = 0;
+  sorted.forEach((day, i) => {
+    run = i > 0 && day - sorted[i - 1] === 1 ? run + 1 : 1;
+    longest = Math.max(longest, run);
+  });
+
+  const last = sorted[sorted.length - 1];
+  // A streak is still alive on a day that has no session yet
+  const current = last !== undefined && dayNumber(today) - last <= 1 ? run : 0;
+  return { current, longest, activeDays: sorted.length };
+}
+
+/** Aggregates stored sessions into the trends shown on the progress dashboard. */
+export function summarizeProgress(records: SessionRecord[], now: number = Date.now()): ProgressSummary {
+  const sessions = records
+    .map(computeSessionMetrics)
+    .filter(metrics => metrics.turns > 0)
+    .sort((a, b) => a.startedAt - b.startedAt);
+
+  const sum = (pick: (m: SessionMetrics) => number) => sessions.reduce((total, m) => total + pick(m), 0);
+  const turns = sum(m => m.turns);
+  const learnerWords = sum(m => m.learnerWords);
+  const speakingSeconds = sum(m => m.speakingSeconds);
+  const spokenWords = sum(m => m.spokenWords);
+  const corrections = sum(m => m.corrections);
+
+  const categories = ERROR_CATEGORIES
+    .map(category => {
+      const count = sum(m => m.correctionsByCategory[category] ?? 0);
+      return { category, count, per100Words: learnerWords > 0 ? round1((count / learnerWords) * 100) : 0 };
+    })
+    .filter(rate => rate.count > 0)
+    .sort((a, b) => b.count - a.count);
+
+  return {
+    sessions,
+    totals: { sessions: sessions.length, turns, learnerWords, speakingSeconds: round1(speakingSeconds) },
+    averages: {
+      turnsPerSession: sessions.length > 0 ? round1(turns / sessions.length) : null,
+      wordsPerMinute: speakingSeconds > 0 ? Math.round(spokenWords / (speakingSeconds / 60)) : null,
+      correctionsPer100Words: learnerWords > 0 ? round1((corrections / learnerWords) * 100) : null,
+    },
+    categories,
+    levelHistory: sessions.flatMap(m => (m.estimatedLevel ? [{ startedAt: m.startedAt, level: m.estimatedLevel }] : [])),
+    streaks: computeStreaks(sessions.map(m => m.day), toDayKey(now)),
+  };
+}
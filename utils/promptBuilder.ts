@@ -0,0 +1,142 @@
+import { Scenario, TutorSettings } from '../types';
+import { CORRECTION_POLICIES, EXPLANATION_LANGUAGES, PERSONALITIES } from './tutorSettings';
+import { getScenarioInstruction } from './scenarios';
+
+/** Why a session is started with prior transcript context. */
+export type ContextReason = 'level-change' | 'resume' | 'reconnect';
+
+export interface PromptOptions {
+  level: string;
+  /** Transcript and summary of the conversation so far; empty for a fresh start. */
+  context?: string;
+  reason?: ContextReason;
+  scenario?: Scenario | null;
+  /** Words the learner has heard but never used, to work into the conversation. */
+  targetWords?: string[];
+}
+
+function personaSection({ tutorName, personality }: TutorSettings): string {
+  return `
+Starting now, your name is **${tutorName}**.
+${PERSONALITIES[personality].description}
+Your role is to:
+
+1. Understand the context of the conversation deeply.
+2. Remember key points discussed earlier in this session and use them to maintain continuity.
+3. Ask relevant, insightful, and engaging questions that help expand the conversation naturally.
+4. Suggest topics, ideas, or clarifications when appropriate.
+5. Provide detailed, clear, and accurate answers.
+6. Avoid repeating irrelevant information.
+7. Adapt your style and tone to the user, being helpful, friendly, and professional.
+8. Confirm understanding if a topic is unclear, and ask for clarification politely.
+9. Keep a mental summary of all discussed points in this session to avoid forgetting.
+
+You are not Gemini, and you should always refer to yourself as "${tutorName}".
+Stay in this role for the entire conversation unless I instruct otherwise.
+`.trim();
+}
+
+// The ❌/✔️/💡 format is what `parseCorrections` reads, so every policy keeps it
+function correctionRule({ correctionPolicy, explanationLanguage }: TutorSettings): string {
+  const when = {
+    all: 'If the user makes a grammar or vocabulary mistake, correct it right away using this exact format:',
+    blocking: 'Only correct mistakes that make the user hard to understand or change the meaning of what they say. Let small slips go so the conversation keeps flowing. Use this exact format:',
+    'end-of-turn': 'Do not interrupt yourself to correct the user. Reply to what they said first, then at the end of your turn list their mistakes, each in this exact format:',
+  }[correctionPolicy];
+  const language = explanationLanguage === 'de' ? 'simple German' : EXPLANATION_LANGUAGES[explanationLanguage].name;
+
+  return `- **Corrections** (${CORRECTION_POLICIES[correctionPolicy].label}): ${when}
+   ❌ Wrong sentence
+   ✔️ Correct sentence
+   💡 Short explanation in ${language}`;
+}
+
+function rulesSection(settings: TutorSettings, level: string, targetWords: string[]): string {
+  const lines = [
+    'OPERATIONAL RULES FOR THIS APP:',
+    '- **Language**: The conversation must take place in GERMAN.',
+    correctionRule(settings),
+  ];
+  if (settings.explanationLanguage !== 'de') {
+    const language = EXPLANATION_LANGUAGES[settings.explanationLanguage].name;
+    lines.push(`- **Explanations**: When the user asks what something means or why, explain it in ${language}, then go back to German.`);
+  }
+  lines.push('- **Engagement**: If the user is silent, use your curiosity to propose a new topic.');
+  // A correction given in the ❌/✔️ format is already parsed from the transcript; recording it too would show it twice
+  lines.push('- **Functions**: Keep the app in sync while you talk: call record_correction only for mistakes you do not correct in the format above (e.g. a slip you let go), add_vocabulary for new words you explain and set_topic when you settle on a new topic. Call suggest_level_change only when the level is clearly too easy or too hard. Never mention these calls to the user.');
+  if (targetWords.length > 0) {
+    lines.push(`- **Vocabulary**: Work these words into the conversation where they fit naturally and give the user chances to use them: ${targetWords.join(', ')}.`);
+  }
+  lines.push(`- **Target Level**: ${level}.`);
+  return lines.join('\n');
+}
+
+function contextSection(tutorName: string, level: string, context: string, reason: ContextReason): string {
+  if (reason === 'reconnect') {
+    return `
+IMPORTANT CONTEXT UPDATE:
+The connection to the user dropped for a moment and has just been restored.
+Below is the context of the conversation so far.
+Continue seamlessly from the last point. Do NOT greet the user again or introduce yourself.
+
+PREVIOUS CONTEXT:
+${context}
+`;
+  }
+
+  if (reason === 'resume') {
+    return `
+IMPORTANT CONTEXT UPDATE:
+The user is reopening an earlier conversation with you at level ${level}.
+Below is the context of that conversation.
+Please RESUME the conversation naturally from the last point.
+Briefly welcome the user back as ${tutorName}, then continue the topic.
+
+PREVIOUS CONTEXT:
+${context}
+`;
+  }
+
+  return `
+IMPORTANT CONTEXT UPDATE:
+The user has just changed their target proficiency level to ${level}.
+Below is the context of the conversation so far.
+Please RESUME the conversation naturally from the last point, but adapt your vocabulary and complexity to match the new level (${level}).
+Briefly acknowledge the change as ${tutorName}, then continue the topic.
+
+PREVIOUS CONTEXT:
+${context}
+`;
+}
+
+function firstMessageSection(tutorName: string, scenario: Scenario | null): string {
+  if (scenario) {
+    return `
+10. First message:
+   Open the scene in your role with one short, natural line in German. Do not introduce yourself as ${tutorName} yet.
+`;
+  }
+
+  return `
+10. First message:
+   “Hallo! Ich bin ${tutorName}. Ich bin bereit, unser Gespräch zu beginnen. Worüber möchtest du heute sprechen?”
+`;
+}
+
+/** Assembles the tutor's system instruction from the learner's settings and the session state. */
+export function buildSystemInstruction(
+  settings: TutorSettings,
+  { level, context = '', reason = 'level-change', scenario = null, targetWords = [] }: PromptOptions
+): string {
+  const sections = [personaSection(settings), rulesSection(settings, level, targetWords)];
+  if (scenario) sections.push(getScenarioInstruction(scenario, settings.tutorName));
+  const instruction = sections.join('\n\n');
+
+  if (context) {
+    return `${instruction}
+${contextSection(settings.tutorName, level, context, reason)}`;
+  }
+
+  return `${instruction}
+${firstMessageSection(settings.tutorName, scenario)}`;
+}
@@ -0,0 +1,215 @@
+import { CefrLevel, ChatMessage, Scenario, ScenarioGoal, ScenarioProgress, Sender } from '../types';
+import { CEFR_LEVELS } from './analysis';
+import { isRecord } from './guards';
+import { foldGerman } from './german';
+
+/**
+ * Bundled role-play catalogue. Goal patterns are written against
+ * `normalizeForMatching` output: lower case, umlauts as ae/oe/ue, ß as ss.
+ */
+export const SCENARIOS: Scenario[] = [
+  {
+    id: 'baeckerei',
+    title: 'Bäckerei',
+    icon: '🥐',
+    setting: 'A busy neighbourhood bakery on a Saturday morning. The learner wants to buy breakfast.',
+    tutorRole: 'the friendly baker behind the counter',
+    learnerRole: 'a customer',
+    minLevel: 'A1',
+    maxLevel: 'A2',
+    goals: [
+      { id: 'greet', label: 'Greet the baker', patterns: [/\b(guten (morgen|tag|abend)|hallo|gruess gott|moin|servus)\b/] },
+      { id: 'order', label: 'Order something', patterns: [/\bich (haette|hatte|moechte|nehme|haett|will)\b/, /\b(geben sie|gib) mir\b/, /\bfuer mich\b/] },
+      { id: 'price', label: 'Ask what it costs', patterns: [/\b(was|wie ?viel) (kostet|kosten|macht)\b/, /\bpreis\b/] },
+      { id: 'pay', label: 'Pay (cash or card)', patterns: [/\b(bar|mit (der )?karte|kartenzahlung|ec-karte|stimmt so|bezahlen|zahlen)\b/] },
+      { id: 'farewell', label: 'Say goodbye', patterns: [/\b(tschuess|auf wiedersehen|schoenen tag|bis (dann|morgen|bald)|wiederschauen|ciao)\b/] },
+    ],
+    closing: 'the learner has paid and said goodbye',
+  },
+  {
+    id: 'arzttermin',
+    title: 'Arzttermin',
+    icon: '🩺',
+    setting: 'A phone call to a GP practice. The learner feels ill and needs an appointment.',
+    tutorRole: 'the receptionist (Sprechstundenhilfe) of Dr. Keller\'s practice',
+    learnerRole: 'a patient calling the practice',
+    minLevel: 'A2',
+    maxLevel: 'B1',
+    goals: [
+      { id: 'introduce', label: 'Say who is calling', patterns: [/\b(mein name ist|ich heisse|hier (ist|spricht))\b/] },
+      { id: 'appointment', label: 'Ask for an appointment', patterns: [/\btermin\b/] },
+      { id: 'symptoms', label: 'Describe the symptoms', patterns: [/\b(schmerzen|tut (mir )?weh|fieber|husten|krank|schnupfen|uebel|schwindelig|erkaeltet|halsweh|kopfweh)\b/] },
+      { id: 'time', label: 'Agree on a day and time', patterns: [/\b(montag|dienstag|mittwoch|donnerstag|freitag|morgen|uebermorgen|\d{1,2} uhr|um \d{1,2}|das passt)\b/] },
+      { id: 'insurance', label: 'Give your health insurance', patterns: [/\b(versichert|krankenkasse|versicherung|versichertenkarte|gesundheitskarte|aok|tk|barmer|privat)\b/] },
+    ],
+    closing: 'an appointment is fixed and the call is ended politely',
+  },
+  {
+    id: 'wohnungsbesichtigung',
+    title: 'Wohnungsbesichtigung',
+    icon: '🏠',
+    setting: 'Viewing a two-room flat in Leipzig together with the landlord.',
+    tutorRole: 'the landlord (Vermieter) showing the flat',
+    learnerRole: 'someone looking for a flat',
+    minLevel: 'A2',
+    maxLevel: 'B2',
+    goals: [
+      { id: 'rent', label: 'Ask about rent and extra costs', patterns: [/\b(miete|kaltmiete|warmmiete|nebenkosten|kaution)\b/] },
+      { id: 'flat', label: 'Ask about the rooms or size', patterns: [/\b(zimmer|quadratmeter|qm|balkon|kueche|bad|badezimmer|keller|stock)\b/] },
+      { id: 'move-in', label: 'Ask when you can move in', patterns: [/\b(einziehen|frei ab|einzug|ab wann|bezugsfertig)\b/] },
+      { id: 'about-me', label: 'Tell the landlord about yourself', patterns: [/\bich (arbeite|studiere|bin (\w+ )?von beruf)\b/, /\bvon beruf\b/] },
+      { id: 'interest', label: 'Say whether you want the flat', patterns: [/\b(interesse|gefaellt mir|ich nehme|bewerben|unterlagen|zusage)\b/] },
+    ],
+    closing: 'the learner has said whether they want the flat and the landlord explains the next steps',
+  },
+  {
+    id: 'bewerbungsgespraech',
+    title: 'Bewerbungsgespräch',
+    icon: '💼',
+    setting: 'A job interview for a position at a mid-sized company in Munich, in a meeting room.',
+    tutorRole: 'Frau Berger, the head of the department who is interviewing',
+    learnerRole: 'the applicant',
+    minLevel: 'B1',
+    maxLevel: 'C1',
+    goals: [
+      { id: 'introduce', label: 'Introduce yourself', patterns: [/\b(mein name ist|ich heisse|jahre alt|ich komme aus)\b/] },
+      { id: 'experience', label: 'Talk about your experience', patterns: [/\b(erfahrung|gearbeitet|berufserfahrung|praktikum|ausbildung|studium|studiert)\b/] },
+      { id: 'strengths', label: 'Name your strengths', patterns: [/\b(staerke|staerken|ich kann gut|teamfaehig|zuverlaessig|belastbar|flexibel|organisiert)\b/] },
+      { id: 'motivation', label: 'Explain why you want the job', patterns: [/\b(ich interessiere mich|motiviert|motivation|reizt mich|passt (gut )?zu mir|deshalb moechte ich)\b/] },
+      { id: 'question', label: 'Ask a question about the job', patterns: [/\b(arbeitszeit|arbeitszeiten|gehalt|einarbeitung|homeoffice|home-office|urlaub|weiterbildung|team)\b/] },
+    ],
+    closing: 'the learner has asked their question and the interviewer ends the interview with the next steps',
+  },
+  {
+    id: 'buergeramt',
+    title: 'Bürgeramt',
+    icon: '🏛️',
+    setting: 'The learner has just moved and registers the new address at the citizens\' office (Anmeldung).',
+    tutorRole: 'a slightly hurried but correct clerk at the Bürgeramt',
+    learnerRole: 'a resident registering their address',
+    minLevel: 'A2',
+    maxLevel: 'B1',
+    goals: [
+      { id: 'purpose', label: 'Say why you are here', patterns: [/\b(anmelden|anmeldung|ummelden|wohnsitz|umgezogen|meldebescheinigung)\b/] },
+      { id: 'personal', label: 'Give your personal details', patterns: [/\b(geboren|geburtsdatum|staatsangehoerigkeit|mein name|nachname|vorname)\b/] },
+      { id: 'address', label: 'Give your new address', patterns: [/\w(strasse|weg|platz|allee|gasse)\b/, /\b(hausnummer|postleitzahl|adresse)\b/] },
+      { id: 'documents', label: 'Hand over your documents', patterns: [/\b(pass|reisepass|ausweis|personalausweis|mietvertrag|wohnungsgeberbestaetigung|formular)\b/] },
+      { id: 'thanks', label: 'Thank the clerk and say goodbye', patterns: [/\b(danke|vielen dank|tschuess|auf wiedersehen)\b/] },
+    ],
+    closing: 'the registration is done and the learner has thanked the clerk',
+  },
+];
+
+export function getScenario(id: string): Scenario | null {
+  return SCENARIOS.find(s => s.id === id) ?? null;
+}
+
+/** True if `level` lies inside the scenario's CEFR range. */
+export function isLevelInRange(scenario: Scenario, level: CefrLevel): boolean {
+  const index = CEFR_LEVELS.indexOf(level);
+  return index >= CEFR_LEVELS.indexOf(scenario.minLevel) && index <= CEFR_LEVELS.indexOf(scenario.maxLevel);
+}
+
+/** Lower-cases and spells out umlauts so patterns match however the transcript spells them. */
+export function normalizeForMatching(text: string): string {
+  return foldGerman(text);
+}
+
+export function isGoalAchieved(goal: ScenarioGoal, utterance: string): boolean {
+  const normalized = normalizeForMatching(utterance);
+  return goal.patterns.some(pattern => pattern.test(normalized));
+}
+
+export function createScenarioProgress(scenario: Scenario, startedAt: number = Date.now()): ScenarioProgress {
+  return { scenarioId: scenario.id, startedAt, achievedGoalIds: [] };
+}
+
+/** Restores stored progress, dropping goals or scenarios that are no longer in the catalogue. */
+export function coerceScenarioProgress(value: unknown): ScenarioProgress | null {
+  if (!isRecord(value) || typeof value.scenarioId !== 'string') return null;
+  const scenario = getScenario(value.scenarioId);
+  if (!scenario) return null;
+
+  const stored = Array.isArray(value.achievedGoalIds) ? value.achievedGoalIds : [];
+  return {
+    scenarioId: scenario.id,
+    startedAt: typeof value.startedAt === 'number' ? value.startedAt : 0,
+    achievedGoalIds: scenario.goals.filter(goal => stored.includes(goal.id)).map(goal => goal.id),
+    ...(typeof value.completedAt === 'number' ? { completedAt: value.completedAt } : {}),
+  };
+}
+
+/**
+ * Ticks off the goals reached by learner turns since the scenario started.
+ * Goals are never un-ticked; completion is stamped once every goal is reached.
+ * Returns the same object when nothing changed.
+ */
+export function updateScenarioProgress(
+  scenario: Scenario,
+  progress: ScenarioProgress,
+  messages: ChatMessage[],
+  now: number = Date.now(),
+): ScenarioProgress {
+  const achieved = new Set(progress.achievedGoalIds);
+  const utterances = messages
+    .filter(m => m.sender === Sender.USER && m.timestamp >= progress.startedAt)
+    .map(m => m.text);
+
+  scenario.goals.forEach(goal => {
+    if (!achieved.has(goal.id) && utterances.some(text => isGoalAchieved(goal, text))) {
+      achieved.add(goal.id);
+    }
+  });
+
+  return withAchievedGoals(scenario, progress, achieved, now);
+}
+
+/**
+ * Ticks off a goal the tutor reported as reached. Returns null for a goal
+ * that is not part of the scenario, the same object if it was already ticked.
+ */
+export function completeScenarioGoal(
+  scenario: Scenario,
+  progress: ScenarioProgress,
+  goalId: string,
+  now: number = Date.now(),
+): ScenarioProgress | null {
+  if (!scenario.goals.some(goal => goal.id === goalId)) return null;
+  return withAchievedGoals(scenario, progress, new Set([...progress.achievedGoalIds, goalId]), now);
+}
+
+function withAchievedGoals(
+  scenario: Scenario,
+  progress: ScenarioProgress,
+  achieved: Set<string>,
+  now: number,
+): ScenarioProgress {
+  const isComplete = scenario.goals.every(goal => achieved.has(goal.id));
+  if (achieved.size === progress.achievedGoalIds.length && (!isComplete || progress.completedAt)) {
+    return progress;
+  }
+
+  return {
+    ...progress,
+    // Keep catalogue order so the checklist reads top to bottom
+    achievedGoalIds: scenario.goals.filter(goal => achieved.has(goal.id)).map(goal => goal.id),
+    ...(isComplete && !progress.completedAt ? { completedAt: now } : {}),
+  };
+}
+
+/** Briefing added to the tutor's system instruction while a scenario runs. */
+export function getScenarioInstruction(scenario: Scenario, tutorName: string): string {
+  const goals = scenario.goals.map(goal => `   - ${goal.label} (id: ${goal.id})`).join('\n');
+
+  return `
+ROLE-PLAY SCENARIO: ${scenario.title}
+Situation: ${scenario.setting}
+Your role: ${scenario.tutorRole}. The user plays ${scenario.learnerRole}.
+- Stay in your role and speak as that person would. Keep your turns short so the user does most of the talking.
+- The user should reach these goals. Do not read them out; create natural opportunities for each one:
+${goals}
+- When the user reaches a goal, call complete_scenario_goal with its id.
+- Still correct mistakes in the usual format, but keep it brief and go straight back into the scene.
+- End the scene when ${scenario.closing}. Then step out of the role as ${tutorName} and give short feedback on how it went.
+`.trim();
+}
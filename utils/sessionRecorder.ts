@@ -0,0 +1,95 @@
+import { encodeWav, floatTo16BitPcm, Resampler } from './audioUtils';
+
+export const RECORDING_SAMPLE_RATE = 24000;
+const MIC_SAMPLE_RATE = 16000;
+// Mic audio is laid end to end; only a larger drift (e.g. a stalled capture thread) moves it back onto the clock
+const MIC_RESYNC_SECONDS = 0.25;
+
+interface Clip {
+  /** First sample on the recording timeline. */
+  start: number;
+  samples: Int16Array;
+}
+
+/**
+ * Records a session on one 24 kHz timeline: the learner's mic (16 kHz capture
+ * output, upsampled) and the tutor's PCM at the time it is played. Times are
+ * seconds since the recorder was created, measured by `clock` (milliseconds).
+ */
+export class SessionRecorder {
+  readonly id: string;
+  private readonly origin: number;
+  private readonly micClips: Clip[] = [];
+  private tutorClips: Clip[] = [];
+  private readonly micResampler = new Resampler(MIC_SAMPLE_RATE, RECORDING_SAMPLE_RATE);
+  private micCursor: number | null = null;
+
+  constructor(private readonly clock: () => number = () => performance.now()) {
+    this.origin = clock();
+    this.id = `recording-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+  }
+
+  /** Seconds since the recording started. */
+  now(): number {
+    return (this.clock() - this.origin) / 1000;
+  }
+
+  get duration(): number {
+    return this.lastSample() / RECORDING_SAMPLE_RATE;
+  }
+
+  /** Appends a captured 16 kHz mic chunk that ended at `endedAt` (seconds). */
+  addMic(samples: Float32Array, endedAt: number = this.now()): void {
+    const upsampled = this.micResampler.process(samples);
+    if (upsampled.length === 0) return;
+
+    const expected = Math.round(endedAt * RECORDING_SAMPLE_RATE) - upsampled.length;
+    if (this.micCursor === null || Math.abs(expected - this.micCursor) > MIC_RESYNC_SECONDS * RECORDING_SAMPLE_RATE) {
+      this.micCursor = Math.max(0, expected);
+    }
+    this.micClips.push({ start: this.micCursor, samples: floatTo16BitPcm(upsampled) });
+    this.micCursor += upsampled.length;
+  }
+
+  /** Places 24 kHz tutor PCM where it starts playing (seconds). */
+  addTutor(samples: Int16Array, startsAt: number): void {
+    if (samples.length === 0) return;
+    this.tutorClips.push({ start: Math.max(0, Math.round(startsAt * RECORDING_SAMPLE_RATE)), samples: samples.slice() });
+  }
+
+  /** Drops tutor audio from `at` on, e.g. playback that was flushed before it was heard. */
+  cutTutor(at: number): void {
+    const cut = Math.max(0, Math.round(at * RECORDING_SAMPLE_RATE));
+    this.tutorClips = this.tutorClips.flatMap(clip => {
+      if (clip.start >= cut) return [];
+      if (clip.start + clip.samples.length <= cut) return [clip];
+      return [{ start: clip.start, samples: clip.samples.slice(0, cut - clip.start) }];
+    });
+  }
+
+  /** Mixes both tracks between `from` and `to` (seconds) into 16-bit mono PCM. */
+  mix(from: number = 0, to: number = this.duration): Int16Array {
+    const first = Math.max(0, Math.round(from * RECORDING_SAMPLE_RATE));
+    const last = Math.min(this.lastSample(), Math.round(to * RECORDING_SAMPLE_RATE));
+    const length = Math.max(0, last - first);
+    const sum = new Int32Array(length);
+
+    [...this.micClips, ...this.tutorClips].forEach(clip => {
+      const begin = Math.max(first, clip.start);
+      const end = Math.min(first + length, clip.start + clip.samples.length);
+      for (let i = begin; i < end; i++) {
+        sum[i - first] += clip.samples[i - clip.start];
+      }
+    });
+    return Int16Array.from(sum, sample => Math.max(-32768, Math.min(32767, sample)));
+  }
+
+  /** The mixed recording, or a segment of it, as a WAV file. */
+  toWav(from?: number, to?: number): Uint8Array {
+    return encodeWav(this.mix(from, to), RECORDING_SAMPLE_RATE);
+  }
+
+  private lastSample(): number {
+    return [...this.micClips, ...this.tutorClips].reduce((max, clip) => Math.max(max, clip.start + clip.samples.length), 0);
+  }
+}
@@ -0,0 +1,185 @@
+import { ProficiencyLevel, ShadowingAttempt } from '../types';
+import { foldGerman } from './german';
+
+export type AlignmentOpType = 'match' | 'near' | 'substitution' | 'omission' | 'insertion';
+
+/**
+ * One step of a word alignment. `near` means the learner said the word
+ * without its umlaut (e.g. "schon" for "schön"), which is partly right.
+ */
+export interface AlignmentOp {
+  type: AlignmentOpType;
+  /** Word of the target sentence, absent for insertions. */
+  target?: string;
+  /** Word the learner said, absent for omissions. */
+  spoken?: string;
+}
+
+export interface ShadowingScore {
+  /** 0–100, like word accuracy (1 − WER) with half credit for near misses. */
+  accuracy: number;
+  matches: number;
+  near: number;
+  substitutions: number;
+  omissions: number;
+  insertions: number;
+}
+
+const NEAR_COST = 0.5;
+const WORD_REGEX = /[\p{L}\p{M}\p{N}]+(?:['’-][\p{L}\p{M}\p{N}]+)*/gu;
+
+// Sentences the tutor reads out, roughly graded by length and grammar
+export const SHADOWING_SENTENCES: Record<ProficiencyLevel, string[]> = {
+  A1: [
+    'Ich heiße Anna und komme aus Österreich.',
+    'Wir trinken morgens gern einen Kaffee.',
+    'Der Bus fährt um halb neun ab.',
+    'Meine Schwester wohnt in einer großen Stadt.',
+    'Können Sie das bitte noch einmal sagen?',
+    'Das Brötchen kostet fünfzig Cent.',
+  ],
+  A2: [
+    'Letztes Wochenende bin ich mit Freunden ins Kino gegangen.',
+    'Ich möchte einen Termin für nächste Woche vereinbaren.',
+    'Weil es regnet, bleiben wir heute zu Hause.',
+    'Die Wohnung hat zwei Zimmer, eine Küche und einen Balkon.',
+    'Könnten Sie mir sagen, wo der Bahnhof ist?',
+    'Im Sommer fahren wir oft an die Ostsee.',
+  ],
+  B1: [
+    'Obwohl ich müde war, habe ich den Bericht noch fertig geschrieben.',
+    'Ich würde gern wissen, ob das Frühstück im Preis inbegriffen ist.',
+    'Nachdem wir gegessen hatten, sind wir am Fluss spazieren gegangen.',
+    'Es fällt mir schwer, früh aufzustehen, wenn es draußen dunkel ist.',
+    'Die Veranstaltung wurde wegen des schlechten Wetters abgesagt.',
+    'Ich freue mich schon darauf, dich nächsten Monat zu besuchen.',
+  ],
+  B2: [
+    'Hätte ich das früher gewusst, wäre ich gar nicht erst hingefahren.',
+    'Die Regierung plant, die Förderung erneuerbarer Energien deutlich auszubauen.',
+    'Es lässt sich nicht leugnen, dass die Mieten in Großstädten stark gestiegen sind.',
+    'Je länger ich darüber nachdenke, desto überzeugter bin ich von der Idee.',
+    'Trotz aller Schwierigkeiten ist es uns gelungen, das Projekt rechtzeitig abzuschließen.',
+  ],
+  C1: [
+    'Angesichts der zunehmenden Digitalisierung müssen sich viele Berufsbilder grundlegend verändern.',
+    'Es wäre wünschenswert gewesen, die Betroffenen frühzeitiger in die Entscheidung einzubeziehen.',
+    'Wer sich mit den Ursachen des Klimawandels auseinandersetzt, stößt zwangsläufig auf wirtschaftliche Interessen.',
+    'Die Studie legt nahe, dass Mehrsprachigkeit die geistige Flexibilität bis ins hohe Alter fördert.',
+    'Ungeachtet der berechtigten Kritik überwiegen meines Erachtens die Vorteile des Vorschlags.',
+  ],
+};
+
+/** Picks a sentence for the level, avoiding the one just practised when possible. */
+export function pickShadowingSentence(level: ProficiencyLevel, previous: string | null = null, random: () => number = Math.random): string {
+  const pool = SHADOWING_SENTENCES[level];
+  const candidates = pool.length > 1 ? pool.filter(sentence => sentence !== previous) : pool;
+  return candidates[Math.floor(random() * candidates.length)];
+}
+
+export function splitWords(text: string): string[] {
+  return text.normalize('NFC').match(WORD_REGEX) ?? [];
+}
+
+/** Lower-cased with umlauts and ß spelled out, so "Straße" and "Strasse" compare equal. */
+export function foldWord(word: string): string {
+  return foldGerman(word).replace(/['’]/g, '');
+}
+
+// The word with its umlauts reduced to the bare vowel, as when the dots are not pronounced
+const stripUmlauts = (word: string) =>
+  word.normalize('NFC').toLowerCase().replace(/ä/g, 'a').replace(/ö/g, 'o').replace(/ü/g, 'u').replace(/ß/g, 'ss');
+
+const compareWords = (target: string, spoken: string): 'match' | 'near' | 'substitution' => {
+  if (foldWord(target) === foldWord(spoken)) return 'match';
+  if (stripUmlauts(target) === stripUmlauts(spoken)) return 'near';
+  return 'substitution';
+};
+
+/**
+ * Word-level edit-distance alignment of what the learner said against the
+ * target sentence. Substitutions, omissions and insertions cost 1, a missing
+ * umlaut costs half. Ties prefer pairing words over skipping them.
+ */
+export function alignWords(target: string, spoken: string): AlignmentOp[] {
+  const a = splitWords(target);
+  const b = splitWords(spoken);
+  const cost: number[][] = Array.from({ length: a.length + 1 }, (_, i) =>
+    Array.from({ length: b.length + 1 }, (_, j) => (i === 0 ? j : j === 0 ? i : 0))
+  );
+  const pairCost = (i: number, j: number) => {
+    const kind = compareWords(a[i], b[j]);
+    return kind === 'match' ? 0 : kind === 'near' ? NEAR_COST : 1;
+  };
+
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      cost[i][j] = Math.min(
+        cost[i - 1][j - 1] + pairCost(i - 1, j - 1),
+        cost[i - 1][j] + 1,
+        cost[i][j - 1] + 1
+      );
+    }
+  }
+
+  const ops: AlignmentOp[] = [];
+  let i = a.length;
+  let j = b.length;
+  while (i > 0 || j > 0) {
+    if (i > 0 && j > 0 && cost[i][j] === cost[i - 1][j - 1] + pairCost(i - 1, j - 1)) {
+      ops.push({ type: compareWords(a[i - 1], b[j - 1]), target: a[i - 1], spoken: b[j - 1] });
+      i--;
+      j--;
+    } else if (i > 0 && cost[i][j] === cost[i - 1][j] + 1) {
+      ops.push({ type: 'omission', target: a[i - 1] });
+      i--;
+    } else {
+      ops.push({ type: 'insertion', spoken: b[j - 1] });
+      j--;
+    }
+  }
+  return ops.reverse();
+}
+
+export function scoreAlignment(ops: AlignmentOp[]): ShadowingScore {
+  const count = (type: AlignmentOpType) => ops.filter(op => op.type === type).length;
+  const score = {
+    matches: count('match'),
+    near: count('near'),
+    substitutions: count('substitution'),
+    omissions: count('omission'),
+    insertions: count('insertion'),
+  };
+  const targetWords = score.matches + score.near + score.substitutions + score.omissions;
+  const errors = score.substitutions + score.omissions + score.insertions + score.near * NEAR_COST;
+  const accuracy = targetWords === 0 ? 0 : Math.max(0, Math.round((1 - errors / targetWords) * 100));
+  return { accuracy, ...score };
+}
+
+export interface ShadowingProgress {
+  sentence: string;
+  attempts: number;
+  first: number;
+  best: number;
+  latest: number;
+  lastPractisedAt: number;
+}
+
+/** Per-sentence history of accuracy, most recently practised first. */
+export function summarizeAttempts(attempts: ShadowingAttempt[]): ShadowingProgress[] {
+  const bySentence = new Map<string, ShadowingAttempt[]>();
+  [...attempts]
+    .sort((x, y) => x.createdAt - y.createdAt)
+    .forEach(attempt => bySentence.set(attempt.sentence, [...(bySentence.get(attempt.sentence) ?? []), attempt]));
+
+  return Array.from(bySentence.entries())
+    .map(([sentence, list]) => ({
+      sentence,
+      attempts: list.length,
+      first: list[0].accuracy,
+      best: Math.max(...list.map(attempt => attempt.accuracy)),
+      latest: list[list.length - 1].accuracy,
+      lastPractisedAt: list[list.length - 1].createdAt,
+    }))
+    .sort((x, y) => y.lastPractisedAt - x.lastPractisedAt);
+}
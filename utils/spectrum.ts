@@ -0,0 +1,31 @@
+/**
+ * Groups the bins of an AnalyserNode frequency snapshot (`getByteFrequencyData`)
+ * into `bands` levels between 0 and 1. Bands are spaced logarithmically between
+ * `minHz` and `maxHz`, so voices fill the width instead of the first few bars;
+ * each band shows its loudest bin.
+ */
+export function frequencyBands(bins: Uint8Array, sampleRate: number, bands: number, minHz = 80, maxHz = 8000): number[] {
+  const binHz = sampleRate / 2 / bins.length;
+  const top = Math.min(maxHz, sampleRate / 2);
+  const edge = (i: number) => minHz * Math.pow(top / minHz, i / bands);
+
+  return Array.from({ length: bands }, (_, i) => {
+    const first = Math.min(bins.length - 1, Math.floor(edge(i) / binHz));
+    const last = Math.min(bins.length - 1, Math.max(first, Math.ceil(edge(i + 1) / binHz) - 1));
+    let peak = 0;
+    for (let bin = first; bin <= last; bin++) peak = Math.max(peak, bins[bin]);
+    return peak / 255;
+  });
+}
+
+/**
+ * Picks `points` evenly spaced samples of an AnalyserNode waveform snapshot
+ * (`getByteTimeDomainData`, silence at 128) as values between -1 and 1.
+ */
+export function waveformPoints(samples: Uint8Array, points: number): number[] {
+  if (samples.length === 0) return new Array(points).fill(0);
+  return Array.from({ length: points }, (_, i) => {
+    const sample = samples[Math.floor((i * samples.length) / points)];
+    return (sample - 128) / 128;
+  });
+}
@@ -0,0 +1,41 @@
+// The slice of the Web Speech API used here; it is still vendor-prefixed in Chromium and untyped in lib.dom
+export interface SpeechRecognitionLike {
+  lang: string;
+  interimResults: boolean;
+  maxAlternatives: number;
+  onresult: ((event: { results: ArrayLike<ArrayLike<{ transcript: string }>> }) => void) | null;
+  onend: (() => void) | null;
+  onerror: (() => void) | null;
+  start(): void;
+  abort(): void;
+}
+
+type SpeechRecognitionConstructor = new () => SpeechRecognitionLike;
+
+/** The browser's speech recognition, or null where there is none (e.g. Firefox). */
+export function getSpeechRecognition(): SpeechRecognitionConstructor | null {
+  const speechWindow = window as unknown as Record<string, SpeechRecognitionConstructor | undefined>;
+  return speechWindow.SpeechRecognition || speechWindow.webkitSpeechRecognition || null;
+}
+
+/**
+ * Listens for one German utterance. `onEnd` runs whether or not anything was
+ * recognized; returns null when the browser cannot recognize speech.
+ */
+export function recognizeUtterance(onTranscript: (transcript: string) => void, onEnd: () => void): SpeechRecognitionLike | null {
+  const Recognition = getSpeechRecognition();
+  if (!Recognition) return null;
+
+  const recognition = new Recognition();
+  recognition.lang = 'de-DE';
+  recognition.interimResults = false;
+  recognition.maxAlternatives = 1;
+  recognition.onresult = event => {
+    const transcript = event.results?.[0]?.[0]?.transcript;
+    if (transcript) onTranscript(transcript);
+  };
+  recognition.onend = onEnd;
+  recognition.onerror = onEnd;
+  recognition.start();
+  return recognition;
+}
@@ -0,0 +1,144 @@
+import { ChatMessage, Correction, ReviewCard, ReviewGrade, ReviewSchedule } from '../types';
+import { messageCorrections } from './corrections';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const INITIAL_EASE = 2.5;
+export const MIN_EASE = 1.3;
+// Lapse penalty applied to the ease factor when a card is forgotten.
+export const LAPSE_EASE_PENALTY = 0.2;
+// A forgotten card comes back within the same study sitting.
+export const RELEARN_DELAY_MS = 10 * 60 * 1000;
+export const EASY_BONUS = 1.3;
+
+// SM-2 quality (0-5) for each self-assessment button.
+const GRADE_QUALITY: Record<ReviewGrade, number> = {
+  again: 1,
+  hard: 3,
+  good: 4,
+  easy: 5,
+};
+
+export function createSchedule(now: number): ReviewSchedule {
+  return {
+    ease: INITIAL_EASE,
+    intervalDays: 0,
+    repetitions: 0,
+    lapses: 0,
+    due: now,
+  };
+}
+
+/**
+ * Computes the next schedule for a card following SM-2:
+ * - failed recall resets the repetition count, counts a lapse and lowers the ease,
+ * - successful recall grows the interval 1 → 6 → interval × ease days,
+ * - the ease factor is adjusted by the SM-2 formula and never drops below 1.3.
+ */
+export function scheduleReview(schedule: ReviewSchedule, grade: ReviewGrade, now: number): ReviewSchedule {
+  const quality = GRADE_QUALITY[grade];
+
+  if (quality < 3) {
+    return {
+      ease: Math.max(MIN_EASE, schedule.ease - LAPSE_EASE_PENALTY),
+      intervalDays: 0,
+      repetitions: 0,
+      lapses: schedule.repetitions > 0 ? schedule.lapses + 1 : schedule.lapses,
+      due: now + RELEARN_DELAY_MS,
+      lastReviewedAt: now,
+    };
+  }
+
+  const ease = Math.max(
+    MIN_EASE,
+    schedule.ease + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02))
+  );
+  const repetitions = schedule.repetitions + 1;
+
+  let intervalDays: number;
+  if (repetitions === 1) {
+    intervalDays = 1;
+  } else if (repetitions === 2) {
+    intervalDays = 6;
+  } else {
+    intervalDays = Math.round(schedule.intervalDays * ease);
+  }
+  if (grade === 'easy') {
+    intervalDays = Math.round(intervalDays * EASY_BONUS);
+  }
+
+  return {
+    ease,
+    intervalDays,
+    repetitions,
+    lapses: schedule.lapses,
+    due: now + intervalDays * DAY_MS,
+    lastReviewedAt: now,
+  };
+}
+
+export function isDue(card: ReviewCard, now: number): boolean {
+  return card.schedule.due <= now;
+}
+
+/** Cards due for review, most overdue first. */
+export function getDueCards(cards: ReviewCard[], now: number): ReviewCard[] {
+  return cards
+    .filter(card => isDue(card, now))
+    .sort((a, b) => a.schedule.due - b.schedule.due);
+}
+
+const normalizeSentence = (text: string) =>
+  text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+
+/** Stable card id so the same mistake is never added to the deck twice. */
+export function cardIdFor(correction: Pick<Correction, 'wrong' | 'corrected'>): string {
+  return `${normalizeSentence(correction.wrong)}→${normalizeSentence(correction.corrected)}`;
+}
+
+/** Cards of corrections the tutor recorded through a function call and then withdrew. */
+export function withdrawnCardIds(messages: ChatMessage[]): Set<string> {
+  const ids = new Set<string>();
+  messages.forEach(({ toolCall }) => {
+    if (toolCall?.name === 'record_correction' && toolCall.status === 'cancelled') ids.add(cardIdFor(toolCall.args));
+  });
+  return ids;
+}
+
+/**
+ * Builds new cards for every tutor correction in `messages` that is not yet
+ * part of the deck (identified by `existingIds`).
+ */
+export function collectNewCards(
+  messages: ChatMessage[],
+  existingIds: ReadonlySet<string>,
+  now: number,
+  sessionId?: string
+): ReviewCard[] {
+  const seen = new Set(existingIds);
+  const cards: ReviewCard[] = [];
+
+  for (const message of messages) {
+    for (const correction of messageCorrections(message)) {
+      const id = cardIdFor(correction);
+      if (seen.has(id) || normalizeSentence(correction.wrong) === normalizeSentence(correction.corrected)) continue;
+      seen.add(id);
+      cards.push({
+        id,
+        wrong: correction.wrong,
+        corrected: correction.corrected,
+        ...(correction.explanation ? { explanation: correction.explanation } : {}),
+        createdAt: now,
+        ...(sessionId ? { sessionId } : {}),
+        schedule: createSchedule(now),
+      });
+    }
+  }
+
+  return cards;
+}
+
+/** True if the learner's answer matches the correction, ignoring case and punctuation. */
+export function isAnswerCorrect(answer: string, corrected: string): boolean {
+  return normalizeSentence(answer) === normalizeSentence(corrected);
+}
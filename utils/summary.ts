@@ -0,0 +1,76 @@
+import { ChatMessage, ConversationSummary, Sender } from '../types';
+import { isRecord } from './guards';
+
+// Keeps each list short enough to stay useful inside a system prompt
+export const SUMMARY_LIST_LIMIT = 12;
+
+const asString = (value: unknown): string =>
+  typeof value === 'string' ? value.trim() : '';
+
+const asStringList = (value: unknown): string[] => {
+  if (!Array.isArray(value)) return [];
+  const seen = new Set<string>();
+  return value.map(asString).filter(item => {
+    const key = item.toLowerCase();
+    if (!item || seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  }).slice(0, SUMMARY_LIST_LIMIT);
+};
+
+/** Learner and tutor turns only; system notices are not part of the conversation. */
+export function conversationTurns(messages: ChatMessage[]): ChatMessage[] {
+  return messages.filter(m => m.sender !== Sender.SYSTEM);
+}
+
+/** True once at least `every` turns have been added since the summary was last refreshed. */
+export function shouldRefreshSummary(turnCount: number, summary: ConversationSummary | null, every: number): boolean {
+  return turnCount - (summary?.coveredTurns ?? 0) >= every;
+}
+
+/**
+ * Validates an untrusted value (model output or a stored record) as a
+ * summary; returns null if it has no summary text.
+ */
+export function validateSummary(value: unknown, coveredTurns: number, updatedAt: number = Date.now()): ConversationSummary | null {
+  if (!isRecord(value)) return null;
+  const summary = asString(value.summary);
+  if (!summary) return null;
+
+  return {
+    summary,
+    entities: asStringList(value.entities),
+    topics: asStringList(value.topics),
+    recurringMistakes: asStringList(value.recurringMistakes),
+    coveredTurns,
+    updatedAt,
+  };
+}
+
+/** Parses the model's JSON response; null if it is not a usable summary. */
+export function parseSummary(text: string, coveredTurns: number, updatedAt: number = Date.now()): ConversationSummary | null {
+  // Tolerate a ```json fenced block even though JSON mode should not emit one
+  const unfenced = text.trim().replace(/^```(?:json)?\s*([\s\S]*?)\s*```$/i, '$1');
+  try {
+    return validateSummary(JSON.parse(unfenced), coveredTurns, updatedAt);
+  } catch {
+    return null;
+  }
+}
+
+/** Normalizes a summary read back from storage. */
+export function coerceSummary(value: unknown): ConversationSummary | null {
+  if (!isRecord(value)) return null;
+  const coveredTurns = typeof value.coveredTurns === 'number' ? value.coveredTurns : 0;
+  const updatedAt = typeof value.updatedAt === 'number' ? value.updatedAt : 0;
+  return validateSummary(value, coveredTurns, updatedAt);
+}
+
+/** Plain-text rendering of a summary for use in a prompt. */
+export function formatSummary(summary: ConversationSummary): string {
+  const lines = [summary.summary];
+  if (summary.entities.length) lines.push(`People, places and things: ${summary.entities.join('; ')}`);
+  if (summary.topics.length) lines.push(`Topics so far: ${summary.topics.join('; ')}`);
+  if (summary.recurringMistakes.length) lines.push(`Recurring mistakes of the learner: ${summary.recurringMistakes.join('; ')}`);
+  return lines.join('\n');
+}
@@ -0,0 +1,215 @@
+import { ProficiencyLevel, TopicInterest } from '../types';
+
+/** Summaries and questions are written for three bands instead of every single level. */
+export type TopicBand = 'basic' | 'intermediate' | 'advanced';
+
+export interface OfflineTopic {
+  id: string;
+  interest: TopicInterest;
+  title: string;
+  summaries: Record<TopicBand, string>;
+  questions: Record<TopicBand, string[]>;
+  vocabulary: string[];
+}
+
+export function getTopicBand(level: ProficiencyLevel): TopicBand {
+  if (level === 'A1' || level === 'A2') return 'basic';
+  if (level === 'B1') return 'intermediate';
+  return 'advanced';
+}
+
+// Evergreen topics used when search or the network is unavailable
+export const OFFLINE_TOPICS: OfflineTopic[] = [
+  {
+    id: 'sport-bundesliga',
+    interest: 'sport',
+    title: 'Fußball am Wochenende',
+    summaries: {
+      basic: 'Am Samstag spielt die Bundesliga. Viele Menschen sehen die Spiele im Stadion oder im Fernsehen.',
+      intermediate: 'Jedes Wochenende verfolgen Millionen Menschen die Spiele der Bundesliga, ob im Stadion, in der Kneipe oder zu Hause.',
+      advanced: 'Die Bundesliga ist nicht nur Sport, sondern auch ein Wirtschaftsfaktor: Fans diskutieren über steigende Ticketpreise und die 50+1-Regel.',
+    },
+    questions: {
+      basic: ['Magst du Fußball?', 'Welchen Sport machst du gern?'],
+      intermediate: ['Schaust du lieber im Stadion oder zu Hause?', 'Welcher Verein ist in deiner Stadt beliebt?'],
+      advanced: ['Sollten Fans mehr Einfluss auf ihre Vereine haben?', 'Ist Profifußball zu kommerziell geworden?'],
+    },
+    vocabulary: ['das Spiel – match', 'der Verein – club', 'das Stadion – stadium', 'gewinnen – to win'],
+  },
+  {
+    id: 'sport-radfahren',
+    interest: 'sport',
+    title: 'Mit dem Fahrrad zur Arbeit',
+    summaries: {
+      basic: 'Viele Deutsche fahren mit dem Fahrrad zur Arbeit. Das ist gesund und billig.',
+      intermediate: 'Immer mehr Städte bauen Radwege aus, damit Menschen mit dem Fahrrad statt mit dem Auto zur Arbeit fahren.',
+      advanced: 'Der Ausbau von Radschnellwegen soll den Verkehr entlasten, doch in vielen Städten wird um jeden Meter Straße gestritten.',
+    },
+    questions: {
+      basic: ['Hast du ein Fahrrad?', 'Wie fährst du zur Arbeit?'],
+      intermediate: ['Ist deine Stadt gut für Radfahrer?', 'Was spricht für das Fahrrad, was dagegen?'],
+      advanced: ['Sollten Autos aus Innenstädten verbannt werden?', 'Wie könnte man Radfahren sicherer machen?'],
+    },
+    vocabulary: ['das Fahrrad – bicycle', 'der Radweg – cycle lane', 'der Verkehr – traffic', 'gesund – healthy'],
+  },
+  {
+    id: 'sport-marathon',
+    interest: 'sport',
+    title: 'Der Berlin-Marathon',
+    summaries: {
+      basic: 'Im Herbst laufen tausende Menschen durch Berlin. Der Marathon ist 42 Kilometer lang.',
+      intermediate: 'Beim Berlin-Marathon laufen jedes Jahr über 40.000 Menschen mit, und die flache Strecke ist für Weltrekorde bekannt.',
+      advanced: 'Der Berlin-Marathon gilt als schnellste Strecke der Welt; gleichzeitig wächst die Kritik am Massentourismus rund um solche Großveranstaltungen.',
+    },
+    questions: {
+      basic: ['Läufst du gern?', 'Wie weit kannst du laufen?'],
+      intermediate: ['Würdest du einmal einen Marathon laufen?', 'Wie bereitest du dich auf ein großes Ziel vor?'],
+      advanced: ['Was motiviert Menschen, sich solchen Strapazen auszusetzen?', 'Überwiegen die Vorteile von Großveranstaltungen für eine Stadt?'],
+    },
+    vocabulary: ['laufen – to run', 'die Strecke – course', 'der Weltrekord – world record', 'das Ziel – finish, goal'],
+  },
+  {
+    id: 'culture-weihnachtsmarkt',
+    interest: 'culture',
+    title: 'Weihnachtsmärkte',
+    summaries: {
+      basic: 'Im Dezember gibt es in vielen Städten Weihnachtsmärkte. Man trinkt Glühwein und isst Lebkuchen.',
+      intermediate: 'Weihnachtsmärkte gehören zu den beliebtesten Traditionen in Deutschland und locken jedes Jahr auch viele Touristen an.',
+      advanced: 'Weihnachtsmärkte verbinden jahrhundertealte Tradition mit Kommerz, was manche als Verlust an Authentizität empfinden.',
+    },
+    questions: {
+      basic: ['Warst du schon auf einem Weihnachtsmarkt?', 'Was isst du gern im Winter?'],
+      intermediate: ['Welche Feste feiert man in deinem Land im Winter?', 'Was gefällt dir an Traditionen?'],
+      advanced: ['Verlieren Traditionen durch Kommerz ihren Wert?', 'Welche Tradition würdest du gern bewahren?'],
+    },
+    vocabulary: ['der Markt – market', 'der Glühwein – mulled wine', 'die Tradition – tradition', 'feiern – to celebrate'],
+  },
+  {
+    id: 'culture-museum',
+    interest: 'culture',
+    title: 'Die lange Nacht der Museen',
+    summaries: {
+      basic: 'Einmal im Jahr sind die Museen bis Mitternacht offen. Mit einem Ticket kann man viele Museen besuchen.',
+      intermediate: 'Bei der Langen Nacht der Museen öffnen Ausstellungen bis spät in die Nacht, oft mit Musik, Führungen und Programm für Familien.',
+      advanced: 'Formate wie die Lange Nacht der Museen sollen neue Zielgruppen gewinnen; Kritiker fragen, ob Kultur so zum Event verkommt.',
+    },
+    questions: {
+      basic: ['Gehst du gern ins Museum?', 'Welches Museum kennst du?'],
+      intermediate: ['Welche Ausstellung hat dich beeindruckt?', 'Wie könnte man Museen für junge Leute interessanter machen?'],
+      advanced: ['Sollte der Eintritt in Museen kostenlos sein?', 'Welche Rolle spielen Museen in einer digitalen Gesellschaft?'],
+    },
+    vocabulary: ['das Museum – museum', 'die Ausstellung – exhibition', 'die Führung – guided tour', 'besuchen – to visit'],
+  },
+  {
+    id: 'culture-buecher',
+    interest: 'culture',
+    title: 'Die Frankfurter Buchmesse',
+    summaries: {
+      basic: 'In Frankfurt gibt es jedes Jahr eine große Messe für Bücher. Viele Autoren lesen dort aus ihren Büchern.',
+      intermediate: 'Die Frankfurter Buchmesse ist die größte Buchmesse der Welt, und jedes Jahr steht ein anderes Gastland im Mittelpunkt.',
+      advanced: 'Trotz E-Books und Hörbüchern bleibt die Buchmesse ein Treffpunkt der Branche, die um Aufmerksamkeit im digitalen Zeitalter ringt.',
+    },
+    questions: {
+      basic: ['Liest du gern?', 'Was ist dein Lieblingsbuch?'],
+      intermediate: ['Liest du lieber gedruckte Bücher oder E-Books?', 'Welches Buch würdest du empfehlen?'],
+      advanced: ['Wird das gedruckte Buch überleben?', 'Wie beeinflussen soziale Medien, was wir lesen?'],
+    },
+    vocabulary: ['das Buch – book', 'die Messe – trade fair', 'der Autor – author', 'lesen – to read'],
+  },
+  {
+    id: 'tech-deutschlandticket',
+    interest: 'tech',
+    title: 'Das Deutschlandticket auf dem Handy',
+    summaries: {
+      basic: 'Mit dem Deutschlandticket fährt man mit Bus und Bahn in ganz Deutschland. Das Ticket ist oft auf dem Handy.',
+      intermediate: 'Das Deutschlandticket gilt im gesamten Nahverkehr und wird meist als digitales Abo in einer App gekauft.',
+      advanced: 'Das digitale Deutschlandticket hat den Nahverkehr vereinfacht, wirft aber Fragen zur Finanzierung und zur Teilhabe von Menschen ohne Smartphone auf.',
+    },
+    questions: {
+      basic: ['Fährst du oft mit dem Bus?', 'Hast du Tickets auf dem Handy?'],
+      intermediate: ['Sind digitale Tickets praktischer als Papier?', 'Wie ist der Nahverkehr in deiner Stadt?'],
+      advanced: ['Sollte Nahverkehr kostenlos sein?', 'Wer bleibt bei der Digitalisierung auf der Strecke?'],
+    },
+    vocabulary: ['die Fahrkarte – ticket', 'das Abo – subscription', 'der Nahverkehr – local transport', 'gelten – to be valid'],
+  },
+  {
+    id: 'tech-ki-alltag',
+    interest: 'tech',
+    title: 'Künstliche Intelligenz im Alltag',
+    summaries: {
+      basic: 'Viele Menschen benutzen Apps mit künstlicher Intelligenz. Die Apps übersetzen Texte oder beantworten Fragen.',
+      intermediate: 'Künstliche Intelligenz hilft heute beim Übersetzen, Schreiben und Planen, doch viele Menschen sind unsicher, wie sehr sie ihr vertrauen sollen.',
+      advanced: 'Während KI-Anwendungen den Alltag erleichtern, diskutiert die Politik über Regeln für Transparenz, Datenschutz und Haftung.',
+    },
+    questions: {
+      basic: ['Welche Apps benutzt du jeden Tag?', 'Benutzt du eine App zum Übersetzen?'],
+      intermediate: ['Wobei hilft dir Technik beim Deutschlernen?', 'Wo würdest du einer KI nicht vertrauen?'],
+      advanced: ['Wie sollte KI reguliert werden?', 'Welche Berufe werden sich durch KI am stärksten verändern?'],
+    },
+    vocabulary: ['die App – app', 'übersetzen – to translate', 'vertrauen – to trust', 'der Datenschutz – data protection'],
+  },
+  {
+    id: 'tech-reparieren',
+    interest: 'tech',
+    title: 'Reparieren statt wegwerfen',
+    summaries: {
+      basic: 'In Repair-Cafés reparieren Menschen zusammen alte Geräte. Das spart Geld und ist gut für die Umwelt.',
+      intermediate: 'In Repair-Cafés helfen Freiwillige dabei, kaputte Handys, Lampen oder Toaster zu reparieren, statt sie wegzuwerfen.',
+      advanced: 'Das geplante Recht auf Reparatur soll Hersteller verpflichten, Ersatzteile anzubieten, und so Elektroschrott verringern.',
+    },
+    questions: {
+      basic: ['Was machst du mit alten Sachen?', 'Kannst du etwas reparieren?'],
+      intermediate: ['Hast du schon einmal etwas reparieren lassen?', 'Warum werfen Menschen so viel weg?'],
+      advanced: ['Sollten Hersteller zur Reparierbarkeit verpflichtet werden?', 'Wie ließe sich Elektroschrott vermeiden?'],
+    },
+    vocabulary: ['reparieren – to repair', 'kaputt – broken', 'das Gerät – device', 'wegwerfen – to throw away'],
+  },
+  {
+    id: 'travel-ostsee',
+    interest: 'travel',
+    title: 'Urlaub an der Ostsee',
+    summaries: {
+      basic: 'Im Sommer fahren viele Familien an die Ostsee. Dort gibt es Strände, Fischbrötchen und kleine Dörfer.',
+      intermediate: 'Die Ostseeküste ist eines der beliebtesten Urlaubsziele in Deutschland, besonders für Familien und Radtouren entlang der Küste.',
+      advanced: 'Der Ostseetourismus boomt, was Gemeinden vor die Frage stellt, wie sie Einnahmen und den Schutz der Küstenlandschaft vereinbaren.',
+    },
+    questions: {
+      basic: ['Fährst du gern ans Meer?', 'Wo machst du gern Urlaub?'],
+      intermediate: ['Was war dein schönster Urlaub?', 'Machst du lieber Urlaub am Meer oder in den Bergen?'],
+      advanced: ['Wie verändert Massentourismus beliebte Orte?', 'Wie könnte nachhaltiges Reisen aussehen?'],
+    },
+    vocabulary: ['der Strand – beach', 'die Küste – coast', 'der Urlaub – holiday', 'das Meer – sea'],
+  },
+  {
+    id: 'travel-zug',
+    interest: 'travel',
+    title: 'Mit dem Nachtzug durch Europa',
+    summaries: {
+      basic: 'Mit dem Nachtzug schläft man im Zug und ist am Morgen in einer anderen Stadt.',
+      intermediate: 'Nachtzüge werden wieder beliebter, weil viele Reisende das Flugzeug vermeiden und bequem im Schlaf ankommen möchten.',
+      advanced: 'Die Renaissance der Nachtzüge gilt als Baustein klimafreundlicher Mobilität, scheitert aber oft an Kosten und fehlenden Verbindungen.',
+    },
+    questions: {
+      basic: ['Fährst du gern Zug?', 'Wohin möchtest du reisen?'],
+      intermediate: ['Würdest du im Zug schlafen?', 'Wie reist du am liebsten und warum?'],
+      advanced: ['Sollten Kurzstreckenflüge verboten werden?', 'Was müsste sich ändern, damit mehr Menschen Bahn fahren?'],
+    },
+    vocabulary: ['der Zug – train', 'die Verbindung – connection', 'reisen – to travel', 'ankommen – to arrive'],
+  },
+  {
+    id: 'travel-alpen',
+    interest: 'travel',
+    title: 'Wandern in den Alpen',
+    summaries: {
+      basic: 'In Bayern gibt es hohe Berge. Viele Menschen wandern dort und übernachten in einer Hütte.',
+      intermediate: 'Die Alpen sind ein Paradies für Wanderer, und auf den Berghütten trifft man Menschen aus ganz Europa.',
+      advanced: 'Der Klimawandel lässt Gletscher schmelzen und verändert Wanderwege, sodass Alpenvereine ihre Routen und Hütten anpassen müssen.',
+    },
+    questions: {
+      basic: ['Wanderst du gern?', 'Magst du Berge?'],
+      intermediate: ['Was nimmst du auf eine Wanderung mit?', 'Hast du schon einmal in einer Hütte übernachtet?'],
+      advanced: ['Wie verändert der Klimawandel den Tourismus in den Bergen?', 'Sollte der Zugang zu beliebten Gipfeln begrenzt werden?'],
+    },
+    vocabulary: ['wandern – to hike', 'der Berg – mountain', 'die Hütte – mountain hut', 'übernachten – to stay overnight'],
+  },
+];
@@ -0,0 +1,201 @@
+import { NewsTopic, ProficiencyLevel, TopicInterest } from '../types';
+import { getTopicBand, OFFLINE_TOPICS } from './topicBank';
+import { isRecord } from './guards';
+import { foldGerman } from './german';
+
+/** A topic shown to the learner recently, remembered so it is not suggested again. */
+export interface RecentTopic {
+  key: string;
+  title: string;
+  shownAt: number;
+}
+
+/** A grounded passage of the search answer and the sources backing it. */
+export interface GroundingSource {
+  text: string;
+  uris: string[];
+}
+
+export const TOPIC_INTERESTS: Record<TopicInterest, { label: string; icon: string; search: string }> = {
+  sport: { label: 'Sport', icon: '⚽', search: 'sports (football, cycling, running, winter sports, local clubs)' },
+  culture: { label: 'Culture', icon: '🎭', search: 'culture (music, film, literature, museums, festivals, traditions)' },
+  tech: { label: 'Tech', icon: '💡', search: 'technology and science in everyday life' },
+  travel: { label: 'Travel', icon: '🧳', search: 'travel and places in Germany, Austria and Switzerland' },
+};
+
+export const TOPIC_CANDIDATES = 3;
+// Shown topics stay out of suggestions for a month, and only the latest ones are remembered
+const RECENT_TOPIC_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+const MAX_RECENT_TOPICS = 60;
+const MAX_QUESTIONS = 3;
+const MAX_VOCABULARY = 6;
+
+const LEVEL_GUIDANCE: Record<ProficiencyLevel, string> = {
+  A1: 'A1: two very short sentences, present tense, only the most common everyday words',
+  A2: 'A2: two or three short sentences, present tense or simple Perfekt, everyday words',
+  B1: 'B1: three clear sentences, common connectors like weil/dass/obwohl, some topic words',
+  B2: 'B2: three or four sentences with subordinate clauses and topic-specific vocabulary',
+  C1: 'C1: a nuanced paragraph with idiomatic language and abstract vocabulary',
+};
+
+const asString = (value: unknown): string =>
+  typeof value === 'string' ? value.trim() : '';
+
+const asStringList = (value: unknown, max: number): string[] =>
+  Array.isArray(value) ? value.map(asString).filter(Boolean).slice(0, max) : [];
+
+const isInterest = (value: unknown): value is TopicInterest =>
+  typeof value === 'string' && value in TOPIC_INTERESTS;
+
+/** Identity of a topic across spellings, so "Die Buchmesse!" and "die buchmesse" are the same. */
+export function topicKey(title: string): string {
+  return foldGerman(title)
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+export function buildTopicPrompt(level: ProficiencyLevel, interest: TopicInterest, count: number, avoidTitles: string[]): string {
+  const avoid = avoidTitles.length > 0
+    ? `\nDo not suggest any of these recently shown topics: ${avoidTitles.map(title => `"${title}"`).join(', ')}.`
+    : '';
+  return `Find ${count} different, recent and positive news stories or events from Germany, Austria or Switzerland about ${TOPIC_INTERESTS[interest].search}.
+They should make a good conversation for a German learner at CEFR level ${level}.${avoid}
+
+For each story write, in German adapted to the level (${LEVEL_GUIDANCE[level]}):
+- "title": a short headline
+- "summary": the story retold at that level
+- "questions": ${MAX_QUESTIONS - 1} or ${MAX_QUESTIONS} warm-up questions for the learner
+- "vocabulary": 4 to ${MAX_VOCABULARY} key words with article where needed and an English gloss, formatted "der Begriff – term"
+
+Answer with only a JSON array of objects with exactly these keys, no other text.`;
+}
+
+// The answer may come wrapped in a code fence or with a sentence around the array
+const extractJsonArray = (text: string): unknown[] | null => {
+  const start = text.indexOf('[');
+  const end = text.lastIndexOf(']');
+  if (start === -1 || end <= start) return null;
+  try {
+    const parsed = JSON.parse(text.slice(start, end + 1));
+    return Array.isArray(parsed) ? parsed : null;
+  } catch {
+    return null;
+  }
+};
+
+/** The first source whose grounded passage mentions the topic. */
+export function findSourceUrl(topic: Pick<NewsTopic, 'title' | 'summary'>, sources: GroundingSource[]): string | undefined {
+  const title = topic.title.toLowerCase();
+  const summary = topic.summary.toLowerCase();
+  const match = sources.find(source => {
+    const passage = source.text.trim().toLowerCase();
+    if (!passage || source.uris.length === 0) return false;
+    return passage.includes(title) || (passage.length >= 20 && summary.includes(passage));
+  });
+  return match?.uris[0];
+}
+
+/**
+ * Reads the candidates from a search-grounded answer. Entries without a title
+ * or summary are dropped; links come only from the grounding sources, never
+ * from the model's own text.
+ */
+export function parseTopicCandidates(
+  text: string,
+  level: ProficiencyLevel,
+  interest: TopicInterest,
+  sources: GroundingSource[] = []
+): NewsTopic[] {
+  const items = extractJsonArray(text) ?? [];
+  const seen = new Set<string>();
+
+  return items.flatMap(item => {
+    if (!isRecord(item)) return [];
+    const title = asString(item.title);
+    const summary = asString(item.summary);
+    if (!title || !summary || seen.has(topicKey(title))) return [];
+    seen.add(topicKey(title));
+
+    const url = findSourceUrl({ title, summary }, sources);
+    return [{
+      title,
+      summary,
+      ...(url ? { url } : {}),
+      level,
+      interest,
+      questions: asStringList(item.questions, MAX_QUESTIONS),
+      vocabulary: asStringList(item.vocabulary, MAX_VOCABULARY),
+      source: 'search' as const,
+    }];
+  });
+}
+
+export function pruneRecentTopics(recent: RecentTopic[], now: number): RecentTopic[] {
+  return recent
+    .filter(topic => now - topic.shownAt < RECENT_TOPIC_TTL_MS)
+    .sort((a, b) => b.shownAt - a.shownAt)
+    .slice(0, MAX_RECENT_TOPICS);
+}
+
+/** Adds the topics just shown, most recent first; a topic shown again moves to the front. */
+export function rememberTopics(recent: RecentTopic[], shown: NewsTopic[], now: number): RecentTopic[] {
+  const keys = new Set(shown.map(topic => topicKey(topic.title)));
+  const fresh = shown.map(topic => ({ key: topicKey(topic.title), title: topic.title, shownAt: now }));
+  return pruneRecentTopics([...fresh, ...recent.filter(topic => !keys.has(topic.key))], now);
+}
+
+export function filterUnseenTopics(candidates: NewsTopic[], recent: RecentTopic[], now: number): NewsTopic[] {
+  const seen = new Set(pruneRecentTopics(recent, now).map(topic => topic.key));
+  return candidates.filter(topic => !seen.has(topicKey(topic.title)));
+}
+
+/**
+ * Topics from the bundled bank, adapted to the level. Unseen topics come first;
+ * once all have been shown, the ones shown longest ago are reused.
+ */
+export function pickOfflineTopics(
+  level: ProficiencyLevel,
+  interest: TopicInterest,
+  recent: RecentTopic[],
+  now: number,
+  count: number = TOPIC_CANDIDATES
+): NewsTopic[] {
+  const band = getTopicBand(level);
+  const shownAt = new Map(pruneRecentTopics(recent, now).map(topic => [topic.key, topic.shownAt]));
+
+  return OFFLINE_TOPICS
+    .filter(topic => topic.interest === interest)
+    .map((topic, index) => ({ topic, index, shownAt: shownAt.get(topicKey(topic.title)) ?? -1 }))
+    .sort((a, b) => a.shownAt - b.shownAt || a.index - b.index)
+    .slice(0, count)
+    .map(({ topic }) => ({
+      title: topic.title,
+      summary: topic.summaries[band],
+      level,
+      interest,
+      questions: topic.questions[band],
+      vocabulary: topic.vocabulary,
+      source: 'offline' as const,
+    }));
+}
+
+/** Validates a stored or imported topic; older records used "#" for a missing link. */
+export function coerceTopic(value: unknown): NewsTopic | null {
+  if (!isRecord(value)) return null;
+  const title = asString(value.title);
+  if (!title) return null;
+  const url = asString(value.url);
+  const questions = asStringList(value.questions, MAX_QUESTIONS);
+  const vocabulary = asStringList(value.vocabulary, MAX_VOCABULARY);
+
+  return {
+    title,
+    summary: asString(value.summary),
+    ...(url && url !== '#' ? { url } : {}),
+    ...(typeof value.level === 'string' && Object.keys(LEVEL_GUIDANCE).includes(value.level) ? { level: value.level as ProficiencyLevel } : {}),
+    ...(isInterest(value.interest) ? { interest: value.interest } : {}),
+    ...(questions.length > 0 ? { questions } : {}),
+    ...(vocabulary.length > 0 ? { vocabulary } : {}),
+    ...(value.source === 'search' || value.source === 'offline' ? { source: value.source } : {}),
+  };
+}
@@ -0,0 +1,31 @@
+import { ChatMessage, Sender } from '../types';
+
+/**
+ * Formats the learner/tutor turns of a conversation as plain "User:/Tutor:"
+ * lines for use as model context. System notices are skipped.
+ * Pass `limit` to keep only the most recent turns.
+ */
+export function formatTranscript(messages: ChatMessage[], limit?: number): string {
+  const turns = messages.filter(m => m.sender !== Sender.SYSTEM);
+  return (limit !== undefined ? turns.slice(-limit) : turns)
+    .map(m => `${m.sender === Sender.USER ? 'User' : 'Tutor'}: ${m.text}`)
+    .join('\n');
+}
+
+/** A chunk of tutor transcription and the playback time its audio starts at. */
+export interface TimedText {
+  text: string;
+  startTime: number;
+}
+
+/**
+ * Joins the transcription chunks whose audio had started playing before
+ * `playedUntil` (same clock as `startTime`), i.e. what the learner actually
+ * heard of a tutor turn that was cut off.
+ */
+export function textHeardUntil(segments: TimedText[], playedUntil: number): string {
+  return segments
+    .filter(segment => segment.startTime < playedUntil)
+    .map(segment => segment.text)
+    .join('');
+}
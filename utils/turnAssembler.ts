@@ -0,0 +1,95 @@
+import { Sender } from '../types';
+
+/** A learner or tutor turn that is still being transcribed. */
+export interface LiveTurn {
+  /** Kept when the turn is committed, so its caption turns into the final message in place. */
+  id: string;
+  sender: Sender.USER | Sender.MODEL;
+  text: string;
+  startedAt: number;
+  /** Position in the conversation, fixed when the first words of the turn arrive. */
+  order: number;
+}
+
+/**
+ * Assembles the streamed input and output transcriptions into turns. Each
+ * side has at most one open turn, and the boundaries follow the events:
+ * - a learner turn opens with the first input chunk and stays open while the
+ *   tutor answers, since input transcription can trail the reply;
+ * - a tutor turn opens with the first output chunk and ends on turn
+ *   completion or interruption, closing the learner turn it answered;
+ * - a turn completion without a tutor turn (the tutor stayed silent) still
+ *   ends the learner turn, unless it completes a turn the learner interrupted;
+ * - input arriving while the tutor speaks and no learner turn is open is the
+ *   learner talking over the tutor, so it opens a turn after the tutor's.
+ */
+export class TurnAssembler {
+  private seq = 0;
+  private user: LiveTurn | null = null;
+  private tutor: LiveTurn | null = null;
+  // The tutor was interrupted and the turn completion that follows is still to come
+  private interrupted = false;
+
+  constructor(private readonly now: () => number = Date.now) {}
+
+  /**
+   * A message id that is unique within the session, for turns as well as
+   * typed turns, notices and tool cards.
+   */
+  nextId(kind: string, at: number = this.now()): string {
+    return `${at}-${this.seq++}-${kind}`;
+  }
+
+  addInput(text: string): void {
+    if (this.user) this.user.text += text;
+    else this.user = this.open(Sender.USER, text);
+  }
+
+  addOutput(text: string): void {
+    if (this.tutor) this.tutor.text += text;
+    else this.tutor = this.open(Sender.MODEL, text);
+  }
+
+  /** The turns being transcribed, in conversation order. */
+  openTurns(): LiveTurn[] {
+    return [this.user, this.tutor]
+      .filter((turn): turn is LiveTurn => turn !== null)
+      .sort((a, b) => a.order - b.order);
+  }
+
+  /** Ends the learner turn, e.g. when the learner types or the tutor calls a function. */
+  closeUser(): LiveTurn | null {
+    const turn = this.user;
+    this.user = null;
+    return turn;
+  }
+
+  /**
+   * Ends the tutor turn together with the learner turn it answered. A learner
+   * turn that opened while the tutor was speaking stays open. Without a tutor
+   * turn, only a turn completion that does not follow an interruption ends the
+   * learner turn; otherwise the learner is still talking.
+   */
+  closeTutor(turnComplete = false): { user: LiveTurn | null; tutor: LiveTurn | null } {
+    const tutor = this.tutor;
+    const interrupted = this.interrupted;
+    this.tutor = null;
+    this.interrupted = !turnComplete;
+    if (!tutor) return { user: turnComplete && !interrupted ? this.closeUser() : null, tutor };
+    if (!this.user || this.user.order > tutor.order) return { user: null, tutor };
+    return { user: this.closeUser(), tutor };
+  }
+
+  /** Drops the open turns; ids stay unique. */
+  reset(): void {
+    this.user = null;
+    this.tutor = null;
+    this.interrupted = false;
+  }
+
+  private open(sender: LiveTurn['sender'], text: string): LiveTurn {
+    const startedAt = this.now();
+    const order = this.seq;
+    return { id: this.nextId(sender === Sender.USER ? 'user' : 'ai', startedAt), sender, text, startedAt, order };
+  }
+}
@@ -0,0 +1,95 @@
+import { CorrectionPolicy, ExplanationLanguage, TutorPersonality, TutorSettings, TutorVoice } from '../types';
+import { isRecord } from './guards';
+
+export const DEFAULT_TUTOR_SETTINGS: TutorSettings = {
+  tutorName: 'DAD',
+  personality: 'curious',
+  voice: 'Kore',
+  correctionPolicy: 'all',
+  explanationLanguage: 'de',
+  replayRate: 1,
+};
+
+const MAX_NAME_LENGTH = 24;
+
+export const PERSONALITIES: Record<TutorPersonality, { label: string; description: string }> = {
+  curious: {
+    label: 'Curious',
+    description: 'You are a highly intelligent, thoughtful, and curious AI who loves to dig deeper into what the user says.',
+  },
+  patient: {
+    label: 'Patient',
+    description: 'You are a calm and patient teacher. You speak slowly and clearly, encourage the user often, and never rush them.',
+  },
+  playful: {
+    label: 'Playful',
+    description: 'You are a cheerful, witty conversation partner who likes jokes, small games and surprising questions.',
+  },
+  direct: {
+    label: 'Direct',
+    description: 'You are a focused, no-nonsense coach. You keep small talk short and push the user to say more and say it precisely.',
+  },
+};
+
+export const VOICES: { voice: TutorVoice; label: string }[] = [
+  { voice: 'Kore', label: 'Kore (firm, female)' },
+  { voice: 'Aoede', label: 'Aoede (breezy, female)' },
+  { voice: 'Leda', label: 'Leda (youthful, female)' },
+  { voice: 'Zephyr', label: 'Zephyr (bright, female)' },
+  { voice: 'Puck', label: 'Puck (upbeat, male)' },
+  { voice: 'Charon', label: 'Charon (informative, male)' },
+  { voice: 'Fenrir', label: 'Fenrir (excitable, male)' },
+  { voice: 'Orus', label: 'Orus (firm, male)' },
+];
+
+export const CORRECTION_POLICIES: Record<CorrectionPolicy, { label: string; description: string }> = {
+  all: { label: 'Correct everything', description: 'Every grammar or vocabulary mistake, right away.' },
+  blocking: { label: 'Only what blocks understanding', description: 'Small slips are let go so the conversation keeps flowing.' },
+  'end-of-turn': { label: 'At the end of each turn', description: 'The tutor answers first and lists your mistakes afterwards.' },
+};
+
+export const EXPLANATION_LANGUAGES: Record<ExplanationLanguage, { label: string; name: string }> = {
+  de: { label: 'Deutsch', name: 'German' },
+  en: { label: 'English', name: 'English' },
+  fr: { label: 'Français', name: 'French' },
+  ar: { label: 'العربية', name: 'Arabic' },
+};
+
+export const REPLAY_RATES: { rate: number; label: string }[] = [
+  { rate: 1, label: 'Normal' },
+  { rate: 0.85, label: 'A little slower' },
+  { rate: 0.7, label: 'Slow' },
+];
+
+const pick = <T extends string>(value: unknown, allowed: readonly T[], fallback: T): T =>
+  allowed.includes(value as T) ? (value as T) : fallback;
+
+/** Trims the tutor name to something that reads well in a prompt and a chat bubble. */
+export function normalizeTutorName(name: string): string {
+  return name.replace(/\s+/g, ' ').trim().slice(0, MAX_NAME_LENGTH);
+}
+
+/** Restores stored settings, falling back to the defaults field by field. */
+export function coerceTutorSettings(value: unknown): TutorSettings {
+  if (!isRecord(value)) return DEFAULT_TUTOR_SETTINGS;
+  const name = typeof value.tutorName === 'string' ? normalizeTutorName(value.tutorName) : '';
+
+  return {
+    tutorName: name || DEFAULT_TUTOR_SETTINGS.tutorName,
+    personality: pick(value.personality, Object.keys(PERSONALITIES) as TutorPersonality[], DEFAULT_TUTOR_SETTINGS.personality),
+    voice: pick(value.voice, VOICES.map(v => v.voice), DEFAULT_TUTOR_SETTINGS.voice),
+    correctionPolicy: pick(
+      value.correctionPolicy,
+      Object.keys(CORRECTION_POLICIES) as CorrectionPolicy[],
+      DEFAULT_TUTOR_SETTINGS.correctionPolicy
+    ),
+    explanationLanguage: pick(
+      value.explanationLanguage,
+      Object.keys(EXPLANATION_LANGUAGES) as ExplanationLanguage[],
+      DEFAULT_TUTOR_SETTINGS.explanationLanguage
+    ),
+    replayRate: REPLAY_RATES.some(({ rate }) => rate === value.replayRate)
+      ? (value.replayRate as number)
+      : DEFAULT_TUTOR_SETTINGS.replayRate,
+  };
+}
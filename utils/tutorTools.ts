@@ -0,0 +1,204 @@
+import { FunctionCall, FunctionDeclaration, FunctionResponse, Type } from '@google/genai';
+import { ChatMessage, ProficiencyLevel, Sender, TutorToolArgs, TutorToolCall, TutorToolName } from '../types';
+import { buildCorrection } from './corrections';
+import { isRecord } from './guards';
+
+/**
+ * Handlers run against the app state when the tutor calls a function. They
+ * return a short confirmation for the tutor, or throw to refuse the call
+ * (e.g. a goal that is not part of the current scenario).
+ */
+export type TutorToolHandlers = {
+  [K in TutorToolName]?: (args: TutorToolArgs[K]) => string;
+};
+
+export type ToolValidation =
+  | { [K in TutorToolName]: { ok: true; name: K; args: TutorToolArgs[K] } }[TutorToolName]
+  | { ok: false; error: string };
+
+const LEVELS: ProficiencyLevel[] = ['A1', 'A2', 'B1', 'B2', 'C1'];
+const MAX_TEXT_LENGTH = 300;
+const MAX_QUESTIONS = 3;
+
+export const TUTOR_TOOL_DECLARATIONS: FunctionDeclaration[] = [
+  {
+    name: 'record_correction',
+    description: 'Save a mistake the user just made that you did not correct with ❌/✔️, so it still shows up as a correction card and in their review deck. Never call it for a correction you gave in that format.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        wrong: { type: Type.STRING, description: 'The sentence exactly as the user said it.' },
+        corrected: { type: Type.STRING, description: 'The corrected sentence.' },
+        explanation: { type: Type.STRING, description: 'One short explanation of the rule.' },
+      },
+      required: ['wrong', 'corrected'],
+    },
+  },
+  {
+    name: 'add_vocabulary',
+    description: 'Add a word you just introduced or explained to the user\'s vocabulary list.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        word: { type: Type.STRING, description: 'The German word, nouns with their article.' },
+        translation: { type: Type.STRING, description: 'A short English gloss.' },
+      },
+      required: ['word'],
+    },
+  },
+  {
+    name: 'set_topic',
+    description: 'Set the topic of the conversation when you and the user settle on a new one.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        title: { type: Type.STRING, description: 'A short German headline.' },
+        summary: { type: Type.STRING, description: 'One or two German sentences at the user\'s level.' },
+        questions: { type: Type.ARRAY, items: { type: Type.STRING }, description: 'Up to three questions to keep the user talking.' },
+      },
+      required: ['title', 'summary'],
+    },
+  },
+  {
+    name: 'complete_scenario_goal',
+    description: 'Tick off a goal of the current role-play once the user has reached it.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        goal_id: { type: Type.STRING, description: 'The id of the goal, as listed in the scenario briefing.' },
+      },
+      required: ['goal_id'],
+    },
+  },
+  {
+    name: 'suggest_level_change',
+    description: 'Suggest a different proficiency level when the current one is clearly too easy or too hard. The user decides.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        level: { type: Type.STRING, enum: LEVELS, description: 'The suggested level.' },
+        reason: { type: Type.STRING, description: 'One short sentence, addressed to the user, on why.' },
+      },
+      required: ['level', 'reason'],
+    },
+  },
+];
+
+const asText = (value: unknown): string =>
+  typeof value === 'string' ? value.replace(/\s+/g, ' ').trim().slice(0, MAX_TEXT_LENGTH) : '';
+
+// Validators return the typed arguments or the reason they were rejected
+const VALIDATORS: { [K in TutorToolName]: (args: Record<string, unknown>) => TutorToolArgs[K] | string } = {
+  record_correction: args => {
+    const wrong = asText(args.wrong);
+    const corrected = asText(args.corrected);
+    const explanation = asText(args.explanation);
+    if (!wrong || !corrected) return '"wrong" and "corrected" are required.';
+    if (wrong === corrected) return '"wrong" and "corrected" are the same sentence.';
+    return { wrong, corrected, ...(explanation ? { explanation } : {}) };
+  },
+  add_vocabulary: args => {
+    const word = asText(args.word);
+    const translation = asText(args.translation);
+    if (!word) return '"word" is required.';
+    return { word, ...(translation ? { translation } : {}) };
+  },
+  set_topic: args => {
+    const title = asText(args.title);
+    const summary = asText(args.summary);
+    if (!title || !summary) return '"title" and "summary" are required.';
+    const questions = Array.isArray(args.questions) ? args.questions.map(asText).filter(Boolean).slice(0, MAX_QUESTIONS) : [];
+    return { title, summary, questions };
+  },
+  complete_scenario_goal: args => {
+    const goalId = asText(args.goal_id);
+    return goalId ? { goalId } : '"goal_id" is required.';
+  },
+  suggest_level_change: args => {
+    const level = asText(args.level).toUpperCase() as ProficiencyLevel;
+    const reason = asText(args.reason);
+    if (!LEVELS.includes(level)) return `"level" must be one of ${LEVELS.join(', ')}.`;
+    return { level, reason };
+  },
+};
+
+export const isTutorToolName = (name: unknown): name is TutorToolName =>
+  typeof name === 'string' && Object.prototype.hasOwnProperty.call(VALIDATORS, name);
+
+/** Checks a function call from the model against the declared tools. */
+export function validateToolCall(name: unknown, args: unknown): ToolValidation {
+  if (!isTutorToolName(name)) return { ok: false, error: `Unknown function "${String(name)}".` };
+  const validated = VALIDATORS[name](isRecord(args) ? args : {});
+  if (typeof validated === 'string') return { ok: false, error: validated };
+  return { ok: true, name, args: validated } as ToolValidation;
+}
+
+export interface ToolCallOutcome {
+  /** What the call did, shown as a card; null when the call itself was invalid. */
+  record: TutorToolCall | null;
+  /** The answer sent back to the tutor, so it can go on or correct itself. */
+  response: FunctionResponse;
+}
+
+/**
+ * Validates a call and runs its handler. Calls without a handler succeed
+ * as-is; the card they produce is all the app does with them.
+ */
+export function runToolCall(call: FunctionCall, handlers: TutorToolHandlers): ToolCallOutcome {
+  const reply = (response: Record<string, unknown>): FunctionResponse => ({ id: call.id, name: call.name, response });
+  const validation = validateToolCall(call.name, call.args);
+  if (validation.ok === false) return { record: null, response: reply({ error: validation.error }) };
+
+  const { name, args } = validation;
+  const handler = handlers[name] as ((args: TutorToolArgs[typeof name]) => string) | undefined;
+  const base = { id: call.id ?? '', name, args };
+  try {
+    const result = handler ? handler(args) : 'Done.';
+    return { record: { ...base, status: 'done', result } as TutorToolCall, response: reply({ output: result }) };
+  } catch (e) {
+    const result = e instanceof Error ? e.message : String(e);
+    return { record: { ...base, status: 'failed', result } as TutorToolCall, response: reply({ error: result }) };
+  }
+}
+
+/** Plain-text line for a call, used where the card cannot be shown. */
+export function describeToolCall(call: TutorToolCall): string {
+  switch (call.name) {
+    case 'record_correction':
+      return `Correction: ${call.args.wrong} → ${call.args.corrected}`;
+    case 'add_vocabulary':
+      return `New word: ${call.args.word}${call.args.translation ? ` (${call.args.translation})` : ''}`;
+    case 'set_topic':
+      return `Topic: ${call.args.title}`;
+    case 'complete_scenario_goal':
+      return `Goal reached: ${call.args.goalId}`;
+    case 'suggest_level_change':
+      return `Suggested level: ${call.args.level}`;
+  }
+}
+
+/** Restores a stored or imported call, re-validating its arguments. */
+export function coerceToolCall(value: unknown): TutorToolCall | null {
+  if (!isRecord(value) || typeof value.id !== 'string' || typeof value.result !== 'string') return null;
+  if (value.status !== 'done' && value.status !== 'failed' && value.status !== 'cancelled') return null;
+  // Stored arguments are in their validated shape, where the goal is `goalId` rather than the tool's `goal_id`
+  const args = isRecord(value.args) && typeof value.args.goalId === 'string' ? { goal_id: value.args.goalId } : value.args;
+  const validation = validateToolCall(value.name, args);
+  if (validation.ok === false) return null;
+  return { id: value.id, name: validation.name, args: validation.args, status: value.status, result: value.result } as TutorToolCall;
+}
+
+/** The chat entry for a call. Recorded corrections carry the correction, so they reach the review deck. */
+export function toolCallMessage(call: TutorToolCall, id: string, timestamp: number): ChatMessage {
+  const corrections = call.name === 'record_correction' && call.status === 'done'
+    ? [buildCorrection(call.args.wrong, call.args.corrected, call.args.explanation)]
+    : [];
+  return {
+    id,
+    sender: Sender.SYSTEM,
+    text: describeToolCall(call),
+    timestamp,
+    toolCall: call,
+    ...(corrections.length ? { corrections } : {}),
+  };
+}
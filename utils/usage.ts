@@ -0,0 +1,265 @@
+import { BudgetStatus, ModelPrice, ModelRequest, RateLimit, TokenCounts, UsageFeature, UsageRecord, UsageSettings } from '../types';
+import { isRecord } from './guards';
+
+// List prices at the time of writing, in USD per million tokens; they can be changed in the usage panel
+export const DEFAULT_PRICES: Record<string, ModelPrice> = {
+  'gemini-2.5-flash-native-audio-preview-09-2025': { inputText: 0.5, inputAudio: 3, outputText: 2, outputAudio: 12 },
+  'gemini-3-pro-preview': { inputText: 2, inputAudio: 2, outputText: 12, outputAudio: 12 },
+  'gemini-2.5-flash': { inputText: 0.3, inputAudio: 1, outputText: 2.5, outputAudio: 2.5 },
+  'gemini-2.5-flash-preview-tts': { inputText: 0.5, inputAudio: 0.5, outputText: 10, outputAudio: 10 },
+};
+
+export const ANALYSIS_THINKING_BUDGETS: { budget: number; label: string }[] = [
+  { budget: 2048, label: 'Quick' },
+  { budget: 8192, label: 'Balanced' },
+  { budget: 32768, label: 'Thorough (most expensive)' },
+];
+
+export const DEFAULT_USAGE_SETTINGS: UsageSettings = {
+  sessionBudget: 0.5,
+  dailyBudget: 2,
+  warnAt: 0.8,
+  analysisThinkingBudget: 8192,
+  prices: DEFAULT_PRICES,
+  rateLimits: {},
+};
+
+// Rate limits are counted over a sliding minute
+export const RATE_WINDOW_MS = 60000;
+
+export const USAGE_FEATURES: Record<UsageFeature, { label: string; icon: string }> = {
+  live: { label: 'Live conversation', icon: '🎙️' },
+  analysis: { label: 'Analysis', icon: '📊' },
+  topics: { label: 'Topic search', icon: '📰' },
+  summary: { label: 'Conversation memory', icon: '🧠' },
+  tts: { label: 'Read aloud', icon: '🔊' },
+};
+
+const TOKEN_FIELDS: (keyof TokenCounts)[] = ['inputText', 'inputAudio', 'outputText', 'outputAudio'];
+
+/**
+ * The usage fields shared by `generateContent` responses and live messages;
+ * the former report output as candidates, the latter as response tokens.
+ */
+export interface UsageMetadataLike {
+  promptTokenCount?: number;
+  toolUsePromptTokenCount?: number;
+  candidatesTokenCount?: number;
+  responseTokenCount?: number;
+  thoughtsTokenCount?: number;
+  promptTokensDetails?: { modality?: string; tokenCount?: number }[];
+  candidatesTokensDetails?: { modality?: string; tokenCount?: number }[];
+  responseTokensDetails?: { modality?: string; tokenCount?: number }[];
+}
+
+const audioTokens = (details: UsageMetadataLike['promptTokensDetails']): number =>
+  (details ?? []).reduce((sum, detail) => sum + (detail.modality === 'AUDIO' ? detail.tokenCount ?? 0 : 0), 0);
+
+/** Splits reported usage into the token counts that are priced separately. */
+export function countTokens(usage: UsageMetadataLike): TokenCounts {
+  const input = (usage.promptTokenCount ?? 0) + (usage.toolUsePromptTokenCount ?? 0);
+  const output = (usage.candidatesTokenCount ?? usage.responseTokenCount ?? 0) + (usage.thoughtsTokenCount ?? 0);
+  const inputAudio = Math.min(input, audioTokens(usage.promptTokensDetails));
+  const outputAudio = Math.min(output, audioTokens(usage.candidatesTokensDetails ?? usage.responseTokensDetails));
+  return { inputText: input - inputAudio, inputAudio, outputText: output - outputAudio, outputAudio };
+}
+
+export const totalTokens = (counts: TokenCounts): number =>
+  TOKEN_FIELDS.reduce((sum, field) => sum + counts[field], 0);
+
+/** Cost in USD; zero for a model missing from the price table. */
+export function estimateCost(counts: TokenCounts, price: ModelPrice | undefined): number {
+  if (!price) return 0;
+  return TOKEN_FIELDS.reduce((sum, field) => sum + (counts[field] * price[field]) / 1_000_000, 0);
+}
+
+export const totalCost = (records: UsageRecord[], prices: Record<string, ModelPrice>): number =>
+  records.reduce((sum, record) => sum + estimateCost(record, prices[record.model]), 0);
+
+export interface FeatureUsage {
+  calls: number;
+  tokens: number;
+  cost: number;
+}
+
+export interface UsageBreakdown {
+  byFeature: Record<UsageFeature, FeatureUsage>;
+  total: FeatureUsage;
+  /** Models that were used but have no price, so the cost is underestimated. */
+  unpricedModels: string[];
+}
+
+export function summarizeUsage(records: UsageRecord[], prices: Record<string, ModelPrice>): UsageBreakdown {
+  const empty = (): FeatureUsage => ({ calls: 0, tokens: 0, cost: 0 });
+  const byFeature = Object.fromEntries(
+    (Object.keys(USAGE_FEATURES) as UsageFeature[]).map(feature => [feature, empty()])
+  ) as Record<UsageFeature, FeatureUsage>;
+  const total = empty();
+  const unpriced = new Set<string>();
+
+  records.forEach(record => {
+    const tokens = totalTokens(record);
+    const cost = estimateCost(record, prices[record.model]);
+    if (!prices[record.model]) unpriced.add(record.model);
+    [byFeature[record.feature], total].forEach(usage => {
+      usage.calls++;
+      usage.tokens += tokens;
+      usage.cost += cost;
+    });
+  });
+
+  return { byFeature, total, unpricedModels: [...unpriced] };
+}
+
+const STATUS_ORDER: BudgetStatus[] = ['ok', 'warning', 'exceeded'];
+
+export function budgetStatus(spent: number, budget: number | null, warnAt: number): BudgetStatus {
+  if (budget === null) return 'ok';
+  if (spent >= budget) return 'exceeded';
+  return spent >= budget * warnAt ? 'warning' : 'ok';
+}
+
+export interface BudgetCheck {
+  spent: number;
+  budget: number | null;
+  status: BudgetStatus;
+}
+
+export interface UsageBudgets {
+  session: BudgetCheck;
+  daily: BudgetCheck;
+  /** The worse of the two. */
+  status: BudgetStatus;
+}
+
+/** Checks the spending of the current session and of today against the budgets. */
+export function checkBudgets(sessionRecords: UsageRecord[], todayRecords: UsageRecord[], settings: UsageSettings): UsageBudgets {
+  const check = (records: UsageRecord[], budget: number | null): BudgetCheck => {
+    const spent = totalCost(records, settings.prices);
+    return { spent, budget, status: budgetStatus(spent, budget, settings.warnAt) };
+  };
+  const session = check(sessionRecords, settings.sessionBudget);
+  const daily = check(todayRecords, settings.dailyBudget);
+  const status = STATUS_ORDER[Math.max(STATUS_ORDER.indexOf(session.status), STATUS_ORDER.indexOf(daily.status))];
+  return { session, daily, status };
+}
+
+export interface ModelRate {
+  model: string;
+  /** Requests and tokens in the last minute. */
+  requests: number;
+  tokens: number;
+  limit: RateLimit | null;
+  /** The worse of the two limits. */
+  status: BudgetStatus;
+}
+
+/** Requests and tokens of each model in the minute before `now`, against its limits. */
+export function summarizeRates(
+  requests: ModelRequest[],
+  records: UsageRecord[],
+  settings: Pick<UsageSettings, 'rateLimits' | 'warnAt'>,
+  now: number
+): ModelRate[] {
+  const since = now - RATE_WINDOW_MS;
+  const rates = new Map<string, ModelRate>();
+  const rateOf = (model: string) => {
+    let rate = rates.get(model);
+    if (!rate) {
+      rate = { model, requests: 0, tokens: 0, limit: settings.rateLimits[model] ?? null, status: 'ok' };
+      rates.set(model, rate);
+    }
+    return rate;
+  };
+
+  requests.forEach(request => { if (request.at > since) rateOf(request.model).requests++; });
+  records.forEach(record => { if (record.at > since) rateOf(record.model).tokens += totalTokens(record); });
+
+  return [...rates.values()].map(rate => {
+    const byRequests = budgetStatus(rate.requests, rate.limit?.requestsPerMinute ?? null, settings.warnAt);
+    const byTokens = budgetStatus(rate.tokens, rate.limit?.tokensPerMinute ?? null, settings.warnAt);
+    return { ...rate, status: STATUS_ORDER[Math.max(STATUS_ORDER.indexOf(byRequests), STATUS_ORDER.indexOf(byTokens))] };
+  });
+}
+
+/**
+ * What to tell the learner about the budgets: null while both are fine,
+ * otherwise a line about the one that is used up or, failing that, nearly so.
+ */
+export function budgetNotice(budgets: UsageBudgets): string | null {
+  const scopes = [
+    { name: 'this session', check: budgets.session },
+    { name: 'today', check: budgets.daily },
+  ];
+  const exceeded = scopes.find(scope => scope.check.status === 'exceeded');
+  if (exceeded) {
+    return `The usage budget for ${exceeded.name} (${formatCost(exceeded.check.budget ?? 0)}) is used up. ` +
+      'The tutor is paused until you raise it in the usage panel.';
+  }
+  const warning = scopes.find(scope => scope.check.status === 'warning');
+  if (warning) {
+    return `${formatCost(warning.check.spent)} of the ${formatCost(warning.check.budget ?? 0)} usage budget for ${warning.name} is used.`;
+  }
+  return null;
+}
+
+/** Formats a cost in USD, with more precision for the fractions of a cent single calls cost. */
+export function formatCost(usd: number): string {
+  if (usd === 0) return '$0.00';
+  if (usd < 0.01) return `$${usd.toFixed(4)}`;
+  return `$${usd.toFixed(2)}`;
+}
+
+const asBudget = (value: unknown, fallback: number | null): number | null => {
+  if (value === null) return null;
+  return typeof value === 'number' && Number.isFinite(value) && value > 0 ? value : fallback;
+};
+
+const isRate = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value >= 0;
+
+const asPrice = (value: unknown): ModelPrice | null => {
+  if (!isRecord(value)) return null;
+  const { inputText, inputAudio, outputText, outputAudio } = value;
+  if (!isRate(inputText) || !isRate(inputAudio) || !isRate(outputText) || !isRate(outputAudio)) return null;
+  return { inputText, inputAudio, outputText, outputAudio };
+};
+
+const asRateLimit = (value: unknown): RateLimit | null => {
+  if (!isRecord(value)) return null;
+  const limit = { requestsPerMinute: asBudget(value.requestsPerMinute, null), tokensPerMinute: asBudget(value.tokensPerMinute, null) };
+  return limit.requestsPerMinute === null && limit.tokensPerMinute === null ? null : limit;
+};
+
+/** Restores stored usage settings, falling back to the defaults field by field. */
+export function coerceUsageSettings(value: unknown): UsageSettings {
+  if (!isRecord(value)) return DEFAULT_USAGE_SETTINGS;
+  const warnAt = typeof value.warnAt === 'number' && value.warnAt > 0 && value.warnAt < 1 ? value.warnAt : DEFAULT_USAGE_SETTINGS.warnAt;
+  const thinking = ANALYSIS_THINKING_BUDGETS.find(option => option.budget === value.analysisThinkingBudget);
+
+  // Stored prices override the defaults model by model; models added since keep their default
+  const prices = { ...DEFAULT_PRICES };
+  if (isRecord(value.prices)) {
+    Object.entries(value.prices).forEach(([model, price]) => {
+      const coerced = asPrice(price);
+      if (coerced) prices[model] = coerced;
+    });
+  }
+
+  const rateLimits: Record<string, RateLimit> = {};
+  if (isRecord(value.rateLimits)) {
+    Object.entries(value.rateLimits).forEach(([model, limit]) => {
+      const coerced = asRateLimit(limit);
+      if (coerced) rateLimits[model] = coerced;
+    });
+  }
+
+  return {
+    sessionBudget: asBudget(value.sessionBudget, DEFAULT_USAGE_SETTINGS.sessionBudget),
+    dailyBudget: asBudget(value.dailyBudget, DEFAULT_USAGE_SETTINGS.dailyBudget),
+    warnAt,
+    analysisThinkingBudget: thinking?.budget ?? DEFAULT_USAGE_SETTINGS.analysisThinkingBudget,
+    prices,
+    rateLimits,
+  };
+}
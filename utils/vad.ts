@@ -0,0 +1,153 @@
+/**
+ * Energy-based voice activity detector.
+ *
+ * Each frame's level (dBFS) is compared against an adaptive noise floor:
+ * speech starts after `onsetFrames` consecutive frames above the start
+ * threshold and ends after `hangoverFrames` consecutive frames below the
+ * (lower) end threshold. The gap between the two thresholds is the hysteresis
+ * that keeps the detector from flickering on words with soft endings.
+ * The detector is fully deterministic: same frames in, same events out.
+ */
+
+export type VadEventType = 'speech-start' | 'speech-end';
+
+export interface VadEvent {
+  type: VadEventType;
+  /** Index of the frame that triggered the event. */
+  frame: number;
+}
+
+export interface VadOptions {
+  /** dB above the noise floor a frame must reach to count towards speech onset. */
+  startThresholdDb: number;
+  /** dB above the noise floor a frame must stay above to keep speech going. */
+  endThresholdDb: number;
+  /** Absolute level (dBFS) below which a frame is never speech. */
+  minSpeechDb: number;
+  /** Consecutive loud frames required before speech-start. */
+  onsetFrames: number;
+  /** Consecutive quiet frames required before speech-end. */
+  hangoverFrames: number;
+  /** Frames at the start used only to measure the noise floor (quietest frame wins). */
+  calibrationFrames: number;
+  /** Noise floor assumed before calibration. */
+  initialNoiseDb: number;
+  /** Smoothing factor when the noise floor rises (slow, so speech does not leak in). */
+  noiseRiseRate: number;
+  /** Smoothing factor when the noise floor falls (fast). */
+  noiseFallRate: number;
+  /** Very slow noise tracking during speech, so a permanent noise increase cannot hold speech open forever. */
+  speechNoiseRiseRate: number;
+}
+
+// Tuned for 20-40ms frames of echo-cancelled microphone input
+export const DEFAULT_VAD_OPTIONS: VadOptions = {
+  startThresholdDb: 12,
+  endThresholdDb: 6,
+  minSpeechDb: -50,
+  onsetFrames: 3,
+  hangoverFrames: 10,
+  calibrationFrames: 8,
+  initialNoiseDb: -60,
+  noiseRiseRate: 0.05,
+  noiseFallRate: 0.3,
+  speechNoiseRiseRate: 0.01,
+};
+
+const SILENCE_DB = -100;
+
+/** Root-mean-square level of a frame in dBFS (full scale = 0 dB). */
+export function frameLevelDb(frame: Float32Array): number {
+  if (frame.length === 0) return SILENCE_DB;
+  let sum = 0;
+  for (let i = 0; i < frame.length; i++) sum += frame[i] * frame[i];
+  const rms = Math.sqrt(sum / frame.length);
+  return rms > 0 ? Math.max(SILENCE_DB, 20 * Math.log10(rms)) : SILENCE_DB;
+}
+
+export class VoiceActivityDetector {
+  private readonly options: VadOptions;
+  private noiseDb: number;
+  private speaking = false;
+  private onsetCount = 0;
+  private hangoverCount = 0;
+  private frameIndex = 0;
+  private lastLevelDb = SILENCE_DB;
+
+  constructor(options: Partial<VadOptions> = {}) {
+    this.options = { ...DEFAULT_VAD_OPTIONS, ...options };
+    this.noiseDb = this.options.initialNoiseDb;
+  }
+
+  get isSpeaking(): boolean {
+    return this.speaking;
+  }
+
+  get noiseFloorDb(): number {
+    return this.noiseDb;
+  }
+
+  get levelDb(): number {
+    return this.lastLevelDb;
+  }
+
+  /** Feeds one frame; returns the state change it caused, if any. */
+  process(frame: Float32Array): VadEvent | null {
+    const { options } = this;
+    const level = frameLevelDb(frame);
+    const index = this.frameIndex++;
+    this.lastLevelDb = level;
+
+    if (index < options.calibrationFrames) {
+      this.noiseDb = index === 0 ? level : Math.min(this.noiseDb, level);
+      return null;
+    }
+
+    if (!this.speaking) {
+      const loud = level >= Math.max(this.noiseDb + options.startThresholdDb, options.minSpeechDb);
+      if (loud) {
+        this.onsetCount++;
+        if (this.onsetCount >= options.onsetFrames) {
+          this.speaking = true;
+          this.onsetCount = 0;
+          this.hangoverCount = 0;
+          return { type: 'speech-start', frame: index };
+        }
+      } else {
+        this.onsetCount = 0;
+        this.trackNoise(level, level > this.noiseDb ? options.noiseRiseRate : options.noiseFallRate);
+      }
+      return null;
+    }
+
+    const active = level >= Math.max(this.noiseDb + options.endThresholdDb, options.minSpeechDb);
+    if (level > this.noiseDb) {
+      this.trackNoise(level, options.speechNoiseRiseRate);
+    }
+    if (active) {
+      this.hangoverCount = 0;
+      return null;
+    }
+
+    this.hangoverCount++;
+    if (this.hangoverCount >= options.hangoverFrames) {
+      this.speaking = false;
+      this.hangoverCount = 0;
+      return { type: 'speech-end', frame: index };
+    }
+    return null;
+  }
+
+  reset(): void {
+    this.noiseDb = this.options.initialNoiseDb;
+    this.speaking = false;
+    this.onsetCount = 0;
+    this.hangoverCount = 0;
+    this.frameIndex = 0;
+    this.lastLevelDb = SILENCE_DB;
+  }
+
+  private trackNoise(level: number, rate: number) {
+    this.noiseDb += rate * (level - this.noiseDb);
+  }
+}
@@ -0,0 +1,209 @@
+import { ChatMessage, ProficiencyLevel, Sender, VocabularyEntry } from '../types';
+import { CEFR_LEVELS } from './analysis';
+import { stripCorrections } from './corrections';
+import { WORD_LIST_LEVELS, WORD_LISTS, WordListLevel } from './wordLists';
+
+export type Speaker = 'learner' | 'tutor';
+
+/** Occurrences per stem in a piece of text, with the surface forms that were used. */
+export type StemCounts = Map<string, { count: number; forms: string[] }>;
+
+export interface WordListCoverage {
+  level: WordListLevel;
+  total: number;
+  used: number;
+  /** 0–100. */
+  percent: number;
+  /** Listed words the learner has not used yet, in list order. */
+  missing: string[];
+}
+
+const VOWELS = new Set('aeiouyäöü');
+// Consonants after which a final -s / -st is an inflection rather than part of the stem
+const S_ENDINGS = new Set('bdfghklmnrt');
+const ST_ENDINGS = new Set('bdfghklmnt');
+const STEP1_SUFFIXES = ['ern', 'em', 'er', 'en', 'es', 'e'];
+const STEP2_SUFFIXES = ['est', 'en', 'er'];
+const MAX_FORMS = 6;
+const WORD_REGEX = /\p{L}+(?:-\p{L}+)*/gu;
+
+// Start of the region after the first vowel-consonant pair, but never before the fourth letter
+const regionOneStart = (word: string): number => {
+  for (let i = 1; i < word.length; i++) {
+    if (!VOWELS.has(word[i]) && VOWELS.has(word[i - 1])) return Math.max(3, i + 1);
+  }
+  return word.length;
+};
+
+/**
+ * Strips common inflection endings, a trimmed-down Snowball German stemmer:
+ * "Kinder" → "kind", "Häuser" → "haus", "schönen" → "schon". Umlauts are
+ * folded last, so singular and umlauted plural share a stem.
+ */
+export function stemWord(word: string): string {
+  let stem = word.normalize('NFC').toLowerCase().replace(/ß/g, 'ss');
+  const r1 = regionOneStart(stem);
+  const inRegion = (suffix: string) => stem.length - suffix.length >= r1;
+
+  const step1 = STEP1_SUFFIXES.find(suffix => stem.endsWith(suffix));
+  if (step1) {
+    if (inRegion(step1)) stem = stem.slice(0, -step1.length);
+  } else if (stem.endsWith('s') && S_ENDINGS.has(stem[stem.length - 2]) && inRegion('s')) {
+    stem = stem.slice(0, -1);
+  }
+
+  const step2 = STEP2_SUFFIXES.find(suffix => stem.endsWith(suffix));
+  if (step2) {
+    if (inRegion(step2)) stem = stem.slice(0, -step2.length);
+  } else if (stem.endsWith('st') && ST_ENDINGS.has(stem[stem.length - 3]) && stem.length >= 6 && inRegion('st')) {
+    stem = stem.slice(0, -2);
+  }
+
+  return stem.replace(/ä/g, 'a').replace(/ö/g, 'o').replace(/ü/g, 'u');
+}
+
+/** Lower-cased words of a transcript; single letters and numbers are skipped. */
+export function tokenize(text: string): string[] {
+  return (text.normalize('NFC').match(WORD_REGEX) ?? [])
+    .map(word => word.toLowerCase())
+    .filter(word => word.length > 1);
+}
+
+export function countStems(text: string): StemCounts {
+  const counts: StemCounts = new Map();
+  tokenize(text).forEach(form => {
+    const stem = stemWord(form);
+    const existing = counts.get(stem);
+    if (existing) {
+      existing.count++;
+      if (!existing.forms.includes(form)) existing.forms.push(form);
+    } else {
+      counts.set(stem, { count: 1, forms: [form] });
+    }
+  });
+  return counts;
+}
+
+/**
+ * The words a message uses. A tutor reply quotes the learner's wrong sentence
+ * in its corrections, so only the corrected side of those counts for the tutor.
+ */
+export function countMessageStems(message: ChatMessage): StemCounts {
+  if (message.sender !== Sender.MODEL || !message.corrections?.length) return countStems(message.text);
+  return countStems([stripCorrections(message.text), ...message.corrections.map(c => c.corrected)].join('\n'));
+}
+
+/** What `next` adds on top of `previous`, e.g. the new words of a transcript that is still growing. */
+export function diffStemCounts(previous: StemCounts | undefined, next: StemCounts): StemCounts {
+  if (!previous) return next;
+  const added: StemCounts = new Map();
+  next.forEach((usage, stem) => {
+    const extra = usage.count - (previous.get(stem)?.count ?? 0);
+    if (extra > 0) added.set(stem, { count: extra, forms: usage.forms });
+  });
+  return added;
+}
+
+/** Returns the lexicon entries that change when `speaker` uses the counted words at `at`. */
+export function recordUsage(
+  lexicon: Record<string, VocabularyEntry>,
+  counts: StemCounts,
+  speaker: Speaker,
+  at: number
+): VocabularyEntry[] {
+  return Array.from(counts.entries()).map(([stem, usage]) => {
+    const entry = lexicon[stem] ?? { stem, forms: [], count: 0, tutorCount: 0 };
+    const forms = [...entry.forms, ...usage.forms.filter(form => !entry.forms.includes(form))].slice(0, MAX_FORMS);
+
+    if (speaker === 'tutor') {
+      return { ...entry, forms, tutorCount: entry.tutorCount + usage.count, tutorLastUsedAt: at };
+    }
+    return {
+      ...entry,
+      forms,
+      count: entry.count + usage.count,
+      firstSeenAt: entry.firstSeenAt ?? at,
+      lastUsedAt: at,
+    };
+  });
+}
+
+/**
+ * Adds a word the tutor introduced on purpose. Articles and other leading
+ * words are skipped ("der Bahnhof" is filed under "bahnhof"). Returns null
+ * when there is no word to file.
+ */
+export function introduceWord(
+  lexicon: Record<string, VocabularyEntry>,
+  word: string,
+  translation: string | undefined,
+  at: number
+): VocabularyEntry | null {
+  const tokens = tokenize(word);
+  const form = tokens[tokens.length - 1];
+  if (!form) return null;
+
+  const stem = stemWord(form);
+  const entry = lexicon[stem] ?? { stem, forms: [], count: 0, tutorCount: 0 };
+  return {
+    ...entry,
+    forms: entry.forms.includes(form) ? entry.forms : [...entry.forms, form].slice(0, MAX_FORMS),
+    introducedAt: entry.introducedAt ?? at,
+    ...(translation ? { translation } : {}),
+  };
+}
+
+let wordListStems: Map<string, WordListLevel> | null = null;
+
+/** Level of the word list a stem first appears in, or null when it is not listed. */
+export function getWordListLevel(stem: string): WordListLevel | null {
+  if (!wordListStems) {
+    wordListStems = new Map();
+    for (const level of WORD_LIST_LEVELS) {
+      WORD_LISTS[level].forEach(word => {
+        const listed = stemWord(word);
+        if (!wordListStems!.has(listed)) wordListStems!.set(listed, level);
+      });
+    }
+  }
+  return wordListStems.get(stem) ?? null;
+}
+
+/** How much of each bundled word list the learner has used themselves. */
+export function measureCoverage(entries: VocabularyEntry[]): WordListCoverage[] {
+  const used = new Set(entries.filter(entry => entry.count > 0).map(entry => entry.stem));
+
+  return WORD_LIST_LEVELS.map(level => {
+    const words = WORD_LISTS[level].filter(word => getWordListLevel(stemWord(word)) === level);
+    const missing = words.filter(word => !used.has(stemWord(word)));
+    const usedCount = words.length - missing.length;
+    return {
+      level,
+      total: words.length,
+      used: usedCount,
+      percent: words.length === 0 ? 0 : Math.round((usedCount / words.length) * 100),
+      missing,
+    };
+  });
+}
+
+/**
+ * Words the tutor has used but the learner never has. Words the tutor
+ * introduced on purpose come first, then listed words up to one level above
+ * the learner's, then by how often the tutor used them.
+ */
+export function getWordsToPush(entries: VocabularyEntry[], level: ProficiencyLevel, limit: number = 12): VocabularyEntry[] {
+  const ceiling = CEFR_LEVELS.indexOf(level) + 1;
+  const rank = (entry: VocabularyEntry) => {
+    if (entry.introducedAt !== undefined) return -1;
+    const listed = getWordListLevel(entry.stem);
+    if (!listed) return WORD_LIST_LEVELS.length + 1;
+    const index = CEFR_LEVELS.indexOf(listed);
+    return index <= ceiling ? index : WORD_LIST_LEVELS.length;
+  };
+
+  return entries
+    .filter(entry => entry.count === 0 && (entry.tutorCount > 0 || entry.introducedAt !== undefined) && entry.stem.length > 2)
+    .sort((a, b) => rank(a) - rank(b) || b.tutorCount - a.tutorCount || a.stem.localeCompare(b.stem))
+    .slice(0, limit);
+}
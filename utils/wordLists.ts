@@ -0,0 +1,66 @@
+import { ProficiencyLevel } from '../types';
+
+export type WordListLevel = Exclude<ProficiencyLevel, 'C1'>;
+
+export const WORD_LIST_LEVELS: WordListLevel[] = ['A1', 'A2', 'B1', 'B2'];
+
+// Core vocabulary per level, lemma forms only. Each level lists what is new at that level,
+// loosely following the Goethe-Institut word lists.
+export const WORD_LISTS: Record<WordListLevel, string[]> = {
+  A1: [
+    'ich', 'du', 'er', 'sie', 'wir', 'ihr', 'und', 'oder', 'aber', 'nicht', 'ja', 'nein', 'bitte', 'danke',
+    'sein', 'haben', 'werden', 'können', 'müssen', 'wollen', 'möchten', 'machen', 'gehen', 'kommen', 'sehen',
+    'sagen', 'fragen', 'antworten', 'heißen', 'wohnen', 'arbeiten', 'lernen', 'sprechen', 'lesen', 'schreiben',
+    'hören', 'essen', 'trinken', 'kaufen', 'kosten', 'brauchen', 'finden', 'geben', 'nehmen', 'fahren', 'spielen',
+    'schlafen', 'kochen', 'verstehen', 'wissen', 'Name', 'Frau', 'Mann', 'Kind', 'Familie', 'Mutter', 'Vater',
+    'Bruder', 'Schwester', 'Freund', 'Haus', 'Wohnung', 'Zimmer', 'Küche', 'Stadt', 'Land', 'Straße', 'Schule',
+    'Arbeit', 'Tag', 'Woche', 'Monat', 'Jahr', 'Zeit', 'Uhr', 'Stunde', 'Morgen', 'Abend', 'Nacht', 'heute',
+    'morgen', 'gestern', 'jetzt', 'immer', 'oft', 'gern', 'hier', 'dort', 'gut', 'schlecht', 'groß', 'klein',
+    'neu', 'alt', 'schön', 'teuer', 'billig', 'viel', 'wenig', 'Wasser', 'Kaffee', 'Tee', 'Brot', 'Bahnhof',
+    'Bus', 'Zug', 'Auto', 'Geld', 'Wetter', 'Hallo', 'Tschüss', 'wie', 'was', 'wo', 'wer', 'wann', 'warum',
+  ],
+  A2: [
+    'Urlaub', 'Reise', 'Hotel', 'Flughafen', 'Ticket', 'Termin', 'Arzt', 'Krankenhaus', 'Apotheke', 'Gesundheit',
+    'Kopf', 'Bauch', 'krank', 'gesund', 'Beruf', 'Firma', 'Kollege', 'Chef', 'Büro', 'Stelle', 'Bewerbung',
+    'Ausbildung', 'Prüfung', 'Sprache', 'Kurs', 'Wochenende', 'Geburtstag', 'Fest', 'Geschenk', 'Einladung',
+    'Regen', 'Sonne', 'Schnee', 'warm', 'kalt', 'Kleidung', 'Hose', 'Hemd', 'Schuh', 'Farbe',
+    'Größe', 'Supermarkt', 'Markt', 'Preis', 'Angebot', 'Rechnung', 'Miete', 'Nachbar', 'Garten', 'Balkon',
+    'Möbel', 'Hobby', 'Sport', 'Musik', 'Film', 'Kino', 'Buch', 'Zeitung', 'Nachricht', 'Handy', 'Computer',
+    'Internet', 'anrufen', 'einkaufen', 'aufstehen', 'anfangen', 'aufhören', 'bekommen', 'bezahlen', 'bleiben',
+    'bringen', 'denken', 'erklären', 'erzählen', 'feiern', 'gefallen', 'glauben', 'helfen', 'kennen', 'laufen',
+    'lieben', 'mögen', 'öffnen', 'schließen', 'suchen', 'treffen', 'vergessen', 'verkaufen', 'warten',
+    'wünschen', 'zeigen', 'besuchen', 'bestellen', 'reservieren', 'weil', 'dass', 'wenn', 'deshalb', 'trotzdem',
+    'vielleicht', 'zusammen', 'allein', 'früh', 'spät', 'schnell', 'langsam', 'wichtig', 'interessant',
+    'langweilig', 'zufrieden', 'müde', 'glücklich', 'traurig',
+  ],
+  B1: [
+    'Erfahrung', 'Meinung', 'Vorteil', 'Nachteil', 'Entscheidung', 'Möglichkeit', 'Problem', 'Lösung', 'Grund',
+    'Ziel', 'Erfolg', 'Gefühl', 'Beziehung', 'Gesellschaft', 'Umwelt', 'Natur', 'Klima', 'Energie', 'Verkehr',
+    'Unfall', 'Versicherung', 'Vertrag', 'Gehalt', 'Kündigung', 'Verantwortung', 'Aufgabe', 'Veranstaltung',
+    'Ausstellung', 'Verein', 'Ehrenamt', 'Werbung', 'Medien', 'Politik', 'Regierung', 'Gesetz',
+    'Behörde', 'Formular', 'Antrag', 'Unterschrift', 'Gebühr', 'Erlaubnis', 'Vorschlag', 'Beschwerde',
+    'Entschuldigung', 'Zukunft', 'Vergangenheit', 'Gewohnheit', 'Ernährung', 'Bewegung', 'abhängen', 'ablehnen',
+    'achten', 'ändern', 'ärgern', 'ausprobieren', 'beantragen', 'bedeuten', 'beraten', 'beschreiben',
+    'beschweren', 'bewerben', 'diskutieren', 'empfehlen', 'entscheiden', 'entwickeln', 'erfahren', 'erinnern',
+    'erreichen', 'erwarten', 'freuen', 'gewinnen', 'kümmern', 'leisten', 'meinen', 'überzeugen', 'unterstützen',
+    'verbessern', 'verbrauchen', 'vergleichen', 'verlieren', 'vermeiden', 'verschieben', 'vorbereiten',
+    'vorstellen', 'wiederholen', 'zustimmen', 'obwohl', 'damit', 'nachdem', 'bevor', 'während', 'sondern',
+    'außerdem', 'jedoch', 'allerdings', 'eigentlich', 'ziemlich', 'wahrscheinlich', 'sicher', 'möglich',
+    'notwendig', 'selbstständig', 'höflich', 'ehrlich', 'neugierig', 'geduldig',
+  ],
+  B2: [
+    'Auswirkung', 'Bedingung', 'Begriff', 'Bereich', 'Bedeutung', 'Einfluss', 'Entwicklung', 'Ergebnis',
+    'Forschung', 'Herausforderung', 'Maßnahme', 'Nachhaltigkeit', 'Ursache', 'Voraussetzung', 'Vorurteil',
+    'Wirtschaft', 'Wettbewerb', 'Wohlstand', 'Zusammenhang', 'Zustand', 'Anspruch', 'Aufwand', 'Ausnahme',
+    'Beitrag', 'Debatte', 'Umfrage', 'Studie', 'Gleichberechtigung', 'Integration', 'Digitalisierung',
+    'Arbeitslosigkeit', 'Bevölkerung', 'Einkommen', 'Verbraucher', 'Verhalten', 'Verhältnis', 'Vielfalt',
+    'Widerspruch', 'Kompromiss', 'Konsequenz', 'abwägen', 'anerkennen', 'auseinandersetzen', 'ausgehen',
+    'beeinflussen', 'begründen', 'behaupten', 'beitragen', 'berücksichtigen', 'beurteilen', 'bewältigen',
+    'bezweifeln', 'durchsetzen', 'einschätzen', 'ermöglichen', 'fördern', 'gewährleisten', 'hervorheben',
+    'hinweisen', 'nachweisen', 'übernehmen', 'überwiegen', 'umsetzen', 'verdeutlichen', 'verhindern',
+    'verzichten', 'voraussetzen', 'widersprechen', 'zunehmen', 'zurückführen', 'angesichts', 'hinsichtlich',
+    'infolge', 'trotz', 'aufgrund', 'bezüglich', 'einerseits', 'andererseits', 'demnach', 'folglich',
+    'inzwischen', 'keineswegs', 'zumindest', 'durchaus', 'erheblich', 'vermutlich', 'angemessen', 'umstritten',
+    'vorhanden', 'zuverlässig', 'nachhaltig', 'öffentlich', 'gesellschaftlich', 'wesentlich', 'offensichtlich',
+  ],
+};